@@ -0,0 +1,38 @@
+import { Integrity } from "./v1/Integrity";
+import DatabaseBuilder from "./v1/utils/DatabaseBuilder";
+
+/**
+ * Command line utility to report rows referencing a missing row.
+ *
+ * Usage:
+ *  npm run integrity               report orphan rows
+ *  npm run integrity -- --repair   report and repair orphan rows
+ */
+async function run(repair: boolean) {
+    const reports = repair ? await Integrity.repairIntegrity() : await Integrity.checkIntegrity();
+
+    console.table(
+        reports.map(({ key, orphans, repaired }) => ({
+            reference: `${key.table}.${key.column} -> ${key.references}.id`,
+            onDelete: key.onDelete,
+            orphans,
+            repaired,
+        }))
+    );
+
+    const remaining = reports.reduce(
+        (total, report) => total + report.orphans - report.repaired,
+        0
+    );
+    if (remaining > 0) {
+        console.log(`${remaining} orphan rows remain.`);
+        process.exitCode = 1;
+    }
+}
+
+run(process.argv.includes("--repair"))
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => DatabaseBuilder.destroy());
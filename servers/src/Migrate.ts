@@ -0,0 +1,50 @@
+import { Migration } from "./v1/Migration";
+import DatabaseBuilder from "./v1/utils/DatabaseBuilder";
+
+/**
+ * Command line utility to manage database migrations.
+ *
+ * Usage:
+ *  npm run migrate -- latest          apply all pending migrations
+ *  npm run migrate -- to <version>    migrate up or down to a version (0 reverts all)
+ *  npm run migrate -- rollback        revert the last batch of migrations
+ *  npm run migrate -- status          list applied and pending migrations
+ */
+async function run(command: string, version?: string) {
+    switch (command) {
+        case "latest": {
+            await Migration.migrateToLatest();
+            break;
+        }
+        case "to": {
+            if (version === undefined) {
+                throw new Error("Missing target version, e.g. `migrate to 001`");
+            }
+            await Migration.migrateTo(version);
+            break;
+        }
+        case "rollback": {
+            await Migration.rollback();
+            break;
+        }
+        case "status": {
+            const { completed, pending } = await Migration.getStatus();
+            console.log(`Applied migrations (${completed.length}):`);
+            completed.forEach((name) => console.log(`  ${name}`));
+            console.log(`Pending migrations (${pending.length}):`);
+            pending.forEach((name) => console.log(`  ${name}`));
+            break;
+        }
+        default: {
+            throw new Error(`Unknown migrate command: ${command}`);
+        }
+    }
+    console.log(`Current version: ${await Migration.getCurrentVersion()}`);
+}
+
+run(process.argv[2], process.argv[3])
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => DatabaseBuilder.destroy());
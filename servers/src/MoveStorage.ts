@@ -0,0 +1,31 @@
+import { isStorageDriver, Storage } from "./v1/Storage";
+import DatabaseBuilder from "./v1/utils/DatabaseBuilder";
+
+/**
+ * Command line utility to move the resource files, with their derivatives,
+ * from a storage driver to another. The drivers are configured as for the
+ * server, e.g. UPLOAD_DIR for `local` and S3_* for `s3`.
+ *
+ * Usage:
+ *  npm run storage -- local s3   move the files from the local disk into the bucket
+ *  npm run storage -- s3 local   move the files from the bucket into the local disk
+ */
+async function run(from: string, to: string) {
+    if (!isStorageDriver(from) || !isStorageDriver(to)) {
+        throw new Error("Unsupported storage drivers, e.g. `storage local s3`");
+    }
+
+    const report = await Storage.moveResources(from, to);
+    console.log(`Moved ${report.resources} resource and ${report.derivatives} derivative files.`);
+    if (report.missing > 0) {
+        console.log(`${report.missing} files are missing in the ${from} storage.`);
+        process.exitCode = 1;
+    }
+}
+
+run(process.argv[2], process.argv[3])
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => DatabaseBuilder.destroy());
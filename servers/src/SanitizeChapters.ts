@@ -0,0 +1,39 @@
+import { Sanitization } from "./v1/Sanitization";
+import DatabaseBuilder from "./v1/utils/DatabaseBuilder";
+
+/**
+ * Command line utility to sanitize the blocks of the text chapters which
+ * were stored before (or with other rules than) the current sanitizer.
+ *
+ * Usage:
+ *  npm run sanitize               report unsafe blocks and outdated word counts
+ *  npm run sanitize -- --repair   sanitize the blocks and refresh the word counts
+ */
+async function run(repair: boolean) {
+    const reports = repair
+        ? await Sanitization.sanitizeChapters()
+        : await Sanitization.checkChapters();
+
+    console.table(
+        reports.map(({ chapterId, unsafeBlocks, sanitized, statistics, outdatedStatistics }) => ({
+            chapter: chapterId,
+            unsafeBlocks,
+            sanitized,
+            wordCount: statistics.wordCount,
+            readingTime: statistics.readingTime,
+            outdatedStatistics,
+        }))
+    );
+
+    if (!repair && reports.length > 0) {
+        console.log(`${reports.length} chapters must be sanitized.`);
+        process.exitCode = 1;
+    }
+}
+
+run(process.argv.includes("--repair"))
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => DatabaseBuilder.destroy());
@@ -0,0 +1,89 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { Audit } from "../../v1/Audit";
+import { AuditLogController } from "../../v1/controllers/AuditLogController";
+import { AuditActionEnum, AuditTargetTypeEnum } from "../../v1/interfaces/AuditLogInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { UserController } from "../../v1/controllers/UserController";
+const expect = chai.expect;
+
+describe(`v1: Audit log`, () => {
+    let userId: number;
+
+    before(async () => {
+        const user = await UserController.createUser("audit_user", "Password1");
+        userId = user.id;
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    afterEach(async () => {
+        await DatabaseBuilder(Tables.AuditLog).delete();
+    });
+
+    it(`should keep only the changed fields and the id`, () => {
+        const changes = Audit.getChanges(
+            { id: 1, name: "old", description: "same", password: "secret" },
+            { id: 1, name: "new", description: "same", password: "other" }
+        );
+
+        expect(changes).to.be.deep.equal({
+            before: { id: 1, name: "old" },
+            after: { id: 1, name: "new" },
+        });
+    });
+
+    it(`should keep a created or deleted record as a whole`, () => {
+        const changes = Audit.getChanges(null, { id: 2, path: "/tmp/a.png", size: 10 });
+
+        expect(changes).to.be.deep.equal({
+            before: null,
+            after: { id: 2, size: 10 },
+        });
+    });
+
+    it(`should record the actor and the ip of the request`, async () => {
+        const req: any = { UserRequest: { id: userId }, ip: "127.0.0.1" };
+        await Audit.record(
+            req,
+            AuditActionEnum.COMIC_UPDATE,
+            AuditTargetTypeEnum.COMIC,
+            "7",
+            { id: 7, name: "old" },
+            { id: 7, name: "new" }
+        );
+
+        const [auditLog] = await AuditLogController.getAuditLogs();
+        expect(auditLog).to.include({
+            actorId: userId,
+            action: AuditActionEnum.COMIC_UPDATE,
+            targetType: AuditTargetTypeEnum.COMIC,
+            targetId: 7,
+            ip: "127.0.0.1",
+        });
+        expect(auditLog.after).to.be.deep.equal({ id: 7, name: "new" });
+        expect(auditLog.createdAt).to.be.instanceOf(Date);
+    });
+
+    it(`should filter and paginate the records, the newest first`, async () => {
+        const req: any = { ip: "127.0.0.1" };
+        for (let i = 1; i <= 5; i++) {
+            await Audit.record(req, AuditActionEnum.CHAPTER_DELETE, AuditTargetTypeEnum.CHAPTER, i);
+        }
+        await Audit.record(req, AuditActionEnum.COMIC_DELETE, AuditTargetTypeEnum.COMIC, 1);
+
+        const filter = { action: AuditActionEnum.CHAPTER_DELETE };
+        expect(await AuditLogController.countAuditLogs(filter)).to.be.equal(5);
+        const page = await AuditLogController.getAuditLogs(filter, 2, 1);
+        expect(page.map(({ targetId }) => targetId)).to.be.deep.equal([3, 2]);
+
+        const logs = await AuditLogController.getAuditLogs({
+            targetType: AuditTargetTypeEnum.COMIC,
+            targetId: 1,
+        });
+        expect(logs).to.have.length(1);
+        expect(logs[0].actorId).to.be.null;
+    });
+});
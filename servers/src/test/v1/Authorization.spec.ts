@@ -0,0 +1,85 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { Authorization, OwnershipRules } from "../../v1/Authorization";
+import { User } from "../../v1/classes/User";
+import { UserController } from "../../v1/controllers/UserController";
+import { PermissionGroupEnum } from "../../v1/interfaces/PermissionGroupInterface";
+import { PermissionEnum } from "../../v1/interfaces/PermissionInterface";
+import { PublicationStatusEnum } from "../../v1/interfaces/PublicationInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: Authorization`, () => {
+    let author: User;
+    let other: User;
+    let mod: User;
+
+    before(async () => {
+        const createUser = async (username: string) => {
+            const { id } = await UserController.createUser(username, "Password1");
+            return new User(await UserController.getUserFromUUID(id), id);
+        };
+        author = await createUser("authz_author");
+        other = await createUser("authz_other");
+        mod = await createUser("authz_mod");
+        await UserController.updatePermissionRole(mod.id, PermissionGroupEnum.MOD);
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.User).whereIn("id", [author.id, other.id, mod.id]).delete();
+    });
+
+    it(`should let the owners modify their own content`, async () => {
+        expect(await Authorization.canModify(author, [author.id], OwnershipRules.Comment)).to.be
+            .true;
+        expect(await Authorization.canModify(other, [author.id], OwnershipRules.Comment)).to.be
+            .false;
+    });
+
+    it(`should let the moderators modify the content of other users`, async () => {
+        expect(await Authorization.canModify(mod, [author.id], OwnershipRules.Comment)).to.be.true;
+        expect(await Authorization.canModify(mod, [author.id], OwnershipRules.Review)).to.be.true;
+        expect(await Authorization.canModify(mod, [author.id], OwnershipRules.Chapter)).to.be.true;
+    });
+
+    it(`should require the own permission from the owners`, async () => {
+        // Regular users can not update comics, even their own ones
+        expect(await Authorization.canModify(author, [author.id], OwnershipRules.ComicUpdate)).to.be
+            .false;
+    });
+
+    it(`should accept any of the owners`, async () => {
+        expect(await Authorization.canModify(author, [other.id, author.id], OwnershipRules.Comment))
+            .to.be.true;
+        expect(await Authorization.canModify(author, [null], OwnershipRules.Comment)).to.be.false;
+    });
+
+    it(`should respect the scopes of the user`, async () => {
+        const scoped = new User(author, author.id);
+        scoped.scopes = [PermissionEnum.REVIEW_CREATE];
+        expect(await Authorization.canModify(scoped, [author.id], OwnershipRules.Review)).to.be
+            .true;
+        expect(await Authorization.canModify(scoped, [author.id], OwnershipRules.Comment)).to.be
+            .false;
+    });
+
+    it(`should let only the owners and the moderators view unpublished content`, async () => {
+        const rule = OwnershipRules.ComicUpdate;
+        expect(await Authorization.canViewUnpublished(author, [author.id], rule)).to.be.true;
+        expect(await Authorization.canViewUnpublished(mod, [author.id], rule)).to.be.true;
+        expect(await Authorization.canViewUnpublished(other, [author.id], rule)).to.be.false;
+        expect(await Authorization.canViewUnpublished(undefined, [author.id], rule)).to.be.false;
+    });
+
+    it(`should hide the chapters of unpublished comics`, async () => {
+        const comic: any = { postedBy: author.id, status: PublicationStatusEnum.DRAFT };
+        const chapter: any = { postedBy: author.id, status: PublicationStatusEnum.PUBLISHED };
+        expect(await Authorization.canViewComic(other, comic)).to.be.false;
+        expect(await Authorization.canViewComic(author, comic)).to.be.true;
+        expect(await Authorization.canViewChapter(undefined, comic, chapter)).to.be.false;
+        expect(await Authorization.canViewChapter(mod, comic, chapter)).to.be.true;
+
+        comic.status = PublicationStatusEnum.PUBLISHED;
+        expect(await Authorization.canViewChapter(undefined, comic, chapter)).to.be.true;
+    });
+});
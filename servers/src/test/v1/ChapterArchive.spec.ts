@@ -0,0 +1,129 @@
+import * as chai from "chai";
+import AdmZip from "adm-zip";
+import { Tables } from "./../../v1/Database";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { parseComicInfo, readChapterArchive } from "../../v1/utils/ArchiveUtils";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: Chapter archives`, () => {
+    let userId: number;
+    let comicId: number;
+
+    before(async () => {
+        const user = await UserController.createUser("archive_user", "Password1");
+        userId = user.id;
+        const comic = await ComicController.createComic("Archives", "d", userId, "a", "c", []);
+        comicId = comic.id;
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).where({ id: comicId }).delete();
+        await DatabaseBuilder(Tables.Resource).where({ uploader: userId }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should read the images in their natural order`, () => {
+        const zip = new AdmZip();
+        for (const name of [
+            "pages/10.jpg",
+            "pages/2.png",
+            "pages/1.JPG",
+            "pages/.hidden.jpg",
+            "__MACOSX/pages/._1.jpg",
+            "pages/notes.txt",
+        ]) {
+            zip.addFile(name, Buffer.from(name));
+        }
+
+        const archive = readChapterArchive(zip.toBuffer());
+        expect(archive.images.map(({ name }) => name)).to.be.deep.equal([
+            "pages/1.JPG",
+            "pages/2.png",
+            "pages/10.jpg",
+        ]);
+        expect(archive.images[0].data.toString()).to.be.equal("pages/1.JPG");
+        expect(archive.comicInfo).to.be.deep.equal({});
+    });
+
+    it(`should read the metadata of ComicInfo.xml`, () => {
+        const zip = new AdmZip();
+        zip.addFile("1.jpg", Buffer.from("1"));
+        zip.addFile(
+            "ComicInfo.xml",
+            Buffer.from(
+                `<?xml version="1.0"?>
+                <ComicInfo>
+                    <Title>Tom &amp; Jerry</Title>
+                    <Number>12.5</Number>
+                    <Summary><![CDATA[<b>Bold</b> move]]></Summary>
+                </ComicInfo>`
+            )
+        );
+
+        const archive = readChapterArchive(zip.toBuffer());
+        expect(archive.comicInfo).to.be.deep.equal({
+            title: "Tom & Jerry",
+            number: "12.5",
+            summary: "<b>Bold</b> move",
+        });
+    });
+
+    it(`should ignore the empty ComicInfo.xml elements`, () => {
+        expect(
+            parseComicInfo("<ComicInfo><Title> </Title><Number>3</Number></ComicInfo>")
+        ).to.be.deep.equal({ title: undefined, number: "3", summary: undefined });
+    });
+
+    it(`should reject the files which are not archives`, () => {
+        expect(readChapterArchive(Buffer.from("not an archive"))).to.be.null;
+    });
+
+    it(`should reject the archives whose content is larger than declared`, () => {
+        process.env.CHAPTER_ARCHIVE_MAX_SIZE = "1";
+        const zip = new AdmZip();
+        zip.addFile("1.jpg", Buffer.alloc(2 * 1024 * 1024));
+        zip.getEntry("1.jpg").header.method = 0;
+        const data = zip.toBuffer();
+        // Declare a single byte in the local and the central headers
+        data.writeUInt32LE(1, data.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04])) + 22);
+        data.writeUInt32LE(1, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+
+        expect(new AdmZip(data).getEntries()[0].header.size).to.be.equal(1);
+        expect(readChapterArchive(data)).to.be.null;
+        delete process.env.CHAPTER_ARCHIVE_MAX_SIZE;
+    });
+
+    it(`should create the resources and the blocks of an image chapter`, async () => {
+        const { chapter, resources } = await ComicChapterController.createImageChapter(
+            "Imported",
+            comicId,
+            userId,
+            [
+                { originalName: "1.jpg", fileName: "a.jpg", path: "/tmp/a.jpg", size: 10 },
+                { originalName: "2.jpg", fileName: "b.jpg", path: "/tmp/b.jpg", size: 20 },
+            ],
+            "12.5",
+            undefined,
+            undefined,
+            undefined,
+            "A summary"
+        );
+        expect(resources.map(({ uploader }) => uploader)).to.be.deep.equal([userId, userId]);
+
+        const createdChapter = await ComicChapterController.getChapter(chapter.id);
+        expect(createdChapter.viewType).to.be.equal(
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE
+        );
+        expect(Number(createdChapter.chapterIndex)).to.be.equal(12.5);
+        expect(createdChapter.summary).to.be.equal("A summary");
+        expect(createdChapter.length).to.be.equal(2);
+        expect(createdChapter["blocks"].map(({ content }) => content)).to.be.deep.equal([
+            "a.jpg",
+            "b.jpg",
+        ]);
+    });
+});
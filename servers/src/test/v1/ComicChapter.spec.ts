@@ -0,0 +1,102 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { PublicationStatusEnum } from "../../v1/interfaces/PublicationInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { getPublication } from "../../v1/utils/PublicationUtils";
+const expect = chai.expect;
+
+describe(`v1: Comic chapters`, () => {
+    let userId: number;
+    let comicId: number;
+    const chapterIds: { [chapterNumber: string]: number } = {};
+
+    before(async () => {
+        const user = await UserController.createUser("chapter_user", "Password1");
+        userId = user.id;
+        const comic = await ComicController.createComic("Chapters", "d", userId, "a", "c", []);
+        comicId = comic.id;
+
+        // Created out of order, with a draft in the middle
+        for (const chapterNumber of ["10", "2", "1", "2.5", "3"]) {
+            const chapter = await ComicChapterController.createChapter(
+                `Chapter ${chapterNumber}`,
+                comicId,
+                userId,
+                ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+                [{ index: 0, content: chapterNumber }],
+                chapterNumber,
+                getPublication(
+                    chapterNumber === "2.5"
+                        ? PublicationStatusEnum.DRAFT
+                        : PublicationStatusEnum.PUBLISHED
+                )
+            );
+            chapterIds[chapterNumber] = chapter.id;
+        }
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).where({ id: comicId }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should sort the chapters by their numbers`, async () => {
+        const chapters = await ComicChapterController.getChaptersFromComic(comicId, {
+            order: "asc",
+            includeUnpublished: true,
+        });
+        expect(chapters.map(({ chapterNumber }) => chapterNumber)).to.be.deep.equal([
+            "1",
+            "2",
+            "2.5",
+            "3",
+            "10",
+        ]);
+    });
+
+    it(`should paginate the public chapters with a total count`, async () => {
+        const filter = { limit: 2, order: "asc" as "asc" };
+        const firstPage = await ComicChapterController.getChaptersFromComic(comicId, {
+            ...filter,
+            page: 0,
+        });
+        const lastPage = await ComicChapterController.getChaptersFromComic(comicId, {
+            ...filter,
+            page: 1,
+        });
+
+        expect(firstPage.map(({ chapterNumber }) => chapterNumber)).to.be.deep.equal(["1", "2"]);
+        expect(lastPage.map(({ chapterNumber }) => chapterNumber)).to.be.deep.equal(["3", "10"]);
+        expect(await ComicChapterController.countChaptersFromComic(comicId)).to.be.equal(4);
+        expect(await ComicChapterController.countChaptersFromComic(comicId, true)).to.be.equal(5);
+    });
+
+    it(`should retrieve the previous and the next chapters`, async () => {
+        const chapter = await ComicChapterController.getChapter(chapterIds["2"]);
+
+        const { previous, next } = await ComicChapterController.getAdjacentChapters(chapter);
+        expect(previous.id).to.be.equal(chapterIds["1"]);
+        expect(next.id).to.be.equal(chapterIds["3"]);
+
+        const withDrafts = await ComicChapterController.getAdjacentChapters(chapter, true);
+        expect(withDrafts.next.id).to.be.equal(chapterIds["2.5"]);
+    });
+
+    it(`should have no previous chapter for the first one`, async () => {
+        const chapter = await ComicChapterController.getChapter(chapterIds["1"]);
+
+        const { previous, next } = await ComicChapterController.getAdjacentChapters(chapter);
+        expect(previous).to.be.null;
+        expect(next.id).to.be.equal(chapterIds["2"]);
+    });
+
+    it(`should only sort the chapters by the allowed fields`, () => {
+        expect(ComicChapterController.isChapterSortField("createdAt")).to.be.true;
+        expect(ComicChapterController.isChapterSortField("password")).to.be.false;
+        expect(ComicChapterController.isChapterSortField(["name"])).to.be.false;
+    });
+});
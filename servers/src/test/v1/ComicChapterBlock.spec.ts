@@ -0,0 +1,163 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterBlockController from "../../v1/controllers/ComicChapterBlockController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import ComicChapterRevisionController from "../../v1/controllers/ComicChapterRevisionController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterBlockOperationTypeEnum } from "../../v1/interfaces/ComicChapterBlockInterface";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { applyBlockOperations } from "../../v1/utils/ChapterBlockUtils";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: Comic chapter blocks`, () => {
+    let userId: number;
+    let comicId: number;
+
+    const getContents = async (chapterId: number) =>
+        (await ComicChapterController.getChapter(chapterId))["blocks"].map(
+            ({ content }) => content
+        );
+
+    before(async () => {
+        const user = await UserController.createUser("block_user", "Password1");
+        userId = user.id;
+        const comic = await ComicController.createComic("Blocks", "d", userId, "a", "c", []);
+        comicId = comic.id;
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).where({ id: comicId }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should apply the operations one after another`, () => {
+        const blocks = [
+            { id: 1, content: "a" },
+            { id: 2, content: "b" },
+            { id: 3, content: "c" },
+        ];
+        const result = applyBlockOperations(blocks, [
+            { type: ComicChapterBlockOperationTypeEnum.INSERT, index: 0, content: "x" },
+            { type: ComicChapterBlockOperationTypeEnum.MOVE, blockId: 3, index: 1 },
+            { type: ComicChapterBlockOperationTypeEnum.REPLACE, blockId: 1, content: "A" },
+            { type: ComicChapterBlockOperationTypeEnum.DELETE, blockId: 2 },
+            { type: ComicChapterBlockOperationTypeEnum.INSERT, content: "z" },
+        ]);
+        expect(result).to.be.deep.equal([
+            { content: "x" },
+            { id: 3, content: "c" },
+            { id: 1, content: "A" },
+            { content: "z" },
+        ]);
+        expect(blocks).to.have.lengthOf(3);
+    });
+
+    it(`should reject the operations on missing blocks or positions`, () => {
+        const blocks = [{ id: 1, content: "a" }];
+        for (const operation of [
+            { type: ComicChapterBlockOperationTypeEnum.INSERT, index: 2, content: "x" },
+            { type: ComicChapterBlockOperationTypeEnum.MOVE, blockId: 1, index: 1 },
+            { type: ComicChapterBlockOperationTypeEnum.REPLACE, blockId: 2, content: "x" },
+            { type: ComicChapterBlockOperationTypeEnum.DELETE, blockId: 2 },
+        ]) {
+            expect(applyBlockOperations(blocks, [operation])).to.be.undefined;
+        }
+        expect(
+            applyBlockOperations(blocks, [
+                { type: ComicChapterBlockOperationTypeEnum.DELETE, blockId: 1 },
+                { type: ComicChapterBlockOperationTypeEnum.DELETE, blockId: 1 },
+            ])
+        ).to.be.undefined;
+    });
+
+    it(`should store the changed blocks and the length of the chapter`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Pages",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            ["1.jpg", "2.jpg", "3.jpg"].map((content, index) => ({ index, content })),
+            "1"
+        );
+        const [first, second, third] = (await ComicChapterController.getChapter(chapter.id))[
+            "blocks"
+        ];
+
+        const blocks = await ComicChapterBlockController.applyChapterBlockOperations(
+            chapter.id,
+            [
+                { type: ComicChapterBlockOperationTypeEnum.MOVE, blockId: third.id, index: 0 },
+                { type: ComicChapterBlockOperationTypeEnum.DELETE, blockId: second.id },
+                { type: ComicChapterBlockOperationTypeEnum.INSERT, content: "4.jpg" },
+            ],
+            userId
+        );
+        expect(blocks.map(({ index, content }) => [index, content])).to.be.deep.equal([
+            [0, "3.jpg"],
+            [1, "1.jpg"],
+            [2, "4.jpg"],
+        ]);
+        // The unchanged blocks keep their identifiers
+        expect(blocks[0].id).to.be.equal(third.id);
+        expect(blocks[1].id).to.be.equal(first.id);
+
+        const updated = await ComicChapterController.getChapter(chapter.id);
+        expect(Number(updated.length)).to.be.equal(3);
+        const [revision] = await ComicChapterRevisionController.getRevisions(chapter.id);
+        expect(revision.revision).to.be.equal(2);
+    });
+
+    it(`should change nothing whether an operation is invalid`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Atomic",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            [{ index: 0, content: "1.jpg" }],
+            "2"
+        );
+        const [block] = (await ComicChapterController.getChapter(chapter.id))["blocks"];
+
+        expect(
+            await ComicChapterBlockController.applyChapterBlockOperations(
+                chapter.id,
+                [
+                    { type: ComicChapterBlockOperationTypeEnum.DELETE, blockId: block.id },
+                    { type: ComicChapterBlockOperationTypeEnum.MOVE, blockId: block.id, index: 0 },
+                ],
+                userId
+            )
+        ).to.be.null;
+        expect(await getContents(chapter.id)).to.be.deep.equal(["1.jpg"]);
+        expect(await ComicChapterRevisionController.getRevisions(chapter.id)).to.have.lengthOf(1);
+    });
+
+    it(`should sanitize the contents and count the words of a text chapter`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Words",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            [{ index: 0, content: "<p>One typo</p>" }],
+            "3"
+        );
+        const [block] = (await ComicChapterController.getChapter(chapter.id))["blocks"];
+
+        await ComicChapterBlockController.applyChapterBlockOperations(
+            chapter.id,
+            [
+                {
+                    type: ComicChapterBlockOperationTypeEnum.REPLACE,
+                    blockId: block.id,
+                    content: `<p onclick="x()">One fixed word</p>`,
+                },
+            ],
+            userId
+        );
+        expect(await getContents(chapter.id)).to.be.deep.equal(["<p>One fixed word</p>"]);
+        const updated = await ComicChapterController.getChapter(chapter.id);
+        expect(Number(updated.wordCount)).to.be.equal(3);
+    });
+});
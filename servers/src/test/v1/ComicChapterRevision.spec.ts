@@ -0,0 +1,206 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import ComicChapterRevisionController from "../../v1/controllers/ComicChapterRevisionController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { ComicChapterBlockChangeEnum } from "../../v1/interfaces/ComicChapterRevisionInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { diffRevisionBlocks, diffRevisionFields } from "../../v1/utils/RevisionUtils";
+const expect = chai.expect;
+
+describe(`v1: Comic chapter revisions`, () => {
+    let userId: number;
+    let editorId: number;
+    let comicId: number;
+
+    const toBlocks = (contents: string[]) => contents.map((content, index) => ({ index, content }));
+
+    before(async () => {
+        const user = await UserController.createUser("revision_user", "Password1");
+        userId = user.id;
+        const editor = await UserController.createUser("revision_editor", "Password1");
+        editorId = editor.id;
+        const comic = await ComicController.createComic("Revisions", "d", userId, "a", "c", []);
+        comicId = comic.id;
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).where({ id: comicId }).delete();
+        await DatabaseBuilder(Tables.User).whereIn("id", [userId, editorId]).delete();
+    });
+
+    it(`should record a revision on every change`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "First",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["a.jpg", "b.jpg"]),
+            "1"
+        );
+        await ComicChapterController.updateChapter(
+            chapter.id,
+            "Renamed",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["b.jpg", "a.jpg", "c.jpg"]),
+            "1",
+            undefined,
+            undefined,
+            undefined,
+            editorId
+        );
+
+        const revisions = await ComicChapterRevisionController.getRevisions(chapter.id);
+        expect(revisions.map(({ revision }) => revision)).to.be.deep.equal([2, 1]);
+        expect(revisions[0].name).to.be.equal("Renamed");
+        expect(revisions[0].createdBy).to.be.equal(editorId);
+        expect(revisions[0].blocks).to.be.undefined;
+        expect(revisions[1].createdBy).to.be.equal(userId);
+
+        const first = await ComicChapterRevisionController.getRevision(chapter.id, 1);
+        expect(first.blocks).to.be.deep.equal(toBlocks(["a.jpg", "b.jpg"]));
+        expect(first.chapterIndex).to.be.equal(1);
+    });
+
+    it(`should keep the state of a chapter created before the revisions`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Legacy",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["old.jpg"]),
+            "2"
+        );
+        await DatabaseBuilder(Tables.ComicChapterRevision)
+            .where({ chapterId: chapter.id })
+            .delete();
+
+        await ComicChapterController.updateChapter(
+            chapter.id,
+            "Legacy",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["new.jpg"]),
+            "2"
+        );
+
+        const base = await ComicChapterRevisionController.getRevision(chapter.id, 1);
+        expect(base.blocks).to.be.deep.equal(toBlocks(["old.jpg"]));
+        const latest = await ComicChapterRevisionController.getRevision(chapter.id, 2);
+        expect(latest.blocks).to.be.deep.equal(toBlocks(["new.jpg"]));
+    });
+
+    it(`should restore a revision as a new one`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Restored",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            toBlocks(["<p>Original</p>"]),
+            "3"
+        );
+        await ComicChapterController.updateChapter(
+            chapter.id,
+            "Restored",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            toBlocks(["<p>Accidental save</p>"]),
+            "3"
+        );
+
+        const original = await ComicChapterRevisionController.getRevision(chapter.id, 1);
+        await ComicChapterController.updateChapter(
+            chapter.id,
+            original.name,
+            comicId,
+            userId,
+            original.viewType,
+            original.blocks,
+            original.chapterNumber,
+            undefined,
+            original.chapterIndex,
+            original.volumeId,
+            editorId,
+            original.revision
+        );
+
+        const [restored] = await ComicChapterRevisionController.getRevisions(chapter.id);
+        expect(restored.revision).to.be.equal(3);
+        expect(restored.restoredFrom).to.be.equal(1);
+        const current = await ComicChapterController.getChapter(chapter.id);
+        expect(current["blocks"].map(({ content }) => content)).to.be.deep.equal([
+            "<p>Original</p>",
+        ]);
+    });
+
+    it(`should remove the revisions with their chapter`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Deleted",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["a.jpg"]),
+            "4"
+        );
+        await ComicChapterController.deleteChapter(chapter.id);
+        expect(await ComicChapterRevisionController.getRevisions(chapter.id)).to.be.empty;
+    });
+
+    it(`should compare the blocks of two revisions`, () => {
+        const changes = diffRevisionBlocks(
+            toBlocks(["a", "b", "c", "d"]),
+            toBlocks(["a", "c", "x", "d", "e"])
+        );
+        expect(
+            changes.map(({ type, fromIndex, toIndex, content }) => [
+                type,
+                fromIndex,
+                toIndex,
+                content,
+            ])
+        ).to.be.deep.equal([
+            [ComicChapterBlockChangeEnum.UNCHANGED, 0, 0, "a"],
+            [ComicChapterBlockChangeEnum.REMOVED, 1, null, "b"],
+            [ComicChapterBlockChangeEnum.UNCHANGED, 2, 1, "c"],
+            [ComicChapterBlockChangeEnum.ADDED, null, 2, "x"],
+            [ComicChapterBlockChangeEnum.UNCHANGED, 3, 3, "d"],
+            [ComicChapterBlockChangeEnum.ADDED, null, 4, "e"],
+        ]);
+        expect(diffRevisionBlocks([], [])).to.be.empty;
+    });
+
+    it(`should compare the metadata of two revisions`, async () => {
+        const chapter = await ComicChapterController.createChapter(
+            "Before",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["a.jpg"]),
+            "5"
+        );
+        await ComicChapterController.updateChapter(
+            chapter.id,
+            "After",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+            toBlocks(["a.jpg"]),
+            "5.5",
+            undefined,
+            5.5
+        );
+        const from = await ComicChapterRevisionController.getRevision(chapter.id, 1);
+        const to = await ComicChapterRevisionController.getRevision(chapter.id, 2);
+        expect(diffRevisionFields(from, to)).to.be.deep.equal([
+            { field: "name", from: "Before", to: "After" },
+            { field: "chapterNumber", from: "5", to: "5.5" },
+            { field: "chapterIndex", from: 5, to: 5.5 },
+        ]);
+    });
+});
@@ -0,0 +1,169 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import ComicVolumeController from "../../v1/controllers/ComicVolumeController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { parseChapterIndex, parseIndex } from "../../v1/utils/ChapterUtils";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: Comic volumes`, () => {
+    let userId: number;
+    let comicId: number;
+    const chapterIds: { [chapterNumber: string]: number } = {};
+
+    before(async () => {
+        const user = await UserController.createUser("volume_user", "Password1");
+        userId = user.id;
+        const comic = await ComicController.createComic("Volumes", "d", userId, "a", "c", []);
+        comicId = comic.id;
+
+        for (const chapterNumber of ["Ch.2", "Ch.1", "Ch.1.5"]) {
+            const chapter = await ComicChapterController.createChapter(
+                chapterNumber,
+                comicId,
+                userId,
+                ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+                [{ index: 0, content: chapterNumber }],
+                chapterNumber
+            );
+            chapterIds[chapterNumber] = chapter.id;
+        }
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).where({ id: comicId }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should parse the chapter indexes from the chapter numbers`, () => {
+        expect(parseChapterIndex("10")).to.be.equal(10);
+        expect(parseChapterIndex("10.5")).to.be.equal(10.5);
+        expect(parseChapterIndex("Vol.2 Ch.3")).to.be.equal(3);
+        expect(parseChapterIndex("Episode 7")).to.be.equal(7);
+        expect(parseChapterIndex("Prologue")).to.be.null;
+        expect(parseChapterIndex(undefined)).to.be.null;
+    });
+
+    it(`should only accept non-negative indexes with at most 3 decimals`, () => {
+        expect(parseIndex(2.5)).to.be.equal(2.5);
+        expect(parseIndex("0.125")).to.be.equal(0.125);
+        expect(parseIndex(-1)).to.be.undefined;
+        expect(parseIndex(1.2345)).to.be.undefined;
+        expect(parseIndex("1e3")).to.be.undefined;
+        expect(parseIndex(null)).to.be.undefined;
+    });
+
+    it(`should sort the chapters by their indexes`, async () => {
+        const orders = await ComicChapterController.getChapterOrders(comicId);
+        expect(orders.map(({ id }) => id)).to.be.deep.equal([
+            chapterIds["Ch.1"],
+            chapterIds["Ch.1.5"],
+            chapterIds["Ch.2"],
+        ]);
+        expect(orders.map(({ chapterIndex }) => chapterIndex)).to.be.deep.equal([1, 1.5, 2]);
+    });
+
+    it(`should find the duplicate chapter numbers and indexes`, async () => {
+        expect(await ComicChapterController.hasChapterNumber(comicId, 1, "1", null)).to.be.true;
+        expect(await ComicChapterController.hasChapterNumber(comicId, 3, "Ch.2", null)).to.be.true;
+        expect(await ComicChapterController.hasChapterNumber(comicId, 3, "3", null)).to.be.false;
+        expect(
+            await ComicChapterController.hasChapterNumber(
+                comicId,
+                2,
+                "Ch.2",
+                null,
+                chapterIds["Ch.2"]
+            )
+        ).to.be.false;
+    });
+
+    it(`should swap the numbers of two volumes`, async () => {
+        const first = await ComicVolumeController.createVolume(comicId, "First", 1);
+        const second = await ComicVolumeController.createVolume(comicId, "Second", 2);
+        expect(await ComicVolumeController.hasVolumeNumber(comicId, 1)).to.be.true;
+        expect(await ComicVolumeController.hasVolumeNumber(comicId, 1, first.id)).to.be.false;
+
+        await ComicVolumeController.reorderVolumes([
+            { id: first.id, number: 2 },
+            { id: second.id, number: 1 },
+        ]);
+        const volumes = await ComicVolumeController.getVolumesFromComic(comicId);
+        expect(volumes.map(({ id }) => id)).to.be.deep.equal([second.id, first.id]);
+        expect(volumes.map(({ number }) => number)).to.be.deep.equal([1, 2]);
+    });
+
+    it(`should move the chapters and keep them when their volume is removed`, async () => {
+        const volume = await ComicVolumeController.createVolume(comicId, "Third", 3);
+        expect(
+            await ComicChapterController.reorderChapters(comicId, [
+                { id: chapterIds["Ch.2"], chapterIndex: 0.5, volumeId: volume.id },
+                { id: chapterIds["Ch.1"], chapterIndex: 3 },
+            ])
+        ).to.be.true;
+
+        const orders = await ComicChapterController.getChapterOrders(comicId);
+        expect(orders).to.be.deep.equal([
+            { id: chapterIds["Ch.2"], chapterIndex: 0.5, volumeId: volume.id },
+            { id: chapterIds["Ch.1.5"], chapterIndex: 1.5, volumeId: null },
+            { id: chapterIds["Ch.1"], chapterIndex: 3, volumeId: null },
+        ]);
+
+        expect(await ComicVolumeController.deleteVolume(comicId, volume.id)).to.be.true;
+        expect(await ComicVolumeController.getVolume(volume.id)).to.be.null;
+        const chapter = await ComicChapterController.getChapter(chapterIds["Ch.2"]);
+        expect(chapter).to.not.be.null;
+        expect(chapter.volumeId).to.be.null;
+    });
+
+    it(`should scope the chapter indexes by volume`, async () => {
+        const volume = await ComicVolumeController.createVolume(comicId, "Fourth", 4);
+        expect(
+            await ComicChapterController.hasChapterNumber(comicId, 1.5, "Vol.4 Ch.1.5", volume.id)
+        ).to.be.false;
+        expect(await ComicChapterController.hasChapterNumber(comicId, 1.5, "Vol.4 Ch.1.5", null)).to
+            .be.true;
+
+        await ComicChapterController.reorderChapters(comicId, [
+            { id: chapterIds["Ch.2"], chapterIndex: 1.5, volumeId: volume.id },
+        ]);
+        const orders = await ComicChapterController.getChapterOrders(comicId);
+        expect(orders.map(({ id }) => id)).to.be.deep.equal([
+            chapterIds["Ch.2"],
+            chapterIds["Ch.1.5"],
+            chapterIds["Ch.1"],
+        ]);
+        expect(await ComicChapterController.hasVolumeIndexConflict(volume.id)).to.be.true;
+    });
+
+    it(`should not share an index between the chapters without volume`, async () => {
+        const volume = (await ComicVolumeController.getVolumesFromComic(comicId)).find(
+            ({ name }) => name === "Fourth"
+        );
+        const chapter = await ComicChapterController.createChapter(
+            "Extra",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            [{ index: 0, content: "Extra" }],
+            "Extra",
+            undefined,
+            1.5
+        );
+        expect(chapter).to.be.null;
+
+        expect(
+            await ComicChapterController.reorderChapters(comicId, [
+                { id: chapterIds["Ch.1"], chapterIndex: 1.5 },
+            ])
+        ).to.be.false;
+        const orders = await ComicChapterController.getChapterOrders(comicId);
+        expect(orders.find(({ id }) => id === chapterIds["Ch.1"]).chapterIndex).to.be.equal(3);
+
+        expect(await ComicVolumeController.deleteVolume(comicId, volume.id)).to.be.false;
+        expect(await ComicVolumeController.getVolume(volume.id)).to.not.be.null;
+    });
+});
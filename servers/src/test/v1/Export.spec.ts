@@ -0,0 +1,160 @@
+import * as chai from "chai";
+import AdmZip from "adm-zip";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { Tables } from "./../../v1/Database";
+import { ComicExport } from "../../v1/ComicExport";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { ExportFormatEnum } from "../../v1/interfaces/ExportInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import {
+    buildComicInfo,
+    escapeXml,
+    getImageType,
+    isExportFormat,
+    padPosition,
+} from "../../v1/utils/ExportUtils";
+const expect = chai.expect;
+
+/**
+ * Export into a buffer and read it back as a zip archive.
+ */
+async function readExport(write: (output: PassThrough) => Promise<void>): Promise<AdmZip> {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on("data", (chunk) => chunks.push(chunk));
+    const ended = new Promise((resolve) => output.on("end", resolve));
+    await write(output);
+    await ended;
+    return new AdmZip(Buffer.concat(chunks));
+}
+
+describe(`v1: Comic export`, () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]);
+    let userId: number;
+    let comic;
+    let imageChapter;
+    let textChapter;
+    let imagePath: string;
+
+    before(async () => {
+        const user = await UserController.createUser("export_user", "Password1");
+        userId = user.id;
+        comic = await ComicController.createComic(
+            "Export & Co",
+            "A <comic>",
+            userId,
+            "An",
+            "c",
+            []
+        );
+
+        imagePath = path.join(os.tmpdir(), `export-${Date.now()}.jpg`);
+        fs.writeFileSync(imagePath, jpeg);
+        ({ chapter: imageChapter } = await ComicChapterController.createImageChapter(
+            "Pages",
+            comic.id,
+            userId,
+            [
+                {
+                    originalName: "1.jpg",
+                    fileName: path.basename(imagePath),
+                    path: imagePath,
+                    size: 5,
+                },
+            ],
+            "1"
+        ));
+        textChapter = await ComicChapterController.createChapter(
+            "Words",
+            comic.id,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            [{ index: 0, content: "<p>Hello &lt;world&gt;</p>" }],
+            "2"
+        );
+    });
+
+    after(async () => {
+        fs.unlinkSync(imagePath);
+        await DatabaseBuilder(Tables.Comic).where({ id: comic.id }).delete();
+        await DatabaseBuilder(Tables.Resource).where({ uploader: userId }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should accept the cbz and epub formats only`, () => {
+        expect(isExportFormat("cbz")).to.be.true;
+        expect(isExportFormat("epub")).to.be.true;
+        expect(isExportFormat("pdf")).to.be.false;
+        expect(isExportFormat(undefined)).to.be.false;
+    });
+
+    it(`should sniff the type of an image`, () => {
+        expect(getImageType(jpeg)).to.be.deep.equal({ mediaType: "image/jpeg", extension: ".jpg" });
+        expect(getImageType(Buffer.from("GIF89a")).extension).to.be.equal(".gif");
+        expect(getImageType(Buffer.from("text"))).to.be.null;
+    });
+
+    it(`should pad the positions and escape the texts`, () => {
+        expect(padPosition(7, 12)).to.be.equal("007");
+        expect(padPosition(7, 1200)).to.be.equal("0007");
+        expect(escapeXml(`<a href="x">&</a>`)).to.be.equal(
+            "&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;"
+        );
+        expect(escapeXml(null)).to.be.equal("");
+    });
+
+    it(`should build the ComicInfo.xml without empty elements`, () => {
+        const xml = buildComicInfo(comic, ["action"], undefined, 3);
+        expect(xml).to.contain("<Series>Export &amp; Co</Series>");
+        expect(xml).to.contain("<Summary>A &lt;comic&gt;</Summary>");
+        expect(xml).to.contain("<Tags>action</Tags>");
+        expect(xml).to.contain("<PageCount>3</PageCount>");
+        expect(xml).not.to.contain("<Title>");
+    });
+
+    it(`should export a chapter as a CBZ archive`, async () => {
+        const zip = await readExport((output) =>
+            ComicExport.exportChapter(output, ExportFormatEnum.CBZ, comic, imageChapter)
+        );
+        expect(zip.getEntries().map(({ entryName }) => entryName)).to.be.deep.equal([
+            "001.jpg",
+            "ComicInfo.xml",
+        ]);
+        expect(zip.readFile("001.jpg")).to.be.deep.equal(jpeg);
+        expect(zip.readAsText("ComicInfo.xml")).to.contain("<Title>Pages</Title>");
+    });
+
+    it(`should export a whole comic as an EPUB book`, async () => {
+        const chapters = await ComicChapterController.getChaptersFromComic(comic.id, {
+            order: "asc",
+        });
+        const zip = await readExport((output) =>
+            ComicExport.exportComic(output, ExportFormatEnum.EPUB, comic, chapters)
+        );
+        const entries = zip.getEntries();
+        expect(entries[0].entryName).to.be.equal("mimetype");
+        expect(entries[0].header.method).to.be.equal(0);
+        expect(zip.readAsText("mimetype")).to.be.equal("application/epub+zip");
+        expect(entries.map(({ entryName }) => entryName)).to.include.members([
+            "META-INF/container.xml",
+            "OEBPS/images/001-001.jpg",
+            "OEBPS/chapter-001.xhtml",
+            "OEBPS/chapter-002.xhtml",
+            "OEBPS/nav.xhtml",
+            "OEBPS/content.opf",
+        ]);
+        expect(zip.readAsText("OEBPS/chapter-002.xhtml")).to.contain("<p>Hello &lt;world&gt;</p>");
+        expect(zip.readAsText("OEBPS/chapter-001.xhtml")).to.contain(
+            `<img src="images/001-001.jpg"`
+        );
+        const opf = zip.readAsText("OEBPS/content.opf");
+        expect(opf).to.contain("<dc:creator>An</dc:creator>");
+        expect(opf).to.contain(`href="images/001-001.jpg" media-type="image/jpeg"`);
+    });
+});
@@ -0,0 +1,102 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { Integrity } from "./../../v1/Integrity";
+import { UserController } from "../../v1/controllers/UserController";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import ComicCommentController from "../../v1/controllers/ComicCommentController";
+import ReviewController from "../../v1/controllers/ReviewController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import DatabaseBuilder, { isSqliteClient } from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: Integrity`, () => {
+  let userId: number;
+
+  before(async () => {
+    const user = await UserController.createUser("integrity_user", "Password1");
+    userId = user.id;
+  });
+
+  after(async () => {
+    await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+  });
+
+  it(`should cascade the comic deletion`, async () => {
+    await ComicController.createComic(
+      "Integrity comic",
+      "A comic to delete",
+      userId,
+      "author",
+      "comic",
+      []
+    );
+    const comic = await DatabaseBuilder(Tables.Comic).where({ name: "Integrity comic" }).first();
+    await ComicChapterController.createChapter(
+      "Chapter 1",
+      comic.id,
+      userId,
+      ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+      [{ index: 0, content: "<p>Hello</p>" }],
+      "1"
+    );
+    const chapter = await DatabaseBuilder(Tables.ComicChapter).where({ comicId: comic.id }).first();
+    await ComicCommentController.createComment(chapter.id, userId, "Nice");
+    await ReviewController.createReview(comic.id, userId, 5, "Great");
+    await ComicController.followComic(userId, comic.id);
+
+    await ComicController.deleteComic(comic.id);
+
+    expect(await DatabaseBuilder(Tables.ComicChapter).where({ comicId: comic.id })).to.be.empty;
+    expect(await DatabaseBuilder(Tables.ComicChapterBlock).where({ chapterId: chapter.id })).to.be
+      .empty;
+    expect(await DatabaseBuilder(Tables.ComicComment).where({ comicChapterId: chapter.id })).to.be
+      .empty;
+    expect(await DatabaseBuilder(Tables.ComicReview).where({ comicId: comic.id })).to.be.empty;
+    expect(await DatabaseBuilder(Tables.FollowComic).where({ comicId: comic.id })).to.be.empty;
+  });
+
+  it(`should reject rows referencing a missing row`, async () => {
+    try {
+      await DatabaseBuilder(Tables.ComicChapterBlock).insert({
+        chapterId: 99999,
+        index: 0,
+        content: "orphan",
+      });
+      expect.fail("Expected a foreign key error");
+    } catch (error) {
+      expect(error.message).to.match(/foreign key/i);
+    }
+  });
+
+  it(`should report no orphans`, async () => {
+    const reports = await Integrity.checkIntegrity();
+    expect(reports).to.be.not.empty;
+    reports.forEach((report) => expect(report.orphans).to.be.equal(0));
+  });
+
+  it(`should repair orphan rows`, async function () {
+    // Orphans can only be forged by disabling the constraints of the connection
+    if (!isSqliteClient()) {
+      this.skip();
+    }
+
+    await DatabaseBuilder.raw("PRAGMA foreign_keys = OFF");
+    try {
+      await DatabaseBuilder(Tables.ComicChapterBlock).insert({
+        chapterId: 99999,
+        index: 0,
+        content: "orphan",
+      });
+    } finally {
+      await DatabaseBuilder.raw("PRAGMA foreign_keys = ON");
+    }
+
+    const reports = await Integrity.repairIntegrity();
+    const blockReport = reports.find(({ key }) => key.table === Tables.ComicChapterBlock);
+    expect(blockReport.orphans).to.be.equal(1);
+    expect(blockReport.repaired).to.be.equal(1);
+    expect(await DatabaseBuilder(Tables.ComicChapterBlock).where({ chapterId: 99999 })).to.be
+      .empty;
+  });
+});
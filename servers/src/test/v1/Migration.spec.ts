@@ -0,0 +1,117 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { Migration, Migrations } from "./../../v1/Migration";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import ComicVolumeController from "../../v1/controllers/ComicVolumeController";
+import { UserController } from "../../v1/controllers/UserController";
+const expect = chai.expect;
+
+describe(`v1: Migration`, () => {
+  const latestVersion = Migrations[Migrations.length - 1].version;
+
+  /**
+   * Restore the latest schema for the other specs
+   */
+  after(async () => {
+    await Migration.migrateToLatest();
+  });
+
+  it(`should apply all migrations on setup`, async () => {
+    expect(await Migration.getCurrentVersion()).to.be.equal(latestVersion);
+
+    const { pending } = await Migration.getStatus();
+    expect(pending).to.be.an("array").that.is.empty;
+  });
+
+  it(`should be in ascending version order`, () => {
+    const versions = Migrations.map((migration) => parseInt(migration.version));
+    expect(versions).to.be.deep.equal([...versions].sort((a, b) => a - b));
+  });
+
+  it(`should migrate down and up to a target version`, async () => {
+    await Migration.migrateTo("001");
+    expect(await Migration.getCurrentVersion()).to.be.equal("001");
+    expect(await DatabaseBuilder.schema.hasColumn(Tables.ComicChapter, "chapterNumber")).to.be
+      .false;
+
+    await Migration.migrateTo(latestVersion);
+    expect(await Migration.getCurrentVersion()).to.be.equal(latestVersion);
+    expect(await DatabaseBuilder.schema.hasColumn(Tables.ComicChapter, "chapterNumber")).to.be
+      .true;
+  });
+
+  it(`should keep the rows referencing an altered table`, async () => {
+    const user = await UserController.createUser("migration_user", "Password1");
+    const comic = await ComicController.createComic("M", "d", user.id, "a", "c", []);
+    const chapter = await ComicChapterController.createChapter(
+      "c",
+      comic.id,
+      user.id,
+      2,
+      [{ index: 0, content: "x" }],
+      "1"
+    );
+
+    // Reverts the publication columns of comics and chapters
+    await Migration.migrateTo("011");
+    const blocks = await DatabaseBuilder(Tables.ComicChapterBlock).where({
+      chapterId: chapter.id,
+    });
+    await Migration.migrateToLatest();
+    expect(blocks).to.have.lengthOf(1);
+
+    await DatabaseBuilder(Tables.Comic).where({ id: comic.id }).delete();
+    await DatabaseBuilder(Tables.User).where({ id: user.id }).delete();
+  });
+
+  it(`should keep the first of the chapters sharing an index`, async () => {
+    const user = await UserController.createUser("migration_index", "Password1");
+    const comic = await ComicController.createComic("I", "d", user.id, "a", "c", []);
+    const chapterIds = [];
+    // Reverts the volumes and the chapter indexes
+    await Migration.migrateTo("012");
+    for (const chapterNumber of ["Vol.1 Ch.3", "Vol.2 Ch.3"]) {
+      const [chapterId] = await DatabaseBuilder(Tables.ComicChapter).insert({
+        name: chapterNumber,
+        comicId: comic.id,
+        postedBy: user.id,
+        viewType: 2,
+        chapterNumber,
+      });
+      chapterIds.push(chapterId);
+    }
+
+    await Migration.migrateToLatest();
+    const chapters = await DatabaseBuilder(Tables.ComicChapter)
+      .where({ comicId: comic.id })
+      .orderBy("id", "asc");
+    expect(chapters.map(({ chapterIndex }) => chapterIndex)).to.be.deep.equal([3, null]);
+
+    const volume = await ComicVolumeController.createVolume(comic.id, "Volume", 1);
+    await DatabaseBuilder(Tables.ComicChapter)
+      .whereIn("id", chapterIds)
+      .update({ volumeId: volume.id });
+    try {
+      await DatabaseBuilder(Tables.ComicChapter)
+        .where({ id: chapterIds[1] })
+        .update({ chapterIndex: 3 });
+      expect.fail("Expected an error");
+    } catch (error) {
+      expect(error.message).to.match(/unique|duplicate/i);
+    }
+
+    await DatabaseBuilder(Tables.Comic).where({ id: comic.id }).delete();
+    await DatabaseBuilder(Tables.User).where({ id: user.id }).delete();
+  });
+
+  it(`should throw error when the target version is unknown`, async () => {
+    try {
+      await Migration.migrateTo("999");
+      expect.fail("Expected an error");
+    } catch (error) {
+      expect(error.message).to.match(/not found/);
+    }
+  });
+});
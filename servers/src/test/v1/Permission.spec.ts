@@ -4,6 +4,8 @@ import * as chai from "chai";
 import { PermissionGroupEnum } from "../../v1/interfaces/PermissionGroupInterface";
 import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
 import { PermissionController } from "../../v1/controllers/PermissionController";
+import { UserController } from "../../v1/controllers/UserController";
+import { PermissionEnum } from "../../v1/interfaces/PermissionInterface";
 
 const expect = chai.expect;
 
@@ -98,6 +100,48 @@ describe("v1: Permission Group", () => {
       expect(response).to.be.not.undefined;
       expect(response).to.be.an("array");
     });
+
+    /**
+     * deletePermissionGroup moves the members into the fallback group
+     */
+    it(`should delete a permission group and move its members`, async () => {
+      await PermissionGroupController.createPermissionGroup(
+        permissionGroup.id,
+        permissionGroup.name,
+        permissionGroup.description
+      );
+      await DatabaseBuilder(Tables.PermissionRelationship).insert({
+        permissionGroup: permissionGroup.id,
+        permissionId: PermissionEnum.COMIC_CREATE,
+      });
+      const user = await UserController.createUser(
+        "permission_group_member",
+        "Password1"
+      );
+      await UserController.updatePermissionRole(user.id, permissionGroup.id);
+
+      try {
+        const members = await PermissionGroupController.getUsersFromPermissionGroup(
+          permissionGroup.id
+        );
+        expect(members.map(({ id }) => id)).to.be.deep.equal([user.id]);
+
+        expect(
+          await PermissionGroupController.deletePermissionGroup(
+            permissionGroup.id,
+            PermissionGroupEnum.MOD
+          )
+        ).to.be.equal(1);
+        expect(
+          await PermissionGroupController.hasPermissionGroup(permissionGroup.id)
+        ).to.be.false;
+        expect(
+          (await UserController.getPermissionGroupFromUserId(user.id)).id
+        ).to.be.equal(PermissionGroupEnum.MOD);
+      } finally {
+        await DatabaseBuilder(Tables.User).where({ id: user.id }).delete();
+      }
+    });
   });
 
   /**
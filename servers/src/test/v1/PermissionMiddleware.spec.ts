@@ -0,0 +1,96 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { User } from "../../v1/classes/User";
+import { UserController } from "../../v1/controllers/UserController";
+import { PermissionEnum } from "../../v1/interfaces/PermissionInterface";
+import {
+    requireAll,
+    requireAny,
+    requirePermission,
+} from "../../v1/middlewares/PermissionMiddleware";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+/**
+ * Run a permission middleware with the given user.
+ *
+ * @param middleware a middleware to run
+ * @param user a user of the request
+ * @returns the error passed to next, undefined whether the request passed
+ */
+async function run(middleware: any, user?: User): Promise<any> {
+    let err: any;
+    await middleware({ UserRequest: user }, {}, (e?: any) => {
+        err = e;
+    });
+    return err;
+}
+
+describe(`v1: Permission middleware`, () => {
+    let userId: number;
+    let user: User;
+
+    before(async () => {
+        const { id } = await UserController.createUser("permission_mw_user", "Password1");
+        userId = id;
+    });
+
+    beforeEach(async () => {
+        user = new User(await UserController.getUserFromUUID(userId), userId);
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should reject the anonymous requests`, async () => {
+        const err = await run(requirePermission(PermissionEnum.REVIEW_CREATE));
+        expect(err.status).to.be.equal(401);
+    });
+
+    it(`should require every permission`, async () => {
+        expect(await run(requirePermission(PermissionEnum.REVIEW_CREATE), user)).to.be.undefined;
+        expect(
+            await run(
+                requireAll(PermissionEnum.REVIEW_CREATE, PermissionEnum.COMIC_CHAPTER_COMMENT),
+                user
+            )
+        ).to.be.undefined;
+
+        const err = await run(
+            requireAll(PermissionEnum.REVIEW_CREATE, PermissionEnum.COMIC_CREATE),
+            user
+        );
+        expect(err.status).to.be.equal(403);
+    });
+
+    it(`should require any of the permissions`, async () => {
+        expect(
+            await run(requireAny(PermissionEnum.COMIC_CREATE, PermissionEnum.REVIEW_CREATE), user)
+        ).to.be.undefined;
+
+        const err = await run(
+            requireAny(PermissionEnum.COMIC_CREATE, PermissionEnum.COMIC_DELETE),
+            user
+        );
+        expect(err.status).to.be.equal(403);
+    });
+
+    it(`should query the permissions once per request`, async () => {
+        const getAllPermissionsFromUserId = UserController.getAllPermissionsFromUserId;
+        let queries = 0;
+        UserController.getAllPermissionsFromUserId = async (id: number) => {
+            queries++;
+            return getAllPermissionsFromUserId(id);
+        };
+
+        try {
+            await run(requirePermission(PermissionEnum.REVIEW_CREATE), user);
+            await run(requireAny(PermissionEnum.COMIC_CREATE), user);
+            expect(await user.hasPermission(PermissionEnum.USER_UPDATE_PROFILE)).to.be.true;
+            expect(queries).to.be.equal(1);
+        } finally {
+            UserController.getAllPermissionsFromUserId = getAllPermissionsFromUserId;
+        }
+    });
+});
@@ -0,0 +1,163 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { Scheduler } from "../../v1/Scheduler";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { PublicationStatusEnum } from "../../v1/interfaces/PublicationInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { getPublication, isPublic } from "../../v1/utils/PublicationUtils";
+const expect = chai.expect;
+
+describe(`v1: Publication`, () => {
+    const past = new Date(Date.now() - 60 * 1000);
+    const future = new Date(Date.now() + 60 * 60 * 1000);
+    let userId: number;
+    let comicId: number;
+    let draftComicId: number;
+
+    /**
+     * Create a text chapter with a single block into a comic.
+     */
+    const createChapter = async (
+        name: string,
+        status: PublicationStatusEnum,
+        publishAt?: Date,
+        inComicId: number = comicId
+    ) => {
+        const chapter = await ComicChapterController.createChapter(
+            name,
+            inComicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            [{ index: 0, content: name }],
+            name,
+            getPublication(status, publishAt)
+        );
+        return chapter.id;
+    };
+
+    before(async () => {
+        const user = await UserController.createUser("publication_user", "Password1");
+        userId = user.id;
+        const comic = await ComicController.createComic(
+            "Published comic",
+            "d",
+            userId,
+            "a",
+            "c",
+            []
+        );
+        comicId = comic.id;
+        const draftComic = await ComicController.createComic(
+            "Draft comic",
+            "d",
+            userId,
+            "a",
+            "c",
+            [],
+            undefined,
+            getPublication(PublicationStatusEnum.DRAFT)
+        );
+        draftComicId = draftComic.id;
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).whereIn("id", [comicId, draftComicId]).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    afterEach(async () => {
+        await DatabaseBuilder(Tables.ComicChapter).where({ postedBy: userId }).delete();
+    });
+
+    it(`should be public only whether published or released`, () => {
+        expect(isPublic({ status: PublicationStatusEnum.PUBLISHED, publishAt: null })).to.be.true;
+        expect(isPublic({ status: PublicationStatusEnum.SCHEDULED, publishAt: past })).to.be.true;
+        expect(isPublic({ status: PublicationStatusEnum.SCHEDULED, publishAt: future })).to.be
+            .false;
+        expect(isPublic({ status: PublicationStatusEnum.DRAFT, publishAt: null })).to.be.false;
+        expect(isPublic({ status: PublicationStatusEnum.HIDDEN, publishAt: past })).to.be.false;
+    });
+
+    it(`should keep the release time of a published content`, () => {
+        const published = { status: PublicationStatusEnum.PUBLISHED, publishAt: past };
+        expect(getPublication(PublicationStatusEnum.PUBLISHED, null, published)).to.be.deep.equal(
+            published
+        );
+        expect(getPublication(PublicationStatusEnum.HIDDEN, null, published).publishAt).to.be.equal(
+            past
+        );
+        expect(getPublication(PublicationStatusEnum.DRAFT, null, published).publishAt).to.be.null;
+    });
+
+    it(`should list only the public comics`, async () => {
+        const ids = (await ComicController.getAllComics({})).map(({ id }) => id);
+        expect(ids).to.include(comicId).and.not.include(draftComicId);
+
+        const ownIds = (await ComicController.getComicByUser(userId, true)).map(({ id }) => id);
+        expect(ownIds).to.include.members([comicId, draftComicId]);
+        const publicIds = (await ComicController.getComicByUser(userId)).map(({ id }) => id);
+        expect(publicIds).to.be.deep.equal([comicId]);
+    });
+
+    it(`should list only the public chapters`, async () => {
+        const publishedId = await createChapter("published", PublicationStatusEnum.PUBLISHED);
+        const releasedId = await createChapter("released", PublicationStatusEnum.SCHEDULED, past);
+        await createChapter("scheduled", PublicationStatusEnum.SCHEDULED, future);
+        await createChapter("draft", PublicationStatusEnum.DRAFT);
+
+        const chapters = await ComicChapterController.getChaptersFromComic(comicId);
+        expect(chapters.map(({ id }) => id)).to.have.members([publishedId, releasedId]);
+        const allChapters = await ComicChapterController.getChaptersFromComic(comicId, {
+            includeUnpublished: true,
+        });
+        expect(allChapters).to.have.lengthOf(4);
+    });
+
+    it(`should not list the chapters of unpublished comics as newest`, async () => {
+        const publishedId = await createChapter("published", PublicationStatusEnum.PUBLISHED);
+        const draftComicChapterId = await createChapter(
+            "in draft comic",
+            PublicationStatusEnum.PUBLISHED,
+            null,
+            draftComicId
+        );
+        const scheduledId = await createChapter(
+            "scheduled",
+            PublicationStatusEnum.SCHEDULED,
+            future
+        );
+
+        const ids = (await ComicChapterController.getNewestChapters()).map(
+            ({ chapterId }) => chapterId
+        );
+        expect(ids).to.include(publishedId);
+        expect(ids).to.not.include.members([draftComicChapterId, scheduledId]);
+    });
+
+    it(`should publish the scheduled contents once they are due`, async () => {
+        const releasedId = await createChapter("released", PublicationStatusEnum.SCHEDULED, past);
+        const scheduledId = await createChapter(
+            "scheduled",
+            PublicationStatusEnum.SCHEDULED,
+            future
+        );
+
+        const published = await Scheduler.publishDueContents();
+        expect(published).to.be.deep.equal({ comics: 0, chapters: 1 });
+        expect((await ComicChapterController.getChapter(releasedId)).status).to.be.equal(
+            PublicationStatusEnum.PUBLISHED
+        );
+        expect((await ComicChapterController.getChapter(scheduledId)).status).to.be.equal(
+            PublicationStatusEnum.SCHEDULED
+        );
+
+        await ComicChapterController.updateChapterPublication(
+            scheduledId,
+            getPublication(PublicationStatusEnum.SCHEDULED, past)
+        );
+        expect(await Scheduler.publishDueContents()).to.be.deep.equal({ comics: 0, chapters: 1 });
+    });
+});
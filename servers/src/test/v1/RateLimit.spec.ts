@@ -0,0 +1,99 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { MemoryRateLimitStore } from "../../v1/classes/MemoryRateLimitStore";
+import { UserController } from "../../v1/controllers/UserController";
+import { MiddlewareError } from "../../v1/errors/MiddlewareError";
+import { rateLimit, setRateLimitStore } from "../../v1/middlewares/RateLimitMiddleware";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+/**
+ * Run a middleware with a fake request and response.
+ */
+async function runMiddleware(middleware, ip: string) {
+  const headers = {};
+  const req: any = { ip, body: {} };
+  const res: any = { setHeader: (name, value) => (headers[name] = value) };
+  let error: MiddlewareError;
+  await middleware(req, res, (err) => (error = err));
+  return { headers, error };
+}
+
+describe(`v1: Rate limit`, () => {
+  describe(`Store`, () => {
+    it(`should count the hits of a window`, async () => {
+      const store = new MemoryRateLimitStore();
+
+      expect((await store.increment("key", 1000)).count).to.be.equal(1);
+      expect((await store.increment("key", 1000)).count).to.be.equal(2);
+      expect((await store.increment("other", 1000)).count).to.be.equal(1);
+
+      await store.reset("key");
+      expect((await store.increment("key", 1000)).count).to.be.equal(1);
+    });
+
+    it(`should start a new window after the former one`, async () => {
+      const store = new MemoryRateLimitStore();
+
+      await store.increment("key", 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect((await store.increment("key", 1000)).count).to.be.equal(1);
+    });
+  });
+
+  describe(`Middleware`, () => {
+    before(() => {
+      setRateLimitStore(new MemoryRateLimitStore());
+    });
+
+    it(`should reject the requests exceeding the limit`, async () => {
+      const middleware = rateLimit({ name: "test", windowMs: 60 * 1000, max: 2 }, (req) => req.ip);
+
+      expect((await runMiddleware(middleware, "1.1.1.1")).error).to.be.undefined;
+      const { headers, error } = await runMiddleware(middleware, "1.1.1.1");
+      expect(error).to.be.undefined;
+      expect(headers["X-RateLimit-Remaining"]).to.be.equal(0);
+
+      const rejected = await runMiddleware(middleware, "1.1.1.1");
+      expect(rejected.error.status).to.be.equal(429);
+      expect(rejected.headers["Retry-After"]).to.be.greaterThan(0);
+
+      // Other clients are counted apart
+      expect((await runMiddleware(middleware, "2.2.2.2")).error).to.be.undefined;
+    });
+  });
+
+  describe(`Account lockout`, () => {
+    let userId: number;
+
+    before(async () => {
+      const user = await UserController.createUser("lockout_user", "Password1");
+      userId = user.id;
+    });
+
+    after(async () => {
+      await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should lock the account progressively`, async () => {
+      for (let i = 0; i < 4; i++) {
+        expect(await UserController.registerFailedSignIn(userId)).to.be.null;
+      }
+      expect(await UserController.getLockedUntil(userId)).to.be.null;
+
+      const firstLock = await UserController.registerFailedSignIn(userId);
+      expect(firstLock.getTime() - Date.now()).to.be.closeTo(60 * 1000, 1000);
+      expect(await UserController.getLockedUntil(userId)).to.be.not.null;
+
+      const secondLock = await UserController.registerFailedSignIn(userId);
+      expect(secondLock.getTime() - Date.now()).to.be.closeTo(120 * 1000, 1000);
+    });
+
+    it(`should unlock after a successful sign in`, async () => {
+      await UserController.resetFailedSignIns(userId);
+
+      expect(await UserController.getLockedUntil(userId)).to.be.null;
+      expect(await UserController.registerFailedSignIn(userId)).to.be.null;
+    });
+  });
+});
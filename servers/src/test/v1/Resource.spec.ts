@@ -3,8 +3,26 @@ import chai from "chai";
 import ResourceController from "../../v1/controllers/ResourceController";
 const expect = chai.expect;
 import { v4 as uuid } from "uuid";
+import { UserController } from "../../v1/controllers/UserController";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { Tables } from "../../v1/Database";
 
 describe("v1: Resource", () => {
+  let uploader: number;
+
+  /**
+   * Resources must be uploaded by an existing user
+   */
+  before(async () => {
+    const user = await UserController.createUser("resource_uploader", "Password1");
+    uploader = user.id;
+  });
+
+  after(async () => {
+    await DatabaseBuilder(Tables.Resource).where({ uploader }).delete();
+    await DatabaseBuilder(Tables.User).where({ id: uploader }).delete();
+  });
+
   describe("Controller", () => {
     describe("createResource", () => {
       it("should be defined", () => {
@@ -15,14 +33,15 @@ describe("v1: Resource", () => {
         const resource: ResourceInterface =
           await ResourceController.createResourceMetadata(
             "test",
+            uuid(),
             "test",
             1,
-            uuid()
+            uploader
           );
 
         expect(resource).not.be.null;
         expect(resource.id).not.be.null;
-        expect(resource.name).not.be.null;
+        expect(resource.originalName).not.be.null;
         expect(resource.path).not.be.null;
         expect(resource.size).not.be.null;
         expect(resource.uploadedAt).not.be.null;
@@ -35,6 +54,7 @@ describe("v1: Resource", () => {
             null,
             null,
             null,
+            null,
             null
           );
         } catch (error) {
@@ -47,9 +67,10 @@ describe("v1: Resource", () => {
         const resource: ResourceInterface =
           await ResourceController.createResourceMetadata(
             "test",
+            uuid(),
             "test",
             1,
-            uuid()
+            uploader
           );
 
         const resource2: ResourceInterface =
@@ -57,7 +78,7 @@ describe("v1: Resource", () => {
 
         expect(resource2).not.be.null;
         expect(resource2.id).not.be.null;
-        expect(resource2.name).not.be.null;
+        expect(resource2.originalName).not.be.null;
         expect(resource2.path).not.be.null;
         expect(resource2.size).not.be.null;
         expect(resource2.uploadedAt).not.be.null;
@@ -70,9 +91,10 @@ describe("v1: Resource", () => {
         const resource: ResourceInterface =
           await ResourceController.createResourceMetadata(
             "test",
+            uuid(),
             "test",
             1,
-            uuid()
+            uploader
           );
 
         await ResourceController.updateResource(resource.id, "test2");
@@ -83,12 +105,12 @@ describe("v1: Resource", () => {
 
         expect(resource2).not.be.null;
         expect(resource2.id).not.be.null;
-        expect(resource2.name).not.be.null;
+        expect(resource2.originalName).not.be.null;
         expect(resource2.path).not.be.null;
         expect(resource2.size).not.be.null;
         expect(resource2.uploadedAt).not.be.null;
         expect(resource2.uploader).not.be.null;
-        expect(resource2.name).to.equal("test2");
+        expect(resource2.originalName).to.equal("test2");
       });
     });
     describe("delete resource", () => {
@@ -96,9 +118,10 @@ describe("v1: Resource", () => {
         const resource: ResourceInterface =
           await ResourceController.createResourceMetadata(
             "test",
+            uuid(),
             "test",
             1,
-            uuid()
+            uploader
           );
 
         await ResourceController.deleteResource(resource.id);
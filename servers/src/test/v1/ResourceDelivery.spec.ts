@@ -0,0 +1,142 @@
+import * as chai from "chai";
+import express from "express";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { Tables } from "./../../v1/Database";
+import ResourceController from "../../v1/controllers/ResourceController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ResourceInterface } from "../../v1/interfaces/ResourceInterface";
+import { ErrorHandler } from "../../v1/middlewares/ErrorHandler";
+import { ResourceFunction } from "../../v1/routes/functions/ResourceFunction";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+/**
+ * Send a GET request and read the whole response.
+ */
+function request(
+    port: number,
+    requestPath: string,
+    headers: http.OutgoingHttpHeaders = {}
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer }> {
+    return new Promise((resolve, reject) => {
+        http.get({ port, path: requestPath, headers }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk) => chunks.push(chunk));
+            res.on("end", () =>
+                resolve({
+                    status: res.statusCode,
+                    headers: res.headers,
+                    body: Buffer.concat(chunks),
+                })
+            );
+        }).on("error", reject);
+    });
+}
+
+describe(`v1: Resource delivery`, () => {
+    let uploader: number;
+    let directory: string;
+    let resource: ResourceInterface;
+    let server: http.Server;
+    let port: number;
+
+    before(async () => {
+        const user = await UserController.createUser("delivery_uploader", "Password1");
+        uploader = user.id;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "delivery-"));
+
+        // A JPEG image stored with the extension of the uploaded file
+        const filePath = path.join(directory, "image.png");
+        const image = await sharp({
+            create: { width: 400, height: 200, channels: 3, background: "#993366" },
+        })
+            .jpeg()
+            .toBuffer();
+        fs.writeFileSync(filePath, image);
+        resource = await ResourceController.createResourceMetadata(
+            "image.png",
+            "image.png",
+            filePath,
+            image.length,
+            uploader
+        );
+
+        const app = express();
+        app.get("/:id", ResourceFunction.getBufferResource);
+        app.use(ErrorHandler);
+        server = app.listen(0);
+        port = (server.address() as AddressInfo).port;
+    });
+
+    after(async () => {
+        server.close();
+        await DatabaseBuilder(Tables.Resource).where({ uploader }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: uploader }).delete();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should stream the image with its content type and validators", async () => {
+        const response = await request(port, `/${resource.id}`);
+        expect(response.status).to.equal(200);
+        expect(response.headers["content-type"]).to.equal("image/jpeg");
+        expect(response.headers["cache-control"]).to.match(/max-age=\d+/);
+        expect(response.headers["etag"]).to.be.a("string");
+        expect(response.headers["last-modified"]).to.be.a("string");
+        expect(response.body).to.deep.equal(fs.readFileSync(resource.path));
+    });
+
+    it("should answer the conditional requests with 304", async () => {
+        const { headers } = await request(port, `/${resource.id}?format=webp`);
+        expect(headers["content-type"]).to.equal("image/webp");
+
+        const response = await request(port, `/${resource.id}?format=webp`, {
+            "If-None-Match": headers["etag"],
+        });
+        expect(response.status).to.equal(304);
+        expect(response.body).to.be.empty;
+    });
+
+    it("should serve the byte ranges", async () => {
+        const response = await request(port, `/${resource.id}`, { Range: "bytes=0-9" });
+        expect(response.status).to.equal(206);
+        expect(response.headers["content-range"]).to.equal(`bytes 0-9/${resource.size}`);
+        expect(response.body).to.deep.equal(fs.readFileSync(resource.path).slice(0, 10));
+
+        const unsatisfiable = await request(port, `/${resource.id}`, {
+            Range: `bytes=${resource.size}-`,
+        });
+        expect(unsatisfiable.status).to.equal(416);
+    });
+
+    it("should return 404 whether the file is missing on disk", async () => {
+        const missing = await ResourceController.createResourceMetadata(
+            "missing.jpg",
+            "missing.jpg",
+            path.join(directory, "missing.jpg"),
+            1,
+            uploader
+        );
+        const response = await request(port, `/${missing.id}`);
+        expect(response.status).to.equal(404);
+        expect(response.headers["content-type"]).to.match(/application\/json/);
+    });
+
+    it("should pass the storage errors to the error handler", async () => {
+        const unknown = await ResourceController.createResourceMetadata(
+            "unknown.jpg",
+            "unknown.jpg",
+            "unknown.jpg",
+            1,
+            uploader
+        );
+        await DatabaseBuilder(Tables.Resource).where({ id: unknown.id }).update({ storage: "ftp" });
+        const response = await request(port, `/${unknown.id}`);
+        expect(response.status).to.equal(500);
+        expect(response.headers["content-type"]).to.match(/application\/json/);
+    });
+});
@@ -0,0 +1,165 @@
+import * as chai from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { Tables } from "./../../v1/Database";
+import ResourceController from "../../v1/controllers/ResourceController";
+import ResourceDerivativeController from "../../v1/controllers/ResourceDerivativeController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ImageFormatEnum, ImageSizeEnum } from "../../v1/interfaces/ResourceDerivativeInterface";
+import { ResourceInterface } from "../../v1/interfaces/ResourceInterface";
+import { ResourceDerivatives } from "../../v1/ResourceDerivatives";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import ImageUtils from "../../v1/utils/ImageUtils";
+const expect = chai.expect;
+
+describe(`v1: Resource derivatives`, () => {
+    let uploader: number;
+    let directory: string;
+    let image: Buffer;
+
+    /**
+     * Store an image as a new resource.
+     */
+    async function createImageResource(fileName: string): Promise<ResourceInterface> {
+        const filePath = path.join(directory, fileName);
+        fs.writeFileSync(filePath, image);
+        return ResourceController.createResourceMetadata(
+            fileName,
+            fileName,
+            filePath,
+            image.length,
+            uploader
+        );
+    }
+
+    before(async () => {
+        const user = await UserController.createUser("derivative_uploader", "Password1");
+        uploader = user.id;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "derivatives-"));
+        image = await sharp({
+            create: { width: 1200, height: 600, channels: 3, background: "#336699" },
+        })
+            .jpeg()
+            .toBuffer();
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Resource).where({ uploader }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: uploader }).delete();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    describe("Utils", () => {
+        it("should resize an image without enlarging it", async () => {
+            const thumb = await ImageUtils.resizeImage(image, ImageFormatEnum.WEBP, 300);
+            expect(thumb.width).to.equal(300);
+            expect(thumb.height).to.equal(150);
+            expect((await sharp(thumb.data).metadata()).format).to.equal("webp");
+
+            const full = await ImageUtils.resizeImage(image, ImageFormatEnum.JPEG, 2000);
+            expect(full.width).to.equal(1200);
+            expect(full.height).to.equal(600);
+        });
+
+        it("should validate the sizes and the formats", () => {
+            expect(ResourceDerivatives.isImageSize("thumb")).to.be.true;
+            expect(ResourceDerivatives.isImageSize("huge")).to.be.false;
+            expect(ResourceDerivatives.isImageFormat("webp")).to.be.true;
+            expect(ResourceDerivatives.isImageFormat("png")).to.be.false;
+            expect(ResourceDerivatives.getImageContentType(ImageFormatEnum.WEBP)).to.equal(
+                "image/webp"
+            );
+        });
+    });
+
+    describe("generateDerivatives", () => {
+        it("should generate the thumbnails, the medium sizes and the WebP copy", async () => {
+            const resource = await createImageResource("generated.jpg");
+            const derivatives = await ResourceDerivatives.generateDerivatives(resource);
+
+            expect(derivatives).to.have.lengthOf(5);
+            const thumb = derivatives.find(
+                (derivative) =>
+                    derivative.size === ImageSizeEnum.THUMB &&
+                    derivative.format === ImageFormatEnum.WEBP
+            );
+            expect(thumb.fileName).to.equal("generated-thumb.webp");
+            expect(thumb.width).to.equal(ResourceDerivatives.getImageWidth(ImageSizeEnum.THUMB));
+            expect(fs.statSync(thumb.path).size).to.equal(thumb.fileSize);
+
+            const full = derivatives.find((derivative) => derivative.size === ImageSizeEnum.FULL);
+            expect(full.width).to.equal(1200);
+
+            expect(await ResourceDerivativeController.getDerivatives(resource.id)).to.have.lengthOf(
+                5
+            );
+        });
+
+        it("should skip the derivatives of an unreadable image", async () => {
+            const resource = await ResourceController.createResourceMetadata(
+                "broken.jpg",
+                "broken.jpg",
+                path.join(directory, "missing.jpg"),
+                1,
+                uploader
+            );
+            expect(await ResourceDerivatives.generateDerivatives(resource)).to.be.empty;
+        });
+    });
+
+    describe("getOrCreateDerivative", () => {
+        it("should generate a derivative on its first request", async () => {
+            const resource = await createImageResource("lazy.jpg");
+            expect(
+                await ResourceDerivativeController.getDerivative(
+                    resource.id,
+                    ImageSizeEnum.MEDIUM,
+                    ImageFormatEnum.JPEG
+                )
+            ).to.be.undefined;
+
+            const derivative = await ResourceDerivatives.getOrCreateDerivative(
+                resource,
+                ImageSizeEnum.MEDIUM,
+                ImageFormatEnum.JPEG
+            );
+            expect(derivative.fileName).to.equal("lazy-medium.jpg");
+            expect(derivative.width).to.equal(
+                ResourceDerivatives.getImageWidth(ImageSizeEnum.MEDIUM)
+            );
+
+            const again = await ResourceDerivatives.getOrCreateDerivative(
+                resource,
+                ImageSizeEnum.MEDIUM,
+                ImageFormatEnum.JPEG
+            );
+            expect(again.id).to.equal(derivative.id);
+        });
+
+        it("should return null for the uploaded image", async () => {
+            const resource = await createImageResource("original.jpg");
+            expect(
+                await ResourceDerivatives.getOrCreateDerivative(
+                    resource,
+                    ImageSizeEnum.FULL,
+                    ImageFormatEnum.JPEG
+                )
+            ).to.be.null;
+        });
+    });
+
+    describe("removeDerivativeFiles", () => {
+        it("should unlink the files and delete the rows along with the resource", async () => {
+            const resource = await createImageResource("removed.jpg");
+            const derivatives = await ResourceDerivatives.generateDerivatives(resource);
+
+            await ResourceDerivatives.removeDerivativeFiles(resource.id);
+            await ResourceController.deleteResource(resource.id);
+
+            derivatives.forEach((derivative) => expect(fs.existsSync(derivative.path)).to.be.false);
+            expect(await ResourceDerivativeController.getDerivatives(resource.id)).to.be.empty;
+        });
+    });
+});
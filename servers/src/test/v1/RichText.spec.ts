@@ -0,0 +1,133 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import ComicController from "../../v1/controllers/ComicController";
+import ComicChapterController from "../../v1/controllers/ComicChapterController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ComicChapterViewTypeEnum } from "../../v1/interfaces/ComicChapterInterface";
+import { RichTextFormatEnum } from "../../v1/interfaces/RichTextInterface";
+import { Sanitization } from "../../v1/Sanitization";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import {
+    countWords,
+    getRichTextStatistics,
+    isRichTextFormat,
+    ReadingWordsPerMinute,
+    renderRichText,
+    sanitizeRichText,
+} from "../../v1/utils/RichTextUtils";
+const expect = chai.expect;
+
+describe(`v1: Rich text`, () => {
+    let userId: number;
+    let comicId: number;
+
+    before(async () => {
+        const user = await UserController.createUser("rich_text_user", "Password1");
+        userId = user.id;
+        const comic = await ComicController.createComic("Novel", "d", userId, "a", "c", []);
+        comicId = comic.id;
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.Comic).where({ id: comicId }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should remove the scripts, the event handlers and the unsafe links`, () => {
+        expect(
+            sanitizeRichText(
+                `<p onclick="steal()">Hi <script>alert(1)</script><b>there</b></p>` +
+                    `<iframe src="https://evil"></iframe><style>p {}</style>` +
+                    `<a href="javascript:alert(1)">a</a><img src="data:image/png;base64,x">`
+            )
+        ).to.be.equal(`<p>Hi <b>there</b></p><a rel="nofollow noopener noreferrer">a</a><img />`);
+    });
+
+    it(`should keep the allowed tags as well-formed XHTML`, () => {
+        const html =
+            `<h2>Title</h2><p><em>a</em><br /><a href="https://example.com" rel="nofollow noopener noreferrer">link</a></p>` +
+            `<ul><li>1</li></ul><img src="https://example.com/a.png" alt="a" />`;
+        expect(sanitizeRichText(html)).to.be.equal(html);
+        expect(sanitizeRichText("<p>unclosed<br>")).to.be.equal("<p>unclosed<br /></p>");
+        expect(sanitizeRichText(null)).to.be.equal("");
+    });
+
+    it(`should render Markdown without its raw HTML`, () => {
+        expect(isRichTextFormat("markdown")).to.be.true;
+        expect(isRichTextFormat("bbcode")).to.be.false;
+        expect(
+            renderRichText(
+                "# Title\n\n**bold** <script>alert(1)</script>",
+                RichTextFormatEnum.MARKDOWN
+            )
+        ).to.be.equal(
+            "<h1>Title</h1>\n<p><strong>bold</strong> &lt;script&gt;alert(1)&lt;/script&gt;</p>\n"
+        );
+    });
+
+    it(`should count the words and the reading time`, () => {
+        expect(
+            countWords("<p>It's a well-known <b>fact</b> &amp; 42 chữ tiếng Việt</p>")
+        ).to.be.equal(8);
+        expect(getRichTextStatistics([])).to.be.deep.equal({ wordCount: 0, readingTime: 0 });
+        const words = new Array(ReadingWordsPerMinute + 1).fill("word").join(" ");
+        expect(getRichTextStatistics([`<p>${words}</p>`])).to.be.deep.equal({
+            wordCount: ReadingWordsPerMinute + 1,
+            readingTime: 2,
+        });
+    });
+
+    it(`should store the sanitized blocks and the statistics of a text chapter`, async () => {
+        const created = await ComicChapterController.createChapter(
+            "Stored",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            [{ index: 0, content: `<p onmouseover="x()">Three little words</p><script></script>` }],
+            "1"
+        );
+        const chapter = await ComicChapterController.getChapter(created.id);
+        expect(chapter["blocks"][0].content).to.be.equal("<p>Three little words</p>");
+        expect(Number(chapter.wordCount)).to.be.equal(3);
+        expect(Number(chapter.readingTime)).to.be.equal(1);
+    });
+
+    it(`should sanitize the blocks which were stored unsafe`, async () => {
+        const created = await ComicChapterController.createChapter(
+            "Legacy",
+            comicId,
+            userId,
+            ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+            [{ index: 0, content: "<p>Safe</p>" }],
+            "2"
+        );
+        // Stored before the sanitizer
+        await DatabaseBuilder(Tables.ComicChapterBlock)
+            .where({ chapterId: created.id })
+            .update({ content: `<p>Two words<img src=x onerror="alert(1)"></p>` });
+
+        const [report] = (await Sanitization.checkChapters()).filter(
+            ({ chapterId }) => chapterId === created.id
+        );
+        expect(report).to.be.deep.equal({
+            chapterId: created.id,
+            unsafeBlocks: 1,
+            sanitized: 0,
+            statistics: { wordCount: 2, readingTime: 1 },
+            outdatedStatistics: true,
+        });
+
+        const [repaired] = (await Sanitization.sanitizeChapters()).filter(
+            ({ chapterId }) => chapterId === created.id
+        );
+        expect(repaired.sanitized).to.be.equal(1);
+        const chapter = await ComicChapterController.getChapter(created.id);
+        expect(chapter["blocks"][0].content).to.be.equal(`<p>Two words<img src="x" /></p>`);
+        expect(Number(chapter.wordCount)).to.be.equal(2);
+
+        const remaining = (await Sanitization.checkChapters()).filter(
+            ({ chapterId }) => chapterId === created.id
+        );
+        expect(remaining).to.be.empty;
+    });
+});
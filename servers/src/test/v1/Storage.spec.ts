@@ -0,0 +1,234 @@
+import * as chai from "chai";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { Readable } from "stream";
+import { LocalStorageDriver } from "../../v1/classes/LocalStorageDriver";
+import { S3StorageDriver } from "../../v1/classes/S3StorageDriver";
+import { Tables } from "./../../v1/Database";
+import ResourceController from "../../v1/controllers/ResourceController";
+import ResourceDerivativeController from "../../v1/controllers/ResourceDerivativeController";
+import { UserController } from "../../v1/controllers/UserController";
+import { ImageFormatEnum, ImageSizeEnum } from "../../v1/interfaces/ResourceDerivativeInterface";
+import { StorageDriverEnum, StorageDriverInterface } from "../../v1/interfaces/StorageInterface";
+import { ResourceDerivatives } from "../../v1/ResourceDerivatives";
+import { getStorageDriver, isStorageDriver, setStorageDriver, Storage } from "../../v1/Storage";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+/**
+ * A stand-in of an S3-compatible service, e.g. MinIO, which keeps the
+ * objects in memory and serves the path-style requests without checking
+ * their signatures.
+ */
+function createS3StandIn(): http.Server {
+    const objects = new Map<string, { data: Buffer; contentType: string; lastModified: Date }>();
+    return http.createServer((req, res) => {
+        const key = decodeURIComponent(req.url.split("?")[0]);
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk) => chunks.push(chunk));
+        req.on("end", () => {
+            const object = objects.get(key);
+            switch (req.method) {
+                case "PUT": {
+                    objects.set(key, {
+                        data: Buffer.concat(chunks),
+                        contentType: req.headers["content-type"],
+                        lastModified: new Date(),
+                    });
+                    res.setHeader("ETag", '"stand-in"');
+                    return res.end();
+                }
+                case "DELETE": {
+                    objects.delete(key);
+                    res.statusCode = 204;
+                    return res.end();
+                }
+                default: {
+                    if (!object) {
+                        res.statusCode = 404;
+                        res.setHeader("Content-Type", "application/xml");
+                        return res.end(
+                            req.method === "HEAD"
+                                ? undefined
+                                : "<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>"
+                        );
+                    }
+                    let data = object.data;
+                    const range = /bytes=(\d+)-(\d+)/.exec(req.headers.range || "");
+                    if (range) {
+                        data = data.slice(parseInt(range[1]), parseInt(range[2]) + 1);
+                        res.statusCode = 206;
+                    }
+                    res.setHeader("Content-Type", object.contentType);
+                    res.setHeader("Content-Length", data.length);
+                    res.setHeader("Last-Modified", object.lastModified.toUTCString());
+                    return res.end(req.method === "HEAD" ? undefined : data);
+                }
+            }
+        });
+    });
+}
+
+/**
+ * Read a whole stream.
+ */
+async function readStream(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Check the common behaviour of a storage driver.
+ */
+async function checkDriver(driver: StorageDriverInterface) {
+    const key = driver.getKey("driver.txt");
+    const data = Buffer.from("0123456789");
+    expect(await driver.read(key)).to.be.null;
+    expect(await driver.stat(key)).to.be.null;
+
+    await driver.write(key, data, "text/plain");
+    expect(await driver.read(key)).to.deep.equal(data);
+    const file = await driver.stat(key);
+    expect(file.size).to.equal(10);
+    expect(file.lastModified).to.be.instanceOf(Date);
+    expect(await readStream(await driver.createReadStream(key))).to.deep.equal(data);
+    expect(
+        (await readStream(await driver.createReadStream(key, { start: 2, end: 4 }))).toString()
+    ).to.equal("234");
+
+    await driver.remove(key);
+    await driver.remove(key);
+    expect(await driver.stat(key)).to.be.null;
+}
+
+describe(`v1: Storage`, () => {
+    let uploader: number;
+    let directory: string;
+    let server: http.Server;
+    let local: StorageDriverInterface;
+    let s3: StorageDriverInterface;
+
+    before(async () => {
+        const user = await UserController.createUser("storage_uploader", "Password1");
+        uploader = user.id;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "storage-"));
+
+        server = createS3StandIn();
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        local = new LocalStorageDriver(directory);
+        s3 = new S3StorageDriver({
+            endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+            region: "us-east-1",
+            bucket: "resources",
+            accessKeyId: "access",
+            secretAccessKey: "secret",
+            forcePathStyle: true,
+            prefix: "uploads/",
+        });
+        setStorageDriver(StorageDriverEnum.LOCAL, local);
+        setStorageDriver(StorageDriverEnum.S3, s3);
+    });
+
+    after(async () => {
+        setStorageDriver(StorageDriverEnum.LOCAL, null);
+        setStorageDriver(StorageDriverEnum.S3, null);
+        server.close();
+        await DatabaseBuilder(Tables.Resource).where({ uploader }).delete();
+        await DatabaseBuilder(Tables.User).where({ id: uploader }).delete();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should validate the driver names", () => {
+        expect(isStorageDriver("local")).to.be.true;
+        expect(isStorageDriver("s3")).to.be.true;
+        expect(isStorageDriver("ftp")).to.be.false;
+        expect(getStorageDriver("s3")).to.equal(s3);
+        expect(() => getStorageDriver("ftp")).to.throw();
+    });
+
+    it("should store the files on the local disk", async () => {
+        expect(local.getKey("a.jpg")).to.equal(path.join(directory, "a.jpg"));
+        await checkDriver(local);
+    });
+
+    it("should store the files in an S3-compatible bucket", async () => {
+        expect(s3.getKey("a.jpg")).to.equal("uploads/a.jpg");
+        await checkDriver(s3);
+    });
+
+    it("should move the resources and their derivatives between the drivers", async () => {
+        const image = await sharp({
+            create: { width: 640, height: 320, channels: 3, background: "#224466" },
+        })
+            .jpeg()
+            .toBuffer();
+        const key = local.getKey("moved.jpg");
+        await local.write(key, image, "image/jpeg");
+        const resource = await ResourceController.createResourceMetadata(
+            "moved.jpg",
+            "moved.jpg",
+            key,
+            image.length,
+            uploader
+        );
+        await ResourceDerivatives.generateDerivatives(resource);
+        const missing = await ResourceController.createResourceMetadata(
+            "gone.jpg",
+            "gone.jpg",
+            local.getKey("gone.jpg"),
+            1,
+            uploader
+        );
+
+        const report = await Storage.moveResources(StorageDriverEnum.LOCAL, StorageDriverEnum.S3);
+        expect(report).to.deep.equal({ resources: 1, derivatives: 5, missing: 1 });
+        expect(fs.readdirSync(directory)).to.be.empty;
+
+        const moved = await ResourceController.getResourceMetadata(resource.id);
+        expect(moved.storage).to.equal(StorageDriverEnum.S3);
+        expect(moved.path).to.equal("uploads/moved.jpg");
+        expect(await s3.read(moved.path)).to.deep.equal(image);
+        const thumb = await ResourceDerivativeController.getDerivative(
+            resource.id,
+            ImageSizeEnum.THUMB,
+            ImageFormatEnum.WEBP
+        );
+        expect(thumb.storage).to.equal(StorageDriverEnum.S3);
+        expect(await s3.stat(thumb.path)).not.to.be.null;
+        expect((await ResourceController.getResourceMetadata(missing.id)).storage).to.equal(
+            StorageDriverEnum.LOCAL
+        );
+
+        // The derivatives of the moved resources are generated in their storage
+        await s3.remove(thumb.path);
+        const regenerated = await ResourceDerivatives.getOrCreateDerivative(
+            moved,
+            ImageSizeEnum.THUMB,
+            ImageFormatEnum.WEBP
+        );
+        expect(regenerated.storage).to.equal(StorageDriverEnum.S3);
+        expect(await s3.stat(regenerated.path)).not.to.be.null;
+
+        const back = await Storage.moveResources(StorageDriverEnum.S3, StorageDriverEnum.LOCAL);
+        expect(back).to.deep.equal({ resources: 1, derivatives: 5, missing: 0 });
+        const restored = await ResourceController.getResourceMetadata(resource.id);
+        expect(restored.path).to.equal(key);
+        expect(fs.readFileSync(key)).to.deep.equal(image);
+    });
+
+    it("should not move the files into the same driver", async () => {
+        try {
+            await Storage.moveResources(StorageDriverEnum.LOCAL, StorageDriverEnum.LOCAL);
+            expect.fail();
+        } catch (err) {
+            expect(err.message).to.match(/must differ/);
+        }
+    });
+});
@@ -0,0 +1,92 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { UserController } from "../../v1/controllers/UserController";
+import { TwoFactorController } from "../../v1/controllers/TwoFactorController";
+import { PermissionGroupEnum } from "../../v1/interfaces/PermissionGroupInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import {
+  generateTotpCode,
+  getOtpauthUri,
+  getTotpStep,
+  verifyTotpCode,
+} from "../../v1/utils/TotpUtils";
+const expect = chai.expect;
+
+// RFC 6238 secret "12345678901234567890" encoded in base32
+const rfcSecret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe(`v1: Two-factor authentication`, () => {
+  describe(`Utils`, () => {
+    it(`should generate the RFC 6238 codes`, () => {
+      expect(generateTotpCode(rfcSecret, Math.floor(59 / 30))).to.be.equal("287082");
+      expect(generateTotpCode(rfcSecret, Math.floor(1111111109 / 30))).to.be.equal("081804");
+      expect(generateTotpCode(rfcSecret, Math.floor(20000000000 / 30))).to.be.equal("353130");
+    });
+
+    it(`should accept the adjacent steps only`, () => {
+      const step = getTotpStep();
+      expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, step - 1))).to.be.equal(
+        step - 1
+      );
+      expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, step - 3))).to.be.null;
+      expect(verifyTotpCode(rfcSecret, "abcdef")).to.be.null;
+    });
+
+    it(`should build an otpauth uri`, () => {
+      const uri = getOtpauthUri(rfcSecret, "admin", "Comics Paper");
+      expect(uri).to.match(/^otpauth:\/\/totp\/Comics%20Paper%3Aadmin\?/);
+      expect(uri).to.contain(`secret=${rfcSecret}`);
+    });
+  });
+
+  describe(`Controller`, () => {
+    let userId: number;
+
+    before(async () => {
+      const user = await UserController.createUser("two_factor_user", "Password1");
+      userId = user.id;
+    });
+
+    after(async () => {
+      delete process.env.TWO_FACTOR_REQUIRED_GROUPS;
+      await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should enable after a valid code and reject its replay`, async () => {
+      const secret = await TwoFactorController.createSecret(userId);
+      expect(await TwoFactorController.isTwoFactorEnabled(userId)).to.be.false;
+
+      const code = generateTotpCode(secret);
+      expect(await TwoFactorController.verifyCode(userId, code)).to.be.true;
+      expect(await TwoFactorController.verifyCode(userId, code)).to.be.false;
+
+      const recoveryCodes = await TwoFactorController.enableTwoFactor(userId);
+      expect(recoveryCodes).to.have.lengthOf(10);
+      expect(await TwoFactorController.isTwoFactorEnabled(userId)).to.be.true;
+    });
+
+    it(`should consume a recovery code once`, async () => {
+      const [code] = await TwoFactorController.generateRecoveryCodes(userId);
+
+      expect(await TwoFactorController.consumeRecoveryCode(userId, code.toUpperCase())).to.be
+        .true;
+      expect(await TwoFactorController.consumeRecoveryCode(userId, code)).to.be.false;
+      expect(await TwoFactorController.countRecoveryCodes(userId)).to.be.equal(9);
+    });
+
+    it(`should require two-factor for the configured groups`, async () => {
+      process.env.TWO_FACTOR_REQUIRED_GROUPS = `${PermissionGroupEnum.ADMIN}`;
+      expect(await TwoFactorController.isTwoFactorRequired(userId)).to.be.false;
+
+      process.env.TWO_FACTOR_REQUIRED_GROUPS = `${PermissionGroupEnum.ADMIN},${PermissionGroupEnum.USER}`;
+      expect(await TwoFactorController.isTwoFactorRequired(userId)).to.be.true;
+    });
+
+    it(`should disable and remove the recovery codes`, async () => {
+      await TwoFactorController.disableTwoFactor(userId);
+
+      expect(await TwoFactorController.isTwoFactorEnabled(userId)).to.be.false;
+      expect(await TwoFactorController.countRecoveryCodes(userId)).to.be.equal(0);
+    });
+  });
+});
@@ -62,9 +62,9 @@ describe(`v1: User `, () => {
   describe(`Controller`, () => {
     // remove user after create user
     afterEach(async () => {
-      // delete user from database
-      // by using truncate
-      await DatabaseBuilder(Tables.User).truncate();
+      // delete user from database, their permissions are
+      // removed by the foreign key cascade
+      await DatabaseBuilder(Tables.User).delete();
     });
 
     it(`should create new user`, async () => {
@@ -87,9 +87,9 @@ describe(`v1: User `, () => {
       expect(responsesArray[0].email).to.be.equal(email);
       expect(responsesArray[0].nickname).to.be.equal(nickname);
 
-      // check id as uuid
+      // check id as an auto increment number
       expect(responsesArray[0].id).to.be.not.undefined;
-      expect(responsesArray[0].id).to.be.a("string");
+      expect(responsesArray[0].id).to.be.a("number");
 
       // validate password as boolean (because it hashed lmao)
       expect(
@@ -0,0 +1,105 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { User } from "../../v1/classes/User";
+import { UserController } from "../../v1/controllers/UserController";
+import { UserApiKeyController } from "../../v1/controllers/UserApiKeyController";
+import { PermissionEnum } from "../../v1/interfaces/PermissionInterface";
+import { getAuth, requireSession } from "../../v1/middlewares/AuthMiddleware";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { hashToken } from "../../v1/utils/TokenUtils";
+const expect = chai.expect;
+
+/**
+ * Run getAuth with the given headers.
+ *
+ * @param headers request headers
+ * @returns the request and the error passed to next
+ */
+async function authenticate(headers: any): Promise<{ req: any; err: any }> {
+    const req: any = { headers };
+    let err: any;
+    await getAuth(req, {} as any, (e?: any) => {
+        err = e;
+    });
+    return { req, err };
+}
+
+describe(`v1: User API key`, () => {
+    let userId: number;
+
+    before(async () => {
+        const user = await UserController.createUser("api_key_user", "Password1");
+        userId = user.id;
+    });
+
+    afterEach(async () => {
+        await DatabaseBuilder(Tables.UserApiKey).delete();
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should create a key and store only its hash`, async () => {
+        const { apiKey, key } = await UserApiKeyController.createApiKey(userId, "uploader", [
+            PermissionEnum.COMIC_CHAPTER_CREATE,
+        ]);
+
+        expect(apiKey.name).to.be.equal("uploader");
+        expect(apiKey.keyHash).to.be.equal(hashToken(key));
+        expect(key.startsWith(apiKey.keyPrefix)).to.be.true;
+        expect(apiKey.scopes).to.be.deep.equal([PermissionEnum.COMIC_CHAPTER_CREATE]);
+        expect(apiKey.lastUsedAt).to.be.null;
+    });
+
+    it(`should record the usage and reject a revoked key`, async () => {
+        const { apiKey, key } = await UserApiKeyController.createApiKey(userId, "bot");
+
+        const used = await UserApiKeyController.useApiKey(key);
+        expect(used.id).to.be.equal(apiKey.id);
+        expect((await UserApiKeyController.getApiKey(apiKey.id)).lastUsedAt).to.be.not.null;
+
+        expect(await UserApiKeyController.revokeApiKey(apiKey.id)).to.be.true;
+        expect(await UserApiKeyController.revokeApiKey(apiKey.id)).to.be.false;
+        expect(await UserApiKeyController.useApiKey(key)).to.be.null;
+        expect(await UserApiKeyController.getActiveApiKeysFromUserId(userId)).to.be.empty;
+    });
+
+    it(`should authenticate a request with the X-API-Key header`, async () => {
+        const { apiKey, key } = await UserApiKeyController.createApiKey(userId, "bot");
+
+        const { req, err } = await authenticate({ "x-api-key": key });
+        expect(err).to.be.undefined;
+        expect(req.UserRequest.id).to.be.equal(userId);
+        expect(req.ApiKeyRequest.id).to.be.equal(apiKey.id);
+        expect(req.SessionRequest).to.be.undefined;
+
+        const invalid = await authenticate({ "x-api-key": "cpk_invalid" });
+        expect(invalid.err.status).to.be.equal(401);
+    });
+
+    it(`should restrict the permissions to the scopes of the key`, async () => {
+        const { key } = await UserApiKeyController.createApiKey(userId, "reviewer", [
+            PermissionEnum.REVIEW_CREATE,
+        ]);
+        const { req } = await authenticate({ "x-api-key": key });
+        const user: User = req.UserRequest;
+
+        expect(await user.hasPermission(PermissionEnum.REVIEW_CREATE)).to.be.true;
+        expect(await user.hasPermission(PermissionEnum.USER_UPDATE_PROFILE)).to.be.false;
+        expect((await user.getPermissions()).map(({ id }) => id)).to.be.deep.equal([
+            PermissionEnum.REVIEW_CREATE,
+        ]);
+    });
+
+    it(`should reject an API key where a session is required`, async () => {
+        const { key } = await UserApiKeyController.createApiKey(userId, "bot");
+        const { req } = await authenticate({ "x-api-key": key });
+
+        let err: any;
+        requireSession(req, {} as any, (e?: any) => {
+            err = e;
+        });
+        expect(err.status).to.be.equal(403);
+    });
+});
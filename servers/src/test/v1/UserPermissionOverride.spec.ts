@@ -0,0 +1,140 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { UserController } from "../../v1/controllers/UserController";
+import { UserPermissionOverrideController } from "../../v1/controllers/UserPermissionOverrideController";
+import { PermissionEnum } from "../../v1/interfaces/PermissionInterface";
+import {
+    UserPermissionOverrideEffectEnum,
+    UserPermissionSourceEnum,
+} from "../../v1/interfaces/UserPermissionOverrideInterface";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: User permission override`, () => {
+    let userId: number;
+
+    before(async () => {
+        const user = await UserController.createUser("override_user", "Password1");
+        userId = user.id;
+    });
+
+    afterEach(async () => {
+        await DatabaseBuilder(Tables.UserPermissionOverride).delete();
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should grant a permission which the group does not have`, async () => {
+        expect(await UserController.hasPermissionByUserId(userId, PermissionEnum.COMIC_UPDATE)).to
+            .be.false;
+
+        await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.COMIC_UPDATE,
+            UserPermissionOverrideEffectEnum.GRANT
+        );
+
+        expect(await UserController.hasPermissionByUserId(userId, PermissionEnum.COMIC_UPDATE)).to
+            .be.true;
+        const permissions = await UserController.getAllPermissionsFromUserId(userId);
+        expect(permissions.map(({ id }) => id)).to.include(PermissionEnum.COMIC_UPDATE);
+    });
+
+    it(`should deny a permission of the group until removed`, async () => {
+        await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.REVIEW_CREATE,
+            UserPermissionOverrideEffectEnum.DENY
+        );
+
+        expect(await UserController.hasPermissionByUserId(userId, PermissionEnum.REVIEW_CREATE)).to
+            .be.false;
+        let permissions = await UserController.getAllPermissionsFromUserId(userId);
+        expect(permissions.map(({ id }) => id)).to.not.include(PermissionEnum.REVIEW_CREATE);
+
+        expect(
+            await UserPermissionOverrideController.deleteOverride(
+                userId,
+                PermissionEnum.REVIEW_CREATE
+            )
+        ).to.be.true;
+        expect(await UserController.hasPermissionByUserId(userId, PermissionEnum.REVIEW_CREATE)).to
+            .be.true;
+        permissions = await UserController.getAllPermissionsFromUserId(userId);
+        expect(permissions.map(({ id }) => id)).to.include(PermissionEnum.REVIEW_CREATE);
+    });
+
+    it(`should ignore an expired override`, async () => {
+        await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.COMIC_UPDATE,
+            UserPermissionOverrideEffectEnum.GRANT,
+            new Date(Date.now() - 1000)
+        );
+
+        expect(await UserController.hasPermissionByUserId(userId, PermissionEnum.COMIC_UPDATE)).to
+            .be.false;
+        expect(
+            await UserPermissionOverrideController.getOverridesFromUserId(userId)
+        ).to.have.length(1);
+        expect(await UserPermissionOverrideController.getActiveOverridesFromUserId(userId)).to.be
+            .empty;
+    });
+
+    it(`should replace the previous override of a permission`, async () => {
+        await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.COMIC_UPDATE,
+            UserPermissionOverrideEffectEnum.GRANT
+        );
+        const override = await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.COMIC_UPDATE,
+            UserPermissionOverrideEffectEnum.DENY
+        );
+
+        expect(override.effect).to.be.equal(UserPermissionOverrideEffectEnum.DENY);
+        expect(
+            await UserPermissionOverrideController.getOverridesFromUserId(userId)
+        ).to.have.length(1);
+    });
+
+    it(`should explain where each permission comes from`, async () => {
+        await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.COMIC_UPDATE,
+            UserPermissionOverrideEffectEnum.GRANT
+        );
+        await UserPermissionOverrideController.setOverride(
+            userId,
+            PermissionEnum.REVIEW_CREATE,
+            UserPermissionOverrideEffectEnum.DENY
+        );
+
+        const permissions = await UserController.getEffectivePermissionsFromUserId(userId);
+        const find = (id: number) => permissions.find((permission) => permission.id === id);
+
+        expect(find(PermissionEnum.COMIC_UPDATE)).to.include({
+            granted: true,
+            inGroup: false,
+            source: UserPermissionSourceEnum.OVERRIDE,
+        });
+        expect(find(PermissionEnum.REVIEW_CREATE)).to.include({
+            granted: false,
+            inGroup: true,
+            source: UserPermissionSourceEnum.OVERRIDE,
+        });
+        expect(find(PermissionEnum.USER_UPDATE_PROFILE)).to.include({
+            granted: true,
+            inGroup: true,
+            source: UserPermissionSourceEnum.GROUP,
+            override: null,
+        });
+        expect(find(PermissionEnum.ADMIN_DELETE_USER)).to.include({
+            granted: false,
+            source: null,
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { User } from "../../v1/classes/User";
+import { UserController } from "../../v1/controllers/UserController";
+import { UserApiKeyController } from "../../v1/controllers/UserApiKeyController";
+import { UserSanctionController } from "../../v1/controllers/UserSanctionController";
+import { UserSanctionTypeEnum } from "../../v1/interfaces/UserSanctionInterface";
+import { getAuth } from "../../v1/middlewares/AuthMiddleware";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: User sanction`, () => {
+    let userId: number;
+
+    before(async () => {
+        const user = await UserController.createUser("sanction_user", "Password1");
+        userId = user.id;
+    });
+
+    afterEach(async () => {
+        await DatabaseBuilder(Tables.UserSanction).delete();
+        await DatabaseBuilder(Tables.UserApiKey).delete();
+    });
+
+    after(async () => {
+        await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+    });
+
+    it(`should keep the lifted and the expired sanctions as history`, async () => {
+        const expired = await UserSanctionController.createSanction(
+            userId,
+            UserSanctionTypeEnum.BAN,
+            "spam",
+            new Date(Date.now() - 1000)
+        );
+        const ban = await UserSanctionController.createSanction(
+            userId,
+            UserSanctionTypeEnum.BAN,
+            "spam again"
+        );
+
+        expect(UserSanctionController.isActive(expired)).to.be.false;
+        expect(
+            (await UserSanctionController.getActiveSanction(userId, UserSanctionTypeEnum.BAN)).id
+        ).to.be.equal(ban.id);
+
+        expect(await UserSanctionController.liftSanction(ban.id)).to.be.true;
+        expect(await UserSanctionController.liftSanction(ban.id)).to.be.false;
+        expect(await UserSanctionController.getActiveSanction(userId, UserSanctionTypeEnum.BAN)).to
+            .be.null;
+        expect(await UserSanctionController.getSanctionsFromUserId(userId)).to.have.length(2);
+    });
+
+    it(`should prefer a permanent sanction over a temporary one`, async () => {
+        await UserSanctionController.createSanction(
+            userId,
+            UserSanctionTypeEnum.MUTE,
+            "flood",
+            new Date(Date.now() + 60 * 1000)
+        );
+        const permanent = await UserSanctionController.createSanction(
+            userId,
+            UserSanctionTypeEnum.MUTE,
+            "flood"
+        );
+        await UserSanctionController.createSanction(
+            userId,
+            UserSanctionTypeEnum.MUTE,
+            "flood",
+            new Date(Date.now() + 120 * 1000)
+        );
+
+        const mute = await UserSanctionController.getActiveSanction(
+            userId,
+            UserSanctionTypeEnum.MUTE
+        );
+        expect(mute.id).to.be.equal(permanent.id);
+        expect(await UserSanctionController.getActiveSanctions(UserSanctionTypeEnum.BAN)).to.be
+            .empty;
+    });
+
+    it(`should mute a user without banning`, async () => {
+        const user = new User(await UserController.getUserFromUUID(userId), userId);
+        expect(await user.isMuted()).to.be.false;
+
+        await UserSanctionController.createSanction(userId, UserSanctionTypeEnum.MUTE, "insults");
+        expect(await user.isMuted()).to.be.true;
+    });
+
+    it(`should reject the requests of a banned user`, async () => {
+        const { key } = await UserApiKeyController.createApiKey(userId, "bot");
+        const authenticate = async () => {
+            const req: any = { headers: { "x-api-key": key } };
+            let err: any;
+            await getAuth(req, {} as any, (e?: any) => {
+                err = e;
+            });
+            return err;
+        };
+        expect(await authenticate()).to.be.undefined;
+
+        await UserSanctionController.createSanction(userId, UserSanctionTypeEnum.BAN, "abuse");
+        expect((await authenticate()).status).to.be.equal(403);
+    });
+});
@@ -0,0 +1,80 @@
+import * as chai from "chai";
+import { Tables } from "./../../v1/Database";
+import { UserController } from "../../v1/controllers/UserController";
+import { UserSessionController } from "../../v1/controllers/UserSessionController";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+import { hashToken } from "../../v1/utils/TokenUtils";
+const expect = chai.expect;
+
+describe(`v1: User session`, () => {
+  let userId: number;
+
+  before(async () => {
+    const user = await UserController.createUser("session_user", "Password1");
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    await DatabaseBuilder(Tables.UserSession).delete();
+  });
+
+  after(async () => {
+    await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+  });
+
+  it(`should create a session and store only the token hash`, async () => {
+    const { session, refreshToken } = await UserSessionController.createSession(
+      userId,
+      "mocha",
+      "127.0.0.1"
+    );
+
+    expect(session.userId).to.be.equal(userId);
+    expect(session.userAgent).to.be.equal("mocha");
+    expect(session.revokedAt).to.be.null;
+    expect(session.expiresAt.getTime()).to.be.greaterThan(Date.now());
+    expect(session.refreshTokenHash).to.be.equal(hashToken(refreshToken));
+    expect(session.refreshTokenHash).to.be.not.equal(refreshToken);
+  });
+
+  it(`should rotate the refresh token`, async () => {
+    const { session, refreshToken } = await UserSessionController.createSession(userId);
+
+    const rotated = await UserSessionController.rotateRefreshToken(refreshToken);
+    expect(rotated).to.be.not.null;
+    expect(rotated.session.id).to.be.equal(session.id);
+    expect(rotated.refreshToken).to.be.not.equal(refreshToken);
+
+    // The former token can not be used anymore
+    expect(await UserSessionController.rotateRefreshToken(refreshToken)).to.be.null;
+    expect(await UserSessionController.rotateRefreshToken(rotated.refreshToken)).to.be.not.null;
+  });
+
+  it(`should not refresh a revoked session`, async () => {
+    const { session, refreshToken } = await UserSessionController.createSession(userId);
+
+    expect(await UserSessionController.revokeSession(session.id)).to.be.true;
+    expect(await UserSessionController.revokeSession(session.id)).to.be.false;
+    expect(await UserSessionController.getActiveSession(session.id)).to.be.null;
+    expect(await UserSessionController.rotateRefreshToken(refreshToken)).to.be.null;
+  });
+
+  it(`should not refresh an expired session`, async () => {
+    const { session, refreshToken } = await UserSessionController.createSession(userId);
+    await DatabaseBuilder(Tables.UserSession)
+      .where({ id: session.id })
+      .update({ expiresAt: new Date(Date.now() - 1000) });
+
+    expect(await UserSessionController.getActiveSession(session.id)).to.be.null;
+    expect(await UserSessionController.rotateRefreshToken(refreshToken)).to.be.null;
+  });
+
+  it(`should revoke all sessions of a user`, async () => {
+    await UserSessionController.createSession(userId);
+    await UserSessionController.createSession(userId);
+    expect(await UserSessionController.getActiveSessionsFromUserId(userId)).to.have.lengthOf(2);
+
+    expect(await UserSessionController.revokeAllSessionsFromUserId(userId)).to.be.equal(2);
+    expect(await UserSessionController.getActiveSessionsFromUserId(userId)).to.be.empty;
+  });
+});
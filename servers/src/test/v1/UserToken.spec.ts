@@ -0,0 +1,132 @@
+import * as chai from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Tables } from "./../../v1/Database";
+import { UserController } from "../../v1/controllers/UserController";
+import { UserTokenController } from "../../v1/controllers/UserTokenController";
+import { FileMailTransport } from "../../v1/classes/FileMailTransport";
+import { MailMessageInterface } from "../../v1/interfaces/MailInterface";
+import { UserTokenTypeEnum } from "../../v1/interfaces/UserTokenInterface";
+import { Mail, setMailTransport } from "../../v1/Mail";
+import DatabaseBuilder from "../../v1/utils/DatabaseBuilder";
+const expect = chai.expect;
+
+describe(`v1: User token`, () => {
+  let userId: number;
+
+  before(async () => {
+    const user = await UserController.createUser(
+      "token_user",
+      "Password1",
+      "token_user@email.com"
+    );
+    userId = user.id;
+  });
+
+  after(async () => {
+    await DatabaseBuilder(Tables.User).where({ id: userId }).delete();
+  });
+
+  describe(`Controller`, () => {
+    it(`should consume a token only once`, async () => {
+      const token = await UserTokenController.createToken(
+        userId,
+        UserTokenTypeEnum.PASSWORD_RESET
+      );
+
+      expect(
+        await UserTokenController.consumeToken(token, UserTokenTypeEnum.PASSWORD_RESET)
+      ).to.be.equal(userId);
+      expect(await UserTokenController.consumeToken(token, UserTokenTypeEnum.PASSWORD_RESET)).to
+        .be.null;
+    });
+
+    it(`should not consume a token of another type`, async () => {
+      const token = await UserTokenController.createToken(
+        userId,
+        UserTokenTypeEnum.EMAIL_VERIFICATION
+      );
+
+      expect(await UserTokenController.consumeToken(token, UserTokenTypeEnum.PASSWORD_RESET)).to
+        .be.null;
+    });
+
+    it(`should not consume an expired token`, async () => {
+      const token = await UserTokenController.createToken(
+        userId,
+        UserTokenTypeEnum.PASSWORD_RESET
+      );
+      await DatabaseBuilder(Tables.UserToken)
+        .where({ userId })
+        .update({ expiresAt: new Date(Date.now() - 1000) });
+
+      expect(await UserTokenController.consumeToken(token, UserTokenTypeEnum.PASSWORD_RESET)).to
+        .be.null;
+    });
+
+    it(`should invalidate the former tokens`, async () => {
+      const former = await UserTokenController.createToken(
+        userId,
+        UserTokenTypeEnum.PASSWORD_RESET
+      );
+      const latest = await UserTokenController.createToken(
+        userId,
+        UserTokenTypeEnum.PASSWORD_RESET
+      );
+
+      expect(await UserTokenController.consumeToken(former, UserTokenTypeEnum.PASSWORD_RESET)).to
+        .be.null;
+      expect(
+        await UserTokenController.consumeToken(latest, UserTokenTypeEnum.PASSWORD_RESET)
+      ).to.be.equal(userId);
+    });
+
+    it(`should reset the verification when the email changes`, async () => {
+      await UserController.markEmailVerified(userId);
+      expect((await UserController.getUserFromUUID(userId)).emailVerifiedAt).to.be.not.null;
+
+      await UserController.updateUserProfile(userId, "nickname", "", "token_user@email.com");
+      expect((await UserController.getUserFromUUID(userId)).emailVerifiedAt).to.be.not.null;
+
+      await UserController.updateUserProfile(userId, "nickname", "", "changed@email.com");
+      expect((await UserController.getUserFromUUID(userId)).emailVerifiedAt).to.be.null;
+    });
+  });
+
+  describe(`Mail`, () => {
+    afterEach(() => {
+      setMailTransport(null);
+    });
+
+    it(`should send the token through the transport`, async () => {
+      const messages: MailMessageInterface[] = [];
+      setMailTransport({ send: async (message) => void messages.push(message) });
+
+      await Mail.sendPasswordResetMail("token_user@email.com", "a-token");
+
+      expect(messages).to.have.lengthOf(1);
+      expect(messages[0].to).to.be.equal("token_user@email.com");
+      expect(messages[0].text).to.contain("a-token");
+    });
+
+    it(`should write the mail into a file`, async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), "mails-"));
+      try {
+        await new FileMailTransport(directory).send({
+          to: "token_user@email.com",
+          subject: "Subject",
+          text: "Content",
+        });
+
+        const files = fs.readdirSync(directory);
+        expect(files).to.have.lengthOf(1);
+        const content = fs.readFileSync(path.join(directory, files[0]), "utf-8");
+        expect(content).to.contain("To: token_user@email.com");
+        expect(content).to.contain("Content");
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
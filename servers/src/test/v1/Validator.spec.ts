@@ -1,5 +1,8 @@
 import * as chai from "chai";
-import { isValidNickname } from "../../v1/utils/ValidatorUtils";
+import {
+  isValidNickname,
+  parseQueryInteger,
+} from "../../v1/utils/ValidatorUtils";
 const expect = chai.expect;
 
 describe(`v1: validator`, () => {
@@ -45,4 +48,14 @@ describe(`v1: validator`, () => {
       });
     });
   });
+
+  describe(`query integer`, () => {
+    it(`should fall back and clamp the integers of a query`, () => {
+      expect(parseQueryInteger(undefined, 20, 1, 100)).to.be.equal(20);
+      expect(parseQueryInteger("abc", 20, 1, 100)).to.be.equal(20);
+      expect(parseQueryInteger("-5", 20, 1, 100)).to.be.equal(1);
+      expect(parseQueryInteger("500", 20, 1, 100)).to.be.equal(100);
+      expect(parseQueryInteger("3", 0, 0)).to.be.equal(3);
+    });
+  });
 });
@@ -0,0 +1,93 @@
+import * as express from "express";
+import { User } from "./classes/User";
+import { AuditLogController } from "./controllers/AuditLogController";
+import { AuditActionEnum, AuditTargetTypeEnum } from "./interfaces/AuditLogInterface";
+import { Logger } from "./utils/Logger";
+
+/**
+ * Fields which are never written into the audit log.
+ */
+const HiddenFields = ["password", "keyHash", "tokenHash", "secret", "path"];
+
+/**
+ * Copy a record without its hidden fields.
+ *
+ * @param record a record to copy
+ * @returns the copy, null whether no record is provided
+ */
+function withoutHiddenFields(record: any): any {
+    if (!record) {
+        return null;
+    }
+    const copy = {};
+    Object.keys(record)
+        .filter((key) => HiddenFields.indexOf(key) === -1)
+        .forEach((key) => (copy[key] = record[key]));
+    return copy;
+}
+
+/**
+ * Retrieves the fields which differ between two versions of a record, the
+ * id is always kept to recognize the record. Whether one of the versions is
+ * missing, e.g. the record has just been created, the other version is kept
+ * as a whole.
+ *
+ * @param before a record before the action
+ * @param after a record after the action
+ * @returns the changed fields before and after the action
+ */
+function getChanges(before: any, after: any): { before: any; after: any } {
+    before = withoutHiddenFields(before);
+    after = withoutHiddenFields(after);
+    if (!before || !after) {
+        return { before, after };
+    }
+
+    const changes = { before: {}, after: {} };
+    Object.keys({ ...before, ...after })
+        .filter((key) => key === "id" || JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .forEach((key) => {
+            changes.before[key] = before[key];
+            changes.after[key] = after[key];
+        });
+    return changes;
+}
+
+/**
+ * Record an action of the current user into the audit log. A failure to
+ * record is logged, the action has already been done.
+ *
+ * @param req a request of the action
+ * @param action an action to record
+ * @param targetType a type of the record which the action is applied to
+ * @param targetId an identifier of the record
+ * @param before the record before the action, null whether created
+ * @param after the record after the action, null whether deleted
+ */
+async function record(
+    req: express.Request,
+    action: AuditActionEnum,
+    targetType: AuditTargetTypeEnum,
+    targetId: number | string,
+    before: any = null,
+    after: any = null
+) {
+    const user: User = req["UserRequest"];
+    try {
+        await AuditLogController.createAuditLog({
+            actorId: user ? user.id : null,
+            action,
+            targetType,
+            targetId: targetId ? Number(targetId) : null,
+            ...getChanges(before, after),
+            ip: req.ip || null,
+        });
+    } catch (err) {
+        Logger.error(`Unable to record ${action} of ${targetType} ${targetId}: ${err.message}`);
+    }
+}
+
+export const Audit = {
+    getChanges,
+    record,
+};
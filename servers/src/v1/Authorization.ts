@@ -0,0 +1,133 @@
+import { User } from "./classes/User";
+import { ComicChapterInterface } from "./interfaces/ComicChapterInterface";
+import { ComicInterface } from "./interfaces/ComicInterface";
+import { PermissionEnum } from "./interfaces/PermissionInterface";
+import { isPublic } from "./utils/PublicationUtils";
+
+/**
+ * A rule to modify a content owned by a user. The owners need the own
+ * permission, every other user needs the any permission.
+ */
+export interface OwnershipRuleInterface {
+    ownPermission: PermissionEnum;
+    anyPermission: PermissionEnum;
+}
+
+/**
+ * The ownership rules of the contents.
+ */
+export const OwnershipRules = {
+    ComicUpdate: {
+        ownPermission: PermissionEnum.COMIC_UPDATE,
+        anyPermission: PermissionEnum.COMIC_MANAGE_ANY,
+    },
+    ComicDelete: {
+        ownPermission: PermissionEnum.COMIC_DELETE,
+        anyPermission: PermissionEnum.COMIC_MANAGE_ANY,
+    },
+    Chapter: {
+        ownPermission: PermissionEnum.COMIC_CHAPTER_CREATE,
+        anyPermission: PermissionEnum.COMIC_CHAPTER_MANAGE_ANY,
+    },
+    Comment: {
+        ownPermission: PermissionEnum.COMIC_CHAPTER_COMMENT,
+        anyPermission: PermissionEnum.COMIC_CHAPTER_COMMENT_MANAGE_ANY,
+    },
+    Review: {
+        ownPermission: PermissionEnum.REVIEW_CREATE,
+        anyPermission: PermissionEnum.REVIEW_MANAGE_ANY,
+    },
+};
+
+/**
+ * Check whether the user owns a content.
+ *
+ * @param user a user to check
+ * @param ownerIds identifiers of the users who own the content, e.g. the
+ *  author of a chapter and the poster of its comic
+ * @returns true whether the user is one of the owners
+ */
+function isOwner(user: User, ownerIds: number[]): boolean {
+    return ownerIds.some((ownerId) => ownerId !== null && Number(ownerId) === Number(user.id));
+}
+
+/**
+ * Check whether the user can modify a content.
+ *
+ * @param user a user who modifies the content
+ * @param ownerIds identifiers of the users who own the content
+ * @param rule an ownership rule of the content
+ * @returns true whether the user is allowed, false otherwise
+ */
+async function canModify(
+    user: User,
+    ownerIds: number[],
+    rule: OwnershipRuleInterface
+): Promise<boolean> {
+    if (isOwner(user, ownerIds) && (await user.hasPermission(rule.ownPermission))) {
+        return true;
+    }
+    return user.hasPermission(rule.anyPermission);
+}
+
+/**
+ * Check whether the user can view a content which is not public, e.g. a
+ * draft. Only its owners and the users who can manage any of them can.
+ *
+ * @param user a user who views the content, undefined whether anonymous
+ * @param ownerIds identifiers of the users who own the content
+ * @param rule an ownership rule of the content
+ * @returns true whether the user is allowed, false otherwise
+ */
+async function canViewUnpublished(
+    user: User,
+    ownerIds: number[],
+    rule: OwnershipRuleInterface
+): Promise<boolean> {
+    if (!user) {
+        return false;
+    }
+    return isOwner(user, ownerIds) || user.hasPermission(rule.anyPermission);
+}
+
+/**
+ * Check whether the user can view a comic. Unpublished comics are only
+ * visible to their owners and moderators.
+ *
+ * @param user a user who views the comic, undefined whether anonymous
+ * @param comic a comic to view
+ * @returns true whether the user is allowed, false otherwise
+ */
+async function canViewComic(user: User, comic: ComicInterface): Promise<boolean> {
+    return (
+        isPublic(comic) || canViewUnpublished(user, [comic.postedBy], OwnershipRules.ComicUpdate)
+    );
+}
+
+/**
+ * Check whether the user can view a chapter. Both the chapter and its comic
+ * must be public, otherwise only their owners and moderators can view it.
+ *
+ * @param user a user who views the chapter, undefined whether anonymous
+ * @param comic a comic of the chapter
+ * @param chapter a chapter to view
+ * @returns true whether the user is allowed, false otherwise
+ */
+async function canViewChapter(
+    user: User,
+    comic: ComicInterface,
+    chapter: ComicChapterInterface
+): Promise<boolean> {
+    return (
+        (isPublic(comic) && isPublic(chapter)) ||
+        canViewUnpublished(user, [chapter.postedBy, comic.postedBy], OwnershipRules.Chapter)
+    );
+}
+
+export const Authorization = {
+    isOwner,
+    canModify,
+    canViewUnpublished,
+    canViewComic,
+    canViewChapter,
+};
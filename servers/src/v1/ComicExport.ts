@@ -0,0 +1,243 @@
+import archiver from "archiver";
+import ComicBookTagController from "./controllers/ComicBookTagController";
+import ComicChapterController from "./controllers/ComicChapterController";
+import ResourceController from "./controllers/ResourceController";
+import {
+    ComicChapterInterface,
+    ComicChapterViewTypeEnum,
+} from "./interfaces/ComicChapterInterface";
+import { ComicInterface } from "./interfaces/ComicInterface";
+import { ExportFormatEnum, ExportImageInterface } from "./interfaces/ExportInterface";
+import {
+    buildComicInfo,
+    buildEpubNav,
+    buildEpubPackage,
+    buildImageChapterXhtml,
+    buildTextChapterXhtml,
+    EpubContainer,
+    ExportMediaTypes,
+    getImageType,
+    padPosition,
+} from "./utils/ExportUtils";
+import { Logger } from "./utils/Logger";
+import { getStorageDriver } from "./Storage";
+
+/**
+ * Append an entry into an archive and wait until it has been written, so
+ * that a single image is held in memory at once.
+ *
+ * @param archive an archive to append into
+ * @param data a content of the entry
+ * @param name a path of the entry in the archive
+ * @param store true to store the entry without compression, e.g. images
+ */
+function appendEntry(
+    archive: archiver.Archiver,
+    data: Buffer | string,
+    name: string,
+    store: boolean = false
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onEntry = () => {
+            archive.removeListener("error", onError);
+            resolve();
+        };
+        const onError = (err: Error) => {
+            archive.removeListener("entry", onEntry);
+            reject(err);
+        };
+        archive.once("entry", onEntry);
+        archive.once("error", onError);
+        archive.append(data, { name, store });
+    });
+}
+
+/**
+ * Read the images of an image chapter one by one. The blocks whose files are
+ * missing or are not images are skipped.
+ *
+ * @param blocks the blocks of the chapter, which refer to resource files
+ * @param onImage a callback to write an image, with its position from 1
+ */
+async function forEachImage(
+    blocks: any[],
+    onImage: (data: Buffer, extension: string, mediaType: string, position: number) => Promise<void>
+) {
+    let position = 0;
+    for (const block of blocks) {
+        const resource = await ResourceController.getResourceByFileName(block.content);
+        const data = resource ? await getStorageDriver(resource.storage).read(resource.path) : null;
+        const imageType = data ? getImageType(data) : null;
+        if (!imageType) {
+            Logger.warn(`Skipped the missing image ${block.content} of chapter ${block.chapterId}`);
+            continue;
+        }
+        position++;
+        await onImage(data, imageType.extension, imageType.mediaType, position);
+    }
+}
+
+/**
+ * Write the chapters as a CBZ archive, the pages of each chapter are in its
+ * own directory unless a single chapter is exported.
+ */
+async function writeCbz(
+    archive: archiver.Archiver,
+    comic: ComicInterface,
+    tags: string[],
+    chapters: ComicChapterInterface[],
+    exportedChapter: ComicChapterInterface
+) {
+    let pageCount = 0;
+    for (let i = 0; i < chapters.length; i++) {
+        const chapter = await ComicChapterController.getChapter(chapters[i].id);
+        const directory = exportedChapter ? "" : `${padPosition(i + 1, chapters.length)}/`;
+        const blocks = chapter["blocks"] || [];
+
+        if (Number(chapter.viewType) === ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT) {
+            await appendEntry(archive, buildTextChapterXhtml(chapter), `${directory}chapter.xhtml`);
+            continue;
+        }
+        await forEachImage(blocks, async (data, extension, _mediaType, position) => {
+            const name = `${directory}${padPosition(position, blocks.length)}${extension}`;
+            await appendEntry(archive, data, name, true);
+            pageCount++;
+        });
+    }
+    await appendEntry(
+        archive,
+        buildComicInfo(comic, tags, exportedChapter, pageCount),
+        "ComicInfo.xml"
+    );
+}
+
+/**
+ * Write the chapters as an EPUB book, with a page for each chapter.
+ */
+async function writeEpub(
+    archive: archiver.Archiver,
+    comic: ComicInterface,
+    tags: string[],
+    chapters: ComicChapterInterface[],
+    exportedChapter: ComicChapterInterface
+) {
+    // The media type comes first and is not compressed
+    await appendEntry(archive, ExportMediaTypes[ExportFormatEnum.EPUB], "mimetype", true);
+    await appendEntry(archive, EpubContainer, "META-INF/container.xml");
+
+    const pages: Array<{ href: string; title: string }> = [];
+    const images: ExportImageInterface[] = [];
+    for (let i = 0; i < chapters.length; i++) {
+        const chapter = await ComicChapterController.getChapter(chapters[i].id);
+        const chapterPosition = padPosition(i + 1, chapters.length);
+        const href = `chapter-${chapterPosition}.xhtml`;
+        const blocks = chapter["blocks"] || [];
+
+        if (Number(chapter.viewType) === ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT) {
+            await appendEntry(archive, buildTextChapterXhtml(chapter), `OEBPS/${href}`);
+        } else {
+            const imagePaths: string[] = [];
+            await forEachImage(blocks, async (data, extension, mediaType, position) => {
+                const name = `images/${chapterPosition}-${padPosition(
+                    position,
+                    blocks.length
+                )}${extension}`;
+                await appendEntry(archive, data, `OEBPS/${name}`, true);
+                images.push({ name, mediaType });
+                imagePaths.push(name);
+            });
+            await appendEntry(
+                archive,
+                buildImageChapterXhtml(chapter, imagePaths),
+                `OEBPS/${href}`
+            );
+        }
+        pages.push({ href, title: chapter.name });
+    }
+
+    const title = exportedChapter ? `${comic.name} - ${exportedChapter.name}` : comic.name;
+    await appendEntry(archive, buildEpubNav(title, pages), "OEBPS/nav.xhtml");
+    await appendEntry(
+        archive,
+        buildEpubPackage(comic, tags, exportedChapter, pages, images),
+        "OEBPS/content.opf"
+    );
+}
+
+/**
+ * Write a comic or some of its chapters as an archive. The archive is
+ * streamed, the blocks of a chapter are loaded once the previous chapter
+ * has been written.
+ *
+ * @param output a stream to write the archive into, e.g. a response
+ * @param format a format of the archive
+ * @param comic a comic to export
+ * @param chapters the chapters to export, in the reading order
+ * @param exportedChapter the exported chapter, undefined whether the whole
+ *  comic is exported
+ */
+async function writeArchive(
+    output: NodeJS.WritableStream,
+    format: ExportFormatEnum,
+    comic: ComicInterface,
+    chapters: ComicChapterInterface[],
+    exportedChapter?: ComicChapterInterface
+) {
+    const tags = (await ComicBookTagController.getRefsByComicId(comic.id)).map(
+        ({ keyword }) => keyword
+    );
+    const archive = archiver("zip");
+    archive.pipe(output);
+    // Stop writing whether the client goes away
+    output.on("close", () => archive.abort());
+    try {
+        if (format === ExportFormatEnum.EPUB) {
+            await writeEpub(archive, comic, tags, chapters, exportedChapter);
+        } else {
+            await writeCbz(archive, comic, tags, chapters, exportedChapter);
+        }
+        await archive.finalize();
+    } catch (err) {
+        archive.abort();
+        throw err;
+    }
+}
+
+/**
+ * Export a chapter of a comic.
+ *
+ * @param output a stream to write the archive into, e.g. a response
+ * @param format a format of the archive
+ * @param comic a comic of the chapter
+ * @param chapter a chapter to export
+ */
+async function exportChapter(
+    output: NodeJS.WritableStream,
+    format: ExportFormatEnum,
+    comic: ComicInterface,
+    chapter: ComicChapterInterface
+) {
+    await writeArchive(output, format, comic, [chapter], chapter);
+}
+
+/**
+ * Export a whole comic.
+ *
+ * @param output a stream to write the archive into, e.g. a response
+ * @param format a format of the archive
+ * @param comic a comic to export
+ * @param chapters the chapters to export, in the reading order
+ */
+async function exportComic(
+    output: NodeJS.WritableStream,
+    format: ExportFormatEnum,
+    comic: ComicInterface,
+    chapters: ComicChapterInterface[]
+) {
+    await writeArchive(output, format, comic, chapters);
+}
+
+export const ComicExport = {
+    exportChapter,
+    exportComic,
+};
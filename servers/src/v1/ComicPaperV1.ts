@@ -10,7 +10,8 @@ const app = express();
 app.use(bodyParser.json());
 app.use(bodyParser.urlencoded({ extended: true }));
 app.use(bodyParser.text());
-app.use(cors())
+// Let the clients read the total count of paginated lists
+app.use(cors({ exposedHeaders: ["X-Total-Count"] }))
 
 // morgan
 app.use(morgan("dev"));
@@ -1,8 +1,21 @@
+/**
+ * Supported database clients.
+ */
+export type DatabaseClient = "mysql" | "sqlite";
+
 /**
  * This is a template for the configuration.
  */
 interface ConfigurationSchema {
     Database: {
+        /**
+         * A database client, either `mysql` or `sqlite`.
+         */
+        Client: DatabaseClient;
+        /**
+         * A database file of the sqlite client, `:memory:` for in-memory database.
+         */
+        Filename: string;
         Host: string;
         Port: string;
         Username: string;
@@ -19,6 +32,8 @@ const Configuration = {
      */
     production: {
         Database: {
+            Client: (process.env.DATABASE_CLIENT || "mysql") as DatabaseClient,
+            Filename: process.env.SQLITE_FILENAME || "./comics_paper.sqlite",
             Host: process.env.MYSQL_HOST || "localhost",
             Port: process.env.MYSQL_PORT || "3306",
             Username: process.env.MYSQL_USERNAME || "root",
@@ -32,6 +47,8 @@ const Configuration = {
      */
     development: {
         Database: {
+            Client: (process.env.DATABASE_DEV_CLIENT || "mysql") as DatabaseClient,
+            Filename: process.env.SQLITE_DEV_FILENAME || "./comics_paper_dev.sqlite",
             Host: process.env.MYSQL_DEV_HOST || "localhost",
             Port: process.env.MYSQL_DEV_PORT || "3306",
             Username: process.env.MYSQL_DEV_USERNAME || "root",
@@ -46,6 +63,8 @@ const Configuration = {
      */
     test: {
         Database: {
+            Client: (process.env.DATABASE_TEST_CLIENT || "sqlite") as DatabaseClient,
+            Filename: process.env.SQLITE_TEST_FILENAME || ":memory:",
             Host: process.env.MYSQL_TEST_HOST || "localhost",
             Port: process.env.MYSQL_TEST_PORT || "3306",
             Username: process.env.MYSQL_TEST_USERNAME || "root",
@@ -0,0 +1,203 @@
+import { Tables } from "./Database";
+import { ForeignKeyInterface } from "./interfaces/ForeignKeyInterface";
+import { getBaselineForeignKeys } from "./migrations/003_ForeignKeys";
+import DatabaseBuilder from "./utils/DatabaseBuilder";
+import { countOrphans, getOrphansQuery } from "./utils/IntegrityUtils";
+import { Logger } from "./utils/Logger";
+
+/**
+ * Retrieves all foreign keys of the schema, referenced tables first.
+ *
+ * @returns the foreign keys
+ */
+export function getForeignKeys(): ForeignKeyInterface[] {
+    return [
+        ...getBaselineForeignKeys(),
+        {
+            table: Tables.UserSession,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserToken,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserTwoFactor,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserRecoveryCode,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserApiKey,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserPermissionOverride,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserPermissionOverride,
+            column: "permissionId",
+            references: Tables.Permission,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserPermissionOverride,
+            column: "createdBy",
+            references: Tables.User,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.UserSanction,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserSanction,
+            column: "issuedBy",
+            references: Tables.User,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.UserSanction,
+            column: "liftedBy",
+            references: Tables.User,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.AuditLog,
+            column: "actorId",
+            references: Tables.User,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.ComicVolume,
+            column: "comicId",
+            references: Tables.Comic,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicChapter,
+            column: "volumeId",
+            references: Tables.ComicVolume,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.ComicChapterRevision,
+            column: "chapterId",
+            references: Tables.ComicChapter,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicChapterRevision,
+            column: "createdBy",
+            references: Tables.User,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.ResourceDerivative,
+            column: "resourceId",
+            references: Tables.Resource,
+            onDelete: "CASCADE",
+        },
+    ];
+}
+
+/**
+ * A result of checking (or repairing) a foreign key.
+ */
+export interface IntegrityReport {
+    key: ForeignKeyInterface;
+    /**
+     * A number of rows referencing a missing row
+     */
+    orphans: number;
+    /**
+     * A number of orphan rows which were deleted or set to null
+     */
+    repaired: number;
+}
+
+/**
+ * Count the orphan rows of every foreign key.
+ *
+ * @returns a report for each foreign key
+ */
+async function checkIntegrity(): Promise<IntegrityReport[]> {
+    const reports: IntegrityReport[] = [];
+    for (const key of getForeignKeys()) {
+        reports.push({ key, orphans: await countOrphans(key), repaired: 0 });
+    }
+    return reports;
+}
+
+/**
+ * Repair the orphan rows by following the delete rule of each foreign key:
+ * CASCADE deletes the rows and SET NULL clears the reference. RESTRICT
+ * orphans are only reported, they have to be resolved by hand.
+ *
+ * @returns a report for each foreign key
+ */
+async function repairIntegrity(): Promise<IntegrityReport[]> {
+    const reports: IntegrityReport[] = [];
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        // Referenced tables are repaired first, so that the rows referencing
+        // a deleted orphan are found as orphans afterwards.
+        for (const key of getForeignKeys()) {
+            const orphans = await countOrphans(key, transaction);
+            let repaired = 0;
+            if (orphans > 0) {
+                switch (key.onDelete) {
+                    case "CASCADE": {
+                        repaired = await getOrphansQuery(key, transaction).del();
+                        break;
+                    }
+                    case "SET NULL": {
+                        repaired = await getOrphansQuery(key, transaction).update({
+                            [key.column]: null,
+                        });
+                        break;
+                    }
+                    default: {
+                        Logger.warn(
+                            `${orphans} rows of ${key.table}.${key.column} reference a missing ${key.references} row and must be fixed manually.`
+                        );
+                    }
+                }
+            }
+            reports.push({ key, orphans, repaired });
+        }
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+    return reports;
+}
+
+export const Integrity = {
+    checkIntegrity,
+    repairIntegrity,
+};
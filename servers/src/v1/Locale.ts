@@ -35,6 +35,16 @@ export const Locale = {
       Description: "Admin update permission group",
     },
 
+    RoleUpdate: {
+      Name: "role_update",
+      Description: "Update a role (permission group)",
+    },
+
+    RoleDelete: {
+      Name: "role_delete",
+      Description: "Delete a role (permission group)",
+    },
+
     UserRoleChange: {
       Name: "user_role_change",
       Description: "Change role of user, only admin can do this",
@@ -97,6 +107,14 @@ export const Locale = {
       Name: "comic_tag_create",
       Description: "Create a new comic tag",
     },
+    ComicTagUpdate: {
+      Name: "comic_tag_update",
+      Description: "Update a comic tag",
+    },
+    ComicTagDelete: {
+      Name: "comic_tag_delete",
+      Description: "Delete a comic tag",
+    },
     ComicBookTagRefCreate: {
       Name: "comic_book_ref_tag",
       Description: "Create a new comic book reference tag",
@@ -113,6 +131,49 @@ export const Locale = {
       Name: "review_create",
       Description: "Create a new review",
     },
+    ComicManageAny: {
+      Name: "comic_manage_any",
+      Description: "Update or delete the comics of other users",
+    },
+    ComicChapterManageAny: {
+      Name: "comic_chapter_manage_any",
+      Description: "Create, update or delete the chapters of other users",
+    },
+    ComicChapterCommentManageAny: {
+      Name: "comic_chapter_comment_manage_any",
+      Description: "Update or delete the comments of other users",
+    },
+    ReviewManageAny: {
+      Name: "review_manage_any",
+      Description: "Update or delete the reviews of other users",
+    },
+    UserBan: {
+      Name: "user_ban",
+      Description: "Ban users or lift their bans",
+    },
+    UserMute: {
+      Name: "user_mute",
+      Description: "Mute users or lift their mutes",
+    },
+    AuditLogRead: {
+      Name: "audit_log_read",
+      Description: "Read the audit log",
+    },
+    ComicExport: {
+      Name: "comic_export",
+      Description: "Download comics and chapters as CBZ or EPUB",
+    },
+  },
+
+  Mail: {
+    PasswordReset: {
+      Subject: "Reset your password",
+      Text: "Use the following token within one hour to reset your password. Ignore this mail whether you did not request it.",
+    },
+    EmailVerification: {
+      Subject: "Verify your email",
+      Text: "Use the following token within one day to verify your email.",
+    },
   },
 
   HttpResponseMessage: {
@@ -135,7 +196,11 @@ export const Locale = {
       "The current password must not be the same as the previous password.",
     InvalidFileType: "Invalid file type.",
     AcceptOnlyImage: "Accept only image.",
+    ResourceUploadTooLarge:
+      "Uploaded images must not exceed the size and count limits.",
     ResourceNotFound: "Resource not found.",
+    ResourceFileNotFound: "Resource file not found.",
+    RangeNotSatisfiable: "Requested range not satisfiable.",
     BadRequest: "Bad request",
     ComicNotFound: "Comic not found.",
     ChapterViewTypeInvalid: "Invalid view type, must be `image` or `text`.",
@@ -149,5 +214,72 @@ export const Locale = {
     ComicChapterNotFound: "Comic chapter not found.",
     ComicCommentNotFound: "Comic comment not found.",
     ReviewNotFound: "Review not found.",
+    InvalidRefreshToken: "Invalid refresh token or expired.",
+    SessionNotFound: "Session not found.",
+    InvalidTokenOrUsed: "Invalid token, expired or already used.",
+    NoEmailProvided: "The user has no email.",
+    EmailAlreadyVerified: "Email already verified.",
+    InvalidCredentials: "Incorrect username or password.",
+    TooManyRequests: "Too many requests, try again later.",
+    AccountLocked:
+      "Too many failed sign in attempts, the account is temporarily locked.",
+    InvalidTwoFactorCode: "Invalid two-factor authentication code.",
+    TwoFactorAlreadyEnabled: "Two-factor authentication already enabled.",
+    TwoFactorNotEnabled: "Two-factor authentication is not enabled.",
+    TwoFactorNotSetUp: "Two-factor authentication has not been set up.",
+    TwoFactorEnrollmentRequired:
+      "Two-factor authentication is required for your role, enable it first.",
+    TwoFactorRequiredByPolicy:
+      "Two-factor authentication is required for your role and can not be disabled.",
+    InvalidApiKey: "Invalid or revoked API key.",
+    ApiKeyNotAllowed: "This action can not be done with an API key.",
+    ApiKeyNotFound: "API key not found.",
+    InvalidApiKeyName: "API key name must be between 1 and 64 characters.",
+    InvalidApiKeyScopes: "API key scopes must be an array of permission ids.",
+    PermissionGroupProtected:
+      "The admin group can not be deleted or stripped of its permissions.",
+    DefaultPermissionGroup: "The default group of new users can not be deleted.",
+    InvalidFallbackPermissionGroup:
+      "The fallback group must be another existing group.",
+    InvalidPermissionOverrideEffect:
+      "Permission override effect must be `grant` or `deny`.",
+    InvalidPermissionOverrideExpiration:
+      "Permission override expiration must be a date in the future.",
+    PermissionOverrideNotFound: "Permission override not found.",
+    UserBanned: "Your account is banned.",
+    UserMuted: "You are muted and can not post comments or reviews.",
+    InvalidSanctionType: "Sanction type must be `ban` or `mute`.",
+    InvalidSanctionReason: "Sanction reason must be between 1 and 255 characters.",
+    InvalidSanctionExpiration: "Sanction expiration must be a date in the future.",
+    SanctionProtected: "Admins and yourself can not be banned or muted.",
+    SanctionNotFound: "Sanction not found.",
+    InvalidAuditLogFilter: "Invalid audit log filter.",
+    InvalidPublication:
+      "Publication status must be `draft`, `published`, `scheduled` or `hidden`, a scheduled release requires a publishAt date in the future.",
+    InvalidChapterIndex:
+      "Chapter index must be a non-negative number with at most 3 decimals.",
+    ChapterNumberAlreadyExists:
+      "Another chapter of the comic has the same chapter number or index.",
+    InvalidChapterOrder:
+      "Chapter order must be a list of distinct chapters of the comic with their indexes.",
+    ComicVolumeNotFound: "Comic volume not found.",
+    ComicChapterRevisionNotFound: "Comic chapter revision not found.",
+    InvalidVolume:
+      "Volume name must be between 1 and 255 characters and its number a non-negative number with at most 3 decimals.",
+    VolumeNumberAlreadyExists:
+      "Another volume of the comic has the same number.",
+    InvalidChapterArchive:
+      "Chapter archive must be a ZIP or CBZ file of JPEG, PNG or GIF images which does not exceed the size limit.",
+    InvalidExportFormat: "Export format must be `cbz` or `epub`.",
+    InvalidContentFormat: "Content format must be `html` or `markdown`.",
+    InvalidRevision: "Revision must be a positive integer.",
+    InvalidImageSize: "Image size must be `thumb`, `medium` or `full`.",
+    InvalidImageFormat: "Image format must be `jpeg` or `webp`.",
+    InvalidChapterSort:
+      "Chapters must be sorted by `chapterIndex`, `chapterNumber`, `createdAt`, `updatedAt` or `name`.",
+    InvalidBlockOperation:
+      "Block operations must be a list of 1 to 500 insert, move, replace or delete operations on existing blocks and positions of the chapter.",
+    InvalidVolumeOrder:
+      "Volume order must be a list of distinct volumes of the comic with their numbers.",
   },
 };
@@ -0,0 +1,106 @@
+import { FileMailTransport } from "./classes/FileMailTransport";
+import { SmtpMailTransport } from "./classes/SmtpMailTransport";
+import { MailTransportInterface } from "./interfaces/MailInterface";
+import { Locale } from "./Locale";
+
+let transport: MailTransportInterface = null;
+
+/**
+ * Build the mail transport configured by MAIL_TRANSPORT: `smtp` delivers
+ * through SMTP_* settings, `file` writes into MAIL_OUTPUT_DIR and
+ * `console` (the default) prints the mails.
+ *
+ * @returns a mail transport
+ */
+function createMailTransport(): MailTransportInterface {
+    const name = process.env.MAIL_TRANSPORT || "console";
+    switch (name) {
+        case "smtp": {
+            return new SmtpMailTransport({
+                host: process.env.SMTP_HOST || "localhost",
+                port: parseInt(process.env.SMTP_PORT || "587"),
+                secure: process.env.SMTP_SECURE === "true",
+                username: process.env.SMTP_USERNAME,
+                password: process.env.SMTP_PASSWORD,
+                from: process.env.MAIL_FROM || "no-reply@localhost",
+            });
+        }
+        case "file": {
+            return new FileMailTransport(process.env.MAIL_OUTPUT_DIR || "./tmp/mails");
+        }
+        case "console": {
+            return new FileMailTransport();
+        }
+        default: {
+            throw new Error(`Unsupported mail transport: ${name}`);
+        }
+    }
+}
+
+/**
+ * Retrieves the current mail transport.
+ *
+ * @returns a mail transport
+ */
+export function getMailTransport(): MailTransportInterface {
+    if (transport === null) {
+        transport = createMailTransport();
+    }
+    return transport;
+}
+
+/**
+ * Replace the mail transport, e.g. to capture the mails in tests.
+ *
+ * @param mailTransport a new transport, null to use the configured one
+ */
+export function setMailTransport(mailTransport: MailTransportInterface) {
+    transport = mailTransport;
+}
+
+/**
+ * Build a link to the client whether CLIENT_URL is set.
+ *
+ * @param pathName a path of the client page
+ * @param token a token to put into the link
+ * @returns a link, or the token itself
+ */
+function getClientLink(pathName: string, token: string): string {
+    if (!process.env.CLIENT_URL) {
+        return token;
+    }
+    return `${process.env.CLIENT_URL.replace(/\/$/, "")}${pathName}?token=${token}`;
+}
+
+/**
+ * Send a password reset token.
+ *
+ * @param to an email of the user
+ * @param token a password reset token
+ */
+async function sendPasswordResetMail(to: string, token: string) {
+    await getMailTransport().send({
+        to,
+        subject: Locale.Mail.PasswordReset.Subject,
+        text: `${Locale.Mail.PasswordReset.Text}\n\n${getClientLink("/reset-password", token)}`,
+    });
+}
+
+/**
+ * Send an email verification token.
+ *
+ * @param to an email to verify
+ * @param token an email verification token
+ */
+async function sendEmailVerificationMail(to: string, token: string) {
+    await getMailTransport().send({
+        to,
+        subject: Locale.Mail.EmailVerification.Subject,
+        text: `${Locale.Mail.EmailVerification.Text}\n\n${getClientLink("/verify-email", token)}`,
+    });
+}
+
+export const Mail = {
+    sendPasswordResetMail,
+    sendEmailVerificationMail,
+};
@@ -1,6 +1,8 @@
 import * as express from "express";
 import { setupDatabase } from "./Database";
 import { setupRoutes } from "./Router";
+import { Scheduler } from "./Scheduler";
+import { isTestMode } from "./Environment";
 import {
   setupDefaultPermissionRelationship,
   setupPermission,
@@ -10,7 +12,7 @@ import {
 async function init(app: express.Application) {
   console.log("v1: Initializing application...");
 
-  // Set up database
+  // Set up database, applying pending migrations
   await setupDatabase();
   // Setup permission groups
   await setupPermissionGroup();
@@ -20,6 +22,10 @@ async function init(app: express.Application) {
   await setupDefaultPermissionRelationship();
   // Register routers
   await setupRoutes(app);
+  // Publish the scheduled chapters in background, the specs run it manually
+  if (!isTestMode()) {
+    Scheduler.start();
+  }
 }
 
 export const MainApplication = {
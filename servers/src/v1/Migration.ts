@@ -0,0 +1,176 @@
+import { Knex } from "knex";
+import { MigrationInterface } from "./interfaces/MigrationInterface";
+import Baseline from "./migrations/001_Baseline";
+import ChapterNumber from "./migrations/002_ChapterNumber";
+import ForeignKeys from "./migrations/003_ForeignKeys";
+import UserSessions from "./migrations/004_UserSessions";
+import UserTokens from "./migrations/005_UserTokens";
+import TwoFactor from "./migrations/006_TwoFactor";
+import AccountLockout from "./migrations/007_AccountLockout";
+import ApiKeys from "./migrations/008_ApiKeys";
+import UserPermissionOverrides from "./migrations/009_UserPermissionOverrides";
+import UserSanctions from "./migrations/010_UserSanctions";
+import AuditLogs from "./migrations/011_AuditLogs";
+import Publication from "./migrations/012_Publication";
+import Volumes from "./migrations/013_Volumes";
+import ChapterSummary from "./migrations/014_ChapterSummary";
+import ChapterWordCount from "./migrations/015_ChapterWordCount";
+import ChapterRevisions from "./migrations/016_ChapterRevisions";
+import ResourceDerivatives from "./migrations/017_ResourceDerivatives";
+import ResourceStorage from "./migrations/018_ResourceStorage";
+import DatabaseBuilder from "./utils/DatabaseBuilder";
+import { Logger } from "./utils/Logger";
+
+/**
+ * All available migrations, in the order they must be applied.
+ * Append new migrations at the end, never reorder or remove them.
+ */
+export const Migrations: MigrationInterface[] = [
+    Baseline,
+    ChapterNumber,
+    ForeignKeys,
+    UserSessions,
+    UserTokens,
+    TwoFactor,
+    AccountLockout,
+    ApiKeys,
+    UserPermissionOverrides,
+    UserSanctions,
+    AuditLogs,
+    Publication,
+    Volumes,
+    ChapterSummary,
+    ChapterWordCount,
+    ChapterRevisions,
+    ResourceDerivatives,
+    ResourceStorage,
+];
+
+/**
+ * A table which records all applied migrations.
+ */
+export const MigrationTable = "migrations";
+
+/**
+ * Retrieves a name of the migration, which is stored in the migration table.
+ *
+ * @param migration a migration to name
+ * @returns a name of the migration, e.g. 001_baseline
+ */
+function getMigrationName(migration: MigrationInterface): string {
+    return `${migration.version}_${migration.name}`;
+}
+
+const migrationSource: Knex.MigrationSource<MigrationInterface> = {
+    getMigrations: async () => Migrations,
+    getMigrationName,
+    getMigration: (migration) => ({
+        up: migration.up,
+        down: migration.down,
+    }),
+};
+
+const migratorConfig: Knex.MigratorConfig = {
+    tableName: MigrationTable,
+    migrationSource,
+};
+
+/**
+ * Applies all pending migrations.
+ *
+ * @returns names of the applied migrations
+ */
+async function migrateToLatest(): Promise<string[]> {
+    const [, applied] = await DatabaseBuilder.migrate.latest(migratorConfig);
+    applied.forEach((name: string) => Logger.info(`Applied migration ${name}`));
+    return applied;
+}
+
+/**
+ * Migrates up or down until the given version is the latest applied one.
+ * Use version 0 to revert every migration.
+ *
+ * @param version a target version to migrate to
+ */
+async function migrateTo(version: string) {
+    const targetIndex =
+        parseInt(version) === 0
+            ? -1
+            : Migrations.findIndex(
+                  (migration) => parseInt(migration.version) === parseInt(version)
+              );
+    if (targetIndex === -1 && parseInt(version) !== 0) {
+        throw new Error(`Migration version ${version} not found`);
+    }
+
+    const [completed] = await DatabaseBuilder.migrate.list(migratorConfig);
+
+    // Apply the pending migrations up to the target
+    for (let i = 0; i <= targetIndex; i++) {
+        const name = getMigrationName(Migrations[i]);
+        if (!completed.includes(name)) {
+            await DatabaseBuilder.migrate.up({ ...migratorConfig, name });
+            Logger.info(`Applied migration ${name}`);
+        }
+    }
+
+    // Revert the applied migrations above the target, newest first
+    for (let i = Migrations.length - 1; i > targetIndex; i--) {
+        const name = getMigrationName(Migrations[i]);
+        if (completed.includes(name)) {
+            await DatabaseBuilder.migrate.down({ ...migratorConfig, name });
+            Logger.info(`Reverted migration ${name}`);
+        }
+    }
+}
+
+/**
+ * Reverts the last batch of applied migrations.
+ *
+ * @returns names of the reverted migrations
+ */
+async function rollback(): Promise<string[]> {
+    const [, reverted] = await DatabaseBuilder.migrate.rollback(migratorConfig);
+    reverted.forEach((name: string) => Logger.info(`Reverted migration ${name}`));
+    return reverted;
+}
+
+/**
+ * Retrieves the latest applied migration version.
+ *
+ * @returns a version, or "none" whether nothing has been applied.
+ */
+async function getCurrentVersion(): Promise<string> {
+    return DatabaseBuilder.migrate.currentVersion(migratorConfig);
+}
+
+/**
+ * Retrieves the applied and the pending migrations.
+ *
+ * @returns names of the applied and the pending migrations
+ */
+async function getStatus(): Promise<{ completed: string[]; pending: string[] }> {
+    const [completed, pending] = await DatabaseBuilder.migrate.list(migratorConfig);
+    return {
+        completed,
+        pending: pending.map(getMigrationName),
+    };
+}
+
+/**
+ * Drops the migration tables, so that every migration is
+ * considered pending again.
+ */
+async function dropMigrationTables() {
+    await DatabaseBuilder.schema.dropTableIfExists(MigrationTable);
+    await DatabaseBuilder.schema.dropTableIfExists(`${MigrationTable}_lock`);
+}
+
+export const Migration = {
+    migrateToLatest,
+    migrateTo,
+    rollback,
+    getCurrentVersion,
+    getStatus,
+    dropMigrationTables,
+};
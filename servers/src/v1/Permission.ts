@@ -60,21 +60,21 @@ async function setupPermissionGroup() {
   Logger.info(`Setting up permission group...`);
 
   // Admin
-  generatePermissionGroup(
+  await generatePermissionGroup(
     PermissionGroupEnum.ADMIN,
     Locale.PermissionGroup.Admin.Name,
     Locale.PermissionGroup.Admin.Description
   );
 
   // User
-  generatePermissionGroup(
+  await generatePermissionGroup(
     PermissionGroupEnum.USER,
     Locale.PermissionGroup.User.Name,
     Locale.PermissionGroup.User.Description
   );
 
   // Mod
-  generatePermissionGroup(
+  await generatePermissionGroup(
     PermissionGroupEnum.MOD,
     Locale.PermissionGroup.Mod.Name,
     Locale.PermissionGroup.Mod.Description
@@ -96,269 +96,382 @@ async function setupPermissionGroup() {
 async function setupPermission() {
   Logger.info(`Setting up permission...`);
   // Create user permission
-  generatePermission(
+  await generatePermission(
     PermissionEnum.ADMIN_CREATE_USER,
     Locale.Permission.AdminCreateUser.Name,
     Locale.Permission.AdminCreateUser.Description
   );
 
   // Delete user permission
-  generatePermission(
+  await generatePermission(
     PermissionEnum.ADMIN_DELETE_USER,
     Locale.Permission.AdminDeleteUser.Name,
     Locale.Permission.AdminDeleteUser.Description
   );
 
   // Update user permission
-  generatePermission(
+  await generatePermission(
     PermissionEnum.ADMIN_UPDATE_USER,
     Locale.Permission.AdminUpdateUser.Name,
     Locale.Permission.AdminUpdateUser.Description
   );
 
   // Create permission group permission
-  generatePermission(
+  await generatePermission(
     PermissionEnum.ADMIN_CREATE_PERMISSION_GROUP,
     Locale.Permission.AdminCreatePermissionGroup.Name,
     Locale.Permission.AdminCreatePermissionGroup.Description
   );
 
   // Delete permission group permission
-  generatePermission(
+  await generatePermission(
     PermissionEnum.ADMIN_DELETE_PERMISSION_GROUP,
     Locale.Permission.AdminDeletePermissionGroup.Name,
     Locale.Permission.AdminDeletePermissionGroup.Description
   );
 
   // Update permission group permission
-  generatePermission(
+  await generatePermission(
     PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP,
     Locale.Permission.AdminUpdatePermissionGroup.Name,
     Locale.Permission.AdminUpdatePermissionGroup.Description
   );
 
+  // Roles
+  await generatePermission(
+    PermissionEnum.ROLE_UPDATE,
+    Locale.Permission.RoleUpdate.Name,
+    Locale.Permission.RoleUpdate.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.ROLE_DELETE,
+    Locale.Permission.RoleDelete.Name,
+    Locale.Permission.RoleDelete.Description
+  );
+
   // Users permissions
-  generatePermission(
+  await generatePermission(
     PermissionEnum.USER_ROLE_CHANGE,
     Locale.Permission.UserRoleChange.Name,
     Locale.Permission.UserRoleChange.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.USER_UPDATE_PROFILE,
     Locale.Permission.UserUpdateProfile.Name,
     Locale.Permission.UserUpdateProfile.Description
   );
 
   // Resources
-  generatePermission(
+  await generatePermission(
     PermissionEnum.RESOURCE_CREATE,
     Locale.Permission.ResourceCreate.Name,
     Locale.Permission.ResourceCreate.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.RESOURCE_ACCESS_ALL,
     Locale.Permission.ResourceAccessAll.Name,
     Locale.Permission.ResourceAccessAll.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.RESOURCE_UPDATE,
     Locale.Permission.ResourceUpdate.Name,
     Locale.Permission.ResourceUpdate.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.RESOURCE_DELETE,
     Locale.Permission.ResourceDelete.Name,
     Locale.Permission.ResourceDelete.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_CREATE,
     Locale.Permission.ComicCreate.Name,
     Locale.Permission.ComicCreate.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_UPDATE,
     Locale.Permission.ComicUpdate.Name,
     Locale.Permission.ComicUpdate.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_DELETE,
     Locale.Permission.ComicDelete.Name,
     Locale.Permission.ComicDelete.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_CHAPTER_CREATE,
     Locale.Permission.ComicChapterCreate.Name,
     Locale.Permission.ComicChapterCreate.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.GRANT_PERMISSION_TO_GROUP,
     Locale.Permission.GrantPermissionToGroup.Name,
     Locale.Permission.GrantPermissionToGroup.Description
   );
-  generatePermission(
+  await generatePermission(
     PermissionEnum.REVOKE_PERMISSION_FROM_GROUP,
     Locale.Permission.RevokePermissionFromGroup.Name,
     Locale.Permission.RevokePermissionFromGroup.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_TAG_CREATE,
     Locale.Permission.ComicTagCreate.Name,
     Locale.Permission.ComicTagCreate.Description
   );
 
-  generatePermission(
+  await generatePermission(
+    PermissionEnum.COMIC_TAG_UPDATE,
+    Locale.Permission.ComicTagUpdate.Name,
+    Locale.Permission.ComicTagUpdate.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.COMIC_TAG_DELETE,
+    Locale.Permission.ComicTagDelete.Name,
+    Locale.Permission.ComicTagDelete.Description
+  );
+
+  await generatePermission(
     PermissionEnum.COMIC_BOOK_TAG_REF_CREATE,
     Locale.Permission.ComicBookTagRefCreate.Name,
     Locale.Permission.ComicBookTagRefCreate.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_BOOK_TAG_REF_DELETE,
     Locale.Permission.ComicBookTagRefDelete.Name,
     Locale.Permission.ComicBookTagRefDelete.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.COMIC_CHAPTER_COMMENT,
     Locale.Permission.ComicChapterComment.Name,
     Locale.Permission.ComicChapterComment.Description
   );
 
-  generatePermission(
+  await generatePermission(
     PermissionEnum.REVIEW_CREATE,
     Locale.Permission.ReviewCreate.Name,
     Locale.Permission.ReviewCreate.Description
   );
 
+  // Manage the content of the other users
+  await generatePermission(
+    PermissionEnum.COMIC_MANAGE_ANY,
+    Locale.Permission.ComicManageAny.Name,
+    Locale.Permission.ComicManageAny.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.COMIC_CHAPTER_MANAGE_ANY,
+    Locale.Permission.ComicChapterManageAny.Name,
+    Locale.Permission.ComicChapterManageAny.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.COMIC_CHAPTER_COMMENT_MANAGE_ANY,
+    Locale.Permission.ComicChapterCommentManageAny.Name,
+    Locale.Permission.ComicChapterCommentManageAny.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.REVIEW_MANAGE_ANY,
+    Locale.Permission.ReviewManageAny.Name,
+    Locale.Permission.ReviewManageAny.Description
+  );
+
+  // Moderate the users
+  await generatePermission(
+    PermissionEnum.USER_BAN,
+    Locale.Permission.UserBan.Name,
+    Locale.Permission.UserBan.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.USER_MUTE,
+    Locale.Permission.UserMute.Name,
+    Locale.Permission.UserMute.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.AUDIT_LOG_READ,
+    Locale.Permission.AuditLogRead.Name,
+    Locale.Permission.AuditLogRead.Description
+  );
+
+  await generatePermission(
+    PermissionEnum.COMIC_EXPORT,
+    Locale.Permission.ComicExport.Name,
+    Locale.Permission.ComicExport.Description
+  );
+
   // console.log("All permissions: ");
   console.table(await PermissionController.getPermissions());
 }
 
 async function setupDefaultPermissionRelationship() {
   // Admin permissions
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ADMIN_CREATE_USER);
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ADMIN_DELETE_USER);
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ADMIN_UPDATE_USER);
-  generateRelation(
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ADMIN_CREATE_USER);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ADMIN_DELETE_USER);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ADMIN_UPDATE_USER);
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.ADMIN_CREATE_PERMISSION_GROUP
   );
   // Admin can modify resource
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.RESOURCE_CREATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.RESOURCE_CREATE);
 
   // Admin can access all Resources
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.RESOURCE_ACCESS_ALL
   );
   // Admin can modify(update ) resource
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.RESOURCE_UPDATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.RESOURCE_UPDATE);
 
   // And also can remove resource
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.RESOURCE_DELETE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.RESOURCE_DELETE);
 
   // Modify permission
   //    able to generate new permission, permission group and grant
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.ADMIN_DELETE_PERMISSION_GROUP
   );
 
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP
   );
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.GRANT_PERMISSION_TO_GROUP
   );
 
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.REVOKE_PERMISSION_FROM_GROUP
   );
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ROLE_UPDATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.ROLE_DELETE);
 
   // able to create new comic
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_CREATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_CREATE);
   // able to update new comic
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_UPDATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_UPDATE);
   // Able to delete comic
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_DELETE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_DELETE);
 
   // Comic chapter permissions
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.COMIC_CHAPTER_CREATE
   );
 
   // Tags
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_TAG_CREATE);
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_TAG_UPDATE);
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_TAG_DELETE);
-  generateRelation(
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_TAG_CREATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_TAG_UPDATE);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_TAG_DELETE);
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.COMIC_BOOK_TAG_REF_CREATE
   );
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.COMIC_BOOK_TAG_REF_DELETE
   );
   // Mod permissions
   // Able to create a new comic
-  generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_CREATE);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_CREATE);
   // Able to update comic
-  generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_UPDATE);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_UPDATE);
   // Able to delete comic
-  generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_DELETE);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_DELETE);
   // Comic chapters
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.MOD,
     PermissionEnum.COMIC_CHAPTER_CREATE
   );
 
   // tags
-  generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_TAG_CREATE);
-  generateRelation(
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_TAG_CREATE);
+  await generateRelation(
     PermissionGroupEnum.MOD,
     PermissionEnum.COMIC_BOOK_TAG_REF_CREATE
   );
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.MOD,
     PermissionEnum.COMIC_BOOK_TAG_REF_DELETE
   );
   // User permissions
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.USER,
     PermissionEnum.USER_UPDATE_PROFILE
   );
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.USER,
     PermissionEnum.COMIC_CHAPTER_COMMENT
   );
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.MOD,
     PermissionEnum.COMIC_CHAPTER_COMMENT
   );
-  generateRelation(
+  await generateRelation(
     PermissionGroupEnum.ADMIN,
     PermissionEnum.COMIC_CHAPTER_COMMENT
   );
 
-  generateRelation(PermissionGroupEnum.USER, PermissionEnum.REVIEW_CREATE);
+  await generateRelation(PermissionGroupEnum.USER, PermissionEnum.REVIEW_CREATE);
+
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.REVIEW_CREATE);
+
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.REVIEW_CREATE);
+
+  // Admins and mods moderate the content of the other users
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_MANAGE_ANY);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_MANAGE_ANY);
+  await generateRelation(
+    PermissionGroupEnum.ADMIN,
+    PermissionEnum.COMIC_CHAPTER_MANAGE_ANY
+  );
+  await generateRelation(
+    PermissionGroupEnum.MOD,
+    PermissionEnum.COMIC_CHAPTER_MANAGE_ANY
+  );
+  await generateRelation(
+    PermissionGroupEnum.ADMIN,
+    PermissionEnum.COMIC_CHAPTER_COMMENT_MANAGE_ANY
+  );
+  await generateRelation(
+    PermissionGroupEnum.MOD,
+    PermissionEnum.COMIC_CHAPTER_COMMENT_MANAGE_ANY
+  );
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.REVIEW_MANAGE_ANY);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.REVIEW_MANAGE_ANY);
+
+  // Admins and mods ban and mute the abusive users
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.USER_BAN);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.USER_BAN);
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.USER_MUTE);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.USER_MUTE);
 
-  generateRelation(PermissionGroupEnum.MOD, PermissionEnum.REVIEW_CREATE);
+  // Only admins read the audit log
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.AUDIT_LOG_READ);
 
-  generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.REVIEW_CREATE);
+  // Every signed in user can download the comics
+  await generateRelation(PermissionGroupEnum.ADMIN, PermissionEnum.COMIC_EXPORT);
+  await generateRelation(PermissionGroupEnum.MOD, PermissionEnum.COMIC_EXPORT);
+  await generateRelation(PermissionGroupEnum.USER, PermissionEnum.COMIC_EXPORT);
 
   // console.log(
   //   "Relationships",
@@ -0,0 +1,191 @@
+import path from "path";
+import ResourceDerivativeController from "./controllers/ResourceDerivativeController";
+import {
+    ImageFormatEnum,
+    ImageSizeEnum,
+    ResourceDerivativeInterface,
+} from "./interfaces/ResourceDerivativeInterface";
+import { ResourceInterface } from "./interfaces/ResourceInterface";
+import { getStorageDriver } from "./Storage";
+import ImageUtils from "./utils/ImageUtils";
+import { Logger } from "./utils/Logger";
+
+/**
+ * The derivatives which are generated once an image is uploaded. The full
+ * size JPEG is the uploaded image itself.
+ */
+const GeneratedDerivatives: Array<{ size: ImageSizeEnum; format: ImageFormatEnum }> = [
+    { size: ImageSizeEnum.THUMB, format: ImageFormatEnum.JPEG },
+    { size: ImageSizeEnum.THUMB, format: ImageFormatEnum.WEBP },
+    { size: ImageSizeEnum.MEDIUM, format: ImageFormatEnum.JPEG },
+    { size: ImageSizeEnum.MEDIUM, format: ImageFormatEnum.WEBP },
+    { size: ImageSizeEnum.FULL, format: ImageFormatEnum.WEBP },
+];
+
+/**
+ * Check whether the value is a supported image size.
+ *
+ * @param value a value to check
+ * @returns true whether the value is an image size, false otherwise
+ */
+function isImageSize(value: any): value is ImageSizeEnum {
+    return Object.keys(ImageSizeEnum).some((key) => ImageSizeEnum[key] === value);
+}
+
+/**
+ * Check whether the value is a supported image format.
+ *
+ * @param value a value to check
+ * @returns true whether the value is an image format, false otherwise
+ */
+function isImageFormat(value: any): value is ImageFormatEnum {
+    return Object.keys(ImageFormatEnum).some((key) => ImageFormatEnum[key] === value);
+}
+
+/**
+ * Retrieves a content type of an image format.
+ *
+ * @param format an image format
+ * @returns a content type, e.g. image/webp
+ */
+function getImageContentType(format: ImageFormatEnum): string {
+    return format === ImageFormatEnum.WEBP ? "image/webp" : "image/jpeg";
+}
+
+/**
+ * Retrieves a maximum width of an image size, from the environment.
+ *
+ * @param size an image size
+ * @returns a width in pixels, null whether the size keeps the dimensions
+ */
+function getImageWidth(size: ImageSizeEnum): number | null {
+    switch (size) {
+        case ImageSizeEnum.THUMB:
+            return parseInt(process.env.IMAGE_THUMB_WIDTH) || 320;
+        case ImageSizeEnum.MEDIUM:
+            return parseInt(process.env.IMAGE_MEDIUM_WIDTH) || 960;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Check whether the size and format are the uploaded image itself.
+ *
+ * @param size an image size
+ * @param format an image format
+ * @returns true whether no derivative is needed, false otherwise
+ */
+function isOriginal(size: ImageSizeEnum, format: ImageFormatEnum): boolean {
+    return size === ImageSizeEnum.FULL && format === ImageFormatEnum.JPEG;
+}
+
+/**
+ * Resize and encode a resource, then store the file into the storage of the
+ * resource and record it. An existing derivative is overwritten.
+ *
+ * @param resource a resource to derive from
+ * @param size a size of the derivative
+ * @param format a format of the derivative
+ * @returns the recorded derivative
+ */
+async function createDerivative(
+    resource: ResourceInterface,
+    size: ImageSizeEnum,
+    format: ImageFormatEnum
+): Promise<ResourceDerivativeInterface> {
+    const driver = getStorageDriver(resource.storage);
+    const data = await driver.read(resource.path);
+    if (!data) {
+        throw new Error(`The file ${resource.path} of resource ${resource.id} is missing`);
+    }
+    const image = await ImageUtils.resizeImage(data, format, getImageWidth(size));
+    const extension = format === ImageFormatEnum.WEBP ? ".webp" : ".jpg";
+    const fileName = `${path.parse(resource.fileName).name}-${size}${extension}`;
+    const key = driver.getKey(fileName);
+    await driver.write(key, image.data, getImageContentType(format));
+
+    return ResourceDerivativeController.createDerivative({
+        resourceId: resource.id,
+        size,
+        format,
+        fileName,
+        path: key,
+        storage: driver.name,
+        width: image.width,
+        height: image.height,
+        fileSize: image.data.length,
+    });
+}
+
+/**
+ * Generate the derivatives of an uploaded resource. A derivative which
+ * cannot be generated is skipped with a warning, it will be generated
+ * again on its first request.
+ *
+ * @param resource an uploaded resource
+ * @returns the generated derivatives
+ */
+async function generateDerivatives(
+    resource: ResourceInterface
+): Promise<ResourceDerivativeInterface[]> {
+    const derivatives: ResourceDerivativeInterface[] = [];
+    for (const { size, format } of GeneratedDerivatives) {
+        try {
+            derivatives.push(await createDerivative(resource, size, format));
+        } catch (err) {
+            Logger.warn(
+                `Unable to generate the ${size} ${format} derivative of resource ${resource.id}: ${err.message}`
+            );
+        }
+    }
+    return derivatives;
+}
+
+/**
+ * Retrieves a derivative of a resource, generates it whether it has not
+ * been generated yet (e.g. the resource was uploaded before) or its file
+ * is missing.
+ *
+ * @param resource a resource to derive from
+ * @param size a size of the derivative
+ * @param format a format of the derivative
+ * @returns the derivative, null whether the uploaded image is requested
+ */
+async function getOrCreateDerivative(
+    resource: ResourceInterface,
+    size: ImageSizeEnum,
+    format: ImageFormatEnum
+): Promise<ResourceDerivativeInterface> {
+    if (isOriginal(size, format)) {
+        return null;
+    }
+    const derivative = await ResourceDerivativeController.getDerivative(resource.id, size, format);
+    if (derivative && (await getStorageDriver(derivative.storage).stat(derivative.path))) {
+        return derivative;
+    }
+    return createDerivative(resource, size, format);
+}
+
+/**
+ * Removes the derivative files of a resource. It must be called before the
+ * resource is deleted, its derivatives are deleted along with it.
+ *
+ * @param resourceId a identifier of the resource
+ */
+async function removeDerivativeFiles(resourceId: number) {
+    const derivatives = await ResourceDerivativeController.getDerivatives(resourceId);
+    for (const derivative of derivatives) {
+        await getStorageDriver(derivative.storage).remove(derivative.path);
+    }
+}
+
+export const ResourceDerivatives = {
+    isImageSize,
+    isImageFormat,
+    getImageContentType,
+    getImageWidth,
+    generateDerivatives,
+    getOrCreateDerivative,
+    removeDerivativeFiles,
+};
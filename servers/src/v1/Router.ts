@@ -1,4 +1,5 @@
 import * as express from "express";
+import AuditRouter from "./routes/AuditRouter";
 import ComicRouter from "./routes/ComicRouter";
 import CommentRouter from "./routes/CommentRouter";
 import { PermissionRouter } from "./routes/PermissionRouter";
@@ -28,6 +29,7 @@ export const Router = [
   },
   { Path: "/comments", Router: CommentRouter },
   { Path: "/reviews", Router: ReviewRouter },
+  { Path: "/audit", Router: AuditRouter },
 ];
 
 export async function setupRoutes(app: express.Application) {
@@ -0,0 +1,113 @@
+import { Tables } from "./Database";
+import { ComicChapterViewTypeEnum } from "./interfaces/ComicChapterInterface";
+import { RichTextStatisticsInterface } from "./interfaces/RichTextInterface";
+import DatabaseBuilder from "./utils/DatabaseBuilder";
+import { getRichTextStatistics, sanitizeRichText } from "./utils/RichTextUtils";
+
+/**
+ * A result of checking (or sanitizing) a text chapter.
+ */
+export interface SanitizationReport {
+    chapterId: number;
+    /**
+     * A number of blocks whose content changes once sanitized
+     */
+    unsafeBlocks: number;
+    /**
+     * A number of blocks which were sanitized
+     */
+    sanitized: number;
+    /**
+     * The statistics counted from the sanitized blocks
+     */
+    statistics: RichTextStatisticsInterface;
+    /**
+     * True whether the stored statistics differ from the counted ones
+     */
+    outdatedStatistics: boolean;
+}
+
+/**
+ * Check the blocks of every text chapter against the sanitizer, and
+ * optionally store the sanitized blocks and the counted statistics. The
+ * chapters are processed one by one, each in its own transaction.
+ *
+ * @param repair true to store the sanitized blocks
+ * @returns a report for each chapter which is not up to date
+ */
+async function processChapters(repair: boolean): Promise<SanitizationReport[]> {
+    const reports: SanitizationReport[] = [];
+    const chapters = await DatabaseBuilder(Tables.ComicChapter)
+        .select("id", "wordCount", "readingTime")
+        .where({ viewType: ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT })
+        .orderBy("id", "asc");
+
+    for (const chapter of chapters) {
+        const blocks = await DatabaseBuilder(Tables.ComicChapterBlock)
+            .select("id", "content")
+            .where({ chapterId: chapter.id });
+        const unsafeBlocks = blocks
+            .map((block) => ({ ...block, sanitizedContent: sanitizeRichText(block.content) }))
+            .filter(({ content, sanitizedContent }) => content !== sanitizedContent);
+        const statistics = getRichTextStatistics(
+            blocks.map(({ content }) => sanitizeRichText(content))
+        );
+        const outdatedStatistics =
+            Number(chapter.wordCount) !== statistics.wordCount ||
+            Number(chapter.readingTime) !== statistics.readingTime;
+        if (unsafeBlocks.length === 0 && !outdatedStatistics) {
+            continue;
+        }
+
+        let sanitized = 0;
+        if (repair) {
+            const transaction = await DatabaseBuilder.transaction();
+            try {
+                for (const block of unsafeBlocks) {
+                    await transaction(Tables.ComicChapterBlock)
+                        .update({ content: block.sanitizedContent })
+                        .where({ id: block.id });
+                    sanitized++;
+                }
+                await transaction(Tables.ComicChapter).update(statistics).where({ id: chapter.id });
+                await transaction.commit();
+            } catch (e) {
+                await transaction.rollback();
+                throw e;
+            }
+        }
+        reports.push({
+            chapterId: chapter.id,
+            unsafeBlocks: unsafeBlocks.length,
+            sanitized,
+            statistics,
+            outdatedStatistics,
+        });
+    }
+    return reports;
+}
+
+/**
+ * Find the text chapters whose blocks are not sanitized or whose
+ * statistics are outdated, e.g. created before the sanitizer.
+ *
+ * @returns a report for each chapter which is not up to date
+ */
+async function checkChapters(): Promise<SanitizationReport[]> {
+    return processChapters(false);
+}
+
+/**
+ * Sanitize the blocks of the text chapters again and refresh their
+ * statistics, e.g. after the allowed tags have changed.
+ *
+ * @returns a report for each chapter which was not up to date
+ */
+async function sanitizeChapters(): Promise<SanitizationReport[]> {
+    return processChapters(true);
+}
+
+export const Sanitization = {
+    checkChapters,
+    sanitizeChapters,
+};
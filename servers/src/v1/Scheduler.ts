@@ -0,0 +1,66 @@
+import ComicController from "./controllers/ComicController";
+import ComicChapterController from "./controllers/ComicChapterController";
+import { Logger } from "./utils/Logger";
+
+/**
+ * A timer of the running scheduler, null whether stopped.
+ */
+let timer: NodeJS.Timeout = null;
+
+/**
+ * Retrieves the interval between two runs of the scheduler.
+ *
+ * @returns an interval in milliseconds
+ */
+function getInterval(): number {
+    return (parseInt(process.env.PUBLICATION_SCHEDULER_INTERVAL) || 60) * 1000;
+}
+
+/**
+ * Publish the scheduled comics and chapters whose release time has come.
+ *
+ * @param now a current time
+ * @returns the number of published comics and chapters
+ */
+async function publishDueContents(
+    now: Date = new Date()
+): Promise<{ comics: number; chapters: number }> {
+    const comics = await ComicController.publishDueComics(now);
+    const chapters = await ComicChapterController.publishDueChapters(now);
+    if (comics > 0 || chapters > 0) {
+        Logger.info(`Published ${comics} scheduled comic(s) and ${chapters} chapter(s)`);
+    }
+    return { comics, chapters };
+}
+
+/**
+ * Starts to publish the due contents periodically. The timer does not keep
+ * the process alive.
+ */
+function start() {
+    if (timer) {
+        return;
+    }
+    timer = setInterval(() => {
+        publishDueContents().catch((err) =>
+            Logger.error(`Unable to publish the scheduled contents: ${err.message}`)
+        );
+    }, getInterval());
+    timer.unref();
+}
+
+/**
+ * Stops the scheduler.
+ */
+function stop() {
+    if (timer) {
+        clearInterval(timer);
+        timer = null;
+    }
+}
+
+export const Scheduler = {
+    publishDueContents,
+    start,
+    stop,
+};
@@ -0,0 +1,202 @@
+import { LocalStorageDriver } from "./classes/LocalStorageDriver";
+import { S3StorageDriver } from "./classes/S3StorageDriver";
+import { Tables } from "./Database";
+import { ImageFormatEnum } from "./interfaces/ResourceDerivativeInterface";
+import { StorageDriverEnum, StorageDriverInterface } from "./interfaces/StorageInterface";
+import { ResourceDerivatives } from "./ResourceDerivatives";
+import DatabaseBuilder from "./utils/DatabaseBuilder";
+import { Logger } from "./utils/Logger";
+
+const drivers: { [name: string]: StorageDriverInterface } = {};
+
+/**
+ * A result of moving the files from a storage driver to another.
+ */
+export interface StorageMigrationReport {
+    /**
+     * A number of moved resource files
+     */
+    resources: number;
+    /**
+     * A number of moved derivative files
+     */
+    derivatives: number;
+    /**
+     * A number of files which are missing in the source storage, their rows
+     * are kept as they are
+     */
+    missing: number;
+}
+
+/**
+ * Check whether the value is a supported storage driver.
+ *
+ * @param value a value to check
+ * @returns true whether the value is a storage driver, false otherwise
+ */
+export function isStorageDriver(value: any): value is StorageDriverEnum {
+    return Object.keys(StorageDriverEnum).some((key) => StorageDriverEnum[key] === value);
+}
+
+/**
+ * Build a storage driver: `local` stores the files into UPLOAD_DIR and
+ * `s3` into the S3_BUCKET of an S3-compatible service.
+ *
+ * @param name a name of the driver
+ * @returns a storage driver
+ */
+function createStorageDriver(name: string): StorageDriverInterface {
+    switch (name) {
+        case StorageDriverEnum.LOCAL: {
+            return new LocalStorageDriver(process.env.UPLOAD_DIR || "./tmp/uploads/");
+        }
+        case StorageDriverEnum.S3: {
+            return new S3StorageDriver({
+                endpoint: process.env.S3_ENDPOINT,
+                region: process.env.S3_REGION || "us-east-1",
+                bucket: process.env.S3_BUCKET,
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+                prefix: process.env.S3_PREFIX || "",
+            });
+        }
+        default: {
+            throw new Error(`Unsupported storage driver: ${name}`);
+        }
+    }
+}
+
+/**
+ * Retrieves a storage driver.
+ *
+ * @param name a name of the driver, STORAGE_DRIVER (local by default) for
+ *  the new files
+ * @returns a storage driver
+ */
+export function getStorageDriver(name?: string): StorageDriverInterface {
+    const driverName = name || process.env.STORAGE_DRIVER || StorageDriverEnum.LOCAL;
+    if (!drivers[driverName]) {
+        drivers[driverName] = createStorageDriver(driverName);
+    }
+    return drivers[driverName];
+}
+
+/**
+ * Replace a storage driver, e.g. to use a stand-in service in tests.
+ *
+ * @param name a name of the driver
+ * @param driver a new driver, null to use the configured one
+ */
+export function setStorageDriver(name: StorageDriverEnum, driver: StorageDriverInterface) {
+    drivers[name] = driver;
+}
+
+/**
+ * Copy a file into another storage driver, then remove it from its storage.
+ *
+ * @param source a storage driver which holds the file
+ * @param target a storage driver to move the file into
+ * @param key a key of the file in the source storage
+ * @param fileName a file name to build the key in the target storage
+ * @param contentType a media type of the file
+ * @param updateRow a callback to record the new storage and key
+ * @returns true whether the file was moved, false whether it is missing
+ */
+async function moveFile(
+    source: StorageDriverInterface,
+    target: StorageDriverInterface,
+    key: string,
+    fileName: string,
+    contentType: string,
+    updateRow: (storage: StorageDriverEnum, path: string) => Promise<void>
+): Promise<boolean> {
+    const data = await source.read(key);
+    if (!data) {
+        return false;
+    }
+    const targetKey = target.getKey(fileName);
+    await target.write(targetKey, data, contentType);
+    await updateRow(target.name, targetKey);
+    await source.remove(key);
+    return true;
+}
+
+/**
+ * Move the files of the resources and their derivatives from a storage
+ * driver to another. The files are moved one by one, a row is updated once
+ * its file is written, so an interrupted move can be resumed.
+ *
+ * @param from a storage driver which holds the files
+ * @param to a storage driver to move the files into
+ * @returns a report of the moved files
+ */
+async function moveResources(
+    from: StorageDriverEnum,
+    to: StorageDriverEnum
+): Promise<StorageMigrationReport> {
+    if (from === to) {
+        throw new Error("The source and the target storage drivers must differ");
+    }
+    const source = getStorageDriver(from);
+    const target = getStorageDriver(to);
+    const report: StorageMigrationReport = { resources: 0, derivatives: 0, missing: 0 };
+
+    const resources = await DatabaseBuilder(Tables.Resource)
+        .select("id", "fileName", "path")
+        .where({ storage: from })
+        .orderBy("id", "asc");
+    for (const resource of resources) {
+        const moved = await moveFile(
+            source,
+            target,
+            resource.path,
+            resource.fileName,
+            ResourceDerivatives.getImageContentType(ImageFormatEnum.JPEG),
+            async (storage, path) => {
+                await DatabaseBuilder(Tables.Resource)
+                    .where({ id: resource.id })
+                    .update({ storage, path });
+            }
+        );
+        if (moved) {
+            report.resources++;
+        } else {
+            Logger.warn(`Skipped the missing file ${resource.path} of resource ${resource.id}`);
+            report.missing++;
+        }
+    }
+
+    const derivatives = await DatabaseBuilder(Tables.ResourceDerivative)
+        .select("id", "fileName", "path", "format")
+        .where({ storage: from })
+        .orderBy("id", "asc");
+    for (const derivative of derivatives) {
+        const moved = await moveFile(
+            source,
+            target,
+            derivative.path,
+            derivative.fileName,
+            ResourceDerivatives.getImageContentType(derivative.format),
+            async (storage, path) => {
+                await DatabaseBuilder(Tables.ResourceDerivative)
+                    .where({ id: derivative.id })
+                    .update({ storage, path });
+            }
+        );
+        if (moved) {
+            report.derivatives++;
+        } else {
+            Logger.warn(
+                `Skipped the missing file ${derivative.path} of derivative ${derivative.id}`
+            );
+            report.missing++;
+        }
+    }
+
+    return report;
+}
+
+export const Storage = {
+    moveResources,
+};
@@ -0,0 +1,32 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { MailMessageInterface, MailTransportInterface } from "../interfaces/MailInterface";
+import { Logger } from "../utils/Logger";
+
+/**
+ * Writes mails into a directory instead of delivering them, for development
+ * and tests. Mails are printed to the console whether no directory is set.
+ */
+export class FileMailTransport implements MailTransportInterface {
+    private directory: string;
+
+    /**
+     * @param directory a directory to write the mails into, optional
+     */
+    constructor(directory?: string) {
+        this.directory = directory;
+    }
+
+    async send(message: MailMessageInterface): Promise<void> {
+        const content = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+        if (!this.directory) {
+            Logger.info(`Mail\n${content}`);
+            return;
+        }
+
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.txt`;
+        await fs.promises.writeFile(path.join(this.directory, fileName), content);
+    }
+}
@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import {
+    StorageDriverEnum,
+    StorageDriverInterface,
+    StorageObjectInterface,
+    StorageRangeInterface,
+} from "../interfaces/StorageInterface";
+
+/**
+ * Stores the files in a directory of the local disk. The keys are the
+ * paths of the files, relative to the working directory or absolute.
+ */
+export class LocalStorageDriver implements StorageDriverInterface {
+    readonly name = StorageDriverEnum.LOCAL;
+    private directory: string;
+
+    /**
+     * @param directory a directory to store the new files into
+     */
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    getKey(fileName: string): string {
+        return path.join(this.directory, fileName);
+    }
+
+    async write(key: string, data: Buffer): Promise<void> {
+        await fs.promises.mkdir(path.dirname(key), { recursive: true });
+        await fs.promises.writeFile(key, data);
+    }
+
+    async read(key: string): Promise<Buffer> {
+        try {
+            return await fs.promises.readFile(key);
+        } catch (err) {
+            if (err.code === "ENOENT") {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    async createReadStream(key: string, range?: StorageRangeInterface): Promise<Readable> {
+        return fs.createReadStream(key, range ? { start: range.start, end: range.end } : {});
+    }
+
+    async stat(key: string): Promise<StorageObjectInterface> {
+        try {
+            const stats = await fs.promises.stat(key);
+            return stats.isFile() ? { size: stats.size, lastModified: stats.mtime } : null;
+        } catch (err) {
+            if (err.code === "ENOENT") {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        try {
+            await fs.promises.unlink(key);
+        } catch (err) {
+            if (err.code !== "ENOENT") {
+                throw err;
+            }
+        }
+    }
+}
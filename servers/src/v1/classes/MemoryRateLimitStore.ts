@@ -0,0 +1,48 @@
+import {
+    RateLimitCounterInterface,
+    RateLimitStoreInterface,
+} from "../interfaces/RateLimitInterface";
+
+/**
+ * Keeps the rate limit counters in the memory of the process.
+ */
+export class MemoryRateLimitStore implements RateLimitStoreInterface {
+    private counters = new Map<string, RateLimitCounterInterface>();
+    private lastCleanupAt = 0;
+
+    async increment(key: string, windowMs: number): Promise<RateLimitCounterInterface> {
+        const now = Date.now();
+        this.removeExpiredCounters(now);
+
+        let counter = this.counters.get(key);
+        if (!counter || counter.resetAt.getTime() <= now) {
+            counter = { count: 0, resetAt: new Date(now + windowMs) };
+            this.counters.set(key, counter);
+        }
+        counter.count++;
+        return { ...counter };
+    }
+
+    async reset(key: string): Promise<void> {
+        this.counters.delete(key);
+    }
+
+    /**
+     * Remove the counters whose window has ended, so that the memory
+     * does not grow with every client.
+     *
+     * @param now a current time in milliseconds
+     */
+    private removeExpiredCounters(now: number) {
+        // Sweeping every hit would be wasteful, once a minute is enough
+        if (now - this.lastCleanupAt < 60 * 1000) {
+            return;
+        }
+        this.lastCleanupAt = now;
+        this.counters.forEach((counter, key) => {
+            if (counter.resetAt.getTime() <= now) {
+                this.counters.delete(key);
+            }
+        });
+    }
+}
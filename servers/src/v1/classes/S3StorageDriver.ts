@@ -0,0 +1,134 @@
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    PutObjectCommand,
+    S3Client,
+} from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+import {
+    StorageDriverEnum,
+    StorageDriverInterface,
+    StorageObjectInterface,
+    StorageRangeInterface,
+} from "../interfaces/StorageInterface";
+
+/**
+ * Options to connect to an S3-compatible bucket.
+ */
+export interface S3StorageDriverOptions {
+    /**
+     * An endpoint of the service, e.g. a MinIO server, AWS by default
+     */
+    endpoint?: string;
+    region: string;
+    bucket: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    /**
+     * Whether the bucket is in the path instead of the host name
+     */
+    forcePathStyle: boolean;
+    /**
+     * A prefix of the keys, e.g. `uploads/`
+     */
+    prefix: string;
+}
+
+/**
+ * Check whether an error of the client is a missing object.
+ *
+ * @param err an error thrown by the client
+ * @returns true whether the object does not exist, false otherwise
+ */
+function isNotFound(err: any): boolean {
+    return (
+        err.name === "NotFound" ||
+        err.name === "NoSuchKey" ||
+        (err.$metadata && err.$metadata.httpStatusCode === 404)
+    );
+}
+
+/**
+ * Stores the files in a bucket of an S3-compatible service.
+ */
+export class S3StorageDriver implements StorageDriverInterface {
+    readonly name = StorageDriverEnum.S3;
+    private client: S3Client;
+    private bucket: string;
+    private prefix: string;
+
+    constructor(options: S3StorageDriverOptions) {
+        this.bucket = options.bucket;
+        this.prefix = options.prefix;
+        this.client = new S3Client({
+            endpoint: options.endpoint || undefined,
+            region: options.region,
+            forcePathStyle: options.forcePathStyle,
+            credentials: options.accessKeyId
+                ? {
+                      accessKeyId: options.accessKeyId,
+                      secretAccessKey: options.secretAccessKey,
+                  }
+                : undefined,
+        });
+    }
+
+    getKey(fileName: string): string {
+        return `${this.prefix}${fileName}`;
+    }
+
+    async write(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.client.send(
+            new PutObjectCommand({
+                Bucket: this.bucket,
+                Key: key,
+                Body: data,
+                ContentType: contentType,
+            })
+        );
+    }
+
+    async read(key: string): Promise<Buffer> {
+        try {
+            const output = await this.client.send(
+                new GetObjectCommand({ Bucket: this.bucket, Key: key })
+            );
+            return Buffer.from(await output.Body.transformToByteArray());
+        } catch (err) {
+            if (isNotFound(err)) {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    async createReadStream(key: string, range?: StorageRangeInterface): Promise<Readable> {
+        const output = await this.client.send(
+            new GetObjectCommand({
+                Bucket: this.bucket,
+                Key: key,
+                Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+            })
+        );
+        return output.Body as Readable;
+    }
+
+    async stat(key: string): Promise<StorageObjectInterface> {
+        try {
+            const output = await this.client.send(
+                new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+            );
+            return { size: output.ContentLength, lastModified: output.LastModified };
+        } catch (err) {
+            if (isNotFound(err)) {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+}
@@ -0,0 +1,47 @@
+import * as nodemailer from "nodemailer";
+import { MailMessageInterface, MailTransportInterface } from "../interfaces/MailInterface";
+
+/**
+ * Options to connect to a SMTP server.
+ */
+export interface SmtpMailTransportOptions {
+    host: string;
+    port: number;
+    /**
+     * Whether to connect with TLS, otherwise STARTTLS is used whether available
+     */
+    secure: boolean;
+    username?: string;
+    password?: string;
+    /**
+     * A sender address
+     */
+    from: string;
+}
+
+/**
+ * Delivers mails through a SMTP server.
+ */
+export class SmtpMailTransport implements MailTransportInterface {
+    private transporter: nodemailer.Transporter;
+    private from: string;
+
+    constructor(options: SmtpMailTransportOptions) {
+        this.from = options.from;
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.username ? { user: options.username, pass: options.password } : undefined,
+        });
+    }
+
+    async send(message: MailMessageInterface): Promise<void> {
+        await this.transporter.sendMail({
+            from: this.from,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+        });
+    }
+}
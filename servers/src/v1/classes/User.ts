@@ -4,6 +4,8 @@ import { UserController } from "../controllers/UserController";
 import { PermissionGroupInterface } from "../interfaces/PermissionGroupInterface";
 import { isValidIntroduction, isValidNickname } from "../utils/ValidatorUtils";
 import { Locale } from "../Locale";
+import { UserSanctionController } from "../controllers/UserSanctionController";
+import { UserSanctionTypeEnum } from "../interfaces/UserSanctionInterface";
 
 export class User implements UserInterface {
   id: number;
@@ -12,6 +14,16 @@ export class User implements UserInterface {
   email: string;
   nickname: string;
   introduction: string;
+  emailVerifiedAt?: Date;
+  /**
+   * Permissions that the request is restricted to, e.g. the scopes of
+   * an API key. Undefined whether every permission of the user applies.
+   */
+  scopes?: number[];
+  /**
+   * Identifiers of the permissions of the user, which are loaded once.
+   */
+  private permissionIds?: Promise<number[]>;
 
   constructor(user: UserInterface, id?: number) {
     this.id = id;
@@ -20,6 +32,7 @@ export class User implements UserInterface {
     this.email = user.email;
     this.nickname = user.nickname;
     this.introduction = user.introduction;
+    this.emailVerifiedAt = user.emailVerifiedAt;
   }
 
   /**
@@ -28,7 +41,21 @@ export class User implements UserInterface {
    * @returns true whether the user has the given permission, false otherwise.
    */
   async hasPermission(permissionId: number): Promise<boolean> {
-    return UserController.hasPermissionByUserId(this.id, permissionId);
+    return (await this.getPermissionIds()).includes(permissionId);
+  }
+
+  /**
+   * Retrieves identifiers of all permissions of user. They are queried
+   * once, a user object only lives as long as its request.
+   * @returns an array of permission identifiers.
+   */
+  async getPermissionIds(): Promise<number[]> {
+    if (!this.permissionIds) {
+      this.permissionIds = this.getPermissions().then((permissions) =>
+        permissions.map(({ id }) => id)
+      );
+    }
+    return this.permissionIds;
   }
 
   /**
@@ -44,7 +71,25 @@ export class User implements UserInterface {
    * @returns an array of permissions of the user.
    */
   async getPermissions(): Promise<PermissionGroupInterface[]> {
-    return await UserController.getAllPermissionsFromUserId(this.id);
+    const permissions = await UserController.getAllPermissionsFromUserId(
+      this.id
+    );
+    return this.scopes
+      ? permissions.filter(({ id }) => this.scopes.includes(id))
+      : permissions;
+  }
+
+  /**
+   * Check whether the user is muted, muted users can not post
+   * comments or reviews.
+   * @returns true whether the user has an active mute, false otherwise.
+   */
+  async isMuted(): Promise<boolean> {
+    const mute = await UserSanctionController.getActiveSanction(
+      this.id,
+      UserSanctionTypeEnum.MUTE
+    );
+    return mute !== null;
   }
 
   async changeProfile(nickname: string, introduction: string) {
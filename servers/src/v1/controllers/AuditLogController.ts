@@ -0,0 +1,111 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { AuditLogFilterInterface, AuditLogInterface } from "../interfaces/AuditLogInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+
+/**
+ * Normalizes an audit log row, sqlite returns the dates as numbers and
+ * the changes are stored as JSON.
+ *
+ * @param row an audit log row from database
+ * @returns an audit log
+ */
+function toAuditLog(row: any): AuditLogInterface {
+    return {
+        ...row,
+        before: row.before ? JSON.parse(row.before) : null,
+        after: row.after ? JSON.parse(row.after) : null,
+        createdAt: new Date(row.createdAt),
+    };
+}
+
+/**
+ * Apply the filters to a query of the audit log.
+ *
+ * @param query a query to filter
+ * @param filter filters to apply
+ * @returns the query
+ */
+function applyFilter(query: Knex.QueryBuilder, filter: AuditLogFilterInterface) {
+    const { actorId, action, targetType, targetId, from, to } = filter;
+    if (actorId) {
+        query.where({ actorId });
+    }
+    if (action) {
+        query.where({ action });
+    }
+    if (targetType) {
+        query.where({ targetType });
+    }
+    if (targetId) {
+        query.where({ targetId });
+    }
+    if (from) {
+        query.where("createdAt", ">=", from);
+    }
+    if (to) {
+        query.where("createdAt", "<=", to);
+    }
+    return query;
+}
+
+/**
+ * Append a record into the audit log. Records are never updated
+ * nor deleted.
+ *
+ * @param auditLog a record to append
+ * @returns an identifier of the record
+ */
+async function createAuditLog(auditLog: AuditLogInterface): Promise<number> {
+    const { actorId, action, targetType, targetId, before, after, ip } = auditLog;
+    const [id] = await DatabaseBuilder(Tables.AuditLog).insert({
+        actorId,
+        action,
+        targetType,
+        targetId,
+        before: before ? JSON.stringify(before) : null,
+        after: after ? JSON.stringify(after) : null,
+        ip,
+        createdAt: new Date(),
+    });
+    return id;
+}
+
+/**
+ * Retrieves the records of the audit log, the newest first.
+ *
+ * @param filter filters of the records
+ * @param limit a maximum number of records
+ * @param page a page number, starts from 0
+ * @returns an array of records
+ */
+async function getAuditLogs(
+    filter: AuditLogFilterInterface = {},
+    limit: number = 20,
+    page: number = 0
+): Promise<AuditLogInterface[]> {
+    const rows = await applyFilter(DatabaseBuilder(Tables.AuditLog), filter)
+        .orderBy("id", "desc")
+        .limit(limit)
+        .offset(page * limit);
+    return rows.map(toAuditLog);
+}
+
+/**
+ * Count the records of the audit log.
+ *
+ * @param filter filters of the records
+ * @returns a number of records
+ */
+async function countAuditLogs(filter: AuditLogFilterInterface = {}): Promise<number> {
+    const { count } = await applyFilter(DatabaseBuilder(Tables.AuditLog), filter)
+        .count({ count: "*" })
+        .first();
+    return Number(count);
+}
+
+export const AuditLogController = {
+    createAuditLog,
+    getAuditLogs,
+    countAuditLogs,
+};
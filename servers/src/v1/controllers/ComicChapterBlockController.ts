@@ -1,6 +1,14 @@
-import { ComicChapterBlockInterface } from "./../interfaces/ComicChapterBlockInterface";
+import {
+    ComicChapterBlockInterface,
+    ComicChapterBlockOperationInterface,
+} from "./../interfaces/ComicChapterBlockInterface";
+import { ComicChapterViewTypeEnum } from "./../interfaces/ComicChapterInterface";
 import { Tables } from "./../Database";
 import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { applyBlockOperations } from "../utils/ChapterBlockUtils";
+import { getRichTextStatistics, sanitizeRichText } from "../utils/RichTextUtils";
+import ComicChapterController from "./ComicChapterController";
+import ComicChapterRevisionController from "./ComicChapterRevisionController";
 
 async function createChapterBlock(
     chapterId: number,
@@ -31,9 +39,87 @@ async function createChapterBlocks(
     return chapterBlocks;
 }
 
+/**
+ * Apply some operations to the blocks of a chapter at once. Only the
+ * changed blocks are written, the length and the statistics of the chapter
+ * are updated and its new state is recorded as a revision. The inserted
+ * and replaced contents of a text chapter are sanitized.
+ *
+ * @param chapterId a identifier of the chapter
+ * @param operations the operations to apply, in their order
+ * @param updatedBy a user who changed the blocks
+ * @returns the blocks of the chapter, null whether an operation is invalid
+ *  and nothing was changed
+ */
+async function applyChapterBlockOperations(
+    chapterId: number,
+    operations: ComicChapterBlockOperationInterface[],
+    updatedBy: number
+): Promise<ComicChapterBlockInterface[]> {
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        const chapter = await transaction(Tables.ComicChapter).where({ id: chapterId }).first();
+        const blocks: ComicChapterBlockInterface[] = await transaction(Tables.ComicChapterBlock)
+            .where({ chapterId })
+            .orderBy("index", "asc");
+        const orderedBlocks = applyBlockOperations(blocks, operations);
+        if (!chapter || orderedBlocks === undefined) {
+            await transaction.rollback();
+            return null;
+        }
+        // The chapters created before the revisions keep their previous state
+        await ComicChapterRevisionController.recordBaseRevision(transaction, chapterId);
+
+        const isText =
+            Number(chapter.viewType) === ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT;
+        const contents = orderedBlocks.map(({ content }) =>
+            isText ? sanitizeRichText(content) : content
+        );
+
+        // Write the moved, the replaced and the inserted blocks only
+        const keptIds = orderedBlocks.filter(({ id }) => id !== undefined).map(({ id }) => id);
+        await transaction(Tables.ComicChapterBlock)
+            .del()
+            .where({ chapterId })
+            .whereNotIn("id", keptIds);
+        for (let index = 0; index < orderedBlocks.length; index++) {
+            const { id } = orderedBlocks[index];
+            const content = contents[index];
+            const current = blocks.find((block) => id !== undefined && block.id === id);
+            if (!current) {
+                await transaction(Tables.ComicChapterBlock).insert({ chapterId, index, content });
+            } else if (Number(current.index) !== index || current.content !== content) {
+                await transaction(Tables.ComicChapterBlock)
+                    .update({ index, content })
+                    .where({ id });
+            }
+        }
+
+        await ComicChapterController.updateChapterLength(
+            chapterId,
+            orderedBlocks.length,
+            transaction
+        );
+        await transaction(Tables.ComicChapter)
+            .update({
+                ...(isText ? getRichTextStatistics(contents) : {}),
+                updatedAt: new Date(),
+            })
+            .where({ id: chapterId });
+        await ComicChapterRevisionController.recordRevision(transaction, chapterId, updatedBy);
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+
+    return DatabaseBuilder(Tables.ComicChapterBlock).where({ chapterId }).orderBy("index", "asc");
+}
+
 const ComicChapterBlockController = {
     createChapterBlock,
     createChapterBlocks,
+    applyChapterBlockOperations,
 };
 
 export default ComicChapterBlockController;
@@ -1,16 +1,85 @@
+import { Knex } from "knex";
 import { Tables } from "./../Database";
-import { ComicChapterInterface } from "./../interfaces/ComicChapterInterface";
+import {
+    ComicChapterInterface,
+    ComicChapterViewTypeEnum,
+} from "./../interfaces/ComicChapterInterface";
+import { ResourceInterface } from "../interfaces/ResourceInterface";
+import { PublicationInterface, PublicationStatusEnum } from "../interfaces/PublicationInterface";
 import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { getPublication, isPublic, wherePublic } from "../utils/PublicationUtils";
+import { MaxChapterIndex, parseChapterIndex } from "../utils/ChapterUtils";
+import { ComicChapterOrderInterface } from "../interfaces/ComicVolumeInterface";
+import { RichTextStatisticsInterface } from "../interfaces/RichTextInterface";
+import { getRichTextStatistics, sanitizeRichText } from "../utils/RichTextUtils";
+import ComicChapterRevisionController from "./ComicChapterRevisionController";
 
 /**
- * Create new comic chapter.
+ * Sanitize the blocks of a text chapter and count their words, the blocks
+ * of an image chapter are kept as they are.
+ *
+ * @param viewType a type of the chapter
+ * @param blocks the blocks of the chapter
+ * @returns the blocks to store and the statistics of the chapter
+ */
+function prepareBlocks(
+    viewType: number,
+    blocks: Array<any>
+): { blocks: Array<any>; statistics: RichTextStatisticsInterface } {
+    if (Number(viewType) !== ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT) {
+        return { blocks, statistics: { wordCount: 0, readingTime: 0 } };
+    }
+    const sanitizedBlocks = blocks.map((_block) => ({
+        ..._block,
+        content: sanitizeRichText(_block.content),
+    }));
+    return {
+        blocks: sanitizedBlocks,
+        statistics: getRichTextStatistics(sanitizedBlocks.map(({ content }) => content)),
+    };
+}
+
+/**
+ * Insert a chapter and its blocks.
+ *
+ * @param transaction a transaction to insert with
+ * @param chapter a chapter to insert, its identifier is set once inserted
+ * @param blocks the blocks of the chapter
+ */
+async function insertChapter(
+    transaction: Knex.Transaction,
+    chapter: ComicChapterInterface,
+    blocks: Array<any>
+) {
+    const insertedChapter = await transaction(Tables.ComicChapter).insert(chapter);
+    chapter.id = insertedChapter[0];
+    await transaction(Tables.ComicChapterBlock).insert(
+        blocks.map((_block) => ({
+            chapterId: insertedChapter[0],
+            index: _block.index,
+            content: _block.content,
+        }))
+    );
+    // Unreleased chapters update the comic once they are published
+    if (isPublic(chapter)) {
+        await transaction(Tables.Comic)
+            .update({ updatedAt: new Date() })
+            .where({ id: chapter.comicId });
+    }
+}
+
+/**
+ * Create new comic chapter. The blocks of a text chapter are sanitized.
  *
  * @param id a identifier of the chapter
  * @param name a name of the chapter
  * @param comicId a identifier of the comic
  * @param postedBy a user who posted the chapter
  * @param viewType a type of the chapter
- * @returns an interface after created
+ * @param publication a publication status, published by default
+ * @param chapterIndex a sortable number, parsed from the chapter number by default
+ * @param volumeId a identifier of the volume, if any
+ * @returns an interface after created, null whether the position is taken
  */
 async function createChapter(
     name: string,
@@ -18,13 +87,17 @@ async function createChapter(
     postedBy: number,
     viewType: number,
     blocks: Array<any>,
-    chapterNumber: string
+    chapterNumber: string,
+    publication: PublicationInterface = getPublication(PublicationStatusEnum.PUBLISHED),
+    chapterIndex: number = parseChapterIndex(chapterNumber),
+    volumeId: number = null
 ): Promise<ComicChapterInterface> {
     // Field check
     if (!name || !comicId || !postedBy) {
         throw new Error("Missing parameters");
     }
 
+    const prepared = prepareBlocks(viewType, blocks);
     const chapter: ComicChapterInterface = {
         name,
         comicId,
@@ -34,18 +107,21 @@ async function createChapter(
         updatedAt: new Date(),
         length: blocks.length,
         chapterNumber,
+        chapterIndex,
+        volumeId,
+        ...prepared.statistics,
+        ...publication,
     };
 
     const transaction = await DatabaseBuilder.transaction();
     try {
-        const insertedChapter = await transaction(Tables.ComicChapter).insert(chapter);
-        blocks = blocks.map((_block) => ({
-            chapterId: insertedChapter[0],
-            index: _block.index,
-            content: _block.content,
-        }));
-        await transaction(Tables.ComicChapterBlock).insert(blocks);
-        await transaction(Tables.Comic).update({ updatedAt: new Date() }).where({ id: comicId });
+        await lockChapterPositions(transaction, comicId);
+        if (!(await isChapterPositionFree(transaction, chapter))) {
+            await transaction.rollback();
+            return null;
+        }
+        await insertChapter(transaction, chapter, prepared.blocks);
+        await ComicChapterRevisionController.recordRevision(transaction, chapter.id, postedBy);
         await transaction.commit();
     } catch (e) {
         await transaction.rollback();
@@ -55,6 +131,91 @@ async function createChapter(
     return chapter;
 }
 
+/**
+ * Create new image chapter and the resources of its pages at once, e.g.
+ * from an imported archive. The blocks refer to the file names of the
+ * resources.
+ *
+ * @param name a name of the chapter
+ * @param comicId a identifier of the comic
+ * @param postedBy a user who posted the chapter and uploaded the images
+ * @param images the stored images of the pages, in their reading order
+ * @param chapterNumber a chapter number
+ * @param publication a publication status, published by default
+ * @param chapterIndex a sortable number, parsed from the chapter number by default
+ * @param volumeId a identifier of the volume, if any
+ * @param summary a summary of the chapter, if any
+ * @returns the created chapter and resources, null whether the position is taken
+ */
+async function createImageChapter(
+    name: string,
+    comicId: number,
+    postedBy: number,
+    images: Array<
+        Pick<ResourceInterface, "originalName" | "fileName" | "path" | "size" | "storage">
+    >,
+    chapterNumber: string,
+    publication: PublicationInterface = getPublication(PublicationStatusEnum.PUBLISHED),
+    chapterIndex: number = parseChapterIndex(chapterNumber),
+    volumeId: number = null,
+    summary: string = null
+): Promise<{ chapter: ComicChapterInterface; resources: ResourceInterface[] }> {
+    // Field check
+    if (!name || !comicId || !postedBy || images.length === 0) {
+        throw new Error("Missing parameters");
+    }
+
+    const chapter: ComicChapterInterface = {
+        name,
+        comicId,
+        postedBy,
+        viewType: ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        length: images.length,
+        chapterNumber,
+        chapterIndex,
+        volumeId,
+        summary,
+        ...publication,
+    };
+    const resources: ResourceInterface[] = [];
+
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        await lockChapterPositions(transaction, comicId);
+        if (!(await isChapterPositionFree(transaction, chapter))) {
+            await transaction.rollback();
+            return null;
+        }
+        for (const image of images) {
+            const resource = { ...image, uploader: postedBy, uploadedAt: new Date() };
+            const [id] = await transaction(Tables.Resource).insert(resource);
+            resources.push({ ...resource, id });
+        }
+        await insertChapter(
+            transaction,
+            chapter,
+            resources.map(({ fileName }, index) => ({ index, content: fileName }))
+        );
+        await ComicChapterRevisionController.recordRevision(transaction, chapter.id, postedBy);
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+
+    return { chapter, resources };
+}
+
+/**
+ * Update a chapter and replace its blocks, the new state is recorded as a
+ * revision. The blocks of a text chapter are sanitized.
+ *
+ * @param updatedBy a user who updated the chapter, its poster by default
+ * @param restoredFrom a restored revision, if any
+ * @returns the updated fields, null whether the position is taken
+ */
 async function updateChapter(
     id: number,
     name: string,
@@ -62,13 +223,19 @@ async function updateChapter(
     postedBy: number,
     viewType: number,
     blocks: Array<any>,
-    chapterNumber: string
+    chapterNumber: string,
+    publication?: PublicationInterface,
+    chapterIndex?: number,
+    volumeId?: number,
+    updatedBy: number = postedBy,
+    restoredFrom: number = null
 ): Promise<ComicChapterInterface> {
     // Field check
     if (!name || !comicId || !postedBy) {
         throw new Error("Missing parameters");
     }
 
+    const prepared = prepareBlocks(viewType, blocks);
     const chapter: ComicChapterInterface = {
         name,
         comicId,
@@ -78,12 +245,31 @@ async function updateChapter(
         updatedAt: new Date(),
         length: blocks.length,
         chapterNumber,
+        ...prepared.statistics,
+        ...publication,
     };
+    if (chapterIndex !== undefined) {
+        chapter.chapterIndex = chapterIndex;
+    }
+    if (volumeId !== undefined) {
+        chapter.volumeId = volumeId;
+    }
 
     const transaction = await DatabaseBuilder.transaction();
     try {
+        // The chapter keeps its index or its volume when they are not given
+        await lockChapterPositions(transaction, comicId);
+        const position = await transaction(Tables.ComicChapter)
+            .where({ id })
+            .first("chapterIndex", "volumeId");
+        if (!(await isChapterPositionFree(transaction, { ...position, ...chapter }, id))) {
+            await transaction.rollback();
+            return null;
+        }
+        // The chapters created before the revisions keep their previous state
+        await ComicChapterRevisionController.recordBaseRevision(transaction, id);
         await transaction(Tables.ComicChapter).update(chapter).where({ id });
-        blocks = blocks.map((_block) => ({
+        blocks = prepared.blocks.map((_block) => ({
             id: _block.id,
             chapterId: id,
             index: _block.index,
@@ -91,6 +277,12 @@ async function updateChapter(
         }));
         await transaction(Tables.ComicChapterBlock).del().where({ chapterId: id });
         await transaction(Tables.ComicChapterBlock).insert(blocks);
+        await ComicChapterRevisionController.recordRevision(
+            transaction,
+            id,
+            updatedBy,
+            restoredFrom
+        );
         await transaction.commit();
     } catch (e) {
         await transaction.rollback();
@@ -101,20 +293,72 @@ async function updateChapter(
 }
 
 async function deleteChapter(chapterId: number) {
-    const transaction = await DatabaseBuilder.transaction();
-    try {
-        await transaction(Tables.ComicChapterBlock).del().where({ chapterId });
-        await transaction(Tables.ComicChapter).del().where({ id: chapterId });
-        await transaction.commit();
-    } catch (e) {
-        await transaction.rollback();
-        throw e;
-    }
+    // Blocks and comments are removed by the foreign key cascades
+    await DatabaseBuilder(Tables.ComicChapter).del().where({ id: chapterId });
+}
+
+/**
+ * Build a query of the chapters of a comic.
+ *
+ * @param comicId a identifier of the comic
+ * @param includeUnpublished true to include the chapters which are not public
+ * @returns a query of the chapters
+ */
+function getChaptersQuery(comicId: number, includeUnpublished?: boolean) {
+    const query = DatabaseBuilder(Tables.ComicChapter).where({ comicId });
+    return includeUnpublished ? query : wherePublic(query);
+}
+
+/**
+ * Sorts the chapters by the numbers of their volumes then by their indexes,
+ * e.g. 2 before 10 and 10.5 before 11. The chapters without volume come
+ * after the last volume, the chapters without index come last in their
+ * volume, and the identifiers keep the order stable between pages.
+ *
+ * @param query a query of the chapters
+ * @param order a sort order
+ * @returns the query
+ */
+function orderByChapterIndex<T extends Knex.QueryBuilder>(query: T, order: "asc" | "desc"): T {
+    const direction = order === "asc" ? "asc" : "desc";
+    return query.orderByRaw(
+        `COALESCE((SELECT ?? FROM ?? WHERE ?? = ??), ?) ${direction}, ` +
+            `(?? IS NULL) asc, ?? ${direction}, ?? ${direction}`,
+        [
+            `${Tables.ComicVolume}.number`,
+            Tables.ComicVolume,
+            `${Tables.ComicVolume}.id`,
+            `${Tables.ComicChapter}.volumeId`,
+            MaxChapterIndex + 1,
+            "chapterIndex",
+            "chapterIndex",
+            "id",
+        ]
+    ) as T;
+}
+
+/**
+ * The fields which the chapters can be sorted by.
+ */
+const ChapterSortFields = ["chapterIndex", "chapterNumber", "createdAt", "updatedAt", "name"];
+
+/**
+ * Check whether the chapters can be sorted by a field.
+ *
+ * @param field a field from the request
+ * @returns true whether the field is sortable, false otherwise
+ */
+function isChapterSortField(field: any): boolean {
+    return ChapterSortFields.indexOf(field) !== -1;
 }
 
 /**
  *
  * @param comicId a identifier of the comic
+ * @param filter a page (from 0) of limit chapters, all chapters whether no
+ *  limit is given. The chapters are sorted by their indexes unless sortedBy
+ *  is given. includeUnpublished to include the chapters which are not
+ *  public, e.g. for the owners of the comic
  *
  */
 async function getChaptersFromComic(
@@ -124,6 +368,7 @@ async function getChaptersFromComic(
         page?: number;
         sortedBy?: string;
         order?: "asc" | "desc";
+        includeUnpublished?: boolean;
     }
 ): Promise<ComicChapterInterface[]> {
     // check parameters
@@ -131,13 +376,69 @@ async function getChaptersFromComic(
         throw new Error("id is required");
     }
     // Retrieve comic
-    const chapter = await DatabaseBuilder(Tables.ComicChapter)
-        .where({ comicId })
-        // .limit(filter?.limit || null)
-        // .offset(filter?.page * filter?.limit || 0)
-        .orderBy(filter?.sortedBy || "createdAt", filter?.order || "desc");
+    let chapter = getChaptersQuery(comicId, filter?.includeUnpublished);
+    const order = filter?.order === "asc" ? "asc" : "desc";
+    if (!filter?.sortedBy || ["chapterNumber", "chapterIndex"].indexOf(filter.sortedBy) !== -1) {
+        chapter = orderByChapterIndex(chapter, order);
+    } else {
+        chapter = chapter.orderBy(filter.sortedBy, order).orderBy("id", order);
+    }
+    if (filter?.limit > 0) {
+        chapter = chapter
+            .limit(filter.limit)
+            .offset((filter.page > 0 ? filter.page : 0) * filter.limit);
+    }
 
-    return chapter;
+    return await chapter;
+}
+
+/**
+ * Count the chapters of a comic.
+ *
+ * @param comicId a identifier of the comic
+ * @param includeUnpublished true to include the chapters which are not public
+ * @returns the number of chapters
+ */
+async function countChaptersFromComic(
+    comicId: number,
+    includeUnpublished?: boolean
+): Promise<number> {
+    const { count } = await getChaptersQuery(comicId, includeUnpublished)
+        .count({ count: "id" })
+        .first();
+    return Number(count);
+}
+
+/**
+ * Retrieves the chapters before and after a chapter of its comic, in the
+ * order of their indexes.
+ *
+ * @param chapter a chapter of the comic
+ * @param includeUnpublished true to include the chapters which are not public
+ * @returns the previous and the next chapters, null whether there is none
+ */
+async function getAdjacentChapters(
+    chapter: ComicChapterInterface,
+    includeUnpublished?: boolean
+): Promise<{ previous: ComicChapterInterface; next: ComicChapterInterface }> {
+    const chapters = await orderByChapterIndex(
+        getChaptersQuery(chapter.comicId, includeUnpublished).select(
+            "id",
+            "name",
+            "chapterNumber",
+            "chapterIndex",
+            "volumeId"
+        ),
+        "asc"
+    );
+    const index = chapters.findIndex(({ id }) => Number(id) === Number(chapter.id));
+    if (index === -1) {
+        return { previous: null, next: null };
+    }
+    return {
+        previous: chapters[index - 1] || null,
+        next: chapters[index + 1] || null,
+    };
 }
 
 /**
@@ -153,6 +454,9 @@ async function getChapter(id: number): Promise<ComicChapterInterface> {
     }
     // Retrieve comic
     const chapter = await DatabaseBuilder(Tables.ComicChapter).where({ id }).first();
+    if (!chapter) {
+        return null;
+    }
     const blocks = await DatabaseBuilder(Tables.ComicChapterBlock)
         .where({ chapterId: id })
         .orderBy("index", "asc");
@@ -170,36 +474,303 @@ async function getNewestChapters(): Promise<any[]> {
         comicCategory: "t2.category",
         comicSlug: "t2.slug",
         chapterNumber: "t1.chapterNumber",
+        publishAt: "t1.publishAt",
     };
-    const chapters = await DatabaseBuilder(`${Tables.ComicChapter} as t1`)
-        .join(`${Tables.Comic} AS t2`, "t1.comicId", "t2.id")
-        .columns(fields)
-        .orderBy("t1.createdAt", "desc")
+    // Both the chapter and its comic must be public, the scheduled
+    // chapters are sorted by their release time
+    const chapters = await wherePublic(
+        wherePublic(
+            DatabaseBuilder(`${Tables.ComicChapter} as t1`)
+                .join(`${Tables.Comic} AS t2`, "t1.comicId", "t2.id")
+                .columns(fields),
+            "t1"
+        ),
+        "t2"
+    )
+        .orderBy("t1.publishAt", "desc")
         .limit(10);
     return chapters;
 }
 
+/**
+ * Update the publication status of a chapter. The comic is updated whether
+ * the chapter becomes public.
+ *
+ * @param id a identifier of the chapter
+ * @param publication a new publication status
+ */
+async function updateChapterPublication(id: number, publication: PublicationInterface) {
+    const chapter = await DatabaseBuilder(Tables.ComicChapter).where({ id }).first();
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        await transaction(Tables.ComicChapter)
+            .update({ ...publication, updatedAt: new Date() })
+            .where({ id });
+        if (!isPublic(chapter) && isPublic(publication)) {
+            await transaction(Tables.Comic)
+                .update({ updatedAt: new Date() })
+                .where({ id: chapter.comicId });
+        }
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+}
+
+/**
+ * Publish the scheduled chapters whose release time has come, and update
+ * their comics.
+ *
+ * @param now a current time
+ * @returns the number of published chapters
+ */
+async function publishDueChapters(now: Date = new Date()): Promise<number> {
+    const chapters = await DatabaseBuilder(Tables.ComicChapter)
+        .where({ status: PublicationStatusEnum.SCHEDULED })
+        .where("publishAt", "<=", now)
+        .select("id", "comicId");
+    if (chapters.length === 0) {
+        return 0;
+    }
+
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        await transaction(Tables.ComicChapter)
+            .whereIn(
+                "id",
+                chapters.map((chapter) => chapter.id)
+            )
+            .update({ status: PublicationStatusEnum.PUBLISHED });
+        await transaction(Tables.Comic)
+            .whereIn(
+                "id",
+                chapters.map((chapter) => chapter.comicId)
+            )
+            .update({ updatedAt: now });
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+    return chapters.length;
+}
+
+/**
+ * Filters the chapters of a volume, or the chapters without volume.
+ *
+ * @param query a query of the chapters
+ * @param volumeId a identifier of the volume, null for none
+ * @returns the query
+ */
+function whereVolume<T extends Knex.QueryBuilder>(query: T, volumeId: number): T {
+    return (
+        volumeId === null || volumeId === undefined
+            ? query.whereNull("volumeId")
+            : query.where({ volumeId })
+    ) as T;
+}
+
+/**
+ * Check whether another chapter of the comic has the number, or the index
+ * in the same volume, e.g. "Vol.1 Ch.3" and "Vol.2 Ch.3" may share the
+ * index 3 in their volumes.
+ *
+ * @param comicId a identifier of the comic
+ * @param chapterIndex an index to check, null to ignore
+ * @param chapterNumber a chapter number to check, empty to ignore
+ * @param volumeId a identifier of the volume of the index, null for none
+ * @param exceptId a identifier of the chapter to ignore, e.g. the updated one
+ * @param builder a transaction which locked the positions, if any
+ * @returns true whether the index or the number is taken, false otherwise
+ */
+async function hasChapterNumber(
+    comicId: number,
+    chapterIndex: number,
+    chapterNumber: string,
+    volumeId: number,
+    exceptId?: number,
+    builder: Knex = DatabaseBuilder
+): Promise<boolean> {
+    if (chapterIndex === null && !chapterNumber) {
+        return false;
+    }
+    let query = builder(Tables.ComicChapter)
+        .where({ comicId })
+        .where((builder) => {
+            if (chapterIndex !== null) {
+                builder.orWhere((volume) => whereVolume(volume.where({ chapterIndex }), volumeId));
+            }
+            if (chapterNumber) {
+                builder.orWhere({ chapterNumber });
+            }
+        });
+    if (exceptId) {
+        query = query.whereNot({ id: exceptId });
+    }
+    return !!(await query.first());
+}
+
+/**
+ * Lock the chapter positions of a comic until the end of the transaction.
+ * The unique index of the positions does not cover the chapters without
+ * volume, so the writers of the positions lock the comic row before they
+ * check them.
+ *
+ * @param transaction a transaction which moves the chapters
+ * @param comicId a identifier of the comic
+ */
+async function lockChapterPositions(transaction: Knex.Transaction, comicId: number) {
+    await transaction(Tables.Comic).where({ id: comicId }).forUpdate().first("id");
+}
+
+/**
+ * Check whether the number and the position of a chapter are still free,
+ * once the chapter positions of its comic are locked.
+ *
+ * @param transaction a transaction which locked the positions
+ * @param chapter a chapter to write
+ * @param exceptId a identifier of the updated chapter, if any
+ * @returns true whether the position is free, false otherwise
+ */
+async function isChapterPositionFree(
+    transaction: Knex.Transaction,
+    chapter: ComicChapterInterface,
+    exceptId?: number
+): Promise<boolean> {
+    return !(await hasChapterNumber(
+        chapter.comicId,
+        chapter.chapterIndex ?? null,
+        chapter.chapterNumber,
+        chapter.volumeId,
+        exceptId,
+        transaction
+    ));
+}
+
+/**
+ * Check whether a chapter of the volume has the index of a chapter without
+ * volume, which the chapter would collide with once the volume is removed.
+ *
+ * @param volumeId a identifier of the volume
+ * @param builder a transaction which locked the positions, if any
+ * @returns true whether an index is taken, false otherwise
+ */
+async function hasVolumeIndexConflict(
+    volumeId: number,
+    builder: Knex = DatabaseBuilder
+): Promise<boolean> {
+    const conflict = await builder(`${Tables.ComicChapter} AS t1`)
+        .join(`${Tables.ComicChapter} AS t2`, function () {
+            this.on("t1.comicId", "t2.comicId").andOn("t1.chapterIndex", "t2.chapterIndex");
+        })
+        .where({ "t1.volumeId": volumeId })
+        .whereNull("t2.volumeId")
+        .first("t1.id");
+    return !!conflict;
+}
+
+/**
+ * Retrieves the positions of all chapters of a comic.
+ *
+ * @param comicId a identifier of the comic
+ * @returns the identifiers, indexes and volumes of the chapters, in order
+ */
+async function getChapterOrders(comicId: number): Promise<ComicChapterOrderInterface[]> {
+    const chapters = await orderByChapterIndex(
+        getChaptersQuery(comicId, true).select("id", "chapterIndex", "volumeId"),
+        "asc"
+    );
+    return chapters.map(({ id, chapterIndex, volumeId }) => ({
+        id,
+        chapterIndex: chapterIndex === null ? null : Number(chapterIndex),
+        volumeId,
+    }));
+}
+
+/**
+ * Move the chapters of a comic at once.
+ *
+ * @param comicId a identifier of the comic
+ * @param orders new indexes and volumes of the chapters
+ * @returns true whether moved, false whether two chapters without volume
+ *  would share an index
+ */
+async function reorderChapters(
+    comicId: number,
+    orders: ComicChapterOrderInterface[]
+): Promise<boolean> {
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        await lockChapterPositions(transaction, comicId);
+        // Free the indexes first, they are unique in the volume
+        for (let i = 0; i < orders.length; i++) {
+            await transaction(Tables.ComicChapter)
+                .where({ id: orders[i].id })
+                .update({ chapterIndex: -(i + 1) });
+        }
+        for (const { id, chapterIndex, volumeId } of orders) {
+            await transaction(Tables.ComicChapter)
+                .where({ id })
+                .update(volumeId === undefined ? { chapterIndex } : { chapterIndex, volumeId });
+        }
+        // The unique index does not cover the chapters without volume
+        const duplicate = await transaction(Tables.ComicChapter)
+            .where({ comicId })
+            .whereNull("volumeId")
+            .whereNotNull("chapterIndex")
+            .groupBy("chapterIndex")
+            .havingRaw("COUNT(*) > 1")
+            .first("chapterIndex");
+        if (duplicate) {
+            await transaction.rollback();
+            return false;
+        }
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+    return true;
+}
+
 /**
  * Update chapter length.
  *
  * @param chapterId a identifier of the chapter
  * @param length a block length of this chapter
+ * @param builder a transaction which changed the blocks, if any
  */
-async function updateChapterLength(chapterId: number, length: number) {
+async function updateChapterLength(
+    chapterId: number,
+    length: number,
+    builder: Knex = DatabaseBuilder
+) {
     if (!chapterId) {
         throw new Error("id is required");
     }
-    await DatabaseBuilder(Tables.ComicChapter).where({ id: chapterId }).update({ length });
+    await builder(Tables.ComicChapter).where({ id: chapterId }).update({ length });
 }
 
 const ComicChapterController = {
     createChapter,
+    createImageChapter,
     updateChapter,
     deleteChapter,
     getChaptersFromComic,
+    isChapterSortField,
+    countChaptersFromComic,
+    getAdjacentChapters,
+    hasChapterNumber,
+    hasVolumeIndexConflict,
+    lockChapterPositions,
+    getChapterOrders,
+    reorderChapters,
     getChapter,
     updateChapterLength,
     getNewestChapters,
+    updateChapterPublication,
+    publishDueChapters,
 };
 
 export default ComicChapterController;
@@ -0,0 +1,149 @@
+import { Knex } from "knex";
+import { Tables } from "./../Database";
+import { ComicChapterRevisionInterface } from "../interfaces/ComicChapterRevisionInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+
+/**
+ * The columns of a revision without its blocks.
+ */
+const RevisionSummaryColumns = [
+    "id",
+    "chapterId",
+    "revision",
+    "name",
+    "chapterNumber",
+    "chapterIndex",
+    "volumeId",
+    "viewType",
+    "createdBy",
+    "restoredFrom",
+    "createdAt",
+];
+
+/**
+ * Normalizes a revision row, mysql returns the decimals as strings, sqlite
+ * returns the dates as numbers and the blocks are stored as JSON.
+ *
+ * @param row a revision row from database
+ * @returns a revision, null whether no row is provided
+ */
+function toRevision(row: any): ComicChapterRevisionInterface {
+    if (!row) {
+        return null;
+    }
+    const revision: ComicChapterRevisionInterface = {
+        ...row,
+        chapterIndex: row.chapterIndex === null ? null : Number(row.chapterIndex),
+        createdAt: new Date(row.createdAt),
+    };
+    if (row.blocks !== undefined) {
+        revision.blocks = JSON.parse(row.blocks);
+    }
+    return revision;
+}
+
+/**
+ * Record the current state of a chapter as its next revision. It must be
+ * called in the transaction which changes the chapter.
+ *
+ * @param builder a transaction which changed the chapter
+ * @param chapterId a identifier of the chapter
+ * @param createdBy a user who changed the chapter
+ * @param restoredFrom a restored revision, if any
+ * @param createdAt a time of the change, now by default
+ * @returns the recorded revision
+ */
+async function recordRevision(
+    builder: Knex,
+    chapterId: number,
+    createdBy: number,
+    restoredFrom: number = null,
+    createdAt: Date = new Date()
+): Promise<ComicChapterRevisionInterface> {
+    const chapter = await builder(Tables.ComicChapter).where({ id: chapterId }).first();
+    const blocks = await builder(Tables.ComicChapterBlock)
+        .select("index", "content")
+        .where({ chapterId })
+        .orderBy("index", "asc");
+    const { latest } = await builder(Tables.ComicChapterRevision)
+        .max("revision as latest")
+        .where({ chapterId })
+        .first();
+
+    const revision: ComicChapterRevisionInterface = {
+        chapterId,
+        revision: (Number(latest) || 0) + 1,
+        name: chapter.name,
+        chapterNumber: chapter.chapterNumber,
+        chapterIndex: chapter.chapterIndex === null ? null : Number(chapter.chapterIndex),
+        volumeId: chapter.volumeId ?? null,
+        viewType: chapter.viewType,
+        createdBy,
+        restoredFrom,
+        createdAt,
+    };
+    const [id] = await builder(Tables.ComicChapterRevision).insert({
+        ...revision,
+        blocks: JSON.stringify(blocks.map(({ index, content }) => ({ index, content }))),
+    });
+    return { ...revision, id, blocks };
+}
+
+/**
+ * Record the current state of a chapter as its first revision, whether the
+ * chapter was created before the revisions existed. The revision is dated
+ * from the last update of the chapter.
+ *
+ * @param builder a transaction which is about to change the chapter
+ * @param chapterId a identifier of the chapter
+ */
+async function recordBaseRevision(builder: Knex, chapterId: number) {
+    const revision = await builder(Tables.ComicChapterRevision)
+        .select("id")
+        .where({ chapterId })
+        .first();
+    if (revision) {
+        return;
+    }
+    const chapter = await builder(Tables.ComicChapter).where({ id: chapterId }).first();
+    await recordRevision(builder, chapterId, chapter.postedBy, null, new Date(chapter.updatedAt));
+}
+
+/**
+ * Retrieves the revisions of a chapter without their blocks.
+ *
+ * @param chapterId a identifier of the chapter
+ * @returns the revisions, newest first
+ */
+async function getRevisions(chapterId: number): Promise<ComicChapterRevisionInterface[]> {
+    const rows = await DatabaseBuilder(Tables.ComicChapterRevision)
+        .select(RevisionSummaryColumns)
+        .where({ chapterId })
+        .orderBy("revision", "desc");
+    return rows.map(toRevision);
+}
+
+/**
+ * Retrieves a revision of a chapter with its blocks.
+ *
+ * @param chapterId a identifier of the chapter
+ * @param revision a number of the revision
+ * @returns the revision, null whether it does not exist
+ */
+async function getRevision(
+    chapterId: number,
+    revision: number
+): Promise<ComicChapterRevisionInterface> {
+    return toRevision(
+        await DatabaseBuilder(Tables.ComicChapterRevision).where({ chapterId, revision }).first()
+    );
+}
+
+const ComicChapterRevisionController = {
+    recordRevision,
+    recordBaseRevision,
+    getRevisions,
+    getRevision,
+};
+
+export default ComicChapterRevisionController;
@@ -1,5 +1,6 @@
 import { Tables } from "../Database";
 import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { wherePublic } from "../utils/PublicationUtils";
 
 async function createComment(comicChapterId: number, authorId: number, content: string) {
     const comment = {
@@ -41,6 +42,9 @@ async function getComment(commentId: number) {
             `${Tables.ComicChapter}.id`
         )
         .join(Tables.User, `${Tables.ComicComment}.authorId`, `${Tables.User}.id`);
+    if (!response) {
+        return null;
+    }
 
     return {
         id: response.id,
@@ -114,8 +118,11 @@ async function deleteComment(commentId: string) {
     return await DatabaseBuilder(Tables.ComicComment).where({ id: commentId }).del();
 }
 
+/**
+ * Retrieves the comments of a user, on the public chapters of the public comics only
+ */
 async function getCommentByUserId(userId) {
-    const responses: any[] = await DatabaseBuilder(Tables.ComicComment)
+    const query = DatabaseBuilder(Tables.ComicComment)
         .where({ authorId: userId })
         .column(
             { commentId: `${Tables.ComicComment}.id` },
@@ -143,6 +150,10 @@ async function getCommentByUserId(userId) {
         .join(Tables.User, `${Tables.ComicComment}.authorId`, `${Tables.User}.id`)
         .join(Tables.Comic, `${Tables.ComicChapter}.comicId`, `${Tables.Comic}.id`)
         .orderBy(`${Tables.ComicComment}.createdAt`, "desc");
+    const responses: any[] = await wherePublic(
+        wherePublic(query, Tables.ComicChapter),
+        Tables.Comic
+    );
 
     return responses.map((response) => {
         return {
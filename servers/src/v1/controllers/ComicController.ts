@@ -2,6 +2,11 @@ import { Tables } from "./../Database";
 import { ComicInterface } from "../interfaces/ComicInterface";
 import DatabaseBuilder from "../utils/DatabaseBuilder";
 import slugify from "slugify";
+import {
+  PublicationInterface,
+  PublicationStatusEnum,
+} from "../interfaces/PublicationInterface";
+import { getPublication, wherePublic } from "../utils/PublicationUtils";
 
 /**
  * Create a new comic into database.
@@ -9,6 +14,7 @@ import slugify from "slugify";
  * @param name a name of a comic
  * @param description a description of a comic
  * @param postedBy a user id who uploaded this comic
+ * @param publication a publication status, published by default
  * @returns
  */
 async function createComic(
@@ -18,7 +24,10 @@ async function createComic(
   author: string,
   category: string,
   tags,
-  thumbnail?: number
+  thumbnail?: number,
+  publication: PublicationInterface = getPublication(
+    PublicationStatusEnum.PUBLISHED
+  )
 ): Promise<ComicInterface> {
   const comic: ComicInterface = {
     name,
@@ -32,10 +41,12 @@ async function createComic(
     views: 0,
     author,
     category,
+    ...publication,
   };
   const transaction = await DatabaseBuilder.transaction();
   try {
     const insertedComic = await transaction(Tables.Comic).insert(comic);
+    comic.id = insertedComic[0];
     const insertTags = tags.map((_tag) => ({
       comicId: insertedComic[0],
       tagId: _tag,
@@ -73,7 +84,19 @@ async function getFollowingComics(): Promise<ComicInterface[]> {
     .columns(fields);
   // comics = comics.where({
   // });
-  return await comics;
+  return await wherePublic(comics, "t1");
+}
+
+/**
+ * Build a sub query which selects comic ids having any of the tags.
+ *
+ * @param tags a tag id or an array of tag ids
+ * @returns a sub query of comic ids
+ */
+function getComicIdsByTags(tags: string | string[]) {
+  return DatabaseBuilder(Tables.ComicBookTag)
+    .select("comicId")
+    .whereIn("tagId", Array.isArray(tags) ? tags : [tags]);
 }
 
 async function getAllComics(query): Promise<ComicInterface[]> {
@@ -101,25 +124,25 @@ async function getAllComics(query): Promise<ComicInterface[]> {
     updatedAt: "t1.updatedAt",
     createdAt: "t1.createdAt",
     postedBy: "t1.postedBy",
+    publishAt: "t1.publishAt",
+    // GROUP_CONCAT separates by comma on both mysql and sqlite
     tags: DatabaseBuilder.raw(
-      "(SELECT GROUP_CONCAT(t3.tagId SEPARATOR ',') FROM comic_book_tags t3 WHERE t3.comicId = t1.id)"
+      `(SELECT GROUP_CONCAT(t3.tagId) FROM ${Tables.ComicBookTag} t3 WHERE t3.comicId = t1.id)`
     ),
   };
-  let comics = DatabaseBuilder(`${Tables.Comic} AS t1`)
-    .leftJoin(`${Tables.Resource} AS t2`, "t1.thumbnail", "t2.id")
-    // .leftJoin(`${Tables.ComicReview} AS t3`, "t1.id", "t3.comicId")
-    .columns(fields);
+  // Only the public comics are listed
+  let comics = wherePublic(
+    DatabaseBuilder(`${Tables.Comic} AS t1`)
+      .leftJoin(`${Tables.Resource} AS t2`, "t1.thumbnail", "t2.id")
+      // .leftJoin(`${Tables.ComicReview} AS t3`, "t1.id", "t3.comicId")
+      .columns(fields),
+    "t1"
+  );
   if (tags) {
-    comics = comics.whereRaw(
-      "t1.id IN (SELECT comicId FROM comic_book_tags WHERE tagId IN (?))",
-      [tags]
-    );
+    comics = comics.whereIn("t1.id", getComicIdsByTags(tags));
   }
   if (notTags) {
-    comics = comics.whereRaw(
-      "t1.id NOT IN (SELECT comicId FROM comic_book_tags WHERE tagId IN (?))",
-      [notTags]
-    );
+    comics = comics.whereNotIn("t1.id", getComicIdsByTags(notTags));
   }
   if (slug) {
     comics = comics.whereRaw("slug LIKE ?", [`%${slug}%`]);
@@ -146,29 +169,27 @@ async function getAllComicTrending(query) {
     slug,
     ...searchFields
   } = query;
-  let comics = DatabaseBuilder(`${Tables.Comic} AS t1`)
-    .leftJoin(`${Tables.Resource} AS t2`, "t1.thumbnail", "t2.id")
-    // .leftJoin(`${Tables.ComicReview} AS t3`, "t1.id", "t3.comicId")
-    .columns({
-      id: "t1.id",
-      thumbnail: "t2.id",
-      thumbnailImg: "t2.fileName",
-      name: "t1.name",
-      slug: "t1.slug",
-      reviewRating: "t1.likes",
-      reviewCount: "t1.views",
-    });
+  // Only the public comics are listed
+  let comics = wherePublic(
+    DatabaseBuilder(`${Tables.Comic} AS t1`)
+      .leftJoin(`${Tables.Resource} AS t2`, "t1.thumbnail", "t2.id")
+      // .leftJoin(`${Tables.ComicReview} AS t3`, "t1.id", "t3.comicId")
+      .columns({
+        id: "t1.id",
+        thumbnail: "t2.id",
+        thumbnailImg: "t2.fileName",
+        name: "t1.name",
+        slug: "t1.slug",
+        reviewRating: "t1.likes",
+        reviewCount: "t1.views",
+      }),
+    "t1"
+  );
   if (tags) {
-    comics = comics.whereRaw(
-      "t1.id IN (SELECT comicId FROM comic_book_tags WHERE tagId IN (?))",
-      [tags]
-    );
+    comics = comics.whereIn("t1.id", getComicIdsByTags(tags));
   }
   if (notTags) {
-    comics = comics.whereRaw(
-      "t1.id NOT IN (SELECT comicId FROM comic_book_tags WHERE tagId IN (?))",
-      [notTags]
-    );
+    comics = comics.whereNotIn("t1.id", getComicIdsByTags(notTags));
   }
   if (slug) {
     comics = comics.whereRaw("slug LIKE ?", [`%${slug}%`]);
@@ -239,6 +260,7 @@ async function getComicFromFields(query: any): Promise<ComicInterface> {
  * @param id a comic id
  * @param name a name of a comic
  * @param description a description of comic
+ * @param publication a new publication status, unchanged whether omitted
  */
 async function updateComic(
   id: number,
@@ -247,7 +269,8 @@ async function updateComic(
   author: string,
   category: string,
   tags,
-  thumbnail?: string
+  thumbnail?: string,
+  publication?: PublicationInterface
 ) {
   // check parameters
   if (!id) {
@@ -265,6 +288,7 @@ async function updateComic(
         author,
         category,
         thumbnail,
+        ...publication,
       });
     await transaction(Tables.ComicBookTag).del().where({ comicId: id });
     const insertTags = tags.map((_tag) => ({ comicId: id, tagId: _tag }));
@@ -286,23 +310,9 @@ async function deleteComic(id: number) {
   if (!id) {
     throw new Error("id is required");
   }
-  const transaction = await DatabaseBuilder.transaction();
-  try {
-    await transaction(Tables.ComicBookTag).where({ comicId: id }).del();
-    const comicChapters = await DatabaseBuilder(Tables.ComicChapter)
-      .where({ comicId: id })
-      .columns(["id"]);
-    const chapterIdList = comicChapters.map((chapter) => chapter.id);
-    await transaction(Tables.ComicChapterBlock)
-      .whereIn("chapterId", chapterIdList)
-      .del();
-    await transaction(Tables.ComicChapter).where({ comicId: id }).del();
-    await transaction(Tables.Comic).where({ id }).del();
-    await transaction.commit();
-  } catch (e) {
-    await transaction.rollback();
-    throw e;
-  }
+  // Tags, chapters (along with their blocks and comments), reviews and
+  // follows are removed by the foreign key cascades
+  await DatabaseBuilder(Tables.Comic).where({ id }).del();
 }
 
 /**
@@ -322,6 +332,38 @@ async function updateViewComic(id: number) {
     });
 }
 
+/**
+ * Retrieves the user who posted a comic.
+ *
+ * @param id a comic id
+ * @returns an identifier of the user, null whether the comic does not exist
+ */
+async function getComicOwnerId(id: number): Promise<number> {
+  const comic = await DatabaseBuilder(Tables.Comic)
+    .where({ id })
+    .first("postedBy");
+  return comic ? comic.postedBy : null;
+}
+
+/**
+ * Retrieves a comic with the identifiers of its tags. Unlike getComicById,
+ * the thumbnail is not required.
+ *
+ * @param id a comic id
+ * @returns a comic whether exists, null otherwise
+ */
+async function getComic(id: number): Promise<ComicInterface> {
+  const comic = await DatabaseBuilder(Tables.Comic).where({ id }).first();
+  if (!comic) {
+    return null;
+  }
+  const tags = await DatabaseBuilder(Tables.ComicBookTag)
+    .where({ comicId: id })
+    .orderBy("tagId", "asc")
+    .pluck("tagId");
+  return { ...comic, tags };
+}
+
 /**
  * Check the comic existence.
  * @param id a comic id
@@ -352,19 +394,58 @@ async function searchComic(query) {
   if (id === undefined) {
     id = "";
   }
-  const comic = await DatabaseBuilder(Tables.Comic)
-    .where({ slug })
-    .orWhere({ id })
-    .first();
+  const comic = await wherePublic(
+    DatabaseBuilder(Tables.Comic).where((builder) =>
+      builder.where({ slug }).orWhere({ id })
+    )
+  ).first();
   // console.log(comic);
   return comic;
 }
 
-async function getComicByUser(id) {
-  const comics = await DatabaseBuilder(Tables.Comic)
+/**
+ * Retrieves the comics posted by a user.
+ *
+ * @param id a user id
+ * @param includeUnpublished true to include the comics which are not public
+ * @returns the comics, newest first
+ */
+async function getComicByUser(id, includeUnpublished: boolean = false) {
+  let comics = DatabaseBuilder(Tables.Comic)
     .where({ postedBy: id })
     .orderBy("createdAt", "DESC");
-  return comics;
+  if (!includeUnpublished) {
+    comics = wherePublic(comics);
+  }
+  return await comics;
+}
+
+/**
+ * Update the publication status of a comic.
+ *
+ * @param id a comic id
+ * @param publication a new publication status
+ */
+async function updateComicPublication(
+  id: number,
+  publication: PublicationInterface
+) {
+  await DatabaseBuilder(Tables.Comic)
+    .where({ id })
+    .update({ ...publication, updatedAt: new Date() });
+}
+
+/**
+ * Publish the scheduled comics whose release time has come.
+ *
+ * @param now a current time
+ * @returns the number of published comics
+ */
+async function publishDueComics(now: Date = new Date()): Promise<number> {
+  return DatabaseBuilder(Tables.Comic)
+    .where({ status: PublicationStatusEnum.SCHEDULED })
+    .where("publishAt", "<=", now)
+    .update({ status: PublicationStatusEnum.PUBLISHED, updatedAt: now });
 }
 
 async function followComic(userId, comicId) {
@@ -387,10 +468,12 @@ async function getFollowState(userId, comicId) {
 }
 
 async function getViewNumberFromAllComic() {
-  let response = await DatabaseBuilder(Tables.Comic).sum("views").first();
+  let response = await DatabaseBuilder(Tables.Comic)
+    .sum({ totalView: "views" })
+    .first();
 
   // console.log(response);
-  return Number.parseInt(response["sum(`views`)"]);
+  return Number.parseInt(response.totalView || 0);
 }
 
 const ComicController = {
@@ -403,8 +486,12 @@ const ComicController = {
   deleteComic,
   updateViewComic,
   hasComic,
+  getComicOwnerId,
+  getComic,
   searchComic,
   getComicByUser,
+  updateComicPublication,
+  publishDueComics,
   getFollowingComics,
   followComic,
   getFollowState,
@@ -0,0 +1,166 @@
+import { Tables } from "./../Database";
+import {
+    ComicVolumeInterface,
+    ComicVolumeOrderInterface,
+} from "../interfaces/ComicVolumeInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+import ComicChapterController from "./ComicChapterController";
+
+/**
+ * Normalizes a volume row, mysql returns the decimals as strings and sqlite
+ * returns the dates as numbers.
+ *
+ * @param row a volume row from database
+ * @returns a volume, null whether no row is provided
+ */
+function toVolume(row: any): ComicVolumeInterface {
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        number: Number(row.number),
+        createdAt: new Date(row.createdAt),
+        updatedAt: new Date(row.updatedAt),
+    };
+}
+
+/**
+ * Create a new volume of a comic.
+ *
+ * @param comicId a identifier of the comic
+ * @param name a name of the volume
+ * @param number a sortable number of the volume
+ * @returns the created volume
+ */
+async function createVolume(
+    comicId: number,
+    name: string,
+    number: number
+): Promise<ComicVolumeInterface> {
+    const volume: ComicVolumeInterface = {
+        comicId,
+        name,
+        number,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+    const [id] = await DatabaseBuilder(Tables.ComicVolume).insert(volume);
+    volume.id = id;
+    return volume;
+}
+
+/**
+ * Retrieves a volume.
+ *
+ * @param id a identifier of the volume
+ * @returns the volume, null whether it does not exist
+ */
+async function getVolume(id: number): Promise<ComicVolumeInterface> {
+    return toVolume(await DatabaseBuilder(Tables.ComicVolume).where({ id }).first());
+}
+
+/**
+ * Retrieves the volumes of a comic.
+ *
+ * @param comicId a identifier of the comic
+ * @returns the volumes, sorted by their numbers
+ */
+async function getVolumesFromComic(comicId: number): Promise<ComicVolumeInterface[]> {
+    const volumes = await DatabaseBuilder(Tables.ComicVolume)
+        .where({ comicId })
+        .orderBy("number", "asc");
+    return volumes.map(toVolume);
+}
+
+/**
+ * Check whether another volume of the comic has the number.
+ *
+ * @param comicId a identifier of the comic
+ * @param number a number to check
+ * @param exceptId a identifier of the volume to ignore, e.g. the updated one
+ * @returns true whether the number is taken, false otherwise
+ */
+async function hasVolumeNumber(comicId: number, number: number, exceptId?: number) {
+    let query = DatabaseBuilder(Tables.ComicVolume).where({ comicId, number });
+    if (exceptId) {
+        query = query.whereNot({ id: exceptId });
+    }
+    return !!(await query.first());
+}
+
+/**
+ * Update a volume.
+ *
+ * @param id a identifier of the volume
+ * @param name a new name of the volume
+ * @param number a new number of the volume
+ */
+async function updateVolume(id: number, name: string, number: number) {
+    await DatabaseBuilder(Tables.ComicVolume)
+        .where({ id })
+        .update({ name, number, updatedAt: new Date() });
+}
+
+/**
+ * Remove a volume, its chapters are kept without volume.
+ *
+ * @param comicId a identifier of the comic of the volume
+ * @param id a identifier of the volume
+ * @returns true whether removed, false whether an index of its chapters is
+ *  taken by a chapter without volume
+ */
+async function deleteVolume(comicId: number, id: number): Promise<boolean> {
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        await ComicChapterController.lockChapterPositions(transaction, comicId);
+        if (await ComicChapterController.hasVolumeIndexConflict(id, transaction)) {
+            await transaction.rollback();
+            return false;
+        }
+        await transaction(Tables.ComicVolume).where({ id }).del();
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+    return true;
+}
+
+/**
+ * Renumber the volumes of a comic at once.
+ *
+ * @param orders new numbers of the volumes
+ */
+async function reorderVolumes(orders: ComicVolumeOrderInterface[]) {
+    const transaction = await DatabaseBuilder.transaction();
+    try {
+        // Free the numbers first, they are unique in the comic
+        for (let i = 0; i < orders.length; i++) {
+            await transaction(Tables.ComicVolume)
+                .where({ id: orders[i].id })
+                .update({ number: -(i + 1) });
+        }
+        for (const order of orders) {
+            await transaction(Tables.ComicVolume)
+                .where({ id: order.id })
+                .update({ number: order.number, updatedAt: new Date() });
+        }
+        await transaction.commit();
+    } catch (e) {
+        await transaction.rollback();
+        throw e;
+    }
+}
+
+const ComicVolumeController = {
+    createVolume,
+    getVolume,
+    getVolumesFromComic,
+    hasVolumeNumber,
+    updateVolume,
+    deleteVolume,
+    reorderVolumes,
+};
+
+export default ComicVolumeController;
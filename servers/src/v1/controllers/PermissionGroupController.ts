@@ -108,6 +108,74 @@ async function updatePermissionGroup(
     .where({ id: permissionGroupId });
 }
 
+/**
+ * Retrieves a permission group from its id.
+ * @param id a permission group id
+ * @returns a permission group, undefined whether not found
+ */
+async function getPermissionGroup(
+  id: number
+): Promise<PermissionGroupInterface> {
+  return DatabaseBuilder(Tables.PermissionGroup).where({ id }).first();
+}
+
+/**
+ * Retrieves a permission group from its name.
+ * @param name a name of the permission group
+ * @returns a permission group, undefined whether not found
+ */
+async function getPermissionGroupByName(
+  name: string
+): Promise<PermissionGroupInterface> {
+  return DatabaseBuilder(Tables.PermissionGroup).where({ name }).first();
+}
+
+/**
+ * Delete a permission group. Its members are moved into the fallback
+ * group and its permission relationships are removed.
+ *
+ * @param id a permission group id to delete
+ * @param fallbackId a permission group id which receives the members
+ * @returns a number of moved members
+ */
+async function deletePermissionGroup(
+  id: number,
+  fallbackId: number
+): Promise<number> {
+  return DatabaseBuilder.transaction(async (trx) => {
+    const moved = await trx(Tables.UserPermission)
+      .where({ permissionGroup: id })
+      .update({ permissionGroup: fallbackId });
+    await trx(Tables.PermissionRelationship)
+      .where({ permissionGroup: id })
+      .delete();
+    await trx(Tables.PermissionGroup).where({ id }).delete();
+    return moved;
+  });
+}
+
+/**
+ * Retrieves the members of a permission group, ordered by id.
+ *
+ * @param id a permission group id
+ * @param limit a limit of users to retrieve
+ * @param page a page number, starts from 0
+ * @returns the members of the group
+ */
+async function getUsersFromPermissionGroup(
+  id: number,
+  limit: number = 20,
+  page: number = 0
+) {
+  return DatabaseBuilder({ up: Tables.UserPermission })
+    .innerJoin({ u: Tables.User }, "u.id", "up.userId")
+    .where({ "up.permissionGroup": id })
+    .select({ id: "u.id", username: "u.username", nickname: "u.nickname" })
+    .orderBy("u.id", "asc")
+    .limit(limit)
+    .offset(page * limit);
+}
+
 /**
  * Retrieves all permissions by group id.
  *
@@ -134,4 +202,8 @@ export const PermissionGroupController = {
   getPermissionsByGroup,
   updatePermissionGroup,
   hasPermissionGroupByName,
+  getPermissionGroup,
+  getPermissionGroupByName,
+  deletePermissionGroup,
+  getUsersFromPermissionGroup,
 };
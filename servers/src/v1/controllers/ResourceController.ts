@@ -1,21 +1,24 @@
 import { ResourceInterface } from "./../interfaces/ResourceInterface";
 import { Tables } from "./../Database";
 import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { StorageDriverEnum } from "../interfaces/StorageInterface";
 
 /**
  * Create new resource metadata into database.
  *
  * @param originalName a name of the resource, real name.
- * @param path a path of the resource
+ * @param path a key of the resource file in its storage
  * @param size a size of the resource
  * @param uploader who upload this resource
+ * @param storage a storage driver which holds the file
  */
 async function createResourceMetadata(
     originalName: string,
     fileName: string,
     path: string,
     size: number,
-    uploader: number
+    uploader: number,
+    storage: StorageDriverEnum = StorageDriverEnum.LOCAL
 ): Promise<ResourceInterface> {
     // Check all parameters
     if (!originalName || !fileName || !path || !size || !uploader) {
@@ -30,6 +33,7 @@ async function createResourceMetadata(
         size,
         uploader,
         uploadedAt: new Date(),
+        storage,
     };
 
     // Execute it
@@ -44,7 +48,7 @@ async function createResourceMetadata(
  * @param id a id of the resource to retrieves metadata
  * @returns a resource interface object
  */
-async function getResourceMetadata(id: string): Promise<ResourceInterface> {
+async function getResourceMetadata(id: number | string): Promise<ResourceInterface> {
     // Check all parameters
     if (!id) {
         throw new Error("Missing parameters");
@@ -56,6 +60,17 @@ async function getResourceMetadata(id: string): Promise<ResourceInterface> {
     // Return metadata of the file
     return metadata;
 }
+/**
+ * Retrieves resource metadata from its file name, e.g. the content of an
+ * image block.
+ *
+ * @param fileName a file name of the resource
+ * @returns a resource interface object, undefined whether not found
+ */
+async function getResourceByFileName(fileName: string): Promise<ResourceInterface> {
+    return await DatabaseBuilder(Tables.Resource).where({ fileName }).first();
+}
+
 /**
  * Retrieves all resources from database
  * @param limit a limit of resources to retrieve
@@ -101,7 +116,8 @@ async function getResources(
  * @returns a number of resources contain in database.
  */
 async function countAllResources(): Promise<number> {
-    return await DatabaseBuilder(Tables.Resource).count();
+    const response = await DatabaseBuilder(Tables.Resource).count({ count: "*" }).first();
+    return Number(response.count);
 }
 
 /**
@@ -111,17 +127,19 @@ async function countAllResources(): Promise<number> {
  * @param name a name of the resource to update
  * @returns true whether the resource was updated, false otherwise
  */
-async function updateResource(id: string, name: string): Promise<boolean> {
+async function updateResource(id: number | string, name: string): Promise<boolean> {
     // Check all parameters
     if (!id || !name) {
         throw new Error("Missing parameters");
     }
 
     // Resource metadata
-    return (await DatabaseBuilder(Tables.Resource).update({ name }).where({ id })) == 1;
+    return (
+        (await DatabaseBuilder(Tables.Resource).update({ originalName: name }).where({ id })) == 1
+    );
 }
 
-async function deleteResource(id: string): Promise<boolean> {
+async function deleteResource(id: number | string): Promise<boolean> {
     // Check all parameters
     if (!id) {
         throw new Error("Missing parameters");
@@ -153,6 +171,7 @@ async function hasResource(id: number): Promise<boolean> {
 const ResourceController = {
     createResourceMetadata,
     getResourceMetadata,
+    getResourceByFileName,
     getResources,
     updateResource,
     deleteResource,
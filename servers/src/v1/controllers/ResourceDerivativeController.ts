@@ -0,0 +1,77 @@
+import { Tables } from "./../Database";
+import {
+    ImageFormatEnum,
+    ImageSizeEnum,
+    ResourceDerivativeInterface,
+} from "../interfaces/ResourceDerivativeInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+
+/**
+ * Normalizes a derivative row, sqlite returns the dates as numbers.
+ *
+ * @param row a derivative row from database
+ * @returns a derivative, undefined whether no row is provided
+ */
+function toDerivative(row: any): ResourceDerivativeInterface {
+    if (!row) {
+        return undefined;
+    }
+    return { ...row, createdAt: new Date(row.createdAt) };
+}
+
+/**
+ * Record a derivative of a resource. A derivative which was already
+ * recorded, e.g. before its file went missing, is replaced.
+ *
+ * @param derivative a derivative to record
+ * @returns the recorded derivative
+ */
+async function createDerivative(
+    derivative: Omit<ResourceDerivativeInterface, "id" | "createdAt">
+): Promise<ResourceDerivativeInterface> {
+    const { resourceId, size, format } = derivative;
+    await DatabaseBuilder(Tables.ResourceDerivative)
+        .insert({ ...derivative, createdAt: new Date() })
+        .onConflict(["resourceId", "size", "format"])
+        .merge();
+    return getDerivative(resourceId, size, format);
+}
+
+/**
+ * Retrieves a derivative of a resource.
+ *
+ * @param resourceId a identifier of the resource
+ * @param size a size of the derivative
+ * @param format a format of the derivative
+ * @returns a derivative, undefined whether not found
+ */
+async function getDerivative(
+    resourceId: number,
+    size: ImageSizeEnum,
+    format: ImageFormatEnum
+): Promise<ResourceDerivativeInterface> {
+    return toDerivative(
+        await DatabaseBuilder(Tables.ResourceDerivative).where({ resourceId, size, format }).first()
+    );
+}
+
+/**
+ * Retrieves all derivatives of a resource.
+ *
+ * @param resourceId a identifier of the resource
+ * @returns the derivatives, ordered by their identifiers
+ */
+async function getDerivatives(resourceId: number): Promise<ResourceDerivativeInterface[]> {
+    const rows = await DatabaseBuilder(Tables.ResourceDerivative)
+        .where({ resourceId })
+        .orderBy("id", "asc");
+    return rows.map(toDerivative);
+}
+
+const ResourceDerivativeController = {
+    createDerivative,
+    getDerivative,
+    getDerivatives,
+};
+
+export default ResourceDerivativeController;
@@ -1,5 +1,6 @@
 import { Tables } from "./../Database";
 import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { wherePublic } from "../utils/PublicationUtils";
 /**
  * Create a new review
  */
@@ -12,8 +13,8 @@ async function createReview(comicId, userId, rating, content) {
             rating,
             content,
         };
-        const comicInfo = await DatabaseBuilder(Tables.Comic).where({ id: comicId }).first();
-        const numberOfReviews = await DatabaseBuilder(Tables.ComicReview).where({ comicId });
+        const comicInfo = await transaction(Tables.Comic).where({ id: comicId }).first();
+        const numberOfReviews = await transaction(Tables.ComicReview).where({ comicId });
         const newRating =
             (comicInfo.likes * numberOfReviews.length + rating) / (numberOfReviews.length + 1);
         await transaction(Tables.ComicReview).insert(review);
@@ -127,8 +128,11 @@ async function updateReview(reviewId: string, rating: number, content: number) {
         .update({ content, rating });
 }
 
+/**
+ * Retrieves the reviews of a user, on the public comics only
+ */
 async function getReviewsByUserId(userId: string) {
-    const responses: any[] = await DatabaseBuilder(Tables.ComicReview)
+    const query = DatabaseBuilder(Tables.ComicReview)
         .select()
         .column(
             { reviewId: `${Tables.ComicReview}.id` },
@@ -152,6 +156,7 @@ async function getReviewsByUserId(userId: string) {
         .where(`${Tables.ComicReview}.userId`, userId)
         .join(Tables.Comic, `${Tables.ComicReview}.comicId`, `${Tables.Comic}.id`)
         .join(Tables.User, `${Tables.ComicReview}.userId`, `${Tables.User}.id`);
+    const responses: any[] = await wherePublic(query, Tables.Comic);
 
     return responses.map((response) => {
         return filterResponse(response);
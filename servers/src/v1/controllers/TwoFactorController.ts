@@ -0,0 +1,215 @@
+import { Tables } from "../Database";
+import { UserTwoFactorInterface } from "../interfaces/UserTwoFactorInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { hashToken } from "../utils/TokenUtils";
+import { generateTotpSecret, verifyTotpCode } from "../utils/TotpUtils";
+import * as crypto from "crypto";
+import { UserController } from "./UserController";
+
+/**
+ * A number of recovery codes generated at once.
+ */
+const RecoveryCodeCount = 10;
+
+/**
+ * Retrieves the two-factor authentication of the user.
+ *
+ * @param userId a user identifier
+ * @returns the two-factor authentication whether enrolled (or pending), null otherwise
+ */
+async function getTwoFactor(userId: number): Promise<UserTwoFactorInterface> {
+    const row = await DatabaseBuilder(Tables.UserTwoFactor).where({ userId }).first();
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        lastUsedStep: row.lastUsedStep === null ? null : Number(row.lastUsedStep),
+        createdAt: new Date(row.createdAt),
+        enabledAt: row.enabledAt ? new Date(row.enabledAt) : null,
+    };
+}
+
+/**
+ * Check whether the user has confirmed the two-factor enrollment.
+ *
+ * @param userId a user identifier
+ * @returns true whether enabled, false otherwise
+ */
+async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+    const twoFactor = await getTwoFactor(userId);
+    return twoFactor !== null && twoFactor.enabledAt !== null;
+}
+
+/**
+ * Start a new enrollment, replacing a former pending one.
+ *
+ * @param userId a user identifier
+ * @returns a new secret
+ */
+async function createSecret(userId: number): Promise<string> {
+    const secret = generateTotpSecret();
+    await DatabaseBuilder(Tables.UserTwoFactor).where({ userId }).delete();
+    await DatabaseBuilder(Tables.UserTwoFactor).insert({
+        userId,
+        secret,
+        createdAt: new Date(),
+    });
+    return secret;
+}
+
+/**
+ * Verify a code of the user. An accepted code (or an older one)
+ * can not be used again.
+ *
+ * @param userId a user identifier
+ * @param code a code from the authenticator application
+ * @returns true whether the code is valid, false otherwise
+ */
+async function verifyCode(userId: number, code: string): Promise<boolean> {
+    const twoFactor = await getTwoFactor(userId);
+    if (!twoFactor || !code) {
+        return false;
+    }
+
+    const step = verifyTotpCode(twoFactor.secret, code);
+    if (step === null || (twoFactor.lastUsedStep !== null && step <= twoFactor.lastUsedStep)) {
+        return false;
+    }
+
+    // Compare with the former step, so that a concurrent request wins only once
+    const query = DatabaseBuilder(Tables.UserTwoFactor).where({ userId });
+    if (twoFactor.lastUsedStep === null) {
+        query.whereNull("lastUsedStep");
+    } else {
+        query.where({ lastUsedStep: twoFactor.lastUsedStep });
+    }
+    return (await query.update({ lastUsedStep: step })) === 1;
+}
+
+/**
+ * Confirm the enrollment of the user.
+ *
+ * @param userId a user identifier
+ * @returns new recovery codes
+ */
+async function enableTwoFactor(userId: number): Promise<string[]> {
+    await DatabaseBuilder(Tables.UserTwoFactor).where({ userId }).update({ enabledAt: new Date() });
+    return generateRecoveryCodes(userId);
+}
+
+/**
+ * Remove the two-factor authentication and the recovery codes of the user.
+ *
+ * @param userId a user identifier
+ */
+async function disableTwoFactor(userId: number) {
+    await DatabaseBuilder(Tables.UserRecoveryCode).where({ userId }).delete();
+    await DatabaseBuilder(Tables.UserTwoFactor).where({ userId }).delete();
+}
+
+/**
+ * Normalizes a recovery code, so that it can be typed in any case
+ * with or without the dash.
+ *
+ * @param code a recovery code
+ * @returns a normalized code
+ */
+function normalizeRecoveryCode(code: string): string {
+    return `${code}`.toLowerCase().replace(/[^a-f0-9]/g, "");
+}
+
+/**
+ * Replace the recovery codes of the user.
+ *
+ * @param userId a user identifier
+ * @returns new recovery codes in plain text, only their hashes are stored
+ */
+async function generateRecoveryCodes(userId: number): Promise<string[]> {
+    const codes: string[] = [];
+    for (let i = 0; i < RecoveryCodeCount; i++) {
+        const code = crypto.randomBytes(5).toString("hex");
+        codes.push(`${code.substring(0, 5)}-${code.substring(5)}`);
+    }
+
+    await DatabaseBuilder(Tables.UserRecoveryCode).where({ userId }).delete();
+    await DatabaseBuilder(Tables.UserRecoveryCode).insert(
+        codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) }))
+    );
+    return codes;
+}
+
+/**
+ * Consume a recovery code of the user.
+ *
+ * @param userId a user identifier
+ * @param code a recovery code
+ * @returns true whether the code was unused, false otherwise
+ */
+async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+    if (!code) {
+        return false;
+    }
+    const consumed = await DatabaseBuilder(Tables.UserRecoveryCode)
+        .where({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })
+        .whereNull("usedAt")
+        .update({ usedAt: new Date() });
+    return consumed > 0;
+}
+
+/**
+ * Count the unused recovery codes of the user.
+ *
+ * @param userId a user identifier
+ * @returns a number of unused codes
+ */
+async function countRecoveryCodes(userId: number): Promise<number> {
+    const { count } = await DatabaseBuilder(Tables.UserRecoveryCode)
+        .where({ userId })
+        .whereNull("usedAt")
+        .count({ count: "*" })
+        .first();
+    return Number(count);
+}
+
+/**
+ * Retrieves the permission groups whose members must enable two-factor
+ * authentication, configured by TWO_FACTOR_REQUIRED_GROUPS (e.g. `1,3`).
+ *
+ * @returns an array of permission group identifiers
+ */
+function getTwoFactorRequiredGroups(): number[] {
+    return (process.env.TWO_FACTOR_REQUIRED_GROUPS || "")
+        .split(",")
+        .map((group) => parseInt(group))
+        .filter((group) => !isNaN(group));
+}
+
+/**
+ * Check whether the policy requires the user to enable two-factor authentication.
+ *
+ * @param userId a user identifier
+ * @returns true whether the permission group of the user requires it
+ */
+async function isTwoFactorRequired(userId: number): Promise<boolean> {
+    const requiredGroups = getTwoFactorRequiredGroups();
+    if (requiredGroups.length === 0) {
+        return false;
+    }
+    const group = await UserController.getPermissionGroupFromUserId(userId);
+    return group !== undefined && requiredGroups.includes(group.id);
+}
+
+export const TwoFactorController = {
+    getTwoFactor,
+    isTwoFactorEnabled,
+    createSecret,
+    verifyCode,
+    enableTwoFactor,
+    disableTwoFactor,
+    generateRecoveryCodes,
+    consumeRecoveryCode,
+    countRecoveryCodes,
+    getTwoFactorRequiredGroups,
+    isTwoFactorRequired,
+};
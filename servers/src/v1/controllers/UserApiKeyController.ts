@@ -0,0 +1,134 @@
+import * as crypto from "crypto";
+import { Tables } from "../Database";
+import { UserApiKeyInterface, UserApiKeyTokenInterface } from "../interfaces/UserApiKeyInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { hashToken } from "../utils/TokenUtils";
+
+/**
+ * A prefix of every API key, which makes leaked keys easy to search for.
+ */
+const ApiKeyPrefix = "cpk_";
+
+/**
+ * A number of characters of the key which are stored in plain text.
+ */
+const ApiKeyDisplayLength = 12;
+
+/**
+ * Normalizes a key row, sqlite returns the dates as numbers and
+ * the scopes are stored as a JSON array.
+ *
+ * @param row a key row from database
+ * @returns an API key
+ */
+function toApiKey(row: any): UserApiKeyInterface {
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        scopes: row.scopes ? JSON.parse(row.scopes) : null,
+        createdAt: new Date(row.createdAt),
+        lastUsedAt: row.lastUsedAt ? new Date(row.lastUsedAt) : null,
+        revokedAt: row.revokedAt ? new Date(row.revokedAt) : null,
+    };
+}
+
+/**
+ * Create a new API key for the user.
+ *
+ * @param userId a user identifier who owns the key
+ * @param name a name to recognize the key
+ * @param scopes permissions to restrict the key to, null for every
+ *  permission of the user
+ * @returns the created key and the key in plain text
+ */
+async function createApiKey(
+    userId: number,
+    name: string,
+    scopes: number[] = null
+): Promise<UserApiKeyTokenInterface> {
+    const key = ApiKeyPrefix + crypto.randomBytes(24).toString("hex");
+    const [id] = await DatabaseBuilder(Tables.UserApiKey).insert({
+        userId,
+        name,
+        keyPrefix: key.substring(0, ApiKeyDisplayLength),
+        keyHash: hashToken(key),
+        scopes: scopes ? JSON.stringify(scopes) : null,
+        createdAt: new Date(),
+    });
+    return { apiKey: await getApiKey(id), key };
+}
+
+/**
+ * Retrieves an API key from its id.
+ *
+ * @param id a key identifier
+ * @returns an API key whether exists, null otherwise
+ */
+async function getApiKey(id: number): Promise<UserApiKeyInterface> {
+    return toApiKey(await DatabaseBuilder(Tables.UserApiKey).where({ id }).first());
+}
+
+/**
+ * Retrieves all active API keys of the user, the newest first.
+ *
+ * @param userId a user identifier
+ * @returns an array of API keys
+ */
+async function getActiveApiKeysFromUserId(userId: number): Promise<UserApiKeyInterface[]> {
+    const rows = await DatabaseBuilder(Tables.UserApiKey)
+        .where({ userId })
+        .whereNull("revokedAt")
+        .orderBy("id", "desc");
+    return rows.map(toApiKey);
+}
+
+/**
+ * Authenticate an API key and record its usage.
+ *
+ * @param key an API key in plain text
+ * @returns the API key whether it exists and is active, null otherwise
+ */
+async function useApiKey(key: string): Promise<UserApiKeyInterface> {
+    if (!key || !key.startsWith(ApiKeyPrefix)) {
+        return null;
+    }
+    const apiKey = toApiKey(
+        await DatabaseBuilder(Tables.UserApiKey)
+            .where({ keyHash: hashToken(key) })
+            .whereNull("revokedAt")
+            .first()
+    );
+    if (!apiKey) {
+        return null;
+    }
+
+    apiKey.lastUsedAt = new Date();
+    await DatabaseBuilder(Tables.UserApiKey)
+        .where({ id: apiKey.id })
+        .update({ lastUsedAt: apiKey.lastUsedAt });
+    return apiKey;
+}
+
+/**
+ * Revoke an API key.
+ *
+ * @param id a key identifier to revoke
+ * @returns true whether an active key was revoked, false otherwise
+ */
+async function revokeApiKey(id: number): Promise<boolean> {
+    const revoked = await DatabaseBuilder(Tables.UserApiKey)
+        .where({ id })
+        .whereNull("revokedAt")
+        .update({ revokedAt: new Date() });
+    return revoked > 0;
+}
+
+export const UserApiKeyController = {
+    createApiKey,
+    getApiKey,
+    getActiveApiKeysFromUserId,
+    useApiKey,
+    revokeApiKey,
+};
@@ -10,9 +10,15 @@ import {
     PermissionGroupInterface,
 } from "./../interfaces/PermissionGroupInterface";
 import { PermissionInterface } from "./../interfaces/PermissionInterface";
+import {
+    UserEffectivePermissionInterface,
+    UserPermissionOverrideEffectEnum,
+    UserPermissionSourceEnum,
+} from "./../interfaces/UserPermissionOverrideInterface";
 import commentController from "./ComicCommentController";
 import comicController from "./ComicController";
 import reviewController from "./ReviewController";
+import { UserPermissionOverrideController } from "./UserPermissionOverrideController";
 
 /**
  *  Create a native relation between user and permission group.
@@ -61,7 +67,7 @@ async function createUser(
     );
     await createUserPermission(insertedUser[0], PermissionGroupEnum.USER);
 
-    return response;
+    return { ...response, id: insertedUser[0] };
 }
 
 /**
@@ -71,7 +77,7 @@ async function createUser(
  * @param id a id of the user
  * @returns a user whether exists, null otherwise.
  */
-async function getUserFromUUID(id: string): Promise<UserResponseInterface> {
+async function getUserFromUUID(id: number | string): Promise<UserResponseInterface> {
     // parameter error
     if (!id) {
         throw new Error("Invalid user uuid parameter");
@@ -93,6 +99,7 @@ async function getUserFromUUID(id: string): Promise<UserResponseInterface> {
         email: user.email,
         nickname: user.nickname,
         introduction: user.introduction,
+        emailVerifiedAt: user.emailVerifiedAt ? new Date(user.emailVerifiedAt) : null,
     };
 }
 
@@ -196,13 +203,13 @@ async function getPermissionGroupFromUserId(
 }
 
 /**
- * Get all permissions from provided user.
- * Permissions required from permission group (role) of user.
+ * Get the permissions of the permission group (role) of provided user,
+ * without the overrides of the user.
  *
  * @param userId a user identifier (uuid) to get permissions
- * @returns a permission list from provided user
+ * @returns a permission list from the group of provided user
  */
-async function getAllPermissionsFromUserId(userId: number) {
+async function getGroupPermissionsFromUserId(userId: number) {
     // Must not be empty and format of uuid
     if (!userId) {
         throw new Error("Invalid user id parameter");
@@ -239,8 +246,83 @@ async function getAllPermissionsFromUserId(userId: number) {
     return response;
 }
 
+/**
+ * Get all permissions from provided user.
+ * Permissions required from permission group (role) of user, then the
+ * active overrides of the user grant or deny the permissions.
+ *
+ * @param userId a user identifier (uuid) to get permissions
+ * @returns a permission list from provided user
+ */
+async function getAllPermissionsFromUserId(userId: number) {
+    const groupPermissions = await getGroupPermissionsFromUserId(userId);
+    const overrides = await UserPermissionOverrideController.getActiveOverridesFromUserId(userId);
+    if (overrides.length === 0) {
+        return groupPermissions;
+    }
+
+    const deniedIds = overrides
+        .filter(({ effect }) => effect === UserPermissionOverrideEffectEnum.DENY)
+        .map(({ permissionId }) => permissionId);
+    const grantedIds = overrides
+        .filter(({ effect }) => effect === UserPermissionOverrideEffectEnum.GRANT)
+        .map(({ permissionId }) => permissionId)
+        .filter((id) => !groupPermissions.some((permission) => permission.id === id));
+
+    const grantedPermissions: PermissionInterface[] =
+        grantedIds.length > 0
+            ? await DatabaseBuilder(Tables.Permission)
+                  .select("id", "name", "description")
+                  .whereIn("id", grantedIds)
+            : [];
+    return [
+        ...groupPermissions.filter(({ id }) => deniedIds.indexOf(id) === -1),
+        ...grantedPermissions,
+    ];
+}
+
+/**
+ * Explain every permission of provided user, whether the user has it and
+ * whether it comes from the permission group or an override.
+ *
+ * @param userId a user identifier (uuid) to explain permissions
+ * @returns an explanation of every existed permission
+ */
+async function getEffectivePermissionsFromUserId(
+    userId: number
+): Promise<UserEffectivePermissionInterface[]> {
+    const groupPermissions = await getGroupPermissionsFromUserId(userId);
+    const overrides = await UserPermissionOverrideController.getActiveOverridesFromUserId(userId);
+    const permissions: PermissionInterface[] = await DatabaseBuilder(Tables.Permission)
+        .select("id", "name", "description")
+        .orderBy("id");
+
+    return permissions.map(({ id, name, description }) => {
+        const inGroup = groupPermissions.some((permission) => permission.id === id);
+        const override = overrides.find(({ permissionId }) => permissionId === id) || null;
+        let source: UserPermissionSourceEnum = null;
+        if (override) {
+            source = UserPermissionSourceEnum.OVERRIDE;
+        } else if (inGroup) {
+            source = UserPermissionSourceEnum.GROUP;
+        }
+        return {
+            id,
+            name,
+            description,
+            granted: override
+                ? override.effect === UserPermissionOverrideEffectEnum.GRANT
+                : inGroup,
+            source,
+            inGroup,
+            override,
+        };
+    });
+}
+
 /**
  * Check permission by provide it an id of user and permission.
+ * An active override of the user takes precedence over the group.
  *
  * @param userId a user identifier to get permissions
  * @param permissionId a permission identifier to check
@@ -260,6 +342,15 @@ async function hasPermissionByUserId(
         throw new Error("Invalid permission id parameter");
     }
 
+    // An active override decides regardless of the group
+    const override = await UserPermissionOverrideController.getActiveOverride(
+        userId,
+        permissionId
+    );
+    if (override) {
+        return override.effect === UserPermissionOverrideEffectEnum.GRANT;
+    }
+
     // Select the user group
     const selectUserGroupQuery = DatabaseBuilder(Tables.UserPermission)
         .select(`up.permissionGroup`)
@@ -309,12 +400,18 @@ async function updateUserProfile(
         throw new Error("User not found");
     }
 
+    // A new email has to be verified again
+    const user = await getUserFromUUID(userId);
+    const emailVerifiedAt =
+        email === undefined || user.email === email ? user.emailVerifiedAt : null;
+
     // Update user profile
     return await DatabaseBuilder(Tables.User)
         .update({
             nickname,
             introduction,
             email,
+            emailVerifiedAt,
         })
         .where({ id: userId });
 }
@@ -375,6 +472,104 @@ async function getUserDetail(userId: string) {
     };
 }
 
+/**
+ * Retrieves a user from their email.
+ * @param email an email of the user
+ * @returns a user whether exists, null otherwise
+ */
+async function getUserFromEmail(email: string): Promise<UserResponseInterface> {
+    if (!email) {
+        throw new Error("Invalid email parameter");
+    }
+    const user = await DatabaseBuilder(Tables.User).select("id").where({ email }).first();
+    return user ? getUserFromUUID(user.id) : null;
+}
+
+/**
+ * Mark the current email of the user as verified.
+ * @param userId a user identifier
+ * @returns true whether updated, false otherwise
+ */
+async function markEmailVerified(userId: number) {
+    return (
+        (await DatabaseBuilder(Tables.User)
+            .update({ emailVerifiedAt: new Date() })
+            .where({ id: userId })) == 1
+    );
+}
+
+/**
+ * Retrieves the lockout settings, which can be overridden by
+ * ACCOUNT_LOCKOUT_THRESHOLD and ACCOUNT_LOCKOUT_DURATION (seconds).
+ * @returns a number of allowed failures and a first lock duration in milliseconds
+ */
+function getLockoutSettings() {
+    return {
+        threshold: parseInt(process.env.ACCOUNT_LOCKOUT_THRESHOLD) || 5,
+        durationMs: (parseInt(process.env.ACCOUNT_LOCKOUT_DURATION) || 60) * 1000,
+    };
+}
+
+/**
+ * The longest time an account can be locked, in milliseconds.
+ */
+const MaximumLockDurationMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Retrieves the time until which the account of the user is locked.
+ * @param userId a user identifier
+ * @returns a time whether the account is locked, null otherwise
+ */
+async function getLockedUntil(userId: number): Promise<Date> {
+    const user = await DatabaseBuilder(Tables.User)
+        .select("lockedUntil")
+        .where({ id: userId })
+        .first();
+    if (!user || !user.lockedUntil) {
+        return null;
+    }
+    const lockedUntil = new Date(user.lockedUntil);
+    return lockedUntil.getTime() > Date.now() ? lockedUntil : null;
+}
+
+/**
+ * Record a failed sign in attempt. Once the threshold is reached, every
+ * further failure locks the account for twice as long as the former one.
+ * @param userId a user identifier
+ * @returns the time until which the account is locked, null whether not locked
+ */
+async function registerFailedSignIn(userId: number): Promise<Date> {
+    await DatabaseBuilder(Tables.User)
+        .where({ id: userId })
+        .increment("failedSignInCount", 1);
+    const { failedSignInCount } = await DatabaseBuilder(Tables.User)
+        .select("failedSignInCount")
+        .where({ id: userId })
+        .first();
+
+    const { threshold, durationMs } = getLockoutSettings();
+    if (failedSignInCount < threshold) {
+        return null;
+    }
+    const lockDurationMs = Math.min(
+        durationMs * 2 ** (failedSignInCount - threshold),
+        MaximumLockDurationMs
+    );
+    const lockedUntil = new Date(Date.now() + lockDurationMs);
+    await DatabaseBuilder(Tables.User).where({ id: userId }).update({ lockedUntil });
+    return lockedUntil;
+}
+
+/**
+ * Forget the failed sign in attempts after a successful sign in.
+ * @param userId a user identifier
+ */
+async function resetFailedSignIns(userId: number) {
+    await DatabaseBuilder(Tables.User)
+        .where({ id: userId })
+        .update({ failedSignInCount: 0, lockedUntil: null });
+}
+
 async function hasUserByEmail(email: string) {
     const selectedUsers = await DatabaseBuilder(Tables.User)
         .select("*")
@@ -392,11 +587,18 @@ export const UserController = {
     hasUserByUsername,
     getUserFromUsername,
     getPermissionGroupFromUserId,
+    getGroupPermissionsFromUserId,
     getAllPermissionsFromUserId,
+    getEffectivePermissionsFromUserId,
     hasPermissionByUserId,
     updateUserProfile,
     updateUserPassword,
     updatePermissionRole,
     getUserDetail,
+    getUserFromEmail,
+    markEmailVerified,
+    getLockedUntil,
+    registerFailedSignIn,
+    resetFailedSignIns,
     hasUserByEmail,
 };
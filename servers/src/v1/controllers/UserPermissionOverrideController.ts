@@ -0,0 +1,144 @@
+import { Tables } from "../Database";
+import {
+    UserPermissionOverrideEffectEnum,
+    UserPermissionOverrideInterface,
+} from "../interfaces/UserPermissionOverrideInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+
+/**
+ * Normalizes an override row, sqlite returns the dates as numbers.
+ *
+ * @param row an override row from database
+ * @returns an override
+ */
+function toOverride(row: any): UserPermissionOverrideInterface {
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        expiresAt: row.expiresAt ? new Date(row.expiresAt) : null,
+        createdAt: new Date(row.createdAt),
+    };
+}
+
+/**
+ * Check whether the override has not expired yet.
+ *
+ * @param override an override to check
+ * @returns true whether the override is active, false otherwise
+ */
+function isActive(override: UserPermissionOverrideInterface): boolean {
+    return override.expiresAt === null || override.expiresAt.getTime() > Date.now();
+}
+
+/**
+ * Grant a permission to or deny a permission from the user, replacing
+ * the previous override of the permission.
+ *
+ * @param userId a user identifier to override
+ * @param permissionId a permission identifier to override
+ * @param effect whether the permission is granted or denied
+ * @param expiresAt an expiration time, null whether never expires
+ * @param createdBy a user identifier who creates the override
+ * @returns the override
+ */
+async function setOverride(
+    userId: number,
+    permissionId: number,
+    effect: UserPermissionOverrideEffectEnum,
+    expiresAt: Date = null,
+    createdBy: number = null
+): Promise<UserPermissionOverrideInterface> {
+    await DatabaseBuilder.transaction(async (trx) => {
+        await trx(Tables.UserPermissionOverride).where({ userId, permissionId }).delete();
+        await trx(Tables.UserPermissionOverride).insert({
+            userId,
+            permissionId,
+            effect,
+            expiresAt,
+            createdBy,
+            createdAt: new Date(),
+        });
+    });
+    return getOverride(userId, permissionId);
+}
+
+/**
+ * Retrieves the override of a permission of the user, even whether expired.
+ *
+ * @param userId a user identifier
+ * @param permissionId a permission identifier
+ * @returns an override whether exists, null otherwise
+ */
+async function getOverride(
+    userId: number,
+    permissionId: number
+): Promise<UserPermissionOverrideInterface> {
+    return toOverride(
+        await DatabaseBuilder(Tables.UserPermissionOverride).where({ userId, permissionId }).first()
+    );
+}
+
+/**
+ * Retrieves the active override of a permission of the user.
+ *
+ * @param userId a user identifier
+ * @param permissionId a permission identifier
+ * @returns an override whether exists and not expired, null otherwise
+ */
+async function getActiveOverride(
+    userId: number,
+    permissionId: number
+): Promise<UserPermissionOverrideInterface> {
+    const override = await getOverride(userId, permissionId);
+    return override && isActive(override) ? override : null;
+}
+
+/**
+ * Retrieves all overrides of the user, including the expired ones.
+ *
+ * @param userId a user identifier
+ * @returns an array of overrides, ordered by permission
+ */
+async function getOverridesFromUserId(userId: number): Promise<UserPermissionOverrideInterface[]> {
+    const rows = await DatabaseBuilder(Tables.UserPermissionOverride)
+        .where({ userId })
+        .orderBy("permissionId");
+    return rows.map(toOverride);
+}
+
+/**
+ * Retrieves the overrides of the user which have not expired yet.
+ *
+ * @param userId a user identifier
+ * @returns an array of overrides, ordered by permission
+ */
+async function getActiveOverridesFromUserId(
+    userId: number
+): Promise<UserPermissionOverrideInterface[]> {
+    return (await getOverridesFromUserId(userId)).filter(isActive);
+}
+
+/**
+ * Remove the override of a permission of the user.
+ *
+ * @param userId a user identifier
+ * @param permissionId a permission identifier
+ * @returns true whether an override was removed, false otherwise
+ */
+async function deleteOverride(userId: number, permissionId: number): Promise<boolean> {
+    const deleted = await DatabaseBuilder(Tables.UserPermissionOverride)
+        .where({ userId, permissionId })
+        .delete();
+    return deleted > 0;
+}
+
+export const UserPermissionOverrideController = {
+    setOverride,
+    getOverride,
+    getActiveOverride,
+    getOverridesFromUserId,
+    getActiveOverridesFromUserId,
+    deleteOverride,
+};
@@ -0,0 +1,159 @@
+import { Tables } from "../Database";
+import { UserSanctionInterface, UserSanctionTypeEnum } from "../interfaces/UserSanctionInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+
+/**
+ * Normalizes a sanction row, sqlite returns the dates as numbers.
+ *
+ * @param row a sanction row from database
+ * @returns a sanction
+ */
+function toSanction(row: any): UserSanctionInterface {
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        createdAt: new Date(row.createdAt),
+        expiresAt: row.expiresAt ? new Date(row.expiresAt) : null,
+        liftedAt: row.liftedAt ? new Date(row.liftedAt) : null,
+    };
+}
+
+/**
+ * Check whether the sanction has neither been lifted nor expired.
+ *
+ * @param sanction a sanction to check
+ * @returns true whether the sanction is active, false otherwise
+ */
+function isActive(sanction: UserSanctionInterface): boolean {
+    return (
+        sanction.liftedAt === null &&
+        (sanction.expiresAt === null || sanction.expiresAt.getTime() > Date.now())
+    );
+}
+
+/**
+ * Issue a ban or a mute against the user.
+ *
+ * @param userId a user identifier to sanction
+ * @param type a type of the sanction
+ * @param reason a reason which is shown to the user
+ * @param expiresAt an expiration time, null whether permanent
+ * @param issuedBy a user identifier who issues the sanction
+ * @returns the sanction
+ */
+async function createSanction(
+    userId: number,
+    type: UserSanctionTypeEnum,
+    reason: string,
+    expiresAt: Date = null,
+    issuedBy: number = null
+): Promise<UserSanctionInterface> {
+    const [id] = await DatabaseBuilder(Tables.UserSanction).insert({
+        userId,
+        type,
+        reason,
+        issuedBy,
+        createdAt: new Date(),
+        expiresAt,
+    });
+    return getSanction(id);
+}
+
+/**
+ * Retrieves a sanction from its id.
+ *
+ * @param id a sanction identifier
+ * @returns a sanction whether exists, null otherwise
+ */
+async function getSanction(id: number): Promise<UserSanctionInterface> {
+    return toSanction(await DatabaseBuilder(Tables.UserSanction).where({ id }).first());
+}
+
+/**
+ * Retrieves the active sanction of a type against the user. Whether many
+ * sanctions are active, the one which lasts the longest is returned.
+ *
+ * @param userId a user identifier
+ * @param type a type of the sanction
+ * @returns an active sanction whether exists, null otherwise
+ */
+async function getActiveSanction(
+    userId: number,
+    type: UserSanctionTypeEnum
+): Promise<UserSanctionInterface> {
+    const rows = await DatabaseBuilder(Tables.UserSanction)
+        .where({ userId, type })
+        .whereNull("liftedAt");
+    const sanctions = rows.map(toSanction).filter(isActive);
+    if (sanctions.length === 0) {
+        return null;
+    }
+    return sanctions.reduce((longest, sanction) =>
+        longest.expiresAt === null ||
+        (sanction.expiresAt !== null && longest.expiresAt >= sanction.expiresAt)
+            ? longest
+            : sanction
+    );
+}
+
+/**
+ * Retrieves every sanction against the user, the newest first.
+ *
+ * @param userId a user identifier
+ * @param type a type of the sanctions, every type whether not provided
+ * @returns an array of sanctions, including the lifted and the expired ones
+ */
+async function getSanctionsFromUserId(
+    userId: number,
+    type?: UserSanctionTypeEnum
+): Promise<UserSanctionInterface[]> {
+    const query = DatabaseBuilder(Tables.UserSanction).where({ userId }).orderBy("id", "desc");
+    if (type) {
+        query.andWhere({ type });
+    }
+    return (await query).map(toSanction);
+}
+
+/**
+ * Retrieves the active sanctions of every user, the newest first.
+ *
+ * @param type a type of the sanctions, every type whether not provided
+ * @returns an array of active sanctions
+ */
+async function getActiveSanctions(type?: UserSanctionTypeEnum): Promise<UserSanctionInterface[]> {
+    const query = DatabaseBuilder(Tables.UserSanction).whereNull("liftedAt").orderBy("id", "desc");
+    if (type) {
+        query.andWhere({ type });
+    }
+    return (await query).map(toSanction).filter(isActive);
+}
+
+/**
+ * Lift a sanction before it expires.
+ *
+ * @param id a sanction identifier to lift
+ * @param liftedBy a user identifier who lifts the sanction
+ * @returns true whether an active sanction was lifted, false otherwise
+ */
+async function liftSanction(id: number, liftedBy: number = null): Promise<boolean> {
+    const sanction = await getSanction(id);
+    if (!sanction || !isActive(sanction)) {
+        return false;
+    }
+    await DatabaseBuilder(Tables.UserSanction)
+        .where({ id })
+        .update({ liftedAt: new Date(), liftedBy });
+    return true;
+}
+
+export const UserSanctionController = {
+    isActive,
+    createSanction,
+    getSanction,
+    getActiveSanction,
+    getSanctionsFromUserId,
+    getActiveSanctions,
+    liftSanction,
+};
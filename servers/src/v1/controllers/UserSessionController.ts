@@ -0,0 +1,172 @@
+import { Tables } from "../Database";
+import {
+    UserSessionInterface,
+    UserSessionTokenInterface,
+} from "../interfaces/UserSessionInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { generateRandomToken, getRefreshTokenExpirationDate, hashToken } from "../utils/TokenUtils";
+
+/**
+ * Normalizes the dates of a session row, sqlite returns them as numbers.
+ *
+ * @param row a session row from database
+ * @returns a session
+ */
+function toSession(row: any): UserSessionInterface {
+    if (!row) {
+        return null;
+    }
+    return {
+        ...row,
+        createdAt: new Date(row.createdAt),
+        lastUsedAt: new Date(row.lastUsedAt),
+        expiresAt: new Date(row.expiresAt),
+        revokedAt: row.revokedAt ? new Date(row.revokedAt) : null,
+    };
+}
+
+/**
+ * Check whether the session can still be used.
+ *
+ * @param session a session to check
+ * @returns true whether the session is neither revoked nor expired
+ */
+function isActiveSession(session: UserSessionInterface): boolean {
+    return (
+        session !== null && session.revokedAt === null && session.expiresAt.getTime() > Date.now()
+    );
+}
+
+/**
+ * Create a new session for the user.
+ *
+ * @param userId a user identifier who signed in
+ * @param userAgent a user agent of the client
+ * @param ipAddress an ip address of the client
+ * @returns the created session and its refresh token
+ */
+async function createSession(
+    userId: number,
+    userAgent?: string,
+    ipAddress?: string
+): Promise<UserSessionTokenInterface> {
+    const refreshToken = generateRandomToken();
+    const now = new Date();
+    const [id] = await DatabaseBuilder(Tables.UserSession).insert({
+        userId,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: userAgent || null,
+        ipAddress: ipAddress || null,
+        createdAt: now,
+        lastUsedAt: now,
+        expiresAt: getRefreshTokenExpirationDate(),
+    });
+    return { session: await getSession(id), refreshToken };
+}
+
+/**
+ * Retrieves a session from its id.
+ *
+ * @param id a session identifier
+ * @returns a session whether exists, null otherwise
+ */
+async function getSession(id: number): Promise<UserSessionInterface> {
+    return toSession(await DatabaseBuilder(Tables.UserSession).where({ id }).first());
+}
+
+/**
+ * Retrieves an active session from its id.
+ *
+ * @param id a session identifier
+ * @returns a session whether exists and is active, null otherwise
+ */
+async function getActiveSession(id: number): Promise<UserSessionInterface> {
+    const session = await getSession(id);
+    return isActiveSession(session) ? session : null;
+}
+
+/**
+ * Retrieves all active sessions of the user, the most recently used first.
+ *
+ * @param userId a user identifier
+ * @returns an array of sessions
+ */
+async function getActiveSessionsFromUserId(userId: number): Promise<UserSessionInterface[]> {
+    const rows = await DatabaseBuilder(Tables.UserSession)
+        .where({ userId })
+        .whereNull("revokedAt")
+        .orderBy("lastUsedAt", "desc");
+    return rows.map(toSession).filter(isActiveSession);
+}
+
+/**
+ * Exchanges a refresh token for a new one. The provided token can not
+ * be used anymore afterwards.
+ *
+ * @param refreshToken a current refresh token of the session
+ * @returns the session and its new refresh token, null whether the
+ *  token does not belong to an active session
+ */
+async function rotateRefreshToken(refreshToken: string): Promise<UserSessionTokenInterface> {
+    const session = toSession(
+        await DatabaseBuilder(Tables.UserSession)
+            .where({ refreshTokenHash: hashToken(refreshToken) })
+            .first()
+    );
+    if (!isActiveSession(session)) {
+        return null;
+    }
+
+    const newRefreshToken = generateRandomToken();
+    // Compare with the old hash, so that a concurrent rotation wins only once
+    const updated = await DatabaseBuilder(Tables.UserSession)
+        .where({ id: session.id, refreshTokenHash: session.refreshTokenHash })
+        .update({
+            refreshTokenHash: hashToken(newRefreshToken),
+            lastUsedAt: new Date(),
+        });
+    if (updated !== 1) {
+        return null;
+    }
+    return {
+        session: await getSession(session.id),
+        refreshToken: newRefreshToken,
+    };
+}
+
+/**
+ * Revoke a session.
+ *
+ * @param id a session identifier to revoke
+ * @returns true whether an active session was revoked, false otherwise
+ */
+async function revokeSession(id: number): Promise<boolean> {
+    const revoked = await DatabaseBuilder(Tables.UserSession)
+        .where({ id })
+        .whereNull("revokedAt")
+        .update({ revokedAt: new Date() });
+    return revoked > 0;
+}
+
+/**
+ * Revoke all sessions of the user.
+ *
+ * @param userId a user identifier
+ * @returns a number of revoked sessions
+ */
+async function revokeAllSessionsFromUserId(userId: number): Promise<number> {
+    return DatabaseBuilder(Tables.UserSession)
+        .where({ userId })
+        .whereNull("revokedAt")
+        .update({ revokedAt: new Date() });
+}
+
+export const UserSessionController = {
+    createSession,
+    getSession,
+    getActiveSession,
+    getActiveSessionsFromUserId,
+    rotateRefreshToken,
+    revokeSession,
+    revokeAllSessionsFromUserId,
+};
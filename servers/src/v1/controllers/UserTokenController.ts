@@ -0,0 +1,67 @@
+import { Tables } from "../Database";
+import { UserTokenTypeEnum } from "../interfaces/UserTokenInterface";
+import DatabaseBuilder from "../utils/DatabaseBuilder";
+import { generateRandomToken, hashToken } from "../utils/TokenUtils";
+
+/**
+ * Lifetimes of the tokens, in milliseconds.
+ */
+export const UserTokenLifetime = {
+    [UserTokenTypeEnum.PASSWORD_RESET]: 60 * 60 * 1000,
+    [UserTokenTypeEnum.EMAIL_VERIFICATION]: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Create a single-use token for the user. The former unused tokens of the
+ * same type are invalidated, so that only the latest mail can be used.
+ *
+ * @param userId a user identifier
+ * @param type a purpose of the token
+ * @returns the token in plain text, only its hash is stored
+ */
+async function createToken(userId: number, type: UserTokenTypeEnum): Promise<string> {
+    const token = generateRandomToken();
+    const now = new Date();
+    await DatabaseBuilder(Tables.UserToken)
+        .where({ userId, type })
+        .whereNull("usedAt")
+        .update({ usedAt: now });
+    await DatabaseBuilder(Tables.UserToken).insert({
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + UserTokenLifetime[type]),
+    });
+    return token;
+}
+
+/**
+ * Consume a token, it can not be used anymore afterwards.
+ *
+ * @param token a token in plain text
+ * @param type an expected purpose of the token
+ * @returns an identifier of the token owner, null whether the token
+ *  does not exist, has expired or has already been used
+ */
+async function consumeToken(token: string, type: UserTokenTypeEnum): Promise<number> {
+    const row = await DatabaseBuilder(Tables.UserToken)
+        .where({ tokenHash: hashToken(token), type })
+        .whereNull("usedAt")
+        .first();
+    if (!row || new Date(row.expiresAt).getTime() <= Date.now()) {
+        return null;
+    }
+
+    // Only one of concurrent requests consumes the token
+    const consumed = await DatabaseBuilder(Tables.UserToken)
+        .where({ id: row.id })
+        .whereNull("usedAt")
+        .update({ usedAt: new Date() });
+    return consumed === 1 ? row.userId : null;
+}
+
+export const UserTokenController = {
+    createToken,
+    consumeToken,
+};
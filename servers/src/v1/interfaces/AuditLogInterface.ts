@@ -0,0 +1,91 @@
+/**
+ * Actions which are recorded in the audit log.
+ */
+export enum AuditActionEnum {
+    // Permission groups
+    ROLE_CREATE = "role.create",
+    ROLE_UPDATE = "role.update",
+    ROLE_DELETE = "role.delete",
+    ROLE_PERMISSION_GRANT = "role.permission.grant",
+    ROLE_PERMISSION_REVOKE = "role.permission.revoke",
+
+    // Users
+    USER_ROLE_CHANGE = "user.role.change",
+    USER_PERMISSION_OVERRIDE_SET = "user.permission_override.set",
+    USER_PERMISSION_OVERRIDE_DELETE = "user.permission_override.delete",
+    USER_SANCTION_CREATE = "user.sanction.create",
+    USER_SANCTION_LIFT = "user.sanction.lift",
+
+    // Contents
+    COMIC_CREATE = "comic.create",
+    COMIC_UPDATE = "comic.update",
+    COMIC_DELETE = "comic.delete",
+    CHAPTER_CREATE = "chapter.create",
+    CHAPTER_UPDATE = "chapter.update",
+    CHAPTER_DELETE = "chapter.delete",
+    CHAPTER_REORDER = "chapter.reorder",
+    CHAPTER_RESTORE = "chapter.restore",
+    VOLUME_CREATE = "volume.create",
+    VOLUME_UPDATE = "volume.update",
+    VOLUME_DELETE = "volume.delete",
+    VOLUME_REORDER = "volume.reorder",
+    RESOURCE_CREATE = "resource.create",
+    RESOURCE_UPDATE = "resource.update",
+    RESOURCE_DELETE = "resource.delete",
+
+    // Moderation of the contents of other users
+    COMMENT_UPDATE = "comment.update",
+    COMMENT_DELETE = "comment.delete",
+    REVIEW_UPDATE = "review.update",
+    REVIEW_DELETE = "review.delete",
+}
+
+/**
+ * Types of the records which an action is applied to.
+ */
+export enum AuditTargetTypeEnum {
+    PERMISSION_GROUP = "permission_group",
+    USER = "user",
+    COMIC = "comic",
+    CHAPTER = "chapter",
+    VOLUME = "volume",
+    RESOURCE = "resource",
+    COMMENT = "comment",
+    REVIEW = "review",
+}
+
+/**
+ * Represents a recorded action.
+ */
+export interface AuditLogInterface {
+    id?: number;
+    /**
+     * A user identifier who did the action, null whether unknown
+     */
+    actorId: number;
+    action: AuditActionEnum;
+    targetType: AuditTargetTypeEnum;
+    targetId: number;
+    /**
+     * The changed fields before the action, null whether created
+     */
+    before: any;
+    /**
+     * The changed fields after the action, null whether deleted
+     */
+    after: any;
+    ip: string;
+    createdAt?: Date;
+}
+
+/**
+ * Filters of the audit log, every field is optional.
+ */
+export interface AuditLogFilterInterface {
+    actorId?: number;
+    action?: AuditActionEnum;
+    targetType?: AuditTargetTypeEnum;
+    targetId?: number;
+    from?: Date;
+    to?: Date;
+}
@@ -0,0 +1,30 @@
+/**
+ * An image extracted from a chapter archive.
+ */
+export interface ChapterArchiveImageInterface {
+    /**
+     * A path of the image in the archive
+     */
+    name: string;
+    data: Buffer;
+}
+
+/**
+ * The chapter metadata from the ComicInfo.xml file of an archive.
+ */
+export interface ComicInfoInterface {
+    title?: string;
+    number?: string;
+    summary?: string;
+}
+
+/**
+ * Represents the content of a ZIP or CBZ chapter archive.
+ */
+export interface ChapterArchiveInterface {
+    /**
+     * The images of the archive, in their reading order
+     */
+    images: ChapterArchiveImageInterface[];
+    comicInfo: ComicInfoInterface;
+}
@@ -9,8 +9,9 @@
  * So that we can render each block at the time by it
  * index and the chapter id.
  *
- * The content of the block will be a resource id if the chapter viewType is image.
- * Otherwise, the content will be a RAW HTML.
+ * The content of the block will be a resource file name if the chapter viewType is image.
+ * Otherwise, the content will be HTML which is sanitized before being stored,
+ * see RichTextUtils.
  */
 export interface ComicChapterBlockInterface {
   id?: number;
@@ -18,3 +19,29 @@ export interface ComicChapterBlockInterface {
   index: number;
   content: string;
 }
+
+/**
+ * A kind of change of a single block.
+ */
+export enum ComicChapterBlockOperationTypeEnum {
+  INSERT = "insert",
+  MOVE = "move",
+  REPLACE = "replace",
+  DELETE = "delete",
+}
+
+/**
+ * A change of a single block. The blocks are referred by their identifiers,
+ * the positions start from 0.
+ *
+ * - insert: adds a block with `content` at `index`, at the end whether omitted
+ * - move: moves the block `blockId` to `index`
+ * - replace: replaces the content of the block `blockId` with `content`
+ * - delete: removes the block `blockId`
+ */
+export interface ComicChapterBlockOperationInterface {
+  type: ComicChapterBlockOperationTypeEnum;
+  blockId?: number;
+  index?: number;
+  content?: string;
+}
@@ -1,3 +1,5 @@
+import { PublicationStatusEnum } from "./PublicationInterface";
+
 /**
  * Chapter content can be view as image or text, so this
  * enum is generated to support that type easier.
@@ -20,4 +22,20 @@ export interface ComicChapterInterface {
   updatedAt: Date;
   length?: number;
   chapterNumber: string;
+  /**
+   * A sortable number of the chapter, unique in its comic
+   */
+  chapterIndex?: number;
+  volumeId?: number;
+  summary?: string;
+  /**
+   * The number of words of a text chapter
+   */
+  wordCount?: number;
+  /**
+   * An estimated reading time of a text chapter, in minutes
+   */
+  readingTime?: number;
+  status?: PublicationStatusEnum;
+  publishAt?: Date;
 }
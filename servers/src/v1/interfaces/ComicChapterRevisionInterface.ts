@@ -0,0 +1,83 @@
+import { ComicChapterBlockInterface } from "./ComicChapterBlockInterface";
+import { ComicChapterViewTypeEnum } from "./ComicChapterInterface";
+
+/**
+ * A block of a chapter as it was stored in a revision.
+ */
+export type ComicChapterRevisionBlockInterface = Pick<
+    ComicChapterBlockInterface,
+    "index" | "content"
+>;
+
+/**
+ * An immutable snapshot of a chapter, its metadata and its blocks. The
+ * revisions of a chapter are numbered from 1.
+ */
+export interface ComicChapterRevisionInterface {
+    id?: number;
+    chapterId: number;
+    revision: number;
+    name: string;
+    chapterNumber: string;
+    chapterIndex: number;
+    volumeId: number;
+    viewType: ComicChapterViewTypeEnum;
+    /**
+     * The blocks of the chapter, omitted from the revision lists
+     */
+    blocks?: ComicChapterRevisionBlockInterface[];
+    /**
+     * A user identifier who saved the revision, null whether unknown
+     */
+    createdBy: number;
+    /**
+     * The revision which was restored by this revision, if any
+     */
+    restoredFrom: number;
+    createdAt: Date;
+}
+
+/**
+ * A kind of change of a block between two revisions.
+ */
+export enum ComicChapterBlockChangeEnum {
+    ADDED = "added",
+    REMOVED = "removed",
+    UNCHANGED = "unchanged",
+}
+
+/**
+ * A change of a block between two revisions. A modified block is a removed
+ * block followed by an added one.
+ */
+export interface ComicChapterBlockDiffInterface {
+    type: ComicChapterBlockChangeEnum;
+    /**
+     * A position of the block in the older revision, null whether added
+     */
+    fromIndex: number;
+    /**
+     * A position of the block in the newer revision, null whether removed
+     */
+    toIndex: number;
+    content: string;
+}
+
+/**
+ * A changed metadata field between two revisions.
+ */
+export interface ComicChapterFieldDiffInterface {
+    field: string;
+    from: any;
+    to: any;
+}
+
+/**
+ * The differences between two revisions of a chapter.
+ */
+export interface ComicChapterRevisionDiffInterface {
+    from: number;
+    to: number;
+    fields: ComicChapterFieldDiffInterface[];
+    blocks: ComicChapterBlockDiffInterface[];
+}
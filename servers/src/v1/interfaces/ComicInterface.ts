@@ -1,3 +1,5 @@
+import { PublicationStatusEnum } from "./PublicationInterface";
+
 /**
  * Represents a comic.
  */
@@ -16,6 +18,8 @@ export interface ComicInterface {
   category: string;
   reviewCount?: number;
   reviewRating?: number;
+  status?: PublicationStatusEnum;
+  publishAt?: Date;
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * Represents a volume of a comic, which groups its chapters.
+ */
+export interface ComicVolumeInterface {
+    id?: number;
+    comicId: number;
+    name: string;
+    /**
+     * A sortable number of the volume, unique in its comic
+     */
+    number: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * A new position of a chapter, the volume is unchanged whether omitted.
+ */
+export interface ComicChapterOrderInterface {
+    id: number;
+    chapterIndex: number;
+    volumeId?: number;
+}
+
+/**
+ * A new position of a volume.
+ */
+export interface ComicVolumeOrderInterface {
+    id: number;
+    number: number;
+}
@@ -0,0 +1,21 @@
+/**
+ * The formats of the exported comics and chapters.
+ */
+export enum ExportFormatEnum {
+    /**
+     * A ZIP archive of the pages with a ComicInfo.xml file
+     */
+    CBZ = "cbz",
+    EPUB = "epub",
+}
+
+/**
+ * An image which is written into an exported archive.
+ */
+export interface ExportImageInterface {
+    /**
+     * A path of the image in the archive
+     */
+    name: string;
+    mediaType: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * An action taken on the referencing rows when the referenced row is deleted.
+ */
+export type ForeignKeyDeleteAction = "CASCADE" | "RESTRICT" | "SET NULL";
+
+/**
+ * Represents a reference from a column to the id of another table.
+ */
+export interface ForeignKeyInterface {
+    /**
+     * A referencing table
+     */
+    table: string;
+    /**
+     * A referencing column
+     */
+    column: string;
+    /**
+     * A referenced table, the column is always its id
+     */
+    references: string;
+    onDelete: ForeignKeyDeleteAction;
+    /**
+     * Whether the referencing column accepts null
+     */
+    nullable?: boolean;
+    /**
+     * A default value of the referencing column
+     */
+    defaultTo?: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Represents a mail to send.
+ */
+export interface MailMessageInterface {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * A transport delivers mails, e.g. through a SMTP server.
+ */
+export interface MailTransportInterface {
+    /**
+     * Deliver a mail.
+     *
+     * @param message a mail to send
+     */
+    send(message: MailMessageInterface): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { Knex } from "knex";
+
+/**
+ * Represents a versioned schema migration. Migrations are applied
+ * in ascending order of their version and recorded into the
+ * migrations table, so each one runs only once per database.
+ */
+export interface MigrationInterface {
+    /**
+     * A zero-padded version of the migration, e.g. 001
+     */
+    version: string;
+    /**
+     * A short name describing the migration
+     */
+    name: string;
+    /**
+     * Applies the migration.
+     */
+    up: (knex: Knex) => Promise<void>;
+    /**
+     * Reverts the migration.
+     */
+    down: (knex: Knex) => Promise<void>;
+}
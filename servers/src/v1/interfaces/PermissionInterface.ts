@@ -55,4 +55,20 @@ export enum PermissionEnum {
   // Review
   REVIEW_CREATE,
   REVIEW_DELETE,
+
+  // Manage the content of the other users
+  COMIC_MANAGE_ANY,
+  COMIC_CHAPTER_MANAGE_ANY,
+  COMIC_CHAPTER_COMMENT_MANAGE_ANY,
+  REVIEW_MANAGE_ANY,
+
+  // Moderate the users
+  USER_BAN,
+  USER_MUTE,
+
+  // Audit log
+  AUDIT_LOG_READ,
+
+  // Download the comics for offline reading
+  COMIC_EXPORT,
 }
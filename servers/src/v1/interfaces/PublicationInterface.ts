@@ -0,0 +1,19 @@
+/**
+ * A publication status of a comic or a chapter. Only the published
+ * contents, and the scheduled ones whose release time has come, are
+ * visible to the public.
+ */
+export enum PublicationStatusEnum {
+    DRAFT = "draft",
+    PUBLISHED = "published",
+    SCHEDULED = "scheduled",
+    HIDDEN = "hidden",
+}
+
+/**
+ * The publication fields of a comic or a chapter.
+ */
+export interface PublicationInterface {
+    status: PublicationStatusEnum;
+    publishAt: Date;
+}
@@ -0,0 +1,53 @@
+/**
+ * A state of a counter in a rate limit window.
+ */
+export interface RateLimitCounterInterface {
+    /**
+     * A number of hits in the current window
+     */
+    count: number;
+    /**
+     * A time the current window ends
+     */
+    resetAt: Date;
+}
+
+/**
+ * A backend which keeps the rate limit counters, e.g. in memory or in a
+ * shared cache when the application runs on several processes.
+ */
+export interface RateLimitStoreInterface {
+    /**
+     * Count a hit, a new window starts whether the former one has ended.
+     *
+     * @param key a key of the counter
+     * @param windowMs a duration of a window in milliseconds
+     * @returns the counter after the hit
+     */
+    increment(key: string, windowMs: number): Promise<RateLimitCounterInterface>;
+
+    /**
+     * Forget a counter.
+     *
+     * @param key a key of the counter
+     */
+    reset(key: string): Promise<void>;
+}
+
+/**
+ * Options of a rate limiter.
+ */
+export interface RateLimitOptionsInterface {
+    /**
+     * A name of the limiter, used to prefix the keys
+     */
+    name: string;
+    /**
+     * A duration of a window in milliseconds
+     */
+    windowMs: number;
+    /**
+     * A number of allowed hits per window
+     */
+    max: number;
+}
@@ -0,0 +1,43 @@
+import { StorageDriverEnum } from "./StorageInterface";
+
+/**
+ * A size of an image resource. The full size keeps the dimensions of the
+ * uploaded image.
+ */
+export enum ImageSizeEnum {
+    THUMB = "thumb",
+    MEDIUM = "medium",
+    FULL = "full",
+}
+
+/**
+ * An encoding of an image resource. The uploaded images are stored as JPEG.
+ */
+export enum ImageFormatEnum {
+    JPEG = "jpeg",
+    WEBP = "webp",
+}
+
+/**
+ * Represents a resized or re-encoded copy of an image resource. The full
+ * size JPEG is the resource file itself and has no derivative.
+ */
+export interface ResourceDerivativeInterface {
+    id?: number;
+    resourceId: number;
+    size: ImageSizeEnum;
+    format: ImageFormatEnum;
+    fileName: string;
+    /**
+     * A key of the file in its storage, which is the storage of the resource
+     */
+    path: string;
+    storage: StorageDriverEnum;
+    width: number;
+    height: number;
+    /**
+     * A size of the file, in bytes
+     */
+    fileSize: number;
+    createdAt: Date;
+}
@@ -1,3 +1,5 @@
+import { StorageDriverEnum } from "./StorageInterface";
+
 /**
  * Represents resources prototype.
  */
@@ -5,8 +7,15 @@ export interface ResourceInterface {
   id: number;
   originalName: string;
   fileName: string;
+  /**
+   * A key of the file in its storage, e.g. a path on the local disk
+   */
   path: string;
   size: number;
   uploadedAt: Date;
   uploader: number;
+  /**
+   * A storage driver which holds the file, local by default
+   */
+  storage?: StorageDriverEnum;
 }
@@ -0,0 +1,19 @@
+/**
+ * A format of the content of a text chapter, as sent by the clients. The
+ * content is always stored as sanitized HTML.
+ */
+export enum RichTextFormatEnum {
+    HTML = "html",
+    MARKDOWN = "markdown",
+}
+
+/**
+ * The statistics of a text chapter, which are stored with the chapter.
+ */
+export interface RichTextStatisticsInterface {
+    wordCount: number;
+    /**
+     * An estimated reading time, in minutes
+     */
+    readingTime: number;
+}
@@ -0,0 +1,85 @@
+import { Readable } from "stream";
+
+/**
+ * The storage drivers which may hold the resource files.
+ */
+export enum StorageDriverEnum {
+    LOCAL = "local",
+    S3 = "s3",
+}
+
+/**
+ * Represents a stored file.
+ */
+export interface StorageObjectInterface {
+    /**
+     * A size of the file, in bytes
+     */
+    size: number;
+    lastModified: Date;
+}
+
+/**
+ * A range of bytes to read, both ends are included.
+ */
+export interface StorageRangeInterface {
+    start: number;
+    end: number;
+}
+
+/**
+ * A storage driver stores the resource files, e.g. on the local disk. The
+ * files are identified by keys, which are recorded as the resource paths.
+ */
+export interface StorageDriverInterface {
+    readonly name: StorageDriverEnum;
+
+    /**
+     * Retrieves a key to store a new file.
+     *
+     * @param fileName a unique file name
+     * @returns a key of the file
+     */
+    getKey(fileName: string): string;
+
+    /**
+     * Store a file, an existing file with the same key is replaced.
+     *
+     * @param key a key of the file
+     * @param data a content of the file
+     * @param contentType a media type of the content
+     */
+    write(key: string, data: Buffer, contentType: string): Promise<void>;
+
+    /**
+     * Read a whole file.
+     *
+     * @param key a key of the file
+     * @returns a content of the file, null whether the file does not exist
+     */
+    read(key: string): Promise<Buffer>;
+
+    /**
+     * Stream an existing file, or a range of it.
+     *
+     * @param key a key of the file
+     * @param range a range of bytes to read, the whole file by default
+     * @returns a stream of the content
+     */
+    createReadStream(key: string, range?: StorageRangeInterface): Promise<Readable>;
+
+    /**
+     * Retrieves a size and a modification time of a file.
+     *
+     * @param key a key of the file
+     * @returns a stored file, null whether the file does not exist
+     */
+    stat(key: string): Promise<StorageObjectInterface>;
+
+    /**
+     * Remove a file, nothing happens whether the file does not exist.
+     *
+     * @param key a key of the file
+     */
+    remove(key: string): Promise<void>;
+}
@@ -0,0 +1,36 @@
+/**
+ * Represents a personal API key of a user.
+ */
+export interface UserApiKeyInterface {
+    id: number;
+    userId: number;
+    name: string;
+    /**
+     * The first characters of the key, to recognize it in a list
+     */
+    keyPrefix: string;
+    /**
+     * A sha256 hash of the key
+     */
+    keyHash: string;
+    /**
+     * Permissions that the key is restricted to, null whether the key
+     * has every permission of its user
+     */
+    scopes: number[];
+    createdAt: Date;
+    lastUsedAt: Date;
+    /**
+     * A revocation time, null whether the key is still active
+     */
+    revokedAt: Date;
+}
+
+/**
+ * An API key with the key in plain text, which is only
+ * available when the key is created.
+ */
+export interface UserApiKeyTokenInterface {
+    apiKey: UserApiKeyInterface;
+    key: string;
+}
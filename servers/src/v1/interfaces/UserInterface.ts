@@ -7,6 +7,10 @@ export interface UserInterface {
     email: string;
     nickname: string;
     introduction: string;
+    /**
+     * A time the email was verified, null whether not verified
+     */
+    emailVerifiedAt?: Date;
 }
 
 /**
@@ -0,0 +1,60 @@
+import { PermissionInterface } from "./PermissionInterface";
+
+/**
+ * Effects of a permission override.
+ */
+export enum UserPermissionOverrideEffectEnum {
+    GRANT = "grant",
+    DENY = "deny",
+}
+
+/**
+ * Represents a permission which is granted to or denied from a single user,
+ * regardless of the permission group of the user.
+ */
+export interface UserPermissionOverrideInterface {
+    id: number;
+    userId: number;
+    permissionId: number;
+    effect: UserPermissionOverrideEffectEnum;
+    /**
+     * An expiration time, null whether the override never expires
+     */
+    expiresAt: Date;
+    /**
+     * A user identifier who created the override, null whether unknown
+     */
+    createdBy: number;
+    createdAt: Date;
+}
+
+/**
+ * Sources which a permission of a user can come from.
+ */
+export enum UserPermissionSourceEnum {
+    GROUP = "group",
+    OVERRIDE = "override",
+}
+
+/**
+ * Explains whether a user has a permission and why.
+ */
+export interface UserEffectivePermissionInterface extends PermissionInterface {
+    /**
+     * Whether the user has the permission
+     */
+    granted: boolean;
+    /**
+     * What decides the permission, null whether neither the group
+     * nor an override gives the permission
+     */
+    source: UserPermissionSourceEnum;
+    /**
+     * Whether the permission group of the user has the permission
+     */
+    inGroup: boolean;
+    /**
+     * An active override of the permission, null whether not overridden
+     */
+    override: UserPermissionOverrideInterface;
+}
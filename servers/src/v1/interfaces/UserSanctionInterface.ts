@@ -0,0 +1,37 @@
+/**
+ * Types of the sanctions which are issued against abusive users.
+ */
+export enum UserSanctionTypeEnum {
+    /**
+     * Blocks signing in and every authenticated request
+     */
+    BAN = "ban",
+    /**
+     * Blocks creating or updating comments and reviews
+     */
+    MUTE = "mute",
+}
+
+/**
+ * Represents a ban or a mute of a user.
+ */
+export interface UserSanctionInterface {
+    id: number;
+    userId: number;
+    type: UserSanctionTypeEnum;
+    reason: string;
+    /**
+     * A user identifier who issued the sanction, null whether unknown
+     */
+    issuedBy: number;
+    createdAt: Date;
+    /**
+     * An expiration time, null whether the sanction is permanent
+     */
+    expiresAt: Date;
+    /**
+     * A time the sanction was lifted, null whether not lifted
+     */
+    liftedAt: Date;
+    liftedBy: number;
+}
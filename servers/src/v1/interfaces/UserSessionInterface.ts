@@ -0,0 +1,29 @@
+/**
+ * Represents a session of a signed in user.
+ */
+export interface UserSessionInterface {
+    id: number;
+    userId: number;
+    /**
+     * A sha256 hash of the current refresh token
+     */
+    refreshTokenHash: string;
+    userAgent: string;
+    ipAddress: string;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    /**
+     * A revocation time, null whether the session is still active
+     */
+    revokedAt: Date;
+}
+
+/**
+ * A session with its refresh token in plain text, which is
+ * only available when the session is created or refreshed.
+ */
+export interface UserSessionTokenInterface {
+    session: UserSessionInterface;
+    refreshToken: string;
+}
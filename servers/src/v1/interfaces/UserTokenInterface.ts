@@ -0,0 +1,26 @@
+/**
+ * Purposes of the single-use tokens which are sent by mail.
+ */
+export enum UserTokenTypeEnum {
+    PASSWORD_RESET = "password_reset",
+    EMAIL_VERIFICATION = "email_verification",
+}
+
+/**
+ * Represents a single-use token of a user.
+ */
+export interface UserTokenInterface {
+    id: number;
+    userId: number;
+    type: UserTokenTypeEnum;
+    /**
+     * A sha256 hash of the token
+     */
+    tokenHash: string;
+    createdAt: Date;
+    expiresAt: Date;
+    /**
+     * A time the token was consumed, null whether not used yet
+     */
+    usedAt: Date;
+}
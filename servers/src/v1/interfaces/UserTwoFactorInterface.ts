@@ -0,0 +1,19 @@
+/**
+ * Represents the two-factor authentication of a user.
+ */
+export interface UserTwoFactorInterface {
+    userId: number;
+    /**
+     * A base32 TOTP secret
+     */
+    secret: string;
+    /**
+     * The last accepted time step
+     */
+    lastUsedStep: number;
+    createdAt: Date;
+    /**
+     * A time the enrollment was confirmed, null whether it is still pending
+     */
+    enabledAt: Date;
+}
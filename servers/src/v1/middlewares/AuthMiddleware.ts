@@ -2,17 +2,163 @@ import { PermissionEnum } from "./../interfaces/PermissionInterface";
 import { User } from "./../classes/User";
 import * as jwt from "jsonwebtoken";
 import { UserController } from "./../controllers/UserController";
+import { UserSessionController } from "../controllers/UserSessionController";
+import { TwoFactorController } from "../controllers/TwoFactorController";
+import { UserApiKeyController } from "../controllers/UserApiKeyController";
+import { UserSanctionController } from "../controllers/UserSanctionController";
+import { UserSanctionTypeEnum } from "../interfaces/UserSanctionInterface";
 import { Locale } from "./../Locale";
 import * as express from "express";
 import { MiddlewareError } from "../errors/MiddlewareError";
 import validator from "validator";
 import { UserResponseInterface } from "../interfaces/UserInterface";
 
+/**
+ * Verify an access token and set the user and the session of the token into
+ * the request. The token is rejected whether its session has been revoked
+ * or has expired, e.g. after signing out or changing the password.
+ *
+ * @param req a request object
+ * @param token an access token to verify
+ */
+async function authenticateToken(req: express.Request, token: string) {
+    const data: any = jwt.verify(token, process.env.JWT_SECRET);
+
+    // Every access token belongs to a session of its user
+    const session = data.sessionId
+        ? await UserSessionController.getActiveSession(data.sessionId)
+        : null;
+    if (!session || session.userId !== data.id) {
+        throw new Error(Locale.HttpResponseMessage.InvalidTokenOrExpired);
+    }
+
+    // Get user information
+    const userResponse: User = new User(
+        await UserController.getUserFromUUID(data.id),
+        data.id
+    );
+
+    // Set into request object
+    req["UserRequest"] = userResponse;
+    req["TokenRequest"] = token;
+    req["SessionRequest"] = session;
+}
+
+/**
+ * Verify an API key and set the user and the key into the request. The
+ * permissions of the user are restricted to the scopes of the key.
+ *
+ * @param req a request object
+ * @param key an API key to verify
+ */
+async function authenticateApiKey(req: express.Request, key: string) {
+    const apiKey = await UserApiKeyController.useApiKey(key);
+    if (!apiKey) {
+        throw new Error(Locale.HttpResponseMessage.InvalidApiKey);
+    }
+
+    // Get user information
+    const userResponse: User = new User(
+        await UserController.getUserFromUUID(apiKey.userId),
+        apiKey.userId
+    );
+    if (apiKey.scopes) {
+        userResponse.scopes = apiKey.scopes;
+    }
+
+    // Set into request object
+    req["UserRequest"] = userResponse;
+    req["TokenRequest"] = key;
+    req["ApiKeyRequest"] = apiKey;
+}
+
+/**
+ * Retrieves an API key from the X-API-Key header.
+ *
+ * @param req a request object
+ * @returns an API key, undefined whether the header is not set
+ */
+function getApiKeyHeader(req: express.Request): string {
+    const key = req.headers["x-api-key"];
+    return Array.isArray(key) ? key[0] : key;
+}
+
+/**
+ * Check whether the policy requires the authenticated user to enable
+ * two-factor authentication, which has not been done yet.
+ *
+ * @param req an authenticated request object
+ * @returns true whether the request must be rejected
+ */
+async function isTwoFactorEnrollmentPending(req: express.Request) {
+    const userRequest: User = req["UserRequest"];
+    return (
+        !req["TwoFactorEnrollmentRequest"] &&
+        (await TwoFactorController.isTwoFactorRequired(userRequest.id)) &&
+        !(await TwoFactorController.isTwoFactorEnabled(userRequest.id))
+    );
+}
+
+/**
+ * Check whether the authenticated user has an active ban. Banned users are
+ * rejected on every authenticated request, whatever the credentials are.
+ *
+ * @param req an authenticated request object
+ * @returns true whether the request must be rejected
+ */
+async function isBanned(req: express.Request) {
+    const userRequest: User = req["UserRequest"];
+    const ban = await UserSanctionController.getActiveSanction(
+        userRequest.id,
+        UserSanctionTypeEnum.BAN
+    );
+    return ban !== null;
+}
+
+/**
+ * Authenticate the request with an API key and call next middleware.
+ *
+ * @param req a request object
+ * @param apiKey an API key from the header
+ * @param next a next middleware function
+ */
+async function authenticateApiKeyRequest(
+    req: express.Request,
+    apiKey: string,
+    next: express.NextFunction
+) {
+    try {
+        await authenticateApiKey(req, apiKey);
+    } catch (err) {
+        return next(
+            new MiddlewareError(Locale.HttpResponseMessage.InvalidApiKey, 401)
+        );
+    }
+
+    if (await isBanned(req)) {
+        return next(new MiddlewareError(Locale.HttpResponseMessage.UserBanned, 403));
+    }
+
+    // The two-factor policy applies to the owner of the key as well
+    if (await isTwoFactorEnrollmentPending(req)) {
+        return next(
+            new MiddlewareError(
+                Locale.HttpResponseMessage.TwoFactorEnrollmentRequired,
+                403
+            )
+        );
+    }
+    next();
+}
+
 /**
  * Retrieves a header that bearers token, process and call next middleware. Whether the token is not found, call next middleware
  * without set user response into request. User information contains in
  * req.UserRequest. req.TokenRequest contains token information.
  * req.PermissionRoleRequest contains permission role id.
+ * req.SessionRequest contains the session of the token.
+ * Whether no token is provided, the X-API-Key header is used instead and
+ * req.ApiKeyRequest contains the API key.
  *
  * @param req a request object
  * @param res a response object
@@ -24,12 +170,18 @@ export async function getAuth(
     res: express.Response,
     next: express.NextFunction
 ) {
+    const apiKey = getApiKeyHeader(req);
     // Check existence of token in header
-    if (!req.headers.authorization) {
+    if (!req.headers.authorization && !apiKey) {
         // Next with empty body
         return next();
     }
 
+    // Authenticate with an API key whether no token is provided
+    if (!req.headers.authorization) {
+        return authenticateApiKeyRequest(req, apiKey, next);
+    }
+
     try {
         const token = req.headers.authorization.split(" ")[1];
         // Check if token is valid
@@ -41,16 +193,23 @@ export async function getAuth(
                 )
             );
         }
-        const data: any = jwt.verify(token, process.env.JWT_SECRET);
-        // Get user information
-        const userResponse: User = new User(
-            await UserController.getUserFromUUID(data.id),
-            data.id
-        );
+        await authenticateToken(req, token);
+        if (await isBanned(req)) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.UserBanned, 403)
+            );
+        }
 
-        // Set into request object
-        req["UserRequest"] = userResponse;
-        req["TokenRequest"] = token;
+        // Members of the groups which require two-factor
+        // authentication can only enroll until they enable it
+        if (await isTwoFactorEnrollmentPending(req)) {
+            return next(
+                new MiddlewareError(
+                    Locale.HttpResponseMessage.TwoFactorEnrollmentRequired,
+                    403
+                )
+            );
+        }
 
         // Call next middleware function
         next();
@@ -65,6 +224,24 @@ export async function getAuth(
     }
 }
 
+/**
+ * Same as getAuth, but lets the users who are required to enable two-factor
+ * authentication through, so that they can enroll.
+ *
+ * @param req a request object
+ * @param res a response object
+ * @param next a next middleware function
+ * @returns handler promise to next middleware function
+ */
+export async function getTwoFactorEnrollmentAuth(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    req["TwoFactorEnrollmentRequest"] = true;
+    return getAuth(req, res, next);
+}
+
 /**
  *
  * Requesting the authenticate by
@@ -83,13 +260,19 @@ export async function requestAuthenticate(
     res: express.Response,
     next: express.NextFunction
 ) {
+    const apiKey = getApiKeyHeader(req);
     // Not found the token
-    if (!req.headers.authorization) {
+    if (!req.headers.authorization && !apiKey) {
         return next(
             new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
         );
     }
 
+    // Authenticate with an API key whether no token is provided
+    if (!req.headers.authorization) {
+        return authenticateApiKeyRequest(req, apiKey, next);
+    }
+
     try {
         const token = req.headers.authorization.split(" ")[1];
         // Check if token is valid
@@ -101,16 +284,23 @@ export async function requestAuthenticate(
                 )
             );
         }
-        const data: any = jwt.verify(token, process.env.JWT_SECRET);
-        // Get user information
-        const userResponse: User = new User(
-            await UserController.getUserFromUUID(data.id),
-            data.id
-        );
+        await authenticateToken(req, token);
+        if (await isBanned(req)) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.UserBanned, 403)
+            );
+        }
 
-        // Set into request object
-        req["UserRequest"] = userResponse;
-        req["TokenRequest"] = token;
+        // Members of the groups which require two-factor
+        // authentication can only enroll until they enable it
+        if (await isTwoFactorEnrollmentPending(req)) {
+            return next(
+                new MiddlewareError(
+                    Locale.HttpResponseMessage.TwoFactorEnrollmentRequired,
+                    403
+                )
+            );
+        }
 
         // Call next middleware function
         next();
@@ -124,3 +314,25 @@ export async function requestAuthenticate(
         );
     }
 }
+
+/**
+ * Rejects the requests which are authenticated with an API key, e.g. to
+ * manage the sessions or the credentials of the user. Must be used after
+ * getAuth or requestAuthenticate.
+ *
+ * @param req a request object
+ * @param res a response object
+ * @param next a next middleware function
+ */
+export function requireSession(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    if (req["ApiKeyRequest"]) {
+        return next(
+            new MiddlewareError(Locale.HttpResponseMessage.ApiKeyNotAllowed, 403)
+        );
+    }
+    next();
+}
@@ -0,0 +1,68 @@
+import * as express from "express";
+import { User } from "../classes/User";
+import { MiddlewareError } from "../errors/MiddlewareError";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
+import { Locale } from "../Locale";
+
+/**
+ * Create a middleware which rejects the requests whose user does not match
+ * the permissions. Must be used after getAuth or requestAuthenticate.
+ *
+ * @param permissions permissions to check
+ * @param matchAll true whether every permission is required, false whether
+ *  any of them is enough
+ * @returns a middleware function
+ */
+function createPermissionMiddleware(permissions: PermissionEnum[], matchAll: boolean) {
+    return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        // Not found a user, response unauthorized
+        const user: User = req["UserRequest"];
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        try {
+            // The permissions are loaded once per request
+            const permissionIds = await user.getPermissionIds();
+            const granted = matchAll
+                ? permissions.every((permission) => permissionIds.includes(permission))
+                : permissions.some((permission) => permissionIds.includes(permission));
+            if (!granted) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            }
+            next();
+        } catch (err) {
+            next(err);
+        }
+    };
+}
+
+/**
+ * Create a middleware which requires every given permission.
+ *
+ * @param permissions required permissions
+ * @returns a middleware function
+ */
+export function requireAll(...permissions: PermissionEnum[]) {
+    return createPermissionMiddleware(permissions, true);
+}
+
+/**
+ * Create a middleware which requires at least one of the given permissions.
+ *
+ * @param permissions accepted permissions
+ * @returns a middleware function
+ */
+export function requireAny(...permissions: PermissionEnum[]) {
+    return createPermissionMiddleware(permissions, false);
+}
+
+/**
+ * Create a middleware which requires the given permissions, same as requireAll.
+ *
+ * @param permissions required permissions
+ * @returns a middleware function
+ */
+export function requirePermission(...permissions: PermissionEnum[]) {
+    return requireAll(...permissions);
+}
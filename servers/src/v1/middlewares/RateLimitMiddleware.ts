@@ -0,0 +1,125 @@
+import * as express from "express";
+import { MemoryRateLimitStore } from "../classes/MemoryRateLimitStore";
+import { User } from "../classes/User";
+import { MiddlewareError } from "../errors/MiddlewareError";
+import {
+    RateLimitOptionsInterface,
+    RateLimitStoreInterface,
+} from "../interfaces/RateLimitInterface";
+import { Locale } from "../Locale";
+
+let store: RateLimitStoreInterface = new MemoryRateLimitStore();
+
+/**
+ * Replace the backend of the rate limiters, e.g. with a shared cache.
+ *
+ * @param rateLimitStore a new store
+ */
+export function setRateLimitStore(rateLimitStore: RateLimitStoreInterface) {
+    store = rateLimitStore;
+}
+
+/**
+ * Retrieves the options of a limiter, which can be overridden by the
+ * environment: RATE_LIMIT_<NAME>_MAX and RATE_LIMIT_<NAME>_WINDOW (seconds).
+ *
+ * @param name a name of the limiter, e.g. signin_ip
+ * @param windowSeconds a default duration of a window in seconds
+ * @param max a default number of allowed hits per window
+ * @returns the options of the limiter
+ */
+function getRateLimitOptions(
+    name: string,
+    windowSeconds: number,
+    max: number
+): RateLimitOptionsInterface {
+    const prefix = `RATE_LIMIT_${name.toUpperCase()}`;
+    return {
+        name,
+        windowMs: (parseInt(process.env[`${prefix}_WINDOW`]) || windowSeconds) * 1000,
+        max: parseInt(process.env[`${prefix}_MAX`]) || max,
+    };
+}
+
+/**
+ * Create a middleware which rejects the requests exceeding the limit.
+ * Rate limiting is disabled whether RATE_LIMIT_ENABLED is `false`.
+ *
+ * @param options options of the limiter
+ * @param getKey a function which retrieves a key to count the request
+ *  with, the request is not counted whether it returns null
+ * @returns a middleware function
+ */
+export function rateLimit(
+    options: RateLimitOptionsInterface,
+    getKey: (req: express.Request) => string
+) {
+    return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const key = getKey(req);
+        if (process.env.RATE_LIMIT_ENABLED === "false" || !key) {
+            return next();
+        }
+
+        try {
+            const { count, resetAt } = await store.increment(
+                `${options.name}:${key}`,
+                options.windowMs
+            );
+            const resetSeconds = Math.max(0, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+            res.setHeader("X-RateLimit-Limit", options.max);
+            res.setHeader("X-RateLimit-Remaining", Math.max(0, options.max - count));
+            res.setHeader("X-RateLimit-Reset", Math.ceil(resetAt.getTime() / 1000));
+
+            if (count > options.max) {
+                res.setHeader("Retry-After", resetSeconds);
+                return next(new MiddlewareError(Locale.HttpResponseMessage.TooManyRequests, 429));
+            }
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Retrieves a key of the client address.
+ */
+const byIp = (req: express.Request) => req.ip;
+
+/**
+ * Retrieves a key of the signed in user, or the client address.
+ */
+const byUserOrIp = (req: express.Request) => {
+    const userRequest: User = req["UserRequest"];
+    return userRequest ? `user:${userRequest.id}` : `ip:${req.ip}`;
+};
+
+/**
+ * Retrieves a key of the account which is signing in.
+ */
+const byUsername = (req: express.Request) =>
+    typeof req.body.username === "string" ? req.body.username.toLowerCase() : null;
+
+/**
+ * Retrieves a key of the email which a password reset is requested for.
+ */
+const byEmail = (req: express.Request) =>
+    typeof req.body.email === "string" ? req.body.email.toLowerCase() : null;
+
+/**
+ * The rate limiters of the sensitive endpoints.
+ */
+export const RateLimits = {
+    SignInByIp: rateLimit(getRateLimitOptions("signin_ip", 15 * 60, 30), byIp),
+    SignInByAccount: rateLimit(getRateLimitOptions("signin_account", 15 * 60, 10), byUsername),
+    SignUpByIp: rateLimit(getRateLimitOptions("signup_ip", 60 * 60, 10), byIp),
+    PasswordForgotByIp: rateLimit(getRateLimitOptions("password_forgot_ip", 60 * 60, 10), byIp),
+    PasswordForgotByEmail: rateLimit(
+        getRateLimitOptions("password_forgot_email", 60 * 60, 3),
+        byEmail
+    ),
+    PasswordResetByIp: rateLimit(getRateLimitOptions("password_reset_ip", 15 * 60, 10), byIp),
+    EmailVerifyByIp: rateLimit(getRateLimitOptions("email_verify_ip", 15 * 60, 10), byIp),
+    CommentCreate: rateLimit(getRateLimitOptions("comment_create", 60, 10), byUserOrIp),
+    ReviewCreate: rateLimit(getRateLimitOptions("review_create", 60 * 60, 20), byUserOrIp),
+};
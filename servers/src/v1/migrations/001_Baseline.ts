@@ -0,0 +1,214 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { ComicChapterViewTypeEnum } from "../interfaces/ComicChapterInterface";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { PermissionGroupEnum } from "../interfaces/PermissionGroupInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * The schema before migrations were introduced. Tables are only
+ * created whether they do not exist, so that databases which were
+ * set up by the former setupDatabase are adopted as they are.
+ */
+const Baseline: MigrationInterface = {
+    version: "001",
+    name: "baseline",
+
+    up: async (knex: Knex) => {
+        // Permission group
+        await createTable(
+            Tables.PermissionGroup,
+            (table) => {
+                table.increments("id").primary();
+                table.string("name").notNullable().unique();
+                table.text("description").notNullable();
+            },
+            knex
+        );
+
+        // Permissions
+        await createTable(
+            Tables.Permission,
+            (table) => {
+                table.increments(`id`).primary();
+                table.string(`name`).notNullable();
+                table.text(`description`).notNullable();
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.PermissionRelationship,
+            (table) => {
+                table.integer(`permissionGroup`);
+                table.integer(`permissionId`);
+                table.primary([`permissionGroup`, `permissionId`]);
+            },
+            knex
+        );
+
+        // Users
+        await createTable(
+            Tables.User,
+            (table) => {
+                table.increments("id").primary();
+                table.string(`username`).unique().notNullable();
+                table.string(`password`).notNullable();
+                table.string(`email`).unique().nullable();
+                table.string(`nickname`).nullable();
+                table.string(`introduction`).nullable();
+            },
+            knex
+        );
+
+        // User permissions
+        await createTable(
+            Tables.UserPermission,
+            (table) => {
+                table.integer(`userId`).primary();
+                table
+                    .integer(`permissionGroup`)
+                    .notNullable()
+                    .defaultTo(PermissionGroupEnum.USER);
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.Resource,
+            (table) => {
+                table.increments("id").primary();
+                table.string("originalName").notNullable();
+                table.string("fileName").notNullable();
+                table.string(`path`).notNullable();
+                table.integer(`size`).notNullable();
+                table.integer(`uploader`).notNullable();
+                table.dateTime(`uploadedAt`).notNullable().defaultTo(knex.fn.now());
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.Comic,
+            (table) => {
+                table.increments("id").primary();
+                table.string("name").notNullable().unique();
+                table.text(`description`).notNullable();
+                table.integer(`postedBy`).notNullable();
+                table.string(`author`).notNullable();
+                table.string(`category`).notNullable();
+                table.dateTime(`createdAt`).notNullable().defaultTo(knex.fn.now());
+                table.dateTime(`updatedAt`).notNullable().defaultTo(knex.fn.now());
+                table.integer(`thumbnail`).nullable();
+                table.integer(`views`).notNullable().defaultTo(0);
+                table.integer(`likes`).notNullable().defaultTo(0);
+                table.string(`slug`).notNullable();
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.ComicChapter,
+            (table) => {
+                table.increments("id").primary();
+                table.string("name").notNullable();
+                table.integer(`comicId`).notNullable();
+                table.integer(`postedBy`).notNullable();
+                table.dateTime(`createdAt`).notNullable().defaultTo(knex.fn.now());
+                table.dateTime(`updatedAt`).notNullable().defaultTo(knex.fn.now());
+                table
+                    .integer("viewType")
+                    .notNullable()
+                    .defaultTo(ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE);
+                table.integer("length").notNullable().defaultTo(0);
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.ComicChapterBlock,
+            (table) => {
+                table.increments("id").primary();
+                table.integer("chapterId").notNullable();
+                table.integer("index").notNullable();
+                table.text("content").notNullable();
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.ComicTag,
+            (table) => {
+                table.increments("id").primary();
+                table.string("keyword").notNullable();
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.FollowComic,
+            (table) => {
+                table.integer("userId");
+                table.integer("comicId");
+                table.primary([`userId`, `comicId`]);
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.ComicBookTag,
+            (table) => {
+                table.integer("comicId");
+                table.integer("tagId");
+                table.primary([`comicId`, `tagId`]);
+            },
+            knex
+        );
+
+        // Comment
+        await createTable(
+            Tables.ComicComment,
+            (table) => {
+                table.increments("id").primary();
+                table.integer("comicChapterId").notNullable();
+                table.integer("authorId").notNullable();
+                table.text("content").notNullable();
+                table.dateTime(`createdAt`).notNullable().defaultTo(knex.fn.now());
+            },
+            knex
+        );
+
+        // Comic review
+        await createTable(
+            Tables.ComicReview,
+            (table) => {
+                table.increments("id").primary();
+                table.integer("comicId").notNullable();
+                table.integer("userId").notNullable();
+                table.text("content").notNullable();
+                table.integer("rating").notNullable();
+                table.dateTime(`createdAt`).notNullable().defaultTo(knex.fn.now());
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.ComicReview);
+        await knex.schema.dropTableIfExists(Tables.ComicComment);
+        await knex.schema.dropTableIfExists(Tables.ComicBookTag);
+        await knex.schema.dropTableIfExists(Tables.FollowComic);
+        await knex.schema.dropTableIfExists(Tables.ComicTag);
+        await knex.schema.dropTableIfExists(Tables.ComicChapterBlock);
+        await knex.schema.dropTableIfExists(Tables.ComicChapter);
+        await knex.schema.dropTableIfExists(Tables.Comic);
+        await knex.schema.dropTableIfExists(Tables.Resource);
+        await knex.schema.dropTableIfExists(Tables.UserPermission);
+        await knex.schema.dropTableIfExists(Tables.User);
+        await knex.schema.dropTableIfExists(Tables.PermissionRelationship);
+        await knex.schema.dropTableIfExists(Tables.Permission);
+        await knex.schema.dropTableIfExists(Tables.PermissionGroup);
+    },
+};
+
+export default Baseline;
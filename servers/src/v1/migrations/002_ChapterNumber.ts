@@ -0,0 +1,29 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+
+/**
+ * Adds the chapterNumber column into comic chapters. Deployments
+ * created after the column was introduced already have it.
+ */
+const ChapterNumber: MigrationInterface = {
+    version: "002",
+    name: "chapter_number",
+
+    up: async (knex: Knex) => {
+        if (await knex.schema.hasColumn(Tables.ComicChapter, "chapterNumber")) {
+            return;
+        }
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.string("chapterNumber");
+        });
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.dropColumn("chapterNumber");
+        });
+    },
+};
+
+export default ChapterNumber;
@@ -0,0 +1,188 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { ForeignKeyInterface } from "../interfaces/ForeignKeyInterface";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { PermissionGroupEnum } from "../interfaces/PermissionGroupInterface";
+import { isSqliteClient } from "../utils/DatabaseBuilder";
+import { countOrphans } from "../utils/IntegrityUtils";
+
+/**
+ * Retrieves the foreign keys of the baseline tables. Referenced tables come
+ * first: sqlite rebuilds a table to add a constraint, and dropping a table
+ * which is already referenced would cascade into the referencing rows.
+ *
+ * @returns the baseline foreign keys
+ */
+export function getBaselineForeignKeys(): ForeignKeyInterface[] {
+    return [
+        {
+            table: Tables.PermissionRelationship,
+            column: "permissionGroup",
+            references: Tables.PermissionGroup,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.PermissionRelationship,
+            column: "permissionId",
+            references: Tables.Permission,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserPermission,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.UserPermission,
+            column: "permissionGroup",
+            references: Tables.PermissionGroup,
+            onDelete: "RESTRICT",
+            defaultTo: PermissionGroupEnum.USER,
+        },
+        {
+            table: Tables.Resource,
+            column: "uploader",
+            references: Tables.User,
+            onDelete: "RESTRICT",
+        },
+        {
+            table: Tables.Comic,
+            column: "postedBy",
+            references: Tables.User,
+            onDelete: "RESTRICT",
+        },
+        {
+            table: Tables.Comic,
+            column: "thumbnail",
+            references: Tables.Resource,
+            onDelete: "SET NULL",
+            nullable: true,
+        },
+        {
+            table: Tables.ComicChapter,
+            column: "comicId",
+            references: Tables.Comic,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicChapter,
+            column: "postedBy",
+            references: Tables.User,
+            onDelete: "RESTRICT",
+        },
+        {
+            table: Tables.ComicChapterBlock,
+            column: "chapterId",
+            references: Tables.ComicChapter,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicComment,
+            column: "comicChapterId",
+            references: Tables.ComicChapter,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicComment,
+            column: "authorId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicReview,
+            column: "comicId",
+            references: Tables.Comic,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicReview,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.FollowComic,
+            column: "userId",
+            references: Tables.User,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.FollowComic,
+            column: "comicId",
+            references: Tables.Comic,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicBookTag,
+            column: "comicId",
+            references: Tables.Comic,
+            onDelete: "CASCADE",
+        },
+        {
+            table: Tables.ComicBookTag,
+            column: "tagId",
+            references: Tables.ComicTag,
+            onDelete: "CASCADE",
+        },
+    ];
+}
+
+/**
+ * Declares referential integrity between the baseline tables.
+ */
+const ForeignKeysMigration: MigrationInterface = {
+    version: "003",
+    name: "foreign_keys",
+
+    up: async (knex: Knex) => {
+        // Constraints can not be added while orphan rows exist
+        const orphans: string[] = [];
+        for (const key of getBaselineForeignKeys()) {
+            const count = await countOrphans(key, knex);
+            if (count > 0) {
+                orphans.push(`${key.table}.${key.column} (${count})`);
+            }
+        }
+        if (orphans.length > 0) {
+            throw new Error(
+                `Orphan rows found in ${orphans.join(", ")}. ` +
+                    "Run `npm run integrity -- --repair` before migrating."
+            );
+        }
+
+        for (const key of getBaselineForeignKeys()) {
+            await knex.schema.alterTable(key.table, (table) => {
+                // Mysql requires the same type as the referenced id (unsigned)
+                if (!isSqliteClient(knex)) {
+                    const column = table.integer(key.column).unsigned();
+                    if (key.nullable) {
+                        column.nullable();
+                    } else {
+                        column.notNullable();
+                    }
+                    if (key.defaultTo !== undefined) {
+                        column.defaultTo(key.defaultTo);
+                    }
+                    column.alter();
+                }
+                table
+                    .foreign(key.column)
+                    .references("id")
+                    .inTable(key.references)
+                    .onDelete(key.onDelete);
+            });
+        }
+    },
+
+    down: async (knex: Knex) => {
+        // Referencing tables first, for the same reason as above
+        for (const key of getBaselineForeignKeys().reverse()) {
+            await knex.schema.alterTable(key.table, (table) => {
+                table.dropForeign(key.column);
+            });
+        }
+    },
+};
+
+export default ForeignKeysMigration;
@@ -0,0 +1,43 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores the sessions of signed in users. Each session owns a rotating
+ * refresh token, only its hash is stored.
+ */
+const UserSessions: MigrationInterface = {
+    version: "004",
+    name: "user_sessions",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.UserSession,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table.string("refreshTokenHash", 64).notNullable().unique();
+                table.string("userAgent").nullable();
+                table.string("ipAddress").nullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("lastUsedAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("expiresAt").notNullable();
+                table.dateTime("revokedAt").nullable();
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.UserSession);
+    },
+};
+
+export default UserSessions;
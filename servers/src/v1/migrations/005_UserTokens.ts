@@ -0,0 +1,47 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable, dropColumn } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores the single-use tokens sent by mail (password reset, email
+ * verification) and records when the email of a user was verified.
+ */
+const UserTokens: MigrationInterface = {
+    version: "005",
+    name: "user_tokens",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.UserToken,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table.string("type").notNullable();
+                table.string("tokenHash", 64).notNullable().unique();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("expiresAt").notNullable();
+                table.dateTime("usedAt").nullable();
+            },
+            knex
+        );
+
+        // Adding a column does not rebuild the table on sqlite
+        await knex.schema.alterTable(Tables.User, (table) => {
+            table.dateTime("emailVerifiedAt").nullable();
+        });
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.UserToken);
+        await dropColumn(Tables.User, "emailVerifiedAt", knex);
+    },
+};
+
+export default UserTokens;
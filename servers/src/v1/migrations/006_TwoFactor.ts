@@ -0,0 +1,59 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores the TOTP secrets and the recovery codes of the users
+ * who enrolled into two-factor authentication.
+ */
+const TwoFactor: MigrationInterface = {
+    version: "006",
+    name: "two_factor",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.UserTwoFactor,
+            (table) => {
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .primary()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table.string("secret").notNullable();
+                // The last accepted time step, a code can not be replayed
+                table.bigInteger("lastUsedStep").nullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("enabledAt").nullable();
+            },
+            knex
+        );
+
+        await createTable(
+            Tables.UserRecoveryCode,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table.string("codeHash", 64).notNullable();
+                table.dateTime("usedAt").nullable();
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.UserRecoveryCode);
+        await knex.schema.dropTableIfExists(Tables.UserTwoFactor);
+    },
+};
+
+export default TwoFactor;
@@ -0,0 +1,27 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { dropColumn } from "../utils/DatabaseBuilder";
+
+/**
+ * Records the failed sign in attempts of the users, which
+ * temporarily lock their account.
+ */
+const AccountLockout: MigrationInterface = {
+    version: "007",
+    name: "account_lockout",
+
+    up: async (knex: Knex) => {
+        await knex.schema.alterTable(Tables.User, (table) => {
+            table.integer("failedSignInCount").notNullable().defaultTo(0);
+            table.dateTime("lockedUntil").nullable();
+        });
+    },
+
+    down: async (knex: Knex) => {
+        await dropColumn(Tables.User, "lockedUntil", knex);
+        await dropColumn(Tables.User, "failedSignInCount", knex);
+    },
+};
+
+export default AccountLockout;
@@ -0,0 +1,43 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores the personal API keys of the users, which authenticate scripts
+ * and bots. Only the hash of a key is stored.
+ */
+const ApiKeys: MigrationInterface = {
+    version: "008",
+    name: "api_keys",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.UserApiKey,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table.string("name", 64).notNullable();
+                table.string("keyPrefix", 16).notNullable();
+                table.string("keyHash", 64).notNullable().unique();
+                table.text("scopes").nullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("lastUsedAt").nullable();
+                table.dateTime("revokedAt").nullable();
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.UserApiKey);
+    },
+};
+
+export default ApiKeys;
@@ -0,0 +1,54 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores the permissions which are granted to or denied from a single user,
+ * on top of the permission group of the user.
+ */
+const UserPermissionOverrides: MigrationInterface = {
+    version: "009",
+    name: "user_permission_overrides",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.UserPermissionOverride,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table
+                    .integer("permissionId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.Permission)
+                    .onDelete("CASCADE");
+                table.string("effect", 16).notNullable();
+                table.dateTime("expiresAt").nullable();
+                table
+                    .integer("createdBy")
+                    .unsigned()
+                    .nullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("SET NULL");
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.unique(["userId", "permissionId"]);
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.UserPermissionOverride);
+    },
+};
+
+export default UserPermissionOverrides;
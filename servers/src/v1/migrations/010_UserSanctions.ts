@@ -0,0 +1,56 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores the bans and the mutes of the users, including the lifted and the
+ * expired ones as a history.
+ */
+const UserSanctions: MigrationInterface = {
+    version: "010",
+    name: "user_sanctions",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.UserSanction,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("userId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("CASCADE");
+                table.string("type", 16).notNullable();
+                table.string("reason", 255).notNullable();
+                table
+                    .integer("issuedBy")
+                    .unsigned()
+                    .nullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("SET NULL");
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("expiresAt").nullable();
+                table.dateTime("liftedAt").nullable();
+                table
+                    .integer("liftedBy")
+                    .unsigned()
+                    .nullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("SET NULL");
+                table.index(["userId", "type"]);
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.UserSanction);
+    },
+};
+
+export default UserSanctions;
@@ -0,0 +1,44 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores an append-only trail of the administrative and the
+ * content-changing actions.
+ */
+const AuditLogs: MigrationInterface = {
+    version: "011",
+    name: "audit_logs",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.AuditLog,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("actorId")
+                    .unsigned()
+                    .nullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("SET NULL");
+                table.string("action", 64).notNullable().index();
+                table.string("targetType", 32).notNullable();
+                table.integer("targetId").unsigned().nullable();
+                table.text("before").nullable();
+                table.text("after").nullable();
+                table.string("ip", 45).nullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now()).index();
+                table.index(["targetType", "targetId"]);
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.AuditLog);
+    },
+};
+
+export default AuditLogs;
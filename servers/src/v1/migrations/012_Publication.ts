@@ -0,0 +1,38 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { dropColumn } from "../utils/DatabaseBuilder";
+
+/**
+ * Adds the publication status and the release time into comics and
+ * chapters. Existing contents are kept published since their creation.
+ */
+const Publication: MigrationInterface = {
+    version: "012",
+    name: "publication",
+
+    up: async (knex: Knex) => {
+        for (const tableName of [Tables.Comic, Tables.ComicChapter]) {
+            await knex.schema.alterTable(tableName, (table) => {
+                table.string("status", 16).notNullable().defaultTo("published");
+                table.dateTime("publishAt").nullable();
+                table.index(["status", "publishAt"]);
+            });
+            await knex(tableName)
+                .whereNull("publishAt")
+                .update({ publishAt: knex.raw("??", ["createdAt"]) });
+        }
+    },
+
+    down: async (knex: Knex) => {
+        for (const tableName of [Tables.Comic, Tables.ComicChapter]) {
+            await knex.schema.alterTable(tableName, (table) => {
+                table.dropIndex(["status", "publishAt"]);
+            });
+            await dropColumn(tableName, "status", knex);
+            await dropColumn(tableName, "publishAt", knex);
+        }
+    },
+};
+
+export default Publication;
@@ -0,0 +1,84 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { parseChapterIndex } from "../utils/ChapterUtils";
+import { addForeignKeyColumn, createTable, dropColumn } from "../utils/DatabaseBuilder";
+
+/**
+ * Adds the volumes of comics, and a sortable index into chapters which is
+ * parsed from the chapter numbers of existing chapters. The indexes are
+ * unique in each volume, the chapters whose index is already taken keep
+ * none and come last until they are reordered. The unique index does not
+ * cover the chapters without volume, as a NULL volume never collides: a
+ * removed volume (or comic) sets the volume of its chapters to NULL through
+ * the foreign key, so the application checks those once it locked the
+ * chapter positions of the comic.
+ */
+const Volumes: MigrationInterface = {
+    version: "013",
+    name: "volumes",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.ComicVolume,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("comicId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.Comic)
+                    .onDelete("CASCADE");
+                table.string("name", 255).notNullable();
+                table.decimal("number", 10, 3).notNullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.dateTime("updatedAt").notNullable().defaultTo(knex.fn.now());
+                table.unique(["comicId", "number"]);
+            },
+            knex
+        );
+        await addForeignKeyColumn(
+            {
+                table: Tables.ComicChapter,
+                column: "volumeId",
+                references: Tables.ComicVolume,
+                onDelete: "SET NULL",
+            },
+            knex
+        );
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.decimal("chapterIndex", 10, 3).nullable();
+            table.index(["comicId", "chapterIndex"]);
+        });
+
+        const chapters = await knex(Tables.ComicChapter)
+            .orderBy("id", "asc")
+            .select("id", "comicId", "chapterNumber");
+        const positions = new Set<string>();
+        for (const chapter of chapters) {
+            const chapterIndex = parseChapterIndex(chapter.chapterNumber);
+            const position = `${chapter.comicId}:${chapterIndex}`;
+            if (chapterIndex !== null && !positions.has(position)) {
+                positions.add(position);
+                await knex(Tables.ComicChapter).where({ id: chapter.id }).update({ chapterIndex });
+            }
+        }
+
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.unique(["comicId", "volumeId", "chapterIndex"]);
+        });
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.dropUnique(["comicId", "volumeId", "chapterIndex"]);
+            table.dropIndex(["comicId", "chapterIndex"]);
+        });
+        await dropColumn(Tables.ComicChapter, "chapterIndex", knex);
+        await dropColumn(Tables.ComicChapter, "volumeId", knex);
+        await knex.schema.dropTableIfExists(Tables.ComicVolume);
+    },
+};
+
+export default Volumes;
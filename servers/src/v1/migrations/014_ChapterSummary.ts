@@ -0,0 +1,25 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { dropColumn } from "../utils/DatabaseBuilder";
+
+/**
+ * Adds an optional summary into chapters, e.g. from the ComicInfo.xml file
+ * of an imported archive.
+ */
+const ChapterSummary: MigrationInterface = {
+    version: "014",
+    name: "chapter_summary",
+
+    up: async (knex: Knex) => {
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.text("summary").nullable();
+        });
+    },
+
+    down: async (knex: Knex) => {
+        await dropColumn(Tables.ComicChapter, "summary", knex);
+    },
+};
+
+export default ChapterSummary;
@@ -0,0 +1,44 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { ComicChapterViewTypeEnum } from "../interfaces/ComicChapterInterface";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { dropColumn } from "../utils/DatabaseBuilder";
+import { getRichTextStatistics, sanitizeRichText } from "../utils/RichTextUtils";
+
+/**
+ * Adds the word count and the estimated reading time into chapters, which
+ * are counted from the blocks of existing text chapters. The blocks
+ * themselves are sanitized by `npm run sanitize`.
+ */
+const ChapterWordCount: MigrationInterface = {
+    version: "015",
+    name: "chapter_word_count",
+
+    up: async (knex: Knex) => {
+        await knex.schema.alterTable(Tables.ComicChapter, (table) => {
+            table.integer("wordCount").unsigned().notNullable().defaultTo(0);
+            table.integer("readingTime").unsigned().notNullable().defaultTo(0);
+        });
+
+        const chapters = await knex(Tables.ComicChapter)
+            .select("id")
+            .where({ viewType: ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT });
+        for (const chapter of chapters) {
+            const blocks = await knex(Tables.ComicChapterBlock)
+                .select("content")
+                .where({ chapterId: chapter.id });
+            await knex(Tables.ComicChapter)
+                .where({ id: chapter.id })
+                .update(
+                    getRichTextStatistics(blocks.map(({ content }) => sanitizeRichText(content)))
+                );
+        }
+    },
+
+    down: async (knex: Knex) => {
+        await dropColumn(Tables.ComicChapter, "readingTime", knex);
+        await dropColumn(Tables.ComicChapter, "wordCount", knex);
+    },
+};
+
+export default ChapterWordCount;
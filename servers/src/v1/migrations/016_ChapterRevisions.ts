@@ -0,0 +1,55 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Stores an immutable revision of a chapter, its metadata and its blocks,
+ * whenever the chapter is created or updated. The existing chapters get
+ * their first revision on their next update.
+ */
+const ChapterRevisions: MigrationInterface = {
+    version: "016",
+    name: "chapter_revisions",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.ComicChapterRevision,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("chapterId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.ComicChapter)
+                    .onDelete("CASCADE");
+                table.integer("revision").unsigned().notNullable();
+                table.string("name", 255).notNullable();
+                table.string("chapterNumber", 255).nullable();
+                table.decimal("chapterIndex", 10, 3).nullable();
+                // The volume may be deleted afterwards, so it is not a reference
+                table.integer("volumeId").unsigned().nullable();
+                table.integer("viewType").notNullable();
+                table.text("blocks", "longtext").notNullable();
+                table
+                    .integer("createdBy")
+                    .unsigned()
+                    .nullable()
+                    .references("id")
+                    .inTable(Tables.User)
+                    .onDelete("SET NULL");
+                table.integer("restoredFrom").unsigned().nullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.unique(["chapterId", "revision"]);
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.ComicChapterRevision);
+    },
+};
+
+export default ChapterRevisions;
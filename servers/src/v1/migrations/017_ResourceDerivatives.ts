@@ -0,0 +1,45 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { createTable } from "../utils/DatabaseBuilder";
+
+/**
+ * Records the thumbnails, the medium sizes and the WebP copies of the image
+ * resources. The existing resources get them on their first request.
+ */
+const ResourceDerivatives: MigrationInterface = {
+    version: "017",
+    name: "resource_derivatives",
+
+    up: async (knex: Knex) => {
+        await createTable(
+            Tables.ResourceDerivative,
+            (table) => {
+                table.increments("id").primary();
+                table
+                    .integer("resourceId")
+                    .unsigned()
+                    .notNullable()
+                    .references("id")
+                    .inTable(Tables.Resource)
+                    .onDelete("CASCADE");
+                table.string("size", 16).notNullable();
+                table.string("format", 16).notNullable();
+                table.string("fileName", 255).notNullable();
+                table.string("path", 255).notNullable();
+                table.integer("width").unsigned().notNullable();
+                table.integer("height").unsigned().notNullable();
+                table.integer("fileSize").unsigned().notNullable();
+                table.dateTime("createdAt").notNullable().defaultTo(knex.fn.now());
+                table.unique(["resourceId", "size", "format"]);
+            },
+            knex
+        );
+    },
+
+    down: async (knex: Knex) => {
+        await knex.schema.dropTableIfExists(Tables.ResourceDerivative);
+    },
+};
+
+export default ResourceDerivatives;
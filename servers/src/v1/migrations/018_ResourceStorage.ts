@@ -0,0 +1,28 @@
+import { Knex } from "knex";
+import { Tables } from "../Database";
+import { MigrationInterface } from "../interfaces/MigrationInterface";
+import { dropColumn } from "../utils/DatabaseBuilder";
+
+/**
+ * Records the storage driver which holds the file of each resource and
+ * derivative, the existing files are on the local disk.
+ */
+const ResourceStorage: MigrationInterface = {
+    version: "018",
+    name: "resource_storage",
+
+    up: async (knex: Knex) => {
+        for (const tableName of [Tables.Resource, Tables.ResourceDerivative]) {
+            await knex.schema.alterTable(tableName, (table) => {
+                table.string("storage", 16).notNullable().defaultTo("local");
+            });
+        }
+    },
+
+    down: async (knex: Knex) => {
+        await dropColumn(Tables.ResourceDerivative, "storage", knex);
+        await dropColumn(Tables.Resource, "storage", knex);
+    },
+};
+
+export default ResourceStorage;
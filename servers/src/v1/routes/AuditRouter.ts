@@ -0,0 +1,16 @@
+import express from "express";
+import { getAuth } from "../middlewares/AuthMiddleware";
+import { requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
+import { AuditFunction } from "./functions/AuditFunction";
+const router = express.Router();
+
+router.get(
+    `/`,
+    getAuth,
+    requirePermission(PermissionEnum.AUDIT_LOG_READ),
+    AuditFunction.getAuditLogs
+);
+
+const AuditRouter = router;
+export default AuditRouter;
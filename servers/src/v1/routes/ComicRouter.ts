@@ -1,38 +1,170 @@
 import { ComicFunction } from "./functions/ComicFunction";
 import express from "express";
 import { getAuth } from "../middlewares/AuthMiddleware";
+import { requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
+import multer from "multer";
+import { Locale } from "../Locale";
+import { MiddlewareError } from "../errors/MiddlewareError";
+import { getMaxArchiveSize } from "../utils/ArchiveUtils";
 const router = express.Router();
 
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: getMaxArchiveSize(), files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.(zip|cbz)$/i.test(file.originalname)) {
+      return cb(null, true);
+    }
+    cb(
+      new MiddlewareError(Locale.HttpResponseMessage.InvalidChapterArchive, 400)
+    );
+  },
+});
+
+/**
+ * Reads a chapter archive from the file field into req.file, the rejected
+ * uploads are responded with a bad request.
+ */
+function uploadArchive(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  archiveUpload.single("file")(req, res, (err) => {
+    if (err) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.InvalidChapterArchive,
+          400
+        )
+      );
+    }
+    next();
+  });
+}
+
 router.get("/following", ComicFunction.getFollowingComics);
 router.get("/trending", ComicFunction.getAllComicTrending);
-router.get("/user/:id", ComicFunction.getComicByUser);
+router.get("/user/:id", getAuth, ComicFunction.getComicByUser);
 
 /**
  *
  * Increase the view count 1 unit
  */
-router.post(`/:id/viewed`, ComicFunction.increaseComicView);
+router.post(`/:id/viewed`, getAuth, ComicFunction.increaseComicView);
 router.post("/:id/follow/", getAuth, ComicFunction.followComic);
 router.get("/:id/follow/", getAuth, ComicFunction.getFollowState);
 router.get(`/view-count`, ComicFunction.countView);
-router.post(`/tags/`, getAuth, ComicFunction.createNewTag);
-router.put(`/tags/:id`, getAuth, ComicFunction.updateTag);
-router.delete(`/tags/:id`, getAuth, ComicFunction.deleteTag);
+router.post(
+  `/tags/`,
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_TAG_CREATE),
+  ComicFunction.createNewTag
+);
+router.put(
+  `/tags/:id`,
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_TAG_UPDATE),
+  ComicFunction.updateTag
+);
+router.delete(
+  `/tags/:id`,
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_TAG_DELETE),
+  ComicFunction.deleteTag
+);
 router.get(`/tags/`, ComicFunction.getAllTags);
 router.get("/", ComicFunction.getAllComics);
-router.post("/", getAuth, ComicFunction.createNewComic);
+router.post(
+  "/",
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_CREATE),
+  ComicFunction.createNewComic
+);
 router.get("/chapters/newest", ComicFunction.getNewestChapters);
 router.get("/trending", ComicFunction.getAllComicTrending);
 router.put(`/:id`, getAuth, ComicFunction.updateComicById);
+router.put(`/:id/publication`, getAuth, ComicFunction.updateComicPublication);
 router.delete(`/:id`, getAuth, ComicFunction.deleteComicById);
-router.get(`/:id/chapters`, ComicFunction.getChapter);
+router.get(`/:id/chapters`, getAuth, ComicFunction.getChapter);
 router.post(`/:id/chapters`, getAuth, ComicFunction.createChapter);
+router.put(`/:id/chapters/order`, getAuth, ComicFunction.reorderChapters);
+router.post(
+  `/:id/chapters/import`,
+  getAuth,
+  requirePermission(PermissionEnum.RESOURCE_CREATE),
+  uploadArchive,
+  ComicFunction.importChapter
+);
 router.put(`/:id/chapters/:chapterId`, getAuth, ComicFunction.updateChapter);
+router.put(
+  `/:id/chapters/:chapterId/publication`,
+  getAuth,
+  ComicFunction.updateChapterPublication
+);
 router.delete(`/:id/chapters/:chapterId`, getAuth, ComicFunction.deleteChapter);
-router.get(`/:id/chapters/:chapterId`, ComicFunction.getChapterById);
+router.post(
+  `/:id/chapters/:chapterId/blocks`,
+  getAuth,
+  ComicFunction.insertChapterBlock
+);
+router.post(
+  `/:id/chapters/:chapterId/blocks/batch`,
+  getAuth,
+  ComicFunction.batchChapterBlocks
+);
+router.put(
+  `/:id/chapters/:chapterId/blocks/:blockId`,
+  getAuth,
+  ComicFunction.replaceChapterBlock
+);
+router.put(
+  `/:id/chapters/:chapterId/blocks/:blockId/move`,
+  getAuth,
+  ComicFunction.moveChapterBlock
+);
+router.delete(
+  `/:id/chapters/:chapterId/blocks/:blockId`,
+  getAuth,
+  ComicFunction.deleteChapterBlock
+);
+router.get(
+  `/:id/chapters/:chapterId/revisions`,
+  getAuth,
+  ComicFunction.getChapterRevisions
+);
+router.get(
+  `/:id/chapters/:chapterId/revisions/diff`,
+  getAuth,
+  ComicFunction.getChapterRevisionDiff
+);
+router.post(
+  `/:id/chapters/:chapterId/revisions/:revision/restore`,
+  getAuth,
+  ComicFunction.restoreChapterRevision
+);
+router.get(`/:id/chapters/:chapterId`, getAuth, ComicFunction.getChapterById);
+router.get(
+  `/:id/chapters/:chapterId/export`,
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_EXPORT),
+  ComicFunction.exportChapter
+);
+router.get(
+  `/:id/export`,
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_EXPORT),
+  ComicFunction.exportComic
+);
+router.get(`/:id/volumes`, getAuth, ComicFunction.getVolumes);
+router.post(`/:id/volumes`, getAuth, ComicFunction.createVolume);
+router.put(`/:id/volumes/order`, getAuth, ComicFunction.reorderVolumes);
+router.put(`/:id/volumes/:volumeId`, getAuth, ComicFunction.updateVolume);
+router.delete(`/:id/volumes/:volumeId`, getAuth, ComicFunction.deleteVolume);
 
-router.get(`/:id`, ComicFunction.getComicById);
-router.get(`/slug/:slug`, ComicFunction.getComicBySlug);
+router.get(`/:id`, getAuth, ComicFunction.getComicById);
+router.get(`/slug/:slug`, getAuth, ComicFunction.getComicBySlug);
 
 const ComicRouter = router;
 export default ComicRouter;
@@ -1,20 +1,29 @@
 import express from "express";
 import { getAuth } from "../middlewares/AuthMiddleware";
+import { requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
+import { RateLimits } from "../middlewares/RateLimitMiddleware";
 import CommentFunction from "./functions/CommentFunction";
 const router = express.Router();
 
 /**
  * Create new comment for the comic chapter
  */
-router.post(`/:chapterId/comments/`, getAuth, CommentFunction.createComment);
+router.post(
+  `/:chapterId/comments/`,
+  getAuth,
+  requirePermission(PermissionEnum.COMIC_CHAPTER_COMMENT),
+  RateLimits.CommentCreate,
+  CommentFunction.createComment
+);
 /**
  * Get comment from comment id
  */
-router.get(`/comment/:commentId`, CommentFunction.getCommentByCommentId);
+router.get(`/comment/:commentId`, getAuth, CommentFunction.getCommentByCommentId);
 /**
  * Get all comments for a specific comic chapter
  */
-router.get(`/chapter/:chapterId`, CommentFunction.getAllComments);
+router.get(`/chapter/:chapterId`, getAuth, CommentFunction.getAllComments);
 /**
  * Updates the comments
  */
@@ -3,6 +3,8 @@ import { Locale } from "./../Locale";
 import { MiddlewareError } from "./../errors/MiddlewareError";
 import express from "express";
 import { getAuth, requestAuthenticate } from "../middlewares/AuthMiddleware";
+import { requireAny, requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
 import { PermissionFunction } from "./functions/PermissionFunction";
 const router = express.Router();
 
@@ -17,15 +19,55 @@ router.get(`/roles`, requestAuthenticate, PermissionFunction.getAllRoles);
 
 router.get(`/roles/:roleId`, PermissionFunction.getRoleById);
 
-router.post(`/roles`, getAuth, PermissionFunction.createNewRole);
+/**
+ * Retrieves the members of a role
+ */
+router.get(
+    `/roles/:roleId/users`,
+    requestAuthenticate,
+    requireAny(PermissionEnum.ROLE_UPDATE, PermissionEnum.USER_ROLE_CHANGE),
+    PermissionFunction.getRoleUsers
+);
 
-router.post(`/roles/grant`, getAuth, PermissionFunction.grantPermissionToRole);
+router.post(
+    `/roles`,
+    getAuth,
+    requirePermission(PermissionEnum.ADMIN_CREATE_PERMISSION_GROUP),
+    PermissionFunction.createNewRole
+);
+
+router.post(
+    `/roles/grant`,
+    getAuth,
+    requirePermission(PermissionEnum.GRANT_PERMISSION_TO_GROUP),
+    PermissionFunction.grantPermissionToRole
+);
 /**
  * Revokes permissions from group
  */
 router.delete(
     `/roles/revoke`,
     getAuth,
+    requirePermission(PermissionEnum.REVOKE_PERMISSION_FROM_GROUP),
     PermissionFunction.revokePermissionsFromGroup
 );
+
+/**
+ * Updates the name and the description of a role
+ */
+router.put(
+    `/roles/:roleId`,
+    getAuth,
+    requirePermission(PermissionEnum.ROLE_UPDATE),
+    PermissionFunction.updateRole
+);
+/**
+ * Deletes a role, its members are moved into a fallback role
+ */
+router.delete(
+    `/roles/:roleId`,
+    getAuth,
+    requirePermission(PermissionEnum.ROLE_DELETE),
+    PermissionFunction.deleteRole
+);
 export const PermissionRouter = router;
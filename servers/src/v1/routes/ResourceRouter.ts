@@ -1,30 +1,21 @@
-import fs from "fs";
 import { Locale } from "./../Locale";
 import express from "express";
 import { getAuth } from "../middlewares/AuthMiddleware";
+import { requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
 import multer from "multer";
 import path from "path";
-import { v4 as uuid } from "uuid";
 import { ResourceFunction } from "./functions/ResourceFunction";
+import { MiddlewareError } from "../errors/MiddlewareError";
+import ImageUtils from "../utils/ImageUtils";
 const router = express.Router();
 
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    const uploadDirectory = process.env.UPLOAD_DIR || "./tmp/uploads/";
-
-    // Make directory if not exists
-    if (!fs.existsSync(uploadDirectory))
-      fs.mkdirSync(uploadDirectory, { recursive: true });
-    // Upload directory
-    cb(null, uploadDirectory);
-  },
-  filename: (_req, file, cb) => {
-    // Using uuid to generate a unique filename. Add with extension to avoid file name conflict.
-    cb(null, `${uuid()}${path.extname(file.originalname)}`);
-  },
-});
+// The files are kept in memory, then processed and written into the
+// configured storage driver
+const storage = multer.memoryStorage();
 const upload = multer({
   storage,
+  limits: ImageUtils.getUploadLimits(),
   fileFilter: (_req, file, cb) => {
     const fileTypes = /jpeg|jpg|png|gif/;
     const extname = fileTypes.test(
@@ -38,17 +29,58 @@ const upload = multer({
   },
 });
 
-router.get("/", getAuth, ResourceFunction.getAllResources);
+/**
+ * Reads the uploaded images from the files field into req.files, the uploads
+ * which exceed the limits are responded with a payload too large.
+ */
+function uploadResources(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  upload.array("files")(req, res, (err) => {
+    if (
+      err instanceof multer.MulterError &&
+      ["LIMIT_FILE_SIZE", "LIMIT_FILE_COUNT"].indexOf(err.code) !== -1
+    ) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.ResourceUploadTooLarge,
+          413
+        )
+      );
+    }
+    next(err);
+  });
+}
+
+router.get(
+  "/",
+  getAuth,
+  requirePermission(PermissionEnum.RESOURCE_ACCESS_ALL),
+  ResourceFunction.getAllResources
+);
 router.post(
   `/`,
   getAuth,
-  upload.array("files"),
+  requirePermission(PermissionEnum.RESOURCE_CREATE),
+  uploadResources,
   ResourceFunction.handleUploadResource
 );
 router.get(`/:id`, ResourceFunction.getBufferResource);
 router.get(`/metadata/:id`, ResourceFunction.getMetadataResource);
-router.put(`/metadata/:id`, getAuth, ResourceFunction.updateResource);
-router.delete(`/:id`, getAuth, ResourceFunction.deleteResource);
+router.put(
+  `/metadata/:id`,
+  getAuth,
+  requirePermission(PermissionEnum.RESOURCE_UPDATE),
+  ResourceFunction.updateResource
+);
+router.delete(
+  `/:id`,
+  getAuth,
+  requirePermission(PermissionEnum.RESOURCE_DELETE),
+  ResourceFunction.deleteResource
+);
 
 const ResourceRouter = router;
 export default ResourceRouter;
@@ -1,11 +1,20 @@
 import express from "express";
 import { getAuth } from "../middlewares/AuthMiddleware";
+import { requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
+import { RateLimits } from "../middlewares/RateLimitMiddleware";
 import ReviewFunction from "./functions/ReviewFunction";
 const router = express.Router();
 
-router.post(`/`, getAuth, ReviewFunction.createReview);
-router.get(`/review/:reviewId`, ReviewFunction.getReviewById);
-router.get(`/comic/:comicId`, ReviewFunction.getReviewsByComicId);
+router.post(
+    `/`,
+    getAuth,
+    requirePermission(PermissionEnum.REVIEW_CREATE),
+    RateLimits.ReviewCreate,
+    ReviewFunction.createReview
+);
+router.get(`/review/:reviewId`, getAuth, ReviewFunction.getReviewById);
+router.get(`/comic/:comicId`, getAuth, ReviewFunction.getReviewsByComicId);
 router.put(`/:reviewId`, getAuth, ReviewFunction.updateReview);
 router.delete(`/:reviewId`, getAuth, ReviewFunction.deleteReview);
 router.get("/user/:userId", ReviewFunction.getReviewsByUserId);
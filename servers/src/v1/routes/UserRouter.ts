@@ -1,18 +1,137 @@
 import express from "express";
-import { getAuth } from "../middlewares/AuthMiddleware";
+import {
+    getAuth,
+    getTwoFactorEnrollmentAuth,
+    requireSession,
+} from "../middlewares/AuthMiddleware";
+import { RateLimits } from "../middlewares/RateLimitMiddleware";
+import { requireAny, requirePermission } from "../middlewares/PermissionMiddleware";
+import { PermissionEnum } from "../interfaces/PermissionInterface";
 import { UserFunction } from "./functions/UserFunction";
 const router = express.Router();
 
-router.get(`/profile`, getAuth, UserFunction.getProfile);
+router.get(`/profile`, getTwoFactorEnrollmentAuth, UserFunction.getProfile);
 
-router.post(`/signup`, UserFunction.signUp);
-router.post(`/signin`, UserFunction.signIn);
-router.post(`/permissions/`, getAuth, UserFunction.setPermissionGroupUser);
+router.post(`/signup`, RateLimits.SignUpByIp, UserFunction.signUp);
+router.post(
+    `/signin`,
+    RateLimits.SignInByIp,
+    RateLimits.SignInByAccount,
+    UserFunction.signIn
+);
+router.post(`/signin/two-factor`, RateLimits.SignInByIp, UserFunction.signInTwoFactor);
+router.post(`/refresh`, UserFunction.refreshToken);
+router.post(`/logout`, getTwoFactorEnrollmentAuth, requireSession, UserFunction.signOut);
+router.post(
+    `/password/forgot`,
+    RateLimits.PasswordForgotByIp,
+    RateLimits.PasswordForgotByEmail,
+    UserFunction.forgotPassword
+);
+router.post(`/password/reset`, RateLimits.PasswordResetByIp, UserFunction.resetPassword);
+router.post(`/email/verify`, RateLimits.EmailVerifyByIp, UserFunction.verifyEmail);
+router.post(`/email/resend`, getAuth, UserFunction.resendEmailVerification);
 
-router.put(`/profile`, getAuth, UserFunction.updateProfile);
-router.put(`/change-password`, getAuth, UserFunction.updateUserPassword);
+router.get(`/two-factor`, getTwoFactorEnrollmentAuth, UserFunction.getTwoFactorStatus);
+router.post(
+    `/two-factor/setup`,
+    getTwoFactorEnrollmentAuth,
+    requireSession,
+    UserFunction.setupTwoFactor
+);
+router.post(
+    `/two-factor/enable`,
+    getTwoFactorEnrollmentAuth,
+    requireSession,
+    UserFunction.enableTwoFactor
+);
+router.post(`/two-factor/disable`, getAuth, requireSession, UserFunction.disableTwoFactor);
+router.post(
+    `/two-factor/recovery-codes`,
+    getAuth,
+    requireSession,
+    UserFunction.regenerateRecoveryCodes
+);
+router.post(
+    `/permissions/`,
+    getAuth,
+    requirePermission(PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP),
+    UserFunction.setPermissionGroupUser
+);
+
+router.put(
+    `/profile`,
+    getAuth,
+    requirePermission(PermissionEnum.USER_UPDATE_PROFILE),
+    UserFunction.updateProfile
+);
+router.put(
+    `/change-password`,
+    getAuth,
+    requireSession,
+    requirePermission(PermissionEnum.USER_UPDATE_PROFILE),
+    UserFunction.updateUserPassword
+);
 router.get(`/`, getAuth, UserFunction.getAllUsers);
 
+router.get(`/sessions`, getAuth, requireSession, UserFunction.getSessions);
+router.delete(`/sessions/:id`, getAuth, requireSession, UserFunction.revokeSession);
+
+router.get(`/api-keys`, getAuth, requireSession, UserFunction.getApiKeys);
+router.post(`/api-keys`, getAuth, requireSession, UserFunction.createApiKey);
+router.delete(`/api-keys/:id`, getAuth, requireSession, UserFunction.revokeApiKey);
+
+router.get(`/permissions/effective`, getAuth, UserFunction.getEffectivePermissions);
+router.get(
+    `/:id/permissions/effective`,
+    getAuth,
+    requirePermission(PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP),
+    UserFunction.getUserEffectivePermissions
+);
+router.get(
+    `/:id/permissions/overrides`,
+    getAuth,
+    requirePermission(PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP),
+    UserFunction.getPermissionOverrides
+);
+router.put(
+    `/:id/permissions/overrides/:permissionId`,
+    getAuth,
+    requirePermission(PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP),
+    UserFunction.setPermissionOverride
+);
+router.delete(
+    `/:id/permissions/overrides/:permissionId`,
+    getAuth,
+    requirePermission(PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP),
+    UserFunction.deletePermissionOverride
+);
+
+router.get(
+    `/sanctions`,
+    getAuth,
+    requireAny(PermissionEnum.USER_BAN, PermissionEnum.USER_MUTE),
+    UserFunction.getActiveSanctions
+);
+router.delete(
+    `/sanctions/:sanctionId`,
+    getAuth,
+    requireAny(PermissionEnum.USER_BAN, PermissionEnum.USER_MUTE),
+    UserFunction.liftSanction
+);
+router.get(
+    `/:id/sanctions`,
+    getAuth,
+    requireAny(PermissionEnum.USER_BAN, PermissionEnum.USER_MUTE),
+    UserFunction.getSanctions
+);
+router.post(
+    `/:id/sanctions`,
+    getAuth,
+    requireAny(PermissionEnum.USER_BAN, PermissionEnum.USER_MUTE),
+    UserFunction.createSanction
+);
+
 router.get("/:id", UserFunction.getUserFromId);
 
 router.get("/detail/:id", UserFunction.getUserDetail);
@@ -0,0 +1,93 @@
+import express from "express";
+import { Locale } from "../../Locale";
+import { MiddlewareError } from "../../errors/MiddlewareError";
+import { parseQueryInteger } from "../../utils/ValidatorUtils";
+import { AuditLogController } from "../../controllers/AuditLogController";
+import {
+    AuditActionEnum,
+    AuditLogFilterInterface,
+    AuditTargetTypeEnum,
+} from "../../interfaces/AuditLogInterface";
+
+/**
+ * A maximum number of records of a page.
+ */
+const MaxAuditLogLimit = 100;
+
+/**
+ * Check whether a value is one of the values of an enum.
+ *
+ * @param enumObject an enum of string values
+ * @param value a value to check
+ * @returns true whether the value belongs to the enum
+ */
+function isEnumValue(enumObject: object, value: any): boolean {
+    return Object.keys(enumObject).some((key) => enumObject[key] === value);
+}
+
+/**
+ * Parses an optional identifier or date of a query string.
+ *
+ * @param value a value of the query string
+ * @param parse a function to parse the value
+ * @returns the parsed value, undefined whether not provided, null whether invalid
+ */
+function parseOptional<T>(value: any, parse: (value: string) => T): T {
+    if (value === undefined) {
+        return undefined;
+    }
+    const parsed = parse(String(value));
+    return isNaN(Number(parsed)) ? null : parsed;
+}
+
+/**
+ * Parses the filters of the audit log from a query string.
+ *
+ * @param query a query string of the request
+ * @returns the filters, null whether one of them is invalid
+ */
+function parseFilter(query: any): AuditLogFilterInterface {
+    const { action, targetType } = query;
+    if (action !== undefined && !isEnumValue(AuditActionEnum, action)) {
+        return null;
+    }
+    if (targetType !== undefined && !isEnumValue(AuditTargetTypeEnum, targetType)) {
+        return null;
+    }
+
+    const filter: AuditLogFilterInterface = {
+        action,
+        targetType,
+        actorId: parseOptional(query.actorId, parseInt),
+        targetId: parseOptional(query.targetId, parseInt),
+        from: parseOptional(query.from, (value) => new Date(value)),
+        to: parseOptional(query.to, (value) => new Date(value)),
+    };
+    return Object.keys(filter).some((key) => filter[key] === null) ? null : filter;
+}
+
+async function getAuditLogs(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const filter = parseFilter(req.query);
+        if (!filter) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidAuditLogFilter, 400));
+        }
+
+        const limit = parseQueryInteger(req.query.limit, 20, 1, MaxAuditLogLimit);
+        const page = parseQueryInteger(req.query.page, 0, 0);
+        res.json({
+            length: await AuditLogController.countAuditLogs(filter),
+            logs: await AuditLogController.getAuditLogs(filter, limit, page),
+        });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+export const AuditFunction = {
+    getAuditLogs,
+};
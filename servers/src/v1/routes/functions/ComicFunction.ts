@@ -1,4 +1,9 @@
-import { ComicChapterViewTypeEnum } from "./../../interfaces/ComicChapterInterface";
+import path from "path";
+import { v4 as uuid } from "uuid";
+import {
+  ComicChapterInterface,
+  ComicChapterViewTypeEnum,
+} from "./../../interfaces/ComicChapterInterface";
 import { User } from "./../../classes/User";
 import { PermissionEnum } from "./../../interfaces/PermissionInterface";
 import { ComicInterface } from "./../../interfaces/ComicInterface";
@@ -9,13 +14,613 @@ import ResourceController from "../../controllers/ResourceController";
 import ComicChapterController from "../../controllers/ComicChapterController";
 import ComicTagController from "../../controllers/ComicTagController";
 import ComicBookTagController from "../../controllers/ComicBookTagController";
+import { Authorization, OwnershipRules } from "../../Authorization";
+import { Audit } from "../../Audit";
+import {
+  AuditActionEnum,
+  AuditTargetTypeEnum,
+} from "../../interfaces/AuditLogInterface";
+import {
+  PublicationInterface,
+  PublicationStatusEnum,
+} from "../../interfaces/PublicationInterface";
+import {
+  getPublication,
+  isPublicationStatus,
+  isPublic,
+} from "../../utils/PublicationUtils";
+import ComicVolumeController from "../../controllers/ComicVolumeController";
+import {
+  ComicChapterOrderInterface,
+  ComicVolumeInterface,
+  ComicVolumeOrderInterface,
+} from "../../interfaces/ComicVolumeInterface";
+import { parseChapterIndex, parseIndex } from "../../utils/ChapterUtils";
+import { ResourceInterface } from "../../interfaces/ResourceInterface";
+import { ChapterArchiveImageInterface } from "../../interfaces/ChapterArchiveInterface";
+import { readChapterArchive } from "../../utils/ArchiveUtils";
+import ImageUtils from "../../utils/ImageUtils";
+import slugify from "slugify";
+import { ComicExport } from "../../ComicExport";
+import { ResourceDerivatives } from "../../ResourceDerivatives";
+import { getStorageDriver } from "../../Storage";
+import { ImageFormatEnum } from "../../interfaces/ResourceDerivativeInterface";
+import { ExportFormatEnum } from "../../interfaces/ExportInterface";
+import { ExportMediaTypes, isExportFormat } from "../../utils/ExportUtils";
+import { RichTextFormatEnum } from "../../interfaces/RichTextInterface";
+import { isRichTextFormat, renderRichText } from "../../utils/RichTextUtils";
+import ComicChapterRevisionController from "../../controllers/ComicChapterRevisionController";
+import { ComicChapterRevisionDiffInterface } from "../../interfaces/ComicChapterRevisionInterface";
+import {
+  diffRevisionBlocks,
+  diffRevisionFields,
+} from "../../utils/RevisionUtils";
+import ComicChapterBlockController from "../../controllers/ComicChapterBlockController";
+import {
+  ComicChapterBlockOperationInterface,
+  ComicChapterBlockOperationTypeEnum,
+} from "../../interfaces/ComicChapterBlockInterface";
+import {
+  isBlockOperationType,
+  MaxBlockOperations,
+} from "../../utils/ChapterBlockUtils";
+import { parseQueryInteger } from "../../utils/ValidatorUtils";
+
+/**
+ * Retrieves a chapter to record into the audit log, the blocks are
+ * reduced to their contents since they are recreated on every update.
+ *
+ * @param chapter a chapter with its blocks
+ * @returns a copy of the chapter
+ */
+function getChapterAuditRecord(chapter: any) {
+  return {
+    ...chapter,
+    blocks: (chapter.blocks || []).map(({ index, content }) => ({
+      index,
+      content,
+    })),
+  };
+}
+
+/**
+ * Retrieves the publication fields from a request body. Whether only a
+ * publishAt time is provided, the content is scheduled.
+ *
+ * @param body a request body with optional status and publishAt
+ * @param current current publication fields of the content, if any
+ * @returns the publication fields, the current ones (or published) whether
+ *  nothing is provided, undefined whether the values are invalid
+ */
+function getRequestPublication(
+  body: any,
+  current?: Partial<PublicationInterface>
+): PublicationInterface {
+  const { status, publishAt } = body;
+  if (status === undefined && publishAt === undefined) {
+    return current
+      ? { status: current.status, publishAt: current.publishAt }
+      : getPublication(PublicationStatusEnum.PUBLISHED);
+  }
+
+  const newStatus =
+    status === undefined ? PublicationStatusEnum.SCHEDULED : status;
+  if (!isPublicationStatus(newStatus)) {
+    return undefined;
+  }
+  if (newStatus !== PublicationStatusEnum.SCHEDULED) {
+    return getPublication(newStatus, null, current);
+  }
+
+  // A scheduled release must be in the future
+  const date = new Date(publishAt);
+  if (
+    (typeof publishAt !== "string" && typeof publishAt !== "number") ||
+    isNaN(date.getTime()) ||
+    date.getTime() <= Date.now()
+  ) {
+    return undefined;
+  }
+  return getPublication(newStatus, date, current);
+}
+
+/**
+ * Retrieves the format of the chapter content from a request body.
+ *
+ * @param body a request body with an optional format, html by default
+ * @returns the format, undefined whether the format is invalid
+ */
+function getRequestContentFormat(body): RichTextFormatEnum {
+  const format = body.format ?? RichTextFormatEnum.HTML;
+  return isRichTextFormat(format) ? format : undefined;
+}
+
+/**
+ * Converts the contents of the blocks of a text chapter into sanitized HTML.
+ *
+ * @param blocks the blocks from a request body
+ * @param format a format of the contents
+ * @returns the blocks with the converted contents
+ */
+function renderTextBlocks(blocks: any, format: RichTextFormatEnum): any {
+  if (!Array.isArray(blocks)) {
+    return blocks;
+  }
+  return blocks.map((block) => ({
+    ...block,
+    content: renderRichText(block.content, format),
+  }));
+}
+
+/**
+ * Checks whether a user can modify a chapter, its blocks and its revisions.
+ *
+ * @param user a user of the request
+ * @param comicId a identifier of the comic
+ * @param chapter a chapter, null whether it does not exist
+ * @returns an error to respond, null whether the user can modify it
+ */
+async function getChapterModificationError(
+  user: User,
+  comicId: number,
+  chapter: ComicChapterInterface
+): Promise<MiddlewareError> {
+  if (!user) {
+    return new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401);
+  }
+  if (!chapter || Number(chapter.comicId) !== Number(comicId)) {
+    return new MiddlewareError(
+      Locale.HttpResponseMessage.ComicChapterNotFound,
+      404
+    );
+  }
+  const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+  if (
+    !(await Authorization.canModify(
+      user,
+      [chapter.postedBy, comicOwnerId],
+      OwnershipRules.Chapter
+    ))
+  ) {
+    return new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403);
+  }
+  return null;
+}
+
+/**
+ * Parses a revision number.
+ *
+ * @param revision a revision number from a request
+ * @returns the number, undefined whether it is not a positive integer
+ */
+function parseRevision(revision: any): number {
+  const value = Number(revision);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Parses the block operations from a request body. The contents of a text
+ * chapter are converted into sanitized HTML.
+ *
+ * @param operations the operations from a request body
+ * @param format a format of the contents
+ * @param isText true whether the chapter is a text chapter
+ * @returns the operations, undefined whether an operation is invalid
+ */
+function getRequestBlockOperations(
+  operations: any,
+  format: RichTextFormatEnum,
+  isText: boolean
+): ComicChapterBlockOperationInterface[] {
+  if (
+    !Array.isArray(operations) ||
+    operations.length === 0 ||
+    operations.length > MaxBlockOperations
+  ) {
+    return undefined;
+  }
+  const isPosition = (value: any) =>
+    Number.isInteger(Number(value)) && Number(value) >= 0;
+  const parsed: ComicChapterBlockOperationInterface[] = [];
+  for (const operation of operations) {
+    const { type, blockId, index, content } = operation || ({} as any);
+    if (!isBlockOperationType(type)) {
+      return undefined;
+    }
+    const hasBlock = type !== ComicChapterBlockOperationTypeEnum.INSERT;
+    const hasIndex =
+      type === ComicChapterBlockOperationTypeEnum.MOVE ||
+      (type === ComicChapterBlockOperationTypeEnum.INSERT &&
+        index !== undefined);
+    const hasContent =
+      type === ComicChapterBlockOperationTypeEnum.INSERT ||
+      type === ComicChapterBlockOperationTypeEnum.REPLACE;
+    if (
+      (hasBlock && !(isPosition(blockId) && Number(blockId) > 0)) ||
+      (hasIndex && !isPosition(index)) ||
+      (hasContent && (typeof content !== "string" || content.length === 0))
+    ) {
+      return undefined;
+    }
+    parsed.push({
+      type,
+      blockId: hasBlock ? Number(blockId) : undefined,
+      index: hasIndex ? Number(index) : undefined,
+      content: hasContent && isText ? renderRichText(content, format) : content,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Applies some block operations to a chapter and responds with the
+ * updated chapter and its blocks.
+ *
+ * @param req a request of a chapter
+ * @param res a response
+ * @param next a next function
+ * @param operations the operations from the request
+ */
+async function editChapterBlocks(req, res, next, operations: any) {
+  try {
+    const user: User = req["UserRequest"];
+    const comicId: number = req.params.id;
+    const chapterId: number = req.params.chapterId;
+    const chapter = await ComicChapterController.getChapter(chapterId);
+    const accessError = await getChapterModificationError(
+      user,
+      comicId,
+      chapter
+    );
+    if (accessError) {
+      return next(accessError);
+    }
+
+    const format = getRequestContentFormat(req.body);
+    if (!format) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.InvalidContentFormat,
+          400
+        )
+      );
+    }
+    const parsedOperations = getRequestBlockOperations(
+      operations,
+      format,
+      Number(chapter.viewType) ===
+        ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT
+    );
+    // The operations may also refer to missing blocks or positions
+    if (
+      !parsedOperations ||
+      !(await ComicChapterBlockController.applyChapterBlockOperations(
+        chapterId,
+        parsedOperations,
+        user.id
+      ))
+    ) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.InvalidBlockOperation,
+          400
+        )
+      );
+    }
+
+    const updatedChapter = await ComicChapterController.getChapter(chapterId);
+    await Audit.record(
+      req,
+      AuditActionEnum.CHAPTER_UPDATE,
+      AuditTargetTypeEnum.CHAPTER,
+      chapterId,
+      getChapterAuditRecord(chapter),
+      getChapterAuditRecord(updatedChapter)
+    );
+
+    res.json({
+      chapter: updatedChapter,
+    });
+  } catch (err) {
+    return next(new MiddlewareError(err.message, 500));
+  }
+}
+
+/**
+ * Retrieves the chapter index from a request body. Whether no index is
+ * provided, it is parsed from the chapter number, unless the number of the
+ * current chapter is unchanged.
+ *
+ * @param body a request body with optional chapterIndex and chapterNumber
+ * @param current the current chapter, if any
+ * @returns the index, null whether the chapter has none, undefined whether
+ *  the index is invalid
+ */
+function getRequestChapterIndex(
+  body: any,
+  current?: ComicChapterInterface
+): number {
+  const { chapterIndex, chapterNumber } = body;
+  if (chapterIndex === null) {
+    return null;
+  }
+  if (chapterIndex !== undefined) {
+    return parseIndex(chapterIndex);
+  }
+  // Keep the index of a reordered chapter
+  if (current && current.chapterNumber === chapterNumber) {
+    return current.chapterIndex === null || current.chapterIndex === undefined
+      ? null
+      : Number(current.chapterIndex);
+  }
+  return parseChapterIndex(chapterNumber);
+}
+
+/**
+ * Parses a volume identifier from a request body.
+ *
+ * @param volumeId a volume identifier
+ * @returns the identifier, null or undefined as provided, NaN whether
+ *  the identifier is invalid
+ */
+function parseVolumeId(volumeId: any): number {
+  return volumeId === undefined || volumeId === null
+    ? volumeId
+    : parseInt(volumeId);
+}
+
+/**
+ * Retrieves a volume of a comic.
+ *
+ * @param comicId a identifier of the comic
+ * @param volumeId a identifier of the volume
+ * @returns the volume, null whether it does not belong to the comic
+ */
+async function getComicVolume(
+  comicId: number,
+  volumeId: number
+): Promise<ComicVolumeInterface> {
+  if (isNaN(volumeId)) {
+    return null;
+  }
+  const volume = await ComicVolumeController.getVolume(volumeId);
+  return volume && Number(volume.comicId) === Number(comicId) ? volume : null;
+}
+
+/**
+ * Validates the position of a created or an updated chapter in its comic.
+ * The chapter numbers are unique in a comic, the indexes in a volume.
+ *
+ * @param comicId a identifier of the comic
+ * @param chapterIndex an index of the chapter, undefined whether invalid
+ * @param chapterNumber a chapter number
+ * @param volumeId a identifier of the volume, null or undefined for none
+ * @param chapterId a identifier of the updated chapter, if any
+ * @returns an error to respond, null whether the position is valid
+ */
+async function getChapterPositionError(
+  comicId: number,
+  chapterIndex: number,
+  chapterNumber: string,
+  volumeId: number,
+  chapterId?: number
+): Promise<MiddlewareError> {
+  if (chapterIndex === undefined) {
+    return new MiddlewareError(
+      Locale.HttpResponseMessage.InvalidChapterIndex,
+      400
+    );
+  }
+  if (
+    volumeId !== undefined &&
+    volumeId !== null &&
+    !(await getComicVolume(comicId, volumeId))
+  ) {
+    return new MiddlewareError(
+      Locale.HttpResponseMessage.ComicVolumeNotFound,
+      404
+    );
+  }
+  if (
+    await ComicChapterController.hasChapterNumber(
+      comicId,
+      chapterIndex,
+      chapterNumber,
+      volumeId,
+      chapterId
+    )
+  ) {
+    return new MiddlewareError(
+      Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+      409
+    );
+  }
+  return null;
+}
+
+/**
+ * Check whether a list of indexes or numbers contains duplicates.
+ *
+ * @param values indexes, numbers or keys, null values are ignored
+ * @returns true whether a value appears twice, false otherwise
+ */
+function hasDuplicates(values: Array<number | string>): boolean {
+  const present = values.filter((value) => value !== null);
+  return present.some((value, i) => present.indexOf(value) !== i);
+}
+
+/**
+ * Retrieves the new chapter positions from a reorder request body.
+ *
+ * @param chapters a list of chapters with id, chapterIndex and optional
+ *  volumeId
+ * @param current the current positions of all chapters of the comic
+ * @returns the new positions, undefined whether the list is invalid, e.g. a
+ *  chapter of another comic or a chapter which appears twice
+ */
+function getRequestChapterOrders(
+  chapters: any,
+  current: ComicChapterOrderInterface[]
+): ComicChapterOrderInterface[] {
+  if (!Array.isArray(chapters) || chapters.length === 0) {
+    return undefined;
+  }
+  const orders: ComicChapterOrderInterface[] = chapters.map((chapter) => ({
+    id: parseInt(chapter?.id),
+    chapterIndex: parseIndex(chapter?.chapterIndex),
+    volumeId: parseVolumeId(chapter?.volumeId),
+  }));
+  const isValid = orders.every(
+    (order, i) =>
+      order.chapterIndex !== undefined &&
+      current.some(({ id }) => Number(id) === order.id) &&
+      orders.findIndex(({ id }) => id === order.id) === i
+  );
+  return isValid ? orders : undefined;
+}
+
+/**
+ * Retrieves the new volume numbers from a reorder request body.
+ *
+ * @param volumes a list of volumes with id and number
+ * @param current all volumes of the comic
+ * @returns the new numbers, undefined whether the list is invalid, e.g. a
+ *  volume of another comic or a volume which appears twice
+ */
+function getRequestVolumeOrders(
+  volumes: any,
+  current: ComicVolumeInterface[]
+): ComicVolumeOrderInterface[] {
+  if (!Array.isArray(volumes) || volumes.length === 0) {
+    return undefined;
+  }
+  const orders: ComicVolumeOrderInterface[] = volumes.map((volume) => ({
+    id: parseInt(volume?.id),
+    number: parseIndex(volume?.number),
+  }));
+  const isValid = orders.every(
+    (order, i) =>
+      order.number !== undefined &&
+      current.some(({ id }) => Number(id) === order.id) &&
+      orders.findIndex(({ id }) => id === order.id) === i
+  );
+  return isValid ? orders : undefined;
+}
+
+/**
+ * Check whether a volume name is valid.
+ *
+ * @param name a name of the volume
+ * @returns true whether the name is between 1 and 255 characters
+ */
+function isVolumeName(name: any): boolean {
+  return (
+    typeof name === "string" && name.trim().length > 0 && name.length <= 255
+  );
+}
+
+/**
+ * Stores the images of an imported archive into the storage driver, they
+ * are processed the same way as the uploaded resources. The stored files
+ * are removed whether an image can not be processed.
+ *
+ * @param images the images of the archive
+ * @returns the stored images, in the same order
+ */
+async function storeArchiveImages(
+  images: ChapterArchiveImageInterface[]
+): Promise<
+  Array<
+    Pick<
+      ResourceInterface,
+      "originalName" | "fileName" | "path" | "size" | "storage"
+    >
+  >
+> {
+  const driver = getStorageDriver();
+  const storedImages = [];
+  try {
+    for (const image of images) {
+      const outBuffer = await ImageUtils.processImage(image.data);
+      const originalName = path.basename(image.name);
+      const fileName = `${uuid()}${path.extname(originalName)}`;
+      const key = driver.getKey(fileName);
+      await driver.write(
+        key,
+        outBuffer,
+        ResourceDerivatives.getImageContentType(ImageFormatEnum.JPEG)
+      );
+      storedImages.push({
+        originalName,
+        fileName,
+        path: key,
+        size: outBuffer.length,
+        storage: driver.name,
+      });
+    }
+  } catch (err) {
+    await removeStoredImages(storedImages);
+    throw err;
+  }
+  return storedImages;
+}
+
+/**
+ * Removes the stored images of an archive which could not be imported.
+ *
+ * @param storedImages the stored images
+ */
+async function removeStoredImages(
+  storedImages: Array<Pick<ResourceInterface, "path" | "storage">>
+) {
+  for (const image of storedImages) {
+    await getStorageDriver(image.storage).remove(image.path);
+  }
+}
+
+/**
+ * Retrieves a file name of an exported comic or chapter.
+ *
+ * @param comic an exported comic
+ * @param format a format of the archive
+ * @param chapter an exported chapter, if any
+ * @returns the file name, e.g. my-comic-12.5.cbz
+ */
+function getExportFileName(
+  comic: ComicInterface,
+  format: ExportFormatEnum,
+  chapter?: ComicChapterInterface
+): string {
+  const name = chapter
+    ? `${comic.slug}-${slugify(String(chapter.chapterNumber || chapter.id), {
+        lower: true,
+        remove: /[*+~()'"!:@]/g,
+      })}`
+    : comic.slug;
+  // The header only accepts the ASCII characters
+  return `${name.replace(/[^\w.-]/g, "") || "comic"}.${format}`;
+}
+
+/**
+ * The maximum number of chapters in a page.
+ */
+const MaxChapterPageSize = 100;
+
+/**
+ * The number of chapters in a page when the limit is omitted.
+ */
+const DefaultChapterPageSize = 20;
 
 export const ComicFunction = {
   increaseComicView: async (req, res, next) => {
     const comicId: number = req.params.id;
     try {
-      // Check the id
-      if (!(await ComicController.hasComic(comicId))) {
+      // Check the id, unpublished comics are not found either
+      const comic = await ComicController.getComic(comicId);
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
@@ -31,8 +636,12 @@ export const ComicFunction = {
   followComic: async (req, res, next) => {
     const comicId = req.params.id;
     try {
-      // Check the id
-      if (!(await ComicController.hasComic(comicId))) {
+      // Check the id, unpublished comics are not found either
+      const comic = await ComicController.getComic(comicId);
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
@@ -51,8 +660,12 @@ export const ComicFunction = {
   getFollowState: async (req, res, next) => {
     const comicId = req.params.id;
     try {
-      // Check the id
-      if (!(await ComicController.hasComic(comicId))) {
+      // Check the id, unpublished comics are not found either
+      const comic = await ComicController.getComic(comicId);
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
@@ -91,8 +704,14 @@ export const ComicFunction = {
   getComicByUser: async (req, res, next) => {
     try {
       const userId = req.params.id;
+      // The users and moderators can view the unpublished comics
       const comics: ComicInterface[] = await ComicController.getComicByUser(
-        userId
+        userId,
+        await Authorization.canViewUnpublished(
+          req["UserRequest"],
+          [userId],
+          OwnershipRules.ComicUpdate
+        )
       );
       // Response
       res.json(comics);
@@ -112,20 +731,6 @@ export const ComicFunction = {
   createNewComic: async (req, res, next) => {
     const user: User = req["UserRequest"];
 
-    // Authorization required
-    if (!user) {
-      return next(
-        new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
-      );
-    }
-
-    // Check permissions
-    if (!(await user.hasPermission(PermissionEnum.COMIC_CREATE))) {
-      return next(
-        new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-      );
-    }
-
     // Extract content from body
     const { name, description, thumbnail, author, category, tags } = req.body;
 
@@ -138,6 +743,13 @@ export const ComicFunction = {
       );
     }
 
+    const publication = getRequestPublication(req.body);
+    if (publication === undefined) {
+      return next(
+        new MiddlewareError(Locale.HttpResponseMessage.InvalidPublication, 400)
+      );
+    }
+
     try {
       // Check thumbnail
       if (thumbnail && !(await ResourceController.hasResource(thumbnail))) {
@@ -156,7 +768,16 @@ export const ComicFunction = {
         author,
         category,
         tags,
-        thumbnail
+        thumbnail,
+        publication
+      );
+      await Audit.record(
+        req,
+        AuditActionEnum.COMIC_CREATE,
+        AuditTargetTypeEnum.COMIC,
+        comic.id,
+        null,
+        comic
       );
 
       // Send response
@@ -189,15 +810,27 @@ export const ComicFunction = {
         );
       }
 
-      // Check permissions
-      if (!(await user.hasPermission(PermissionEnum.COMIC_CHAPTER_CREATE))) {
+      // Only the owner of the comic can add chapters to it
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (comicOwnerId === null) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.Chapter
+        ))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
         );
       }
 
       // Extract content from body
-      const { name, viewType, blocks, chapterNumber } = req.body;
+      const { name, viewType, chapterNumber } = req.body;
 
       if (!name) {
         return next(
@@ -216,6 +849,44 @@ export const ComicFunction = {
         );
       }
 
+      // The contents of a text chapter are stored as sanitized HTML
+      const format = getRequestContentFormat(req.body);
+      if (!format) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidContentFormat,
+            400
+          )
+        );
+      }
+      const blocks =
+        viewType === "text"
+          ? renderTextBlocks(req.body.blocks, format)
+          : req.body.blocks;
+
+      const publication = getRequestPublication(req.body);
+      if (publication === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidPublication,
+            400
+          )
+        );
+      }
+
+      // Check the position of the chapter in the comic
+      const chapterIndex = getRequestChapterIndex(req.body);
+      const volumeId = parseVolumeId(req.body.volumeId) ?? null;
+      const positionError = await getChapterPositionError(
+        comicId,
+        chapterIndex,
+        chapterNumber,
+        volumeId
+      );
+      if (positionError) {
+        return next(positionError);
+      }
+
       const generatedChapter = await ComicChapterController.createChapter(
         name,
         comicId,
@@ -224,7 +895,27 @@ export const ComicFunction = {
           ? ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE
           : ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
         blocks,
-        chapterNumber
+        chapterNumber,
+        publication,
+        chapterIndex,
+        volumeId
+      );
+      // Another chapter may have taken the position meanwhile
+      if (!generatedChapter) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_CREATE,
+        AuditTargetTypeEnum.CHAPTER,
+        generatedChapter.id,
+        null,
+        { ...generatedChapter, blocks }
       );
 
       res.status(201).json({
@@ -235,6 +926,180 @@ export const ComicFunction = {
     }
   },
 
+  importChapter: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+
+      // Check authorization
+      if (!user) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+        );
+      }
+
+      // Only the owner of the comic can add chapters to it
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (comicOwnerId === null) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.Chapter
+        ))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
+        );
+      }
+
+      // Check the archive
+      if (!req.file) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.MissingRequiredFields,
+            400
+          )
+        );
+      }
+      const archive = readChapterArchive(req.file.buffer);
+      if (!archive || archive.images.length === 0) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidChapterArchive,
+            400
+          )
+        );
+      }
+
+      // The fields of the body take precedence over ComicInfo.xml
+      const { comicInfo } = archive;
+      const name = req.body.name || comicInfo.title;
+      const chapterNumber = req.body.chapterNumber || comicInfo.number;
+      if (!name) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.MissingRequiredFields,
+            400
+          )
+        );
+      }
+
+      const publication = getRequestPublication(req.body);
+      if (publication === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidPublication,
+            400
+          )
+        );
+      }
+
+      // Check the position of the chapter in the comic
+      const chapterIndex = getRequestChapterIndex({
+        chapterIndex: req.body.chapterIndex,
+        chapterNumber,
+      });
+      const volumeId = parseVolumeId(req.body.volumeId) ?? null;
+      const positionError = await getChapterPositionError(
+        comicId,
+        chapterIndex,
+        chapterNumber,
+        volumeId
+      );
+      if (positionError) {
+        return next(positionError);
+      }
+
+      let storedImages;
+      try {
+        storedImages = await storeArchiveImages(archive.images);
+      } catch (err) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidChapterArchive,
+            400
+          )
+        );
+      }
+
+      let generatedChapter;
+      try {
+        generatedChapter = await ComicChapterController.createImageChapter(
+          name,
+          comicId,
+          user.id,
+          storedImages,
+          chapterNumber,
+          publication,
+          chapterIndex,
+          volumeId,
+          comicInfo.summary
+        );
+      } catch (err) {
+        await removeStoredImages(storedImages);
+        throw err;
+      }
+      // Another chapter may have taken the position meanwhile
+      if (!generatedChapter) {
+        await removeStoredImages(storedImages);
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+      const { chapter, resources } = generatedChapter;
+      for (const resource of resources) {
+        await Audit.record(
+          req,
+          AuditActionEnum.RESOURCE_CREATE,
+          AuditTargetTypeEnum.RESOURCE,
+          resource.id,
+          null,
+          resource
+        );
+        await ResourceDerivatives.generateDerivatives(resource);
+      }
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_CREATE,
+        AuditTargetTypeEnum.CHAPTER,
+        chapter.id,
+        null,
+        {
+          ...chapter,
+          blocks: resources.map(({ fileName }, index) => ({
+            index,
+            content: fileName,
+          })),
+        }
+      );
+
+      res.status(201).json({
+        chapter,
+        // Hide path
+        resources: resources.map(
+          ({ id, originalName, fileName, uploadedAt, uploader, size }) => ({
+            id,
+            originalName,
+            fileName,
+            uploadedAt,
+            uploader,
+            size,
+          })
+        ),
+      });
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
   updateChapter: async (req, res, next) => {
     try {
       const user: User = req["UserRequest"];
@@ -250,75 +1115,785 @@ export const ComicFunction = {
         );
       }
 
-      // Check authorization
-      if (!user) {
+      // The chapter and its comic are owned by their posters
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      const accessError = await getChapterModificationError(
+        user,
+        comicId,
+        chapter
+      );
+      if (accessError) {
+        return next(accessError);
+      }
+
+      // Extract content from body
+      const { name, viewType, chapterNumber } = req.body;
+
+      if (!name) {
         return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+          new MiddlewareError(
+            Locale.HttpResponseMessage.MissingRequiredFields,
+            400
+          )
+        );
+      }
+      if (viewType !== "image" && viewType !== "text") {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterViewTypeInvalid,
+            400
+          )
         );
       }
 
-      // Check permissions
-      if (!(await user.hasPermission(PermissionEnum.COMIC_CHAPTER_CREATE))) {
+      // The contents of a text chapter are stored as sanitized HTML
+      const format = getRequestContentFormat(req.body);
+      if (!format) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidContentFormat,
+            400
+          )
+        );
+      }
+      const blocks =
+        viewType === "text"
+          ? renderTextBlocks(req.body.blocks, format)
+          : req.body.blocks;
+
+      const publication = getRequestPublication(req.body, chapter);
+      if (publication === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidPublication,
+            400
+          )
+        );
+      }
+
+      // Check the position of the chapter in the comic
+      const chapterIndex = getRequestChapterIndex(req.body, chapter);
+      const volumeId = parseVolumeId(req.body.volumeId);
+      const positionError = await getChapterPositionError(
+        comicId,
+        chapterIndex,
+        chapterNumber,
+        volumeId === undefined ? chapter.volumeId : volumeId,
+        chapterId
+      );
+      if (positionError) {
+        return next(positionError);
+      }
+
+      const generatedChapter = await ComicChapterController.updateChapter(
+        chapterId,
+        name,
+        comicId,
+        chapter.postedBy,
+        viewType === "image"
+          ? ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE
+          : ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
+        blocks,
+        chapterNumber,
+        publication,
+        chapterIndex,
+        volumeId
+      );
+      // Another chapter may have taken the position meanwhile
+      if (!generatedChapter) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_UPDATE,
+        AuditTargetTypeEnum.CHAPTER,
+        chapterId,
+        getChapterAuditRecord(chapter),
+        getChapterAuditRecord(
+          await ComicChapterController.getChapter(chapterId)
+        )
+      );
+
+      res.status(201).json({
+        chapter: generatedChapter,
+        blocks,
+      });
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  getChapterRevisions: async (req, res, next) => {
+    try {
+      const comicId: number = req.params.id;
+      const chapterId: number = req.params.chapterId;
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      const accessError = await getChapterModificationError(
+        req["UserRequest"],
+        comicId,
+        chapter
+      );
+      if (accessError) {
+        return next(accessError);
+      }
+
+      res.json({
+        revisions: await ComicChapterRevisionController.getRevisions(chapterId),
+      });
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  getChapterRevisionDiff: async (req, res, next) => {
+    try {
+      const comicId: number = req.params.id;
+      const chapterId: number = req.params.chapterId;
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      const accessError = await getChapterModificationError(
+        req["UserRequest"],
+        comicId,
+        chapter
+      );
+      if (accessError) {
+        return next(accessError);
+      }
+
+      // The newer revision is the latest one by default
+      const from = parseRevision(req.query.from);
+      const to =
+        req.query.to === undefined
+          ? (await ComicChapterRevisionController.getRevisions(chapterId))[0]
+              ?.revision
+          : parseRevision(req.query.to);
+      if (from === undefined || (req.query.to !== undefined && !to)) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.InvalidRevision, 400)
+        );
+      }
+
+      const fromRevision = await ComicChapterRevisionController.getRevision(
+        chapterId,
+        from
+      );
+      const toRevision =
+        to && (await ComicChapterRevisionController.getRevision(chapterId, to));
+      if (!fromRevision || !toRevision) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicChapterRevisionNotFound,
+            404
+          )
+        );
+      }
+
+      const diff: ComicChapterRevisionDiffInterface = {
+        from,
+        to,
+        fields: diffRevisionFields(fromRevision, toRevision),
+        blocks: diffRevisionBlocks(fromRevision.blocks, toRevision.blocks),
+      };
+      res.json(diff);
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  restoreChapterRevision: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+      const chapterId: number = req.params.chapterId;
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      const accessError = await getChapterModificationError(
+        user,
+        comicId,
+        chapter
+      );
+      if (accessError) {
+        return next(accessError);
+      }
+
+      const revisionNumber = parseRevision(req.params.revision);
+      const revision =
+        revisionNumber &&
+        (await ComicChapterRevisionController.getRevision(
+          chapterId,
+          revisionNumber
+        ));
+      if (!revision) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicChapterRevisionNotFound,
+            404
+          )
+        );
+      }
+
+      // A deleted volume is not restored, another chapter may also have
+      // taken the position of the revision meanwhile
+      const volumeId =
+        revision.volumeId !== null &&
+        (await getComicVolume(comicId, revision.volumeId))
+          ? revision.volumeId
+          : null;
+      const positionError = await getChapterPositionError(
+        comicId,
+        revision.chapterIndex,
+        revision.chapterNumber,
+        volumeId,
+        chapterId
+      );
+      if (positionError) {
+        return next(positionError);
+      }
+
+      // The publication of the chapter is kept
+      const generatedChapter = await ComicChapterController.updateChapter(
+        chapterId,
+        revision.name,
+        comicId,
+        chapter.postedBy,
+        revision.viewType,
+        revision.blocks,
+        revision.chapterNumber,
+        undefined,
+        revision.chapterIndex,
+        volumeId,
+        user.id,
+        revision.revision
+      );
+      // Another chapter may have taken the position meanwhile
+      if (!generatedChapter) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_RESTORE,
+        AuditTargetTypeEnum.CHAPTER,
+        chapterId,
+        getChapterAuditRecord(chapter),
+        {
+          ...getChapterAuditRecord(
+            await ComicChapterController.getChapter(chapterId)
+          ),
+          restoredFrom: revision.revision,
+        }
+      );
+
+      const [restoredRevision] =
+        await ComicChapterRevisionController.getRevisions(chapterId);
+      res.status(201).json({
+        chapter: generatedChapter,
+        revision: restoredRevision,
+      });
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  insertChapterBlock: async (req, res, next) => {
+    await editChapterBlocks(req, res, next, [
+      {
+        type: ComicChapterBlockOperationTypeEnum.INSERT,
+        index: req.body.index,
+        content: req.body.content,
+      },
+    ]);
+  },
+
+  replaceChapterBlock: async (req, res, next) => {
+    await editChapterBlocks(req, res, next, [
+      {
+        type: ComicChapterBlockOperationTypeEnum.REPLACE,
+        blockId: req.params.blockId,
+        content: req.body.content,
+      },
+    ]);
+  },
+
+  moveChapterBlock: async (req, res, next) => {
+    await editChapterBlocks(req, res, next, [
+      {
+        type: ComicChapterBlockOperationTypeEnum.MOVE,
+        blockId: req.params.blockId,
+        index: req.body.index,
+      },
+    ]);
+  },
+
+  deleteChapterBlock: async (req, res, next) => {
+    await editChapterBlocks(req, res, next, [
+      {
+        type: ComicChapterBlockOperationTypeEnum.DELETE,
+        blockId: req.params.blockId,
+      },
+    ]);
+  },
+
+  batchChapterBlocks: async (req, res, next) => {
+    await editChapterBlocks(req, res, next, req.body.operations);
+  },
+
+  deleteChapter: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+      const chapterId: number = req.params.chapterId;
+      // Check field
+      if (!comicId) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.MissingRequiredFields,
+            400
+          )
+        );
+      }
+
+      // The chapter and its comic are owned by their posters
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      const accessError = await getChapterModificationError(
+        user,
+        comicId,
+        chapter
+      );
+      if (accessError) {
+        return next(accessError);
+      }
+
+      const generatedChapter = await ComicChapterController.deleteChapter(
+        chapterId
+      );
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_DELETE,
+        AuditTargetTypeEnum.CHAPTER,
+        chapterId,
+        getChapterAuditRecord(chapter),
+        null
+      );
+
+      res.status(200).send();
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  updateChapterPublication: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+      const chapterId: number = req.params.chapterId;
+
+      // The chapter and its comic are owned by their posters
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      const accessError = await getChapterModificationError(
+        user,
+        comicId,
+        chapter
+      );
+      if (accessError) {
+        return next(accessError);
+      }
+
+      // Check field
+      if (req.body.status === undefined && req.body.publishAt === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.MissingRequiredFields,
+            400
+          )
+        );
+      }
+      const publication = getRequestPublication(req.body, chapter);
+      if (publication === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidPublication,
+            400
+          )
+        );
+      }
+
+      await ComicChapterController.updateChapterPublication(
+        chapterId,
+        publication
+      );
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_UPDATE,
+        AuditTargetTypeEnum.CHAPTER,
+        chapterId,
+        getChapterAuditRecord(chapter),
+        getChapterAuditRecord(
+          await ComicChapterController.getChapter(chapterId)
+        )
+      );
+
+      res.json(publication);
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  reorderChapters: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+
+      // Check authorization
+      if (!user) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+        );
+      }
+
+      // Only the owner of the comic can reorder its chapters
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (comicOwnerId === null) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.Chapter
+        ))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
+        );
+      }
+
+      const current = await ComicChapterController.getChapterOrders(comicId);
+      const orders = getRequestChapterOrders(req.body.chapters, current);
+      if (orders === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidChapterOrder,
+            400
+          )
+        );
+      }
+
+      const volumes = await ComicVolumeController.getVolumesFromComic(comicId);
+      if (
+        !orders.every(
+          ({ volumeId }) =>
+            volumeId === undefined ||
+            volumeId === null ||
+            volumes.some(({ id }) => Number(id) === volumeId)
+        )
+      ) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicVolumeNotFound,
+            404
+          )
+        );
+      }
+
+      // The chapters which are not moved keep their indexes and volumes,
+      // the indexes are unique in a volume
+      const positions = current.map((position) => {
+        const order = orders.find((order) => order.id === Number(position.id));
+        const chapterIndex = order ? order.chapterIndex : position.chapterIndex;
+        const volumeId =
+          order && order.volumeId !== undefined
+            ? order.volumeId
+            : position.volumeId;
+        return chapterIndex === null
+          ? null
+          : `${volumeId ?? ""}:${chapterIndex}`;
+      });
+      if (hasDuplicates(positions)) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+
+      // Another chapter may have taken a position meanwhile
+      if (!(await ComicChapterController.reorderChapters(comicId, orders))) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+      const chapters = await ComicChapterController.getChapterOrders(comicId);
+      await Audit.record(
+        req,
+        AuditActionEnum.CHAPTER_REORDER,
+        AuditTargetTypeEnum.COMIC,
+        comicId,
+        { chapters: current },
+        { chapters }
+      );
+
+      res.json(chapters);
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  getVolumes: async (req, res, next) => {
+    try {
+      const comicId: number = req.params.id;
+
+      // Check this comic
+      const comic = await ComicController.getComic(comicId);
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+
+      res.json(await ComicVolumeController.getVolumesFromComic(comicId));
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  createVolume: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+
+      // Check authorization
+      if (!user) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+        );
+      }
+
+      // The poster of the comic or a moderator
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (comicOwnerId === null) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.ComicUpdate
+        ))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
+        );
+      }
+
+      // Check field
+      const { name } = req.body;
+      const number = parseIndex(req.body.number);
+      if (!isVolumeName(name) || number === undefined) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.InvalidVolume, 400)
+        );
+      }
+      if (await ComicVolumeController.hasVolumeNumber(comicId, number)) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.VolumeNumberAlreadyExists,
+            409
+          )
+        );
+      }
+
+      const volume = await ComicVolumeController.createVolume(
+        comicId,
+        name.trim(),
+        number
+      );
+      await Audit.record(
+        req,
+        AuditActionEnum.VOLUME_CREATE,
+        AuditTargetTypeEnum.VOLUME,
+        volume.id,
+        null,
+        volume
+      );
+
+      res.status(201).json(volume);
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  reorderVolumes: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+
+      // Check authorization
+      if (!user) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+        );
+      }
+
+      // The poster of the comic or a moderator
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (comicOwnerId === null) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.ComicUpdate
+        ))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
+        );
+      }
+
+      const current = await ComicVolumeController.getVolumesFromComic(comicId);
+      const orders = getRequestVolumeOrders(req.body.volumes, current);
+      if (orders === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidVolumeOrder,
+            400
+          )
+        );
+      }
+
+      // The volumes which are not moved keep their numbers
+      const numbers = current.map(({ id, number }) => {
+        const order = orders.find((order) => order.id === Number(id));
+        return order ? order.number : number;
+      });
+      if (hasDuplicates(numbers)) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.VolumeNumberAlreadyExists,
+            409
+          )
+        );
+      }
+
+      await ComicVolumeController.reorderVolumes(orders);
+      const volumes = await ComicVolumeController.getVolumesFromComic(comicId);
+      await Audit.record(
+        req,
+        AuditActionEnum.VOLUME_REORDER,
+        AuditTargetTypeEnum.COMIC,
+        comicId,
+        { volumes: current },
+        { volumes }
+      );
+
+      res.json(volumes);
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  updateVolume: async (req, res, next) => {
+    try {
+      const user: User = req["UserRequest"];
+      const comicId: number = req.params.id;
+      const volumeId: number = parseInt(req.params.volumeId);
+
+      // Check authorization
+      if (!user) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+        );
+      }
+
+      const volume = await getComicVolume(comicId, volumeId);
+      if (!volume) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicVolumeNotFound,
+            404
+          )
+        );
+      }
+      // The poster of the comic or a moderator
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.ComicUpdate
+        ))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
         );
       }
 
-      // Extract content from body
-      const { name, viewType, blocks, chapterNumber } = req.body;
-
-      if (!name) {
+      // Check field, the omitted ones are unchanged
+      const name = req.body.name === undefined ? volume.name : req.body.name;
+      const number =
+        req.body.number === undefined
+          ? volume.number
+          : parseIndex(req.body.number);
+      if (!isVolumeName(name) || number === undefined) {
         return next(
-          new MiddlewareError(
-            Locale.HttpResponseMessage.MissingRequiredFields,
-            400
-          )
+          new MiddlewareError(Locale.HttpResponseMessage.InvalidVolume, 400)
         );
       }
-      if (viewType !== "image" && viewType !== "text") {
+      if (
+        await ComicVolumeController.hasVolumeNumber(comicId, number, volumeId)
+      ) {
         return next(
           new MiddlewareError(
-            Locale.HttpResponseMessage.ChapterViewTypeInvalid,
-            400
+            Locale.HttpResponseMessage.VolumeNumberAlreadyExists,
+            409
           )
         );
       }
 
-      const generatedChapter = await ComicChapterController.updateChapter(
-        chapterId,
-        name,
-        comicId,
-        user.id,
-        viewType === "image"
-          ? ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_IMAGE
-          : ComicChapterViewTypeEnum.COMIC_CHAPTER_VIEW_TYPE_TEXT,
-        blocks,
-        chapterNumber
+      await ComicVolumeController.updateVolume(volumeId, name.trim(), number);
+      const updatedVolume = await ComicVolumeController.getVolume(volumeId);
+      await Audit.record(
+        req,
+        AuditActionEnum.VOLUME_UPDATE,
+        AuditTargetTypeEnum.VOLUME,
+        volumeId,
+        volume,
+        updatedVolume
       );
 
-      res.status(201).json({
-        chapter: generatedChapter,
-        blocks,
-      });
+      res.json(updatedVolume);
     } catch (err) {
       return next(new MiddlewareError(err.message, 500));
     }
   },
 
-  deleteChapter: async (req, res, next) => {
+  deleteVolume: async (req, res, next) => {
     try {
       const user: User = req["UserRequest"];
       const comicId: number = req.params.id;
-      const chapterId: number = req.params.chapterId;
-      // Check field
-      if (!comicId) {
-        return next(
-          new MiddlewareError(
-            Locale.HttpResponseMessage.MissingRequiredFields,
-            400
-          )
-        );
-      }
+      const volumeId: number = parseInt(req.params.volumeId);
 
       // Check authorization
       if (!user) {
@@ -327,18 +1902,49 @@ export const ComicFunction = {
         );
       }
 
-      // Check permissions
-      if (!(await user.hasPermission(PermissionEnum.COMIC_CHAPTER_CREATE))) {
+      const volume = await getComicVolume(comicId, volumeId);
+      if (!volume) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicVolumeNotFound,
+            404
+          )
+        );
+      }
+      // The poster of the comic or a moderator
+      const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comicOwnerId],
+          OwnershipRules.ComicUpdate
+        ))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
         );
       }
 
-      const generatedChapter = await ComicChapterController.deleteChapter(
-        chapterId
+      // The chapters of the volume are kept without volume, their indexes
+      // must not be taken by the chapters without volume
+      if (!(await ComicVolumeController.deleteVolume(comicId, volumeId))) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ChapterNumberAlreadyExists,
+            409
+          )
+        );
+      }
+      await Audit.record(
+        req,
+        AuditActionEnum.VOLUME_DELETE,
+        AuditTargetTypeEnum.VOLUME,
+        volumeId,
+        volume,
+        null
       );
 
-      res.status(200).send();
+      res.status(204).end();
     } catch (err) {
       return next(new MiddlewareError(err.message, 500));
     }
@@ -348,24 +1954,60 @@ export const ComicFunction = {
     try {
       const comicId: number = req.params.id;
       const { limit, page, sortedBy, order } = req.query;
+      if (
+        sortedBy !== undefined &&
+        !ComicChapterController.isChapterSortField(sortedBy)
+      ) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidChapterSort,
+            400
+          )
+        );
+      }
 
       // Check this comic
-      if (!(await ComicController.hasComic(comicId))) {
+      const comic = await ComicController.getComic(comicId);
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
       }
 
+      // The owners and moderators can view the unpublished chapters
+      const includeUnpublished = await Authorization.canViewUnpublished(
+        req["UserRequest"],
+        [comic.postedBy],
+        OwnershipRules.Chapter
+      );
       const chapters = await ComicChapterController.getChaptersFromComic(
         comicId,
         {
-          limit: parseInt(limit as string),
-          page: parseInt(page as string),
+          limit: parseQueryInteger(
+            limit,
+            DefaultChapterPageSize,
+            1,
+            MaxChapterPageSize
+          ),
+          page: parseQueryInteger(page, 0, 0),
           sortedBy: sortedBy as string,
           order: order as "asc" | "desc",
+          includeUnpublished,
         }
       );
       // console.log(chapters);
+      res.set(
+        "X-Total-Count",
+        String(
+          await ComicChapterController.countChaptersFromComic(
+            comicId,
+            includeUnpublished
+          )
+        )
+      );
       res.json(chapters);
     } catch (err) {
       return next(new MiddlewareError(err.message, 500));
@@ -378,15 +2020,155 @@ export const ComicFunction = {
       const chapterId: number = req.params.chapterId;
 
       // Check this comic
-      if (!(await ComicController.hasComic(comicId))) {
+      const comic = await ComicController.getComic(comicId);
+      if (!comic) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
       }
 
       const chapter = await ComicChapterController.getChapter(chapterId);
-      res.json(chapter);
+      if (
+        !chapter ||
+        Number(chapter.comicId) !== Number(comicId) ||
+        !(await Authorization.canViewChapter(
+          req["UserRequest"],
+          comic,
+          chapter
+        ))
+      ) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicChapterNotFound,
+            404
+          )
+        );
+      }
+
+      // Navigate through the chapters which the user can view
+      const { previous, next: nextChapter } =
+        await ComicChapterController.getAdjacentChapters(
+          chapter,
+          await Authorization.canViewUnpublished(
+            req["UserRequest"],
+            [comic.postedBy],
+            OwnershipRules.Chapter
+          )
+        );
+      res.json({ ...chapter, previous, next: nextChapter });
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  exportChapter: async (req, res, next) => {
+    try {
+      const comicId: number = req.params.id;
+      const chapterId: number = req.params.chapterId;
+      const format = req.query.format || ExportFormatEnum.CBZ;
+      if (!isExportFormat(format)) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidExportFormat,
+            400
+          )
+        );
+      }
+
+      // Check this comic
+      const comic = await ComicController.getComic(comicId);
+      if (!comic) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+
+      const chapter = await ComicChapterController.getChapter(chapterId);
+      if (
+        !chapter ||
+        Number(chapter.comicId) !== Number(comicId) ||
+        !(await Authorization.canViewChapter(
+          req["UserRequest"],
+          comic,
+          chapter
+        ))
+      ) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.ComicChapterNotFound,
+            404
+          )
+        );
+      }
+
+      res.set({
+        "Content-Type": ExportMediaTypes[format],
+        "Content-Disposition": `attachment; filename="${getExportFileName(
+          comic,
+          format,
+          chapter
+        )}"`,
+      });
+      await ComicExport.exportChapter(res, format, comic, chapter);
+    } catch (err) {
+      // A partly sent archive is aborted, the client must not keep it
+      if (res.headersSent) {
+        return res.destroy(err);
+      }
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
+  exportComic: async (req, res, next) => {
+    try {
+      const comicId: number = req.params.id;
+      const format = req.query.format || ExportFormatEnum.CBZ;
+      if (!isExportFormat(format)) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidExportFormat,
+            400
+          )
+        );
+      }
+
+      // Check this comic
+      const comic = await ComicController.getComic(comicId);
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+
+      // The owners and moderators export the unpublished chapters as well
+      const chapters = await ComicChapterController.getChaptersFromComic(
+        comicId,
+        {
+          order: "asc",
+          includeUnpublished: await Authorization.canViewUnpublished(
+            req["UserRequest"],
+            [comic.postedBy],
+            OwnershipRules.Chapter
+          ),
+        }
+      );
+
+      res.set({
+        "Content-Type": ExportMediaTypes[format],
+        "Content-Disposition": `attachment; filename="${getExportFileName(
+          comic,
+          format
+        )}"`,
+      });
+      await ComicExport.exportComic(res, format, comic, chapters);
     } catch (err) {
+      // A partly sent archive is aborted, the client must not keep it
+      if (res.headersSent) {
+        return res.destroy(err);
+      }
       return next(new MiddlewareError(err.message, 500));
     }
   },
@@ -427,20 +2209,6 @@ export const ComicFunction = {
 
   createNewTag: async (req, res, next) => {
     try {
-      // Check authorization
-      const user: User = req["UserRequest"];
-      if (!user) {
-        return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
-        );
-      }
-
-      // Check permissions
-      if (!(await user.hasPermission(PermissionEnum.COMIC_TAG_CREATE))) {
-        return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-        );
-      }
       const { keyword } = req.body;
 
       // Check field
@@ -472,20 +2240,6 @@ export const ComicFunction = {
 
   updateTag: async (req, res, next) => {
     try {
-      // Check authorization
-      const user: User = req["UserRequest"];
-      if (!user) {
-        return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
-        );
-      }
-
-      // Check permissions
-      if (!(await user.hasPermission(PermissionEnum.COMIC_TAG_UPDATE))) {
-        return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-        );
-      }
       const { id } = req.params;
       const { keyword } = req.body;
 
@@ -518,20 +2272,6 @@ export const ComicFunction = {
 
   deleteTag: async (req, res, next) => {
     try {
-      // Check authorization
-      const user: User = req["UserRequest"];
-      if (!user) {
-        return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
-        );
-      }
-
-      // Check permissions
-      if (!(await user.hasPermission(PermissionEnum.COMIC_TAG_DELETE))) {
-        return next(
-          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-        );
-      }
       const { id } = req.params;
 
       await ComicTagController.deleteTag(id);
@@ -692,7 +2432,10 @@ export const ComicFunction = {
       console.log(comic);
 
       // not found
-      if (!comic) {
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
@@ -711,7 +2454,10 @@ export const ComicFunction = {
     try {
       const comic: ComicInterface = await ComicController.getComicBySlug(slug);
       // not found
-      if (!comic) {
+      if (
+        !comic ||
+        !(await Authorization.canViewComic(req["UserRequest"], comic))
+      ) {
         return next(
           new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
         );
@@ -744,8 +2490,20 @@ export const ComicFunction = {
       );
     }
 
-    // Check permissions
-    if (!(await user.hasPermission(PermissionEnum.COMIC_UPDATE))) {
+    // The poster of the comic or a moderator
+    const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+    if (comicOwnerId === null) {
+      return next(
+        new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+      );
+    }
+    if (
+      !(await Authorization.canModify(
+        user,
+        [comicOwnerId],
+        OwnershipRules.ComicUpdate
+      ))
+    ) {
       return next(
         new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
       );
@@ -756,6 +2514,16 @@ export const ComicFunction = {
 
     try {
       // Try to update comic
+      const comic = await ComicController.getComic(comicId);
+      const publication = getRequestPublication(req.body, comic);
+      if (publication === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidPublication,
+            400
+          )
+        );
+      }
       await ComicController.updateComic(
         comicId,
         name,
@@ -763,7 +2531,16 @@ export const ComicFunction = {
         author,
         category,
         tags,
-        thumbnail
+        thumbnail,
+        publication
+      );
+      await Audit.record(
+        req,
+        AuditActionEnum.COMIC_UPDATE,
+        AuditTargetTypeEnum.COMIC,
+        comicId,
+        comic,
+        await ComicController.getComic(comicId)
       );
       // Response
       res.status(204).end();
@@ -772,6 +2549,70 @@ export const ComicFunction = {
     }
   },
 
+  updateComicPublication: async (req, res, next) => {
+    const user: User = req["UserRequest"];
+    const comicId: number = req.params.id;
+    // Check authorization
+    if (!user) {
+      return next(
+        new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
+      );
+    }
+
+    try {
+      // The poster of the comic or a moderator
+      const comic = await ComicController.getComic(comicId);
+      if (!comic) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+        );
+      }
+      if (
+        !(await Authorization.canModify(
+          user,
+          [comic.postedBy],
+          OwnershipRules.ComicUpdate
+        ))
+      ) {
+        return next(
+          new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
+        );
+      }
+
+      // Check field
+      if (req.body.status === undefined && req.body.publishAt === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.MissingRequiredFields,
+            400
+          )
+        );
+      }
+      const publication = getRequestPublication(req.body, comic);
+      if (publication === undefined) {
+        return next(
+          new MiddlewareError(
+            Locale.HttpResponseMessage.InvalidPublication,
+            400
+          )
+        );
+      }
+
+      await ComicController.updateComicPublication(comicId, publication);
+      await Audit.record(
+        req,
+        AuditActionEnum.COMIC_UPDATE,
+        AuditTargetTypeEnum.COMIC,
+        comicId,
+        comic,
+        await ComicController.getComic(comicId)
+      );
+      res.json(publication);
+    } catch (err) {
+      return next(new MiddlewareError(err.message, 500));
+    }
+  },
+
   deleteComicById: async (req, res, next) => {
     const user: User = req["UserRequest"];
     const comicId: number = req.params.id;
@@ -792,8 +2633,20 @@ export const ComicFunction = {
       );
     }
 
-    // Check permissions
-    if (!(await user.hasPermission(PermissionEnum.COMIC_DELETE))) {
+    // The poster of the comic or a moderator
+    const comicOwnerId = await ComicController.getComicOwnerId(comicId);
+    if (comicOwnerId === null) {
+      return next(
+        new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404)
+      );
+    }
+    if (
+      !(await Authorization.canModify(
+        user,
+        [comicOwnerId],
+        OwnershipRules.ComicDelete
+      ))
+    ) {
       return next(
         new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
       );
@@ -801,7 +2654,16 @@ export const ComicFunction = {
 
     try {
       // Try to delete comic
+      const comic = await ComicController.getComic(comicId);
       await ComicController.deleteComic(comicId);
+      await Audit.record(
+        req,
+        AuditActionEnum.COMIC_DELETE,
+        AuditTargetTypeEnum.COMIC,
+        comicId,
+        comic,
+        null
+      );
       // Response
       res.status(204).end();
     } catch (err) {
@@ -1,9 +1,29 @@
-import { PermissionEnum } from "./../../interfaces/PermissionInterface";
 import { User } from "./../../classes/User";
 import { Locale } from "./../../Locale";
 import ComicChapterController from "../../controllers/ComicChapterController";
+import ComicController from "../../controllers/ComicController";
 import { MiddlewareError } from "./../../errors/MiddlewareError";
 import ComicCommentController from "../../controllers/ComicCommentController";
+import { Authorization, OwnershipRules } from "../../Authorization";
+import { Audit } from "../../Audit";
+import { AuditActionEnum, AuditTargetTypeEnum } from "../../interfaces/AuditLogInterface";
+import { ComicChapterInterface } from "../../interfaces/ComicChapterInterface";
+
+/**
+ * Check whether the user can view a chapter and its comments, i.e. the
+ * chapter exists and is visible to the user.
+ *
+ * @param user a user who views the chapter, undefined whether anonymous
+ * @param chapter a chapter, null whether not found
+ * @returns true whether the user is allowed, false otherwise
+ */
+async function canViewChapterComments(user: User, chapter: ComicChapterInterface) {
+    if (!chapter) {
+        return false;
+    }
+    const comic = await ComicController.getComic(chapter.comicId);
+    return !!comic && (await Authorization.canViewChapter(user, comic, chapter));
+}
 
 const CommentFunction = {
     createComment: async (req, res, next) => {
@@ -17,30 +37,16 @@ const CommentFunction = {
                 );
             }
             const chapter = await ComicChapterController.getChapter(chapterId);
-            // Content is found or not
-            if (!chapter) {
-                return next(
-                    new MiddlewareError(Locale.HttpResponseMessage.ComicChapterNotFound, 404)
-                );
-            }
-
-            // Check if chapter exists
-            if (!chapter) {
+            const user: User = req["UserRequest"];
+            // Unpublished chapters are not found, unless the user can view them
+            if (!(await canViewChapterComments(user, chapter))) {
                 return next(
                     new MiddlewareError(Locale.HttpResponseMessage.ComicChapterNotFound, 404)
                 );
             }
 
-            // Check if user is logged in
-            const user: User = req["UserRequest"];
-
-            if (!user) {
-                return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
-            }
-
-            // Check if user has permission to create comment
-            if (!(await user.hasPermission(PermissionEnum.COMIC_CHAPTER_COMMENT))) {
-                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            if (await user.isMuted()) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.UserMuted, 403));
             }
 
             // Create comment
@@ -56,8 +62,14 @@ const CommentFunction = {
         try {
             const commentId = req.params.commentId;
             const comment = await ComicCommentController.getComment(commentId);
-            // Not found
-            if (!comment) {
+            // Not found, the comments of unpublished chapters neither
+            if (
+                !comment ||
+                !(await canViewChapterComments(
+                    req["UserRequest"],
+                    await ComicChapterController.getChapter(comment.chapter.id)
+                ))
+            ) {
                 return next(
                     new MiddlewareError(Locale.HttpResponseMessage.ComicCommentNotFound, 404)
                 );
@@ -73,8 +85,8 @@ const CommentFunction = {
         try {
             const { chapterId } = req.params;
             const chapter = await ComicChapterController.getChapter(chapterId);
-            // Chapter is not found
-            if (!chapter) {
+            // Chapter is not found, unpublished chapters neither
+            if (!(await canViewChapterComments(req["UserRequest"], chapter))) {
                 return next(
                     new MiddlewareError(Locale.HttpResponseMessage.ComicChapterNotFound, 404)
                 );
@@ -115,7 +127,33 @@ const CommentFunction = {
                 );
             }
 
+            // The author of the comment or a moderator
+            const user: User = req["UserRequest"];
+            if (!user) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+            }
+            if (
+                !(await Authorization.canModify(user, [comment.author.id], OwnershipRules.Comment))
+            ) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            }
+            if (await user.isMuted()) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.UserMuted, 403));
+            }
+
             await ComicCommentController.updateComment(commentId, content);
+
+            // Moderation of the comments of other users
+            if (!Authorization.isOwner(user, [comment.author.id])) {
+                await Audit.record(
+                    req,
+                    AuditActionEnum.COMMENT_UPDATE,
+                    AuditTargetTypeEnum.COMMENT,
+                    commentId,
+                    comment,
+                    await ComicCommentController.getComment(commentId)
+                );
+            }
             res.json({ success: true });
         } catch (err) {
             next(err);
@@ -132,7 +170,30 @@ const CommentFunction = {
                 );
             }
 
+            // The author of the comment or a moderator
+            const user: User = req["UserRequest"];
+            if (!user) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+            }
+            if (
+                !(await Authorization.canModify(user, [comment.author.id], OwnershipRules.Comment))
+            ) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            }
+
             await ComicCommentController.deleteComment(commentId);
+
+            // Moderation of the comments of other users
+            if (!Authorization.isOwner(user, [comment.author.id])) {
+                await Audit.record(
+                    req,
+                    AuditActionEnum.COMMENT_DELETE,
+                    AuditTargetTypeEnum.COMMENT,
+                    commentId,
+                    comment,
+                    null
+                );
+            }
             res.json({ success: true });
         } catch (err) {
             next(err);
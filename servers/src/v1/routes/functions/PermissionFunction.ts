@@ -1,11 +1,15 @@
-import { User } from "./../../classes/User";
-import { PermissionEnum } from "./../../interfaces/PermissionInterface";
 import { Locale } from "./../../Locale";
 import { PermissionGroupController } from "./../../controllers/PermissionGroupController";
 import { MiddlewareError } from "./../../errors/MiddlewareError";
 import { PermissionController } from "./../../controllers/PermissionController";
 import express from "express";
 import { PermissionRelationshipController } from "../../controllers/PermissionRelationshipController";
+import { PermissionGroupEnum } from "../../interfaces/PermissionGroupInterface";
+import { Audit } from "../../Audit";
+import {
+  AuditActionEnum,
+  AuditTargetTypeEnum,
+} from "../../interfaces/AuditLogInterface";
 
 const getAllPermissions = async (req, res, next) => {
   try {
@@ -57,26 +61,6 @@ const getRoleById = async (req, res, next) => {
 
 const createNewRole = async (req, res, next) => {
   try {
-    /**
-     * Get authorization and permissions for create a role
-     */
-    const user: User = req["UserRequest"];
-
-    // Unauthorized
-    if (!user) {
-      return next(
-        new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
-      );
-    }
-
-    // Forbidden
-    if (
-      !(await user.hasPermission(PermissionEnum.ADMIN_CREATE_PERMISSION_GROUP))
-    ) {
-      return next(
-        new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-      );
-    }
     /**
      * Create a new role (permission group)
      */
@@ -106,6 +90,14 @@ const createNewRole = async (req, res, next) => {
       roleName,
       roleDescription
     );
+    await Audit.record(
+      req,
+      AuditActionEnum.ROLE_CREATE,
+      AuditTargetTypeEnum.PERMISSION_GROUP,
+      response.id,
+      null,
+      response
+    );
 
     res.json(response);
   } catch (err) {
@@ -115,25 +107,6 @@ const createNewRole = async (req, res, next) => {
 
 const grantPermissionToRole = async (req, res, next) => {
   try {
-    /**
-     * Get authorization and permissions for create a role
-     */
-    const user: User = req["UserRequest"];
-
-    // Unauthorized
-    if (!user) {
-      return next(
-        new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401)
-      );
-    }
-
-    // Forbidden
-    if (!(await user.hasPermission(PermissionEnum.GRANT_PERMISSION_TO_GROUP))) {
-      return next(
-        new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-      );
-    }
-
     const permissionGroupId = req.body.permissionGroupId as any;
     const permissionId = req.body.permissionId as any;
     if (!permissionGroupId || !permissionId) {
@@ -167,6 +140,14 @@ const grantPermissionToRole = async (req, res, next) => {
       permissionId,
       permissionGroupId
     );
+    await Audit.record(
+      req,
+      AuditActionEnum.ROLE_PERMISSION_GRANT,
+      AuditTargetTypeEnum.PERMISSION_GROUP,
+      permissionGroupId,
+      null,
+      { permissionId }
+    );
 
     res.status(204).end();
   } catch (err) {
@@ -205,10 +186,28 @@ const revokePermissionsFromGroup = async (req, res, next) => {
       );
     }
 
+    // The admin group must keep every permission
+    if (parseInt(permissionGroupId) === PermissionGroupEnum.ADMIN) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.PermissionGroupProtected,
+          403
+        )
+      );
+    }
+
     await PermissionRelationshipController.removeRelationship(
       permissionId,
       permissionGroupId
     );
+    await Audit.record(
+      req,
+      AuditActionEnum.ROLE_PERMISSION_REVOKE,
+      AuditTargetTypeEnum.PERMISSION_GROUP,
+      permissionGroupId,
+      { permissionId },
+      null
+    );
 
     res.status(204).end();
   } catch (err) {
@@ -216,6 +215,158 @@ const revokePermissionsFromGroup = async (req, res, next) => {
   }
 };
 
+const updateRole = async (req, res, next) => {
+  try {
+    const roleId = parseInt(req.params.roleId);
+    const roleName = req.body.name as string;
+    const roleDescription = req.body.description as string;
+    if (!roleName || !roleDescription) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.MissingRequiredFields,
+          400
+        )
+      );
+    }
+
+    const role = await PermissionGroupController.getPermissionGroup(roleId);
+    if (!role) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.PermissionGroupNotExists,
+          404
+        )
+      );
+    }
+
+    // The name is taken by another permission group
+    const namesake = await PermissionGroupController.getPermissionGroupByName(
+      roleName
+    );
+    if (namesake && namesake.id !== roleId) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.PermissionGroupExists,
+          409
+        )
+      );
+    }
+
+    await PermissionGroupController.updatePermissionGroup(
+      roleId,
+      roleName,
+      roleDescription
+    );
+    const updatedRole = await PermissionGroupController.getPermissionGroup(
+      roleId
+    );
+    await Audit.record(
+      req,
+      AuditActionEnum.ROLE_UPDATE,
+      AuditTargetTypeEnum.PERMISSION_GROUP,
+      roleId,
+      role,
+      updatedRole
+    );
+    res.json(updatedRole);
+  } catch (err) {
+    next(new MiddlewareError(err.message, 500));
+  }
+};
+
+const deleteRole = async (req, res, next) => {
+  try {
+    const roleId = parseInt(req.params.roleId);
+    // Members are moved into the user group, unless another one is provided
+    const fallbackRoleId = req.body.fallbackRoleId
+      ? parseInt(req.body.fallbackRoleId)
+      : PermissionGroupEnum.USER;
+
+    const role = await PermissionGroupController.getPermissionGroup(roleId);
+    if (!role) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.PermissionGroupNotExists,
+          404
+        )
+      );
+    }
+
+    // Built-in groups
+    if (roleId === PermissionGroupEnum.ADMIN) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.PermissionGroupProtected,
+          403
+        )
+      );
+    }
+    if (roleId === PermissionGroupEnum.USER) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.DefaultPermissionGroup,
+          403
+        )
+      );
+    }
+
+    if (
+      fallbackRoleId === roleId ||
+      !(await PermissionGroupController.getPermissionGroup(fallbackRoleId))
+    ) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.InvalidFallbackPermissionGroup,
+          400
+        )
+      );
+    }
+
+    const movedUsers = await PermissionGroupController.deletePermissionGroup(
+      roleId,
+      fallbackRoleId
+    );
+    await Audit.record(
+      req,
+      AuditActionEnum.ROLE_DELETE,
+      AuditTargetTypeEnum.PERMISSION_GROUP,
+      roleId,
+      { ...role, movedUsers, fallbackRoleId },
+      null
+    );
+    res.json({ fallbackRoleId, movedUsers });
+  } catch (err) {
+    next(new MiddlewareError(err.message, 500));
+  }
+};
+
+const getRoleUsers = async (req, res, next) => {
+  try {
+    const roleId = parseInt(req.params.roleId);
+    const limit = parseInt(req.query.limit) || 20;
+    const page = parseInt(req.query.page) || 0;
+
+    if (!(await PermissionGroupController.getPermissionGroup(roleId))) {
+      return next(
+        new MiddlewareError(
+          Locale.HttpResponseMessage.PermissionGroupNotExists,
+          404
+        )
+      );
+    }
+
+    res.json(
+      await PermissionGroupController.getUsersFromPermissionGroup(
+        roleId,
+        limit,
+        page
+      )
+    );
+  } catch (err) {
+    next(new MiddlewareError(err.message, 500));
+  }
+};
+
 export const PermissionFunction = {
   getAllPermissions,
   getAllRoles,
@@ -223,4 +374,7 @@ export const PermissionFunction = {
   createNewRole,
   grantPermissionToRole,
   revokePermissionsFromGroup,
+  updateRole,
+  deleteRole,
+  getRoleUsers,
 };
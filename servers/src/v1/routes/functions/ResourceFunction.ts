@@ -1,27 +1,115 @@
-import fs from "fs";
+import path from "path";
+import { v4 as uuid } from "uuid";
 import { ResourceInterface } from "./../../interfaces/ResourceInterface";
 import express from "express";
-import { PermissionEnum } from "./../../interfaces/PermissionInterface";
 import { Locale } from "./../../Locale";
 import { MiddlewareError } from "./../../errors/MiddlewareError";
 import ResourceController from "./../../controllers/ResourceController";
 import { User } from "../../classes/User";
 import ImageUtils from "../../utils/ImageUtils";
+import { Audit } from "../../Audit";
+import { AuditActionEnum, AuditTargetTypeEnum } from "../../interfaces/AuditLogInterface";
+import { ImageFormatEnum, ImageSizeEnum } from "../../interfaces/ResourceDerivativeInterface";
+import { ResourceDerivatives } from "../../ResourceDerivatives";
+import ResourceDerivativeController from "../../controllers/ResourceDerivativeController";
+import { getStorageDriver } from "../../Storage";
+import { StorageDriverInterface, StorageRangeInterface } from "../../interfaces/StorageInterface";
+
+/**
+ * Retrieves how long the clients may cache a resource without revalidating
+ * it, from the environment.
+ *
+ * @returns a duration in seconds, 7 days by default
+ */
+function getResourceCacheMaxAge(): number {
+    const maxAge = parseInt(process.env.RESOURCE_CACHE_MAX_AGE);
+    return Number.isNaN(maxAge) || maxAge < 0 ? 604800 : maxAge;
+}
 
-async function getAllResources(req, res, next) {
-    try {
-        const user = await req["UserRequest"];
+/**
+ * Check whether the range of a request still applies, i.e. its If-Range
+ * header (if any) matches the current validators of the file.
+ *
+ * @param req a request with a range
+ * @param etag an entity tag of the file
+ * @param lastModified a modification time of the file
+ * @returns true whether the range must be served, false otherwise
+ */
+function isRangeFresh(req: express.Request, etag: string, lastModified: Date): boolean {
+    const ifRange = req.get("If-Range");
+    if (!ifRange) {
+        return true;
+    }
+    if (ifRange.indexOf('"') !== -1) {
+        return ifRange === etag;
+    }
+    return Date.parse(lastModified.toUTCString()) <= Date.parse(ifRange);
+}
 
-        // Check authorization
-        if (!user) {
-            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
-        }
+/**
+ * Stream a stored file, with the validators (ETag, Last-Modified) to answer
+ * the conditional requests and a single byte range. The other requests get
+ * the whole file.
+ *
+ * @param req a request of the file
+ * @param res a response to stream into
+ * @param next a callback to report the errors
+ * @param driver a storage driver which holds the file
+ * @param key a key of the file
+ * @param contentType a media type of the file
+ */
+async function sendStoredFile(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction,
+    driver: StorageDriverInterface,
+    key: string,
+    contentType: string
+) {
+    const file = await driver.stat(key);
+    if (!file) {
+        return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceFileNotFound, 404));
+    }
+
+    const etag = `W/"${file.size.toString(16)}-${file.lastModified.getTime().toString(16)}"`;
+    res.setHeader("Cache-Control", `public, max-age=${getResourceCacheMaxAge()}`);
+    res.setHeader("Last-Modified", file.lastModified.toUTCString());
+    res.setHeader("ETag", etag);
+    res.setHeader("Accept-Ranges", "bytes");
+    if (req.fresh) {
+        return res.status(304).end();
+    }
 
-        // Check user permission to access all resources
-        if (!(await user.hasPermission(PermissionEnum.RESOURCE_ACCESS_ALL))) {
-            return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+    let range: StorageRangeInterface;
+    const ranges = isRangeFresh(req, etag, file.lastModified) ? req.range(file.size) : undefined;
+    if (ranges === -1) {
+        res.setHeader("Content-Range", `bytes */${file.size}`);
+        return next(new MiddlewareError(Locale.HttpResponseMessage.RangeNotSatisfiable, 416));
+    }
+    if (typeof ranges === "object" && ranges.type === "bytes" && ranges.length === 1) {
+        range = { start: ranges[0].start, end: ranges[0].end };
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${file.size}`);
+    }
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Length", range ? range.end - range.start + 1 : file.size);
+    if (req.method === "HEAD") {
+        return res.end();
+    }
+
+    const stream = await driver.createReadStream(key, range);
+    stream.on("error", (err) => {
+        if (res.headersSent) {
+            return res.destroy(err);
         }
+        next(new MiddlewareError(err.message, 500));
+    });
+    res.on("close", () => stream.destroy());
+    stream.pipe(res);
+}
 
+async function getAllResources(req, res, next) {
+    try {
         // Get limit and offset
         const limit = parseInt(req.query.limit as any) || 10;
         const page = parseInt(req.query.page as any) || 0;
@@ -31,7 +119,7 @@ async function getAllResources(req, res, next) {
         // Retrieve all resources
         const resources = await ResourceController.getResources(limit, page, orderBy, order);
 
-        const length = (await ResourceController.countAllResources())[0]["count(*)"];
+        const length = await ResourceController.countAllResources();
         // Debug out
         console.log(
             `[resources] fetch all resource by filter limit ${limit}, page ${page}, orderBy ${orderBy}, order ${order}`
@@ -60,24 +148,26 @@ async function handleUploadResource(
         return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
     }
 
-    // Check permission
-    if (!(await user.hasPermission(PermissionEnum.RESOURCE_CREATE))) {
-      return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
-    }
-
     // Process image
     Promise.all(
         uploadedFiles.map(async (file: Express.Multer.File) => {
             // Handle image
             console.log(`[resources] handling uploaded file ${file.originalname}`);
-            const outBuffer = await ImageUtils.processImage(fs.readFileSync(file.path));
-
-            // Write back buffer
-            console.log(`[resources] writing file into ${file.path}`);
-            fs.writeFileSync(file.path, outBuffer);
+            const outBuffer = await ImageUtils.processImage(file.buffer);
+
+            // Using uuid to generate a unique filename. Add with extension to avoid file name conflict.
+            const driver = getStorageDriver();
+            const filename = `${uuid()}${path.extname(file.originalname)}`;
+            const key = driver.getKey(filename);
+            console.log(`[resources] writing file into ${driver.name} storage ${key}`);
+            await driver.write(
+                key,
+                outBuffer,
+                ResourceDerivatives.getImageContentType(ImageFormatEnum.JPEG)
+            );
 
             // Then start to create resource and put it into database
-            const { originalname, filename, path } = file;
+            const { originalname } = file;
             const size = outBuffer.length;
 
             // Retrieves a response
@@ -85,10 +175,20 @@ async function handleUploadResource(
             const resource: ResourceInterface = await ResourceController.createResourceMetadata(
                 originalname,
                 filename,
-                path,
+                key,
                 size,
-                user.id
+                user.id,
+                driver.name
+            );
+            await Audit.record(
+                req,
+                AuditActionEnum.RESOURCE_CREATE,
+                AuditTargetTypeEnum.RESOURCE,
+                resource.id,
+                null,
+                resource
             );
+            await ResourceDerivatives.generateDerivatives(resource);
 
             // Hide path
             const { id, originalName, fileName, uploadedAt, uploader } = resource;
@@ -105,17 +205,51 @@ async function handleUploadResource(
 }
 
 async function getBufferResource(req, res, next) {
-    const { id } = req.params;
-    const resourceMetadata = await ResourceController.getResourceMetadata(id);
+    try {
+        const { id } = req.params;
+        const resourceMetadata = await ResourceController.getResourceMetadata(id);
 
-    // Resource not found
-    if (!resourceMetadata) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
-    }
+        // Resource not found
+        if (!resourceMetadata) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
+        }
+
+        // Pick a size and a format, the uploaded image by default
+        const size = req.query.size || ImageSizeEnum.FULL;
+        const format = req.query.format || ImageFormatEnum.JPEG;
+        if (!ResourceDerivatives.isImageSize(size)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidImageSize, 400));
+        }
+        if (!ResourceDerivatives.isImageFormat(format)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidImageFormat, 400));
+        }
+
+        // The file was removed from its storage
+        const driver = getStorageDriver(resourceMetadata.storage);
+        if (!(await driver.stat(resourceMetadata.path))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceFileNotFound, 404));
+        }
+
+        // Generate the derivative whether it does not exist yet
+        const derivative = await ResourceDerivatives.getOrCreateDerivative(
+            resourceMetadata,
+            size,
+            format
+        );
 
-    // Then write a file from path
-    const data: Buffer = fs.readFileSync(resourceMetadata.path);
-    res.end(data);
+        // The stored files are always encoded as the requested format,
+        // whatever their extension
+        await sendStoredFile(
+            req,
+            res,
+            next,
+            derivative ? getStorageDriver(derivative.storage) : driver,
+            derivative ? derivative.path : resourceMetadata.path,
+            ResourceDerivatives.getImageContentType(format)
+        );
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
 }
 
 async function getMetadataResource(
@@ -123,23 +257,49 @@ async function getMetadataResource(
     res: express.Response,
     next: express.NextFunction
 ) {
-    // Pre-process req.params.id
-    if (!req.params.id) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 404));
-    }
+    try {
+        // Pre-process req.params.id
+        if (!req.params.id) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 404));
+        }
 
-    // Retrieves a response
-    const resource: ResourceInterface = await ResourceController.getResourceMetadata(req.params.id);
+        // Retrieves a response
+        const resource: ResourceInterface = await ResourceController.getResourceMetadata(
+            req.params.id
+        );
 
-    // Not found resource
-    if (!resource) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
-    }
-    // Hide path
-    const { id, originalName, fileName, uploadedAt, uploader, size, path } = resource;
+        // Not found resource
+        if (!resource) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
+        }
+        // Hide path
+        const { id, originalName, fileName, uploadedAt, uploader, size, path, storage } = resource;
+        const derivatives = (await ResourceDerivativeController.getDerivatives(id)).map(
+            (derivative) => ({
+                size: derivative.size,
+                format: derivative.format,
+                fileName: derivative.fileName,
+                width: derivative.width,
+                height: derivative.height,
+                fileSize: derivative.fileSize,
+            })
+        );
 
-    // Return to all promises
-    res.status(200).json({ id, originalName, fileName, uploadedAt, uploader, size, path });
+        // Return to all promises
+        res.status(200).json({
+            id,
+            originalName,
+            fileName,
+            uploadedAt,
+            uploader,
+            size,
+            path,
+            storage,
+            derivatives,
+        });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
 }
 
 async function updateResource(
@@ -147,32 +307,27 @@ async function updateResource(
     res: express.Response,
     next: express.NextFunction
 ) {
-    // Get user
-    const user = await req["UserRequest"];
-
-    // Authorization required
-    if (!user) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
-    }
-
-    // Check permission
-    if (!(await user.hasPermission(PermissionEnum.RESOURCE_UPDATE))) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
-    }
-
     // Take parameter from body
     const { id } = req.params;
     const { name } = req.body;
 
-    // Resource check
-    const resource = await ResourceController.getResourceMetadata(id);
-    if (!resource) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
-    }
-
     try {
+        // Resource check
+        const resource = await ResourceController.getResourceMetadata(id);
+        if (!resource) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
+        }
+
         // Update resource metadata
         await ResourceController.updateResource(id, name);
+        await Audit.record(
+            req,
+            AuditActionEnum.RESOURCE_UPDATE,
+            AuditTargetTypeEnum.RESOURCE,
+            id,
+            resource,
+            await ResourceController.getResourceMetadata(id)
+        );
         res.status(201).json({ id, name });
     } catch (err) {
         next(new MiddlewareError(err.message, 500));
@@ -184,32 +339,29 @@ async function deleteResource(
     res: express.Response,
     next: express.NextFunction
 ) {
-    // Get user
-    const user = await req["UserRequest"];
-
-    // Authorization required
-    if (!user) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
-    }
-
-    // Check permission
-    if (!(await user.hasPermission(PermissionEnum.RESOURCE_DELETE))) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
-    }
-
     // Take parameter from body
     const { id } = req.params;
-    // Resource check
-    const resource = await ResourceController.getResourceMetadata(id);
-    if (!resource) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
-    }
-
     try {
+        // Resource check
+        const resource = await ResourceController.getResourceMetadata(id);
+        if (!resource) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ResourceNotFound, 404));
+        }
+
+        // Remove the derivative files, their rows are deleted with the resource
+        await ResourceDerivatives.removeDerivativeFiles(resource.id);
         // Delete resource
         await ResourceController.deleteResource(id);
-        // Before response, unlink the file in the file system
-        fs.unlinkSync(resource.path);
+        // Before response, remove the file from its storage
+        await getStorageDriver(resource.storage).remove(resource.path);
+        await Audit.record(
+            req,
+            AuditActionEnum.RESOURCE_DELETE,
+            AuditTargetTypeEnum.RESOURCE,
+            id,
+            resource,
+            null
+        );
         // Debug out this method
         console.info(`[resource] delete resource ${id} from path ${resource.path}`);
         res.status(200).json({ id });
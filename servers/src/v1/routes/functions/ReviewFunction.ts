@@ -1,36 +1,39 @@
-import { PermissionEnum } from "./../../interfaces/PermissionInterface";
 import { User } from "./../../classes/User";
 import { Locale } from "./../../Locale";
 import { MiddlewareError } from "./../../errors/MiddlewareError";
 import ReviewController from "../../controllers/ReviewController";
 import ComicController from "../../controllers/ComicController";
+import { Authorization, OwnershipRules } from "../../Authorization";
+import { Audit } from "../../Audit";
+import { AuditActionEnum, AuditTargetTypeEnum } from "../../interfaces/AuditLogInterface";
 
 const ReviewFunction = {
     createReview: async (req, res, next) => {
         try {
-            const { comicId, userId, rating, content } = req.body;
+            const { comicId, rating, content } = req.body;
 
             // Invalid fields
-            if (!comicId || !userId || !rating || !content) {
+            if (!comicId || !rating || !content) {
                 return next(
                     new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400)
                 );
             }
 
-            // Validates user
-            const user: User = await req["UserRequest"];
-            if (!user) {
-                return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+            // Unpublished comics are not found, unless the user can view them
+            const user: User = req["UserRequest"];
+            const comic = await ComicController.getComic(comicId);
+            if (!comic || !(await Authorization.canViewComic(user, comic))) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404));
             }
 
-            // No permissions
-            if (!user.hasPermission(PermissionEnum.REVIEW_CREATE)) {
-                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            if (await user.isMuted()) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.UserMuted, 403));
             }
 
+            // Reviews are always posted by the current user
             const currentReview = await ReviewController.createReview(
                 comicId,
-                userId,
+                user.id,
                 rating,
                 content
             );
@@ -51,8 +54,10 @@ const ReviewFunction = {
                 );
             }
 
+            // Not found, the reviews of unpublished comics neither
             const currentReview = await ReviewController.getReviewById(reviewId);
-            if (!currentReview) {
+            const comic = currentReview && (await ComicController.getComic(currentReview.comic.id));
+            if (!comic || !(await Authorization.canViewComic(req["UserRequest"], comic))) {
                 return next(new MiddlewareError(Locale.HttpResponseMessage.ReviewNotFound, 404));
             }
 
@@ -72,9 +77,12 @@ const ReviewFunction = {
                 );
             }
 
-            // Comic is not found
-            const currentComic = await ComicController.getComicById(comicId);
-            if (!currentComic) {
+            // Comic is not found, unpublished comics neither
+            const currentComic = await ComicController.getComic(comicId);
+            if (
+                !currentComic ||
+                !(await Authorization.canViewComic(req["UserRequest"], currentComic))
+            ) {
                 return next(new MiddlewareError(Locale.HttpResponseMessage.ComicNotFound, 404));
             }
 
@@ -102,15 +110,31 @@ const ReviewFunction = {
                 return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
             }
 
-            // No permissions
-            // if (!user.hasPermission(PermissionEnum.REVIEW_DELETE) && !user.) {
-            //   return next(
-            //     new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-            //   );
-            // }
+            // The author of the review or a moderator
+            const review = await ReviewController.getReviewById(reviewId);
+            if (!review) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.ReviewNotFound, 404));
+            }
+            if (
+                !(await Authorization.canModify(user, [review.user.id], OwnershipRules.Review))
+            ) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            }
 
             await ReviewController.deleteReview(reviewId);
 
+            // Moderation of the reviews of other users
+            if (!Authorization.isOwner(user, [review.user.id])) {
+                await Audit.record(
+                    req,
+                    AuditActionEnum.REVIEW_DELETE,
+                    AuditTargetTypeEnum.REVIEW,
+                    reviewId,
+                    review,
+                    null
+                );
+            }
+
             res.status(200).json({ success: true });
         } catch (err) {
             next(err);
@@ -134,15 +158,34 @@ const ReviewFunction = {
                 return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
             }
 
-            // No permissions
-            // if (!user.hasPermission(PermissionEnum.REVIEW_UPDATE)) {
-            //   return next(
-            //     new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403)
-            //   );
-            // }
+            // The author of the review or a moderator
+            const review = await ReviewController.getReviewById(reviewId);
+            if (!review) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.ReviewNotFound, 404));
+            }
+            if (
+                !(await Authorization.canModify(user, [review.user.id], OwnershipRules.Review))
+            ) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+            }
+            if (await user.isMuted()) {
+                return next(new MiddlewareError(Locale.HttpResponseMessage.UserMuted, 403));
+            }
 
             const currentReview = await ReviewController.updateReview(reviewId, rating, content);
 
+            // Moderation of the reviews of other users
+            if (!Authorization.isOwner(user, [review.user.id])) {
+                await Audit.record(
+                    req,
+                    AuditActionEnum.REVIEW_UPDATE,
+                    AuditTargetTypeEnum.REVIEW,
+                    reviewId,
+                    review,
+                    await ReviewController.getReviewById(reviewId)
+                );
+            }
+
             res.status(200).json({ success: true });
         } catch (err) {
             next(err);
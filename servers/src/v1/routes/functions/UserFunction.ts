@@ -5,9 +5,40 @@ import { MiddlewareError } from "../../errors/MiddlewareError";
 import { UserController } from "../../controllers/UserController";
 import isEmail from "validator/lib/isEmail";
 import PasswordUtils from "../../utils/PasswordUtils";
-import { generateToken } from "../../utils/TokenUtils";
+import {
+    generateToken,
+    generateTwoFactorToken,
+    verifyTwoFactorToken,
+} from "../../utils/TokenUtils";
 import { User } from "../../classes/User";
 import { PermissionEnum } from "../../interfaces/PermissionInterface";
+import { UserSessionController } from "../../controllers/UserSessionController";
+import { UserTokenController } from "../../controllers/UserTokenController";
+import { UserTokenTypeEnum } from "../../interfaces/UserTokenInterface";
+import { Mail } from "../../Mail";
+import { Logger } from "../../utils/Logger";
+import { TwoFactorController } from "../../controllers/TwoFactorController";
+import { getOtpauthUri } from "../../utils/TotpUtils";
+import {
+    UserSessionInterface,
+    UserSessionTokenInterface,
+} from "../../interfaces/UserSessionInterface";
+import { UserApiKeyController } from "../../controllers/UserApiKeyController";
+import { UserApiKeyInterface } from "../../interfaces/UserApiKeyInterface";
+import { UserPermissionOverrideController } from "../../controllers/UserPermissionOverrideController";
+import {
+    UserPermissionOverrideEffectEnum,
+    UserPermissionOverrideInterface,
+} from "../../interfaces/UserPermissionOverrideInterface";
+import { PermissionController } from "../../controllers/PermissionController";
+import { UserSanctionController } from "../../controllers/UserSanctionController";
+import {
+    UserSanctionInterface,
+    UserSanctionTypeEnum,
+} from "../../interfaces/UserSanctionInterface";
+import { PermissionGroupEnum } from "../../interfaces/PermissionGroupInterface";
+import { Audit } from "../../Audit";
+import { AuditActionEnum, AuditTargetTypeEnum } from "../../interfaces/AuditLogInterface";
 
 /**
  *
@@ -63,6 +94,13 @@ async function signUp(req: express.Request, res: express.Response, next: express
             introduction || ""
         );
 
+        // Ask the user to verify their email
+        if (responseUser.email) {
+            await sendEmailVerification(responseUser.id, responseUser.email).catch((error) =>
+                Logger.error(`Unable to send the verification mail: ${error.message}`)
+            );
+        }
+
         // Filter password out
         const filteredResponseUser = {
             id: responseUser.id,
@@ -80,30 +118,314 @@ async function signUp(req: express.Request, res: express.Response, next: express
     }
 }
 
+/**
+ * Reject a sign in attempt of a locked account.
+ *
+ * @param res a response object
+ * @param next a next middleware function
+ * @param lockedUntil a time until which the account is locked
+ */
+function rejectLockedAccount(res: express.Response, next: express.NextFunction, lockedUntil: Date) {
+    res.setHeader("Retry-After", Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+    return next(new MiddlewareError(Locale.HttpResponseMessage.AccountLocked, 429));
+}
+
 async function signIn(req: express.Request, res: express.Response, next: express.NextFunction) {
-    const { username, password } = req.body;
-    if (!username || !password) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
-    }
-    // Get user first
-    const user = await UserController.getUserFromUsername(username);
-    // Not found user
-    if (!user) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 400));
+    try {
+        const { username, password } = req.body;
+        if (
+            typeof username !== "string" ||
+            typeof password !== "string" ||
+            !username ||
+            !password
+        ) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+        // Get user first
+        const user = await UserController.getUserFromUsername(username);
+        // Not found user, respond as for a wrong password so that
+        // the existing usernames can not be discovered
+        if (!user) {
+            PasswordUtils.compareDummy(password);
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidCredentials, 400));
+        }
+
+        // Too many failed attempts, respond as for a wrong password too so that
+        // the lockout does not reveal the existing usernames
+        if (await UserController.getLockedUntil(user.id)) {
+            PasswordUtils.compareDummy(password);
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidCredentials, 400));
+        }
+
+        // Found, check password
+        // Unless the password is correct
+        if (!PasswordUtils.compare(password, user.password)) {
+            await UserController.registerFailedSignIn(user.id);
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidCredentials, 400));
+        }
+
+        // Banned users can not sign in until the ban expires or is lifted
+        if (await UserSanctionController.getActiveSanction(user.id, UserSanctionTypeEnum.BAN)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserBanned, 403));
+        }
+
+        // A second step is required whether two-factor authentication is enabled
+        if (await TwoFactorController.isTwoFactorEnabled(user.id)) {
+            return res.json({
+                twoFactorRequired: true,
+                twoFactorToken: generateTwoFactorToken(user.id),
+            });
+        }
+
+        // Success, open a new session
+        await UserController.resetFailedSignIns(user.id);
+        const sessionToken = await UserSessionController.createSession(
+            user.id,
+            req.get("User-Agent"),
+            req.ip
+        );
+        res.json(await getSessionTokenResponse(sessionToken));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
     }
+}
 
-    // Found, check password
-    // Unless the password is correct
-    if (!PasswordUtils.compare(password, user.password)) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.IncorrectPassword, 400));
+async function signInTwoFactor(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const { twoFactorToken, code, recoveryCode } = req.body;
+        if (!twoFactorToken || (!code && !recoveryCode)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        // The token proves that the password step has been passed
+        const userId = verifyTwoFactorToken(twoFactorToken);
+        if (!userId || !(await TwoFactorController.isTwoFactorEnabled(userId))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTokenOrExpired, 401));
+        }
+
+        // Wrong codes count as failed attempts too
+        const lockedUntil = await UserController.getLockedUntil(userId);
+        if (lockedUntil) {
+            return rejectLockedAccount(res, next, lockedUntil);
+        }
+
+        // Either a code of the authenticator application or a recovery code
+        const isValid = code
+            ? await TwoFactorController.verifyCode(userId, code)
+            : await TwoFactorController.consumeRecoveryCode(userId, recoveryCode);
+        if (!isValid) {
+            await UserController.registerFailedSignIn(userId);
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTwoFactorCode, 401));
+        }
+
+        await UserController.resetFailedSignIns(userId);
+        const sessionToken = await UserSessionController.createSession(
+            userId,
+            req.get("User-Agent"),
+            req.ip
+        );
+        res.json(await getSessionTokenResponse(sessionToken));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
     }
+}
 
-    // Success, create web token
+/**
+ * Issues an access token for the session.
+ *
+ * @param sessionToken a session with its refresh token
+ * @returns a response body with the access token and the refresh token
+ */
+async function getSessionTokenResponse({ session, refreshToken }: UserSessionTokenInterface) {
     const token = await generateToken({
-        id: user.id,
+        id: session.userId,
+        sessionId: session.id,
         generatedAt: new Date(),
     });
-    res.json({ token: token.token });
+    return {
+        token: token.token,
+        refreshToken,
+        refreshTokenExpiresAt: session.expiresAt,
+    };
+}
+
+async function refreshToken(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        const { refreshToken } = req.body;
+        if (typeof refreshToken !== "string" || !refreshToken) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        // The refresh token is replaced, the provided one can not be used anymore
+        const sessionToken = await UserSessionController.rotateRefreshToken(refreshToken);
+        if (!sessionToken) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidRefreshToken, 401));
+        }
+        res.json(await getSessionTokenResponse(sessionToken));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function signOut(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        // Revoke the session of the current token
+        const session: UserSessionInterface = req["SessionRequest"];
+        await UserSessionController.revokeSession(session.id);
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function getSessions(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const currentSession: UserSessionInterface = req["SessionRequest"];
+        const sessions = await UserSessionController.getActiveSessionsFromUserId(userRequest.id);
+
+        // Never expose the refresh token hash
+        res.json(
+            sessions.map(({ id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt }) => ({
+                id,
+                userAgent,
+                ipAddress,
+                createdAt,
+                lastUsedAt,
+                expiresAt,
+                current: id === currentSession.id,
+            }))
+        );
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function revokeSession(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        // Users can only revoke their own sessions
+        const userRequest: User = req["UserRequest"];
+        const sessionId = parseInt(req.params.id);
+        if (isNaN(sessionId)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.SessionNotFound, 404));
+        }
+        const session = await UserSessionController.getActiveSession(sessionId);
+        if (!session || session.userId !== userRequest.id) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.SessionNotFound, 404));
+        }
+
+        await UserSessionController.revokeSession(session.id);
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+/**
+ * Retrieves a response body of an API key, without its hash.
+ *
+ * @param apiKey an API key
+ * @returns a response body
+ */
+function getApiKeyResponse(apiKey: UserApiKeyInterface) {
+    const { id, name, keyPrefix, scopes, createdAt, lastUsedAt } = apiKey;
+    return { id, name, keyPrefix, scopes, createdAt, lastUsedAt };
+}
+
+async function getApiKeys(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const apiKeys = await UserApiKeyController.getActiveApiKeysFromUserId(userRequest.id);
+        res.json(apiKeys.map(getApiKeyResponse));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function createApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const { name, scopes } = req.body;
+        if (typeof name !== "string" || name.trim().length === 0 || name.trim().length > 64) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidApiKeyName, 400));
+        }
+
+        // Scopes are optional, every scope must be a known permission
+        if (
+            scopes !== undefined &&
+            scopes !== null &&
+            (!Array.isArray(scopes) ||
+                scopes.some(
+                    (scope) => typeof scope !== "number" || PermissionEnum[scope] === undefined
+                ))
+        ) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidApiKeyScopes, 400));
+        }
+
+        // The key is only shown once
+        const { apiKey, key } = await UserApiKeyController.createApiKey(
+            userRequest.id,
+            name.trim(),
+            scopes ? scopes.filter((scope, index) => scopes.indexOf(scope) === index) : null
+        );
+        res.status(201).json({ ...getApiKeyResponse(apiKey), key });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function revokeApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        // Users can only revoke their own keys
+        const userRequest: User = req["UserRequest"];
+        const apiKeyId = parseInt(req.params.id);
+        if (isNaN(apiKeyId)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ApiKeyNotFound, 404));
+        }
+        const apiKey = await UserApiKeyController.getApiKey(apiKeyId);
+        if (!apiKey || apiKey.revokedAt || apiKey.userId !== userRequest.id) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.ApiKeyNotFound, 404));
+        }
+
+        await UserApiKeyController.revokeApiKey(apiKey.id);
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
 }
 
 async function getProfile(req: express.Request, res: express.Response, next: express.NextFunction) {
@@ -125,6 +447,7 @@ async function getProfile(req: express.Request, res: express.Response, next: exp
         id,
         username,
         email,
+        emailVerified: Boolean(userRequest.emailVerifiedAt),
         nickname,
         introduction,
         role: await userRequest.getRole(),
@@ -169,20 +492,10 @@ async function updateProfile(
         return next(new MiddlewareError(Locale.HttpResponseMessage.NoTokenProvided, 400));
     }
 
-    // Not found a user, response unauthorized
-    if (!req["UserRequest"]) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
-    }
-
     // Extract user from request
     const userRequest: User = req["UserRequest"];
     const { nickname, introduction, email } = req.body;
 
-    // Check for permission
-    if (!userRequest.hasPermission(PermissionEnum.USER_UPDATE_PROFILE)) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
-    }
-
     // remove check modified - tungls
     // // Whether provide nothing. Not modified
     // if (!nickname && !introduction) {
@@ -205,6 +518,13 @@ async function updateProfile(
     // Update user
     await UserController.updateUserProfile(userRequest.id, nickname, introduction, email);
 
+    // A changed email has to be verified again
+    if (email && email !== userRequest.email) {
+        await sendEmailVerification(userRequest.id, email).catch((error) =>
+            Logger.error(`Unable to send the verification mail: ${error.message}`)
+        );
+    }
+
     // Response
     res.status(204).end();
 }
@@ -215,11 +535,6 @@ async function updateUserPassword(req, res, next) {
         return next(new MiddlewareError(Locale.HttpResponseMessage.NoTokenProvided, 400));
     }
 
-    // Not found a user, response unauthorized
-    if (!req["UserRequest"]) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
-    }
-
     // Extract user from request
     const userRequest: User = req["UserRequest"];
     const { oldPassword, confirmPassword, newPassword } = req.body;
@@ -230,11 +545,6 @@ async function updateUserPassword(req, res, next) {
         return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
     }
 
-    // Check for permission
-    if (!userRequest.hasPermission(PermissionEnum.USER_UPDATE_PROFILE)) {
-        return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
-    }
-
     // Check password
     if (!PasswordUtils.compare(oldPassword, userRequest.password)) {
         return next(new MiddlewareError(Locale.HttpResponseMessage.IncorrectPassword, 400));
@@ -252,33 +562,676 @@ async function updateUserPassword(req, res, next) {
 
     // Change password
     await UserController.updateUserPassword(userRequest.id, newPassword);
+    // Sign out everywhere, tokens issued with the old password are no longer trusted
+    await UserSessionController.revokeAllSessionsFromUserId(userRequest.id);
     // Response status
     res.status(204).end();
 }
 
-async function setPermissionGroupUser(req, res, next) {
+/**
+ * Create an email verification token and send it to the email.
+ *
+ * @param userId a user identifier
+ * @param email an email to verify
+ */
+async function sendEmailVerification(userId: number, email: string) {
+    const token = await UserTokenController.createToken(
+        userId,
+        UserTokenTypeEnum.EMAIL_VERIFICATION
+    );
+    await Mail.sendEmailVerificationMail(email, token);
+}
+
+async function forgotPassword(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        const { email } = req.body;
+        if (!email) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+        if (typeof email !== "string" || !isEmail(email)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidEmail, 400));
+        }
+
+        // Respond the same way whether the user exists or not, so that
+        // the registered emails can not be discovered
+        const user = await UserController.getUserFromEmail(email);
+        if (user) {
+            const token = await UserTokenController.createToken(
+                user.id,
+                UserTokenTypeEnum.PASSWORD_RESET
+            );
+            await Mail.sendPasswordResetMail(user.email, token).catch((error) =>
+                Logger.error(`Unable to send the password reset mail: ${error.message}`)
+            );
+        }
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function resetPassword(req: express.Request, res: express.Response, next: express.NextFunction) {
     try {
-        // Get user from token provided
+        const { token, password } = req.body;
+        if (typeof token !== "string" || !token || !password) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        // Validate before consuming, so that the token can be used again
+        if (typeof password !== "string" || !isValidPassword(password)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidPassword, 400));
+        }
+
+        const userId = await UserTokenController.consumeToken(
+            token,
+            UserTokenTypeEnum.PASSWORD_RESET
+        );
+        if (!userId) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTokenOrUsed, 400));
+        }
+
+        await UserController.updateUserPassword(userId, password);
+        // Sign out everywhere, as for a password change
+        await UserSessionController.revokeAllSessionsFromUserId(userId);
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function verifyEmail(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        const { token } = req.body;
+        if (typeof token !== "string" || !token) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        const userId = await UserTokenController.consumeToken(
+            token,
+            UserTokenTypeEnum.EMAIL_VERIFICATION
+        );
+        if (!userId) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTokenOrUsed, 400));
+        }
+
+        await UserController.markEmailVerified(userId);
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function resendEmailVerification(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    // Not found a user, response unauthorized
+    if (!req["UserRequest"]) {
+        return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+    }
+
+    const userRequest: User = req["UserRequest"];
+    if (!userRequest.email) {
+        return next(new MiddlewareError(Locale.HttpResponseMessage.NoEmailProvided, 400));
+    }
+    if (userRequest.emailVerifiedAt) {
+        return next(new MiddlewareError(Locale.HttpResponseMessage.EmailAlreadyVerified, 400));
+    }
+
+    try {
+        await sendEmailVerification(userRequest.id, userRequest.email);
+    } catch (error) {
+        Logger.error(`Unable to send the verification mail: ${error.message}`);
+        return next(new MiddlewareError(Locale.HttpResponseMessage.InternalServerError, 500));
+    }
+    res.status(204).end();
+}
+
+async function getTwoFactorStatus(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
         const userRequest: User = req["UserRequest"];
-        // Not contains user
-        if (!userRequest) {
+        res.json({
+            enabled: await TwoFactorController.isTwoFactorEnabled(userRequest.id),
+            required: await TwoFactorController.isTwoFactorRequired(userRequest.id),
+            recoveryCodes: await TwoFactorController.countRecoveryCodes(userRequest.id),
+        });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function setupTwoFactor(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
             return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
         }
 
-        // If user is not admin, return forbidden
-        if (!userRequest.hasPermission(PermissionEnum.ADMIN_UPDATE_PERMISSION_GROUP)) {
-            return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+        const userRequest: User = req["UserRequest"];
+        if (await TwoFactorController.isTwoFactorEnabled(userRequest.id)) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.TwoFactorAlreadyEnabled, 400)
+            );
+        }
+
+        // The enrollment is pending until a code is confirmed
+        const secret = await TwoFactorController.createSecret(userRequest.id);
+        res.json({
+            secret,
+            otpauthUri: getOtpauthUri(
+                secret,
+                userRequest.username,
+                process.env.TWO_FACTOR_ISSUER || "Comics Paper"
+            ),
+        });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function enableTwoFactor(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const { code } = req.body;
+        if (!code) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        const twoFactor = await TwoFactorController.getTwoFactor(userRequest.id);
+        if (!twoFactor) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.TwoFactorNotSetUp, 400));
+        }
+        if (twoFactor.enabledAt) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.TwoFactorAlreadyEnabled, 400)
+            );
+        }
+
+        // Prove that the authenticator application has the secret
+        if (!(await TwoFactorController.verifyCode(userRequest.id, code))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTwoFactorCode, 400));
+        }
+
+        const recoveryCodes = await TwoFactorController.enableTwoFactor(userRequest.id);
+        res.json({ recoveryCodes });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function disableTwoFactor(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const { password, code, recoveryCode } = req.body;
+        if (!password || (!code && !recoveryCode)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        if (!(await TwoFactorController.isTwoFactorEnabled(userRequest.id))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.TwoFactorNotEnabled, 400));
+        }
+
+        // The policy of the permission group can not be bypassed
+        if (await TwoFactorController.isTwoFactorRequired(userRequest.id)) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.TwoFactorRequiredByPolicy, 403)
+            );
+        }
+
+        if (!PasswordUtils.compare(password, userRequest.password)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.IncorrectPassword, 400));
+        }
+
+        const isValid = code
+            ? await TwoFactorController.verifyCode(userRequest.id, code)
+            : await TwoFactorController.consumeRecoveryCode(userRequest.id, recoveryCode);
+        if (!isValid) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTwoFactorCode, 400));
+        }
+
+        await TwoFactorController.disableTwoFactor(userRequest.id);
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function regenerateRecoveryCodes(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const { code } = req.body;
+        if (!code) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
+        }
+
+        if (!(await TwoFactorController.isTwoFactorEnabled(userRequest.id))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.TwoFactorNotEnabled, 400));
         }
 
+        if (!(await TwoFactorController.verifyCode(userRequest.id, code))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidTwoFactorCode, 400));
+        }
+
+        // The former codes can not be used anymore
+        const recoveryCodes = await TwoFactorController.generateRecoveryCodes(userRequest.id);
+        res.json({ recoveryCodes });
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function setPermissionGroupUser(req, res, next) {
+    try {
         // Get from body userId and permissionId
         const { userId, permissionId } = req.body;
         if (!userId || !permissionId) {
             return next(new MiddlewareError(Locale.HttpResponseMessage.MissingRequiredFields, 400));
         }
 
-        // Check permissions
+        const role = await UserController.getPermissionGroupFromUserId(userId);
         await UserController.updatePermissionRole(userId, permissionId);
+        await Audit.record(
+            req,
+            AuditActionEnum.USER_ROLE_CHANGE,
+            AuditTargetTypeEnum.USER,
+            userId,
+            { permissionGroup: role ? role.id : null },
+            { permissionGroup: permissionId }
+        );
+
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+/**
+ * Retrieves a user from the id parameter of the request.
+ *
+ * @param req a request object
+ * @returns a user whether exists, undefined otherwise
+ */
+async function getUserFromParams(req: express.Request) {
+    const id = parseInt(req.params.id);
+    return id ? UserController.getUserFromUUID(id) : undefined;
+}
+
+/**
+ * Parses an optional expiration time from a request body.
+ *
+ * @param expiresAt a value of the request body
+ * @returns a date, null whether not provided, undefined whether
+ *  the value is invalid or not in the future
+ */
+function parseExpiration(expiresAt: any): Date {
+    if (expiresAt === undefined || expiresAt === null) {
+        return null;
+    }
+    const date = new Date(expiresAt);
+    if (
+        (typeof expiresAt !== "string" && typeof expiresAt !== "number") ||
+        isNaN(date.getTime()) ||
+        date.getTime() <= Date.now()
+    ) {
+        return undefined;
+    }
+    return date;
+}
+
+/**
+ * Retrieves a response body of a permission override.
+ *
+ * @param override a permission override
+ * @returns a response body
+ */
+function getPermissionOverrideResponse(override: UserPermissionOverrideInterface) {
+    const { permissionId, effect, expiresAt, createdBy, createdAt } = override;
+    return {
+        permissionId,
+        effect,
+        expiresAt,
+        expired: expiresAt !== null && expiresAt.getTime() <= Date.now(),
+        createdBy,
+        createdAt,
+    };
+}
+
+async function getPermissionOverrides(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const user = await getUserFromParams(req);
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 404));
+        }
+
+        const overrides = await UserPermissionOverrideController.getOverridesFromUserId(user.id);
+        res.json(overrides.map(getPermissionOverrideResponse));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function setPermissionOverride(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const user = await getUserFromParams(req);
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 404));
+        }
+
+        const permissionId = parseInt(req.params.permissionId);
+        if (isNaN(permissionId) || !(await PermissionController.hasPermission(permissionId))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.PermissionNotExists, 404));
+        }
+
+        const { effect, expiresAt } = req.body;
+        if (
+            effect !== UserPermissionOverrideEffectEnum.GRANT &&
+            effect !== UserPermissionOverrideEffectEnum.DENY
+        ) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.InvalidPermissionOverrideEffect, 400)
+            );
+        }
+
+        // The expiration is optional, the override is permanent without it
+        const expirationDate = parseExpiration(expiresAt);
+        if (expirationDate === undefined) {
+            return next(
+                new MiddlewareError(
+                    Locale.HttpResponseMessage.InvalidPermissionOverrideExpiration,
+                    400
+                )
+            );
+        }
+
+        const userRequest: User = req["UserRequest"];
+        const previous = await UserPermissionOverrideController.getOverride(user.id, permissionId);
+        const override = await UserPermissionOverrideController.setOverride(
+            user.id,
+            permissionId,
+            effect,
+            expirationDate,
+            userRequest.id
+        );
+        await Audit.record(
+            req,
+            AuditActionEnum.USER_PERMISSION_OVERRIDE_SET,
+            AuditTargetTypeEnum.USER,
+            user.id,
+            previous && getPermissionOverrideResponse(previous),
+            getPermissionOverrideResponse(override)
+        );
+        res.json(getPermissionOverrideResponse(override));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function deletePermissionOverride(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const user = await getUserFromParams(req);
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 404));
+        }
+
+        const permissionId = parseInt(req.params.permissionId);
+        const override =
+            !isNaN(permissionId) &&
+            (await UserPermissionOverrideController.getOverride(user.id, permissionId));
+        if (!override) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.PermissionOverrideNotFound, 404)
+            );
+        }
+
+        await UserPermissionOverrideController.deleteOverride(user.id, permissionId);
+        await Audit.record(
+            req,
+            AuditActionEnum.USER_PERMISSION_OVERRIDE_DELETE,
+            AuditTargetTypeEnum.USER,
+            user.id,
+            getPermissionOverrideResponse(override),
+            null
+        );
+        res.status(204).end();
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+/**
+ * Retrieves a response body which explains the permissions of the user.
+ *
+ * @param userId a user identifier
+ * @returns a response body
+ */
+async function getEffectivePermissionsResponse(userId: number) {
+    const permissions = await UserController.getEffectivePermissionsFromUserId(userId);
+    return {
+        role: await UserController.getPermissionGroupFromUserId(userId),
+        permissions: permissions.map((permission) => ({
+            ...permission,
+            override: permission.override && getPermissionOverrideResponse(permission.override),
+        })),
+    };
+}
+
+async function getEffectivePermissions(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        // Not found a user, response unauthorized
+        if (!req["UserRequest"]) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Unauthorized, 401));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        res.json(await getEffectivePermissionsResponse(userRequest.id));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function getUserEffectivePermissions(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const user = await getUserFromParams(req);
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 404));
+        }
+        res.json(await getEffectivePermissionsResponse(user.id));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+/**
+ * Retrieves a permission which is required to issue or lift a sanction.
+ *
+ * @param type a type of the sanction
+ * @returns a permission identifier
+ */
+function getSanctionPermission(type: UserSanctionTypeEnum): PermissionEnum {
+    return type === UserSanctionTypeEnum.BAN ? PermissionEnum.USER_BAN : PermissionEnum.USER_MUTE;
+}
+
+/**
+ * Retrieves a response body of a sanction.
+ *
+ * @param sanction a sanction
+ * @returns a response body
+ */
+function getSanctionResponse(sanction: UserSanctionInterface) {
+    return { ...sanction, active: UserSanctionController.isActive(sanction) };
+}
+
+async function getActiveSanctions(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    try {
+        const type = req.query.type as UserSanctionTypeEnum;
+        if (
+            type !== undefined &&
+            type !== UserSanctionTypeEnum.BAN &&
+            type !== UserSanctionTypeEnum.MUTE
+        ) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidSanctionType, 400));
+        }
 
+        const sanctions = await UserSanctionController.getActiveSanctions(type);
+        res.json(sanctions.map(getSanctionResponse));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function getSanctions(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        const user = await getUserFromParams(req);
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 404));
+        }
+
+        const sanctions = await UserSanctionController.getSanctionsFromUserId(user.id);
+        res.json(sanctions.map(getSanctionResponse));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function createSanction(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        const user = await getUserFromParams(req);
+        if (!user) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.UserNotFound, 404));
+        }
+
+        const { type, reason, expiresAt } = req.body;
+        if (type !== UserSanctionTypeEnum.BAN && type !== UserSanctionTypeEnum.MUTE) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidSanctionType, 400));
+        }
+        if (
+            typeof reason !== "string" ||
+            reason.trim().length === 0 ||
+            reason.trim().length > 255
+        ) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.InvalidSanctionReason, 400));
+        }
+
+        // The sanction is permanent without an expiration
+        const expirationDate = parseExpiration(expiresAt);
+        if (expirationDate === undefined) {
+            return next(
+                new MiddlewareError(Locale.HttpResponseMessage.InvalidSanctionExpiration, 400)
+            );
+        }
+
+        // Bans and mutes are separate permissions
+        const userRequest: User = req["UserRequest"];
+        if (!(await userRequest.hasPermission(getSanctionPermission(type)))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+        }
+
+        // Moderators can not sanction the admins, nor themselves
+        const role = await UserController.getPermissionGroupFromUserId(user.id);
+        if (user.id === userRequest.id || (role && role.id === PermissionGroupEnum.ADMIN)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.SanctionProtected, 403));
+        }
+
+        const sanction = await UserSanctionController.createSanction(
+            user.id,
+            type,
+            reason.trim(),
+            expirationDate,
+            userRequest.id
+        );
+
+        // A banned user is signed out everywhere
+        if (type === UserSanctionTypeEnum.BAN) {
+            await UserSessionController.revokeAllSessionsFromUserId(user.id);
+        }
+        await Audit.record(
+            req,
+            AuditActionEnum.USER_SANCTION_CREATE,
+            AuditTargetTypeEnum.USER,
+            user.id,
+            null,
+            sanction
+        );
+        res.status(201).json(getSanctionResponse(sanction));
+    } catch (err) {
+        next(new MiddlewareError(err.message, 500));
+    }
+}
+
+async function liftSanction(req: express.Request, res: express.Response, next: express.NextFunction) {
+    try {
+        const sanction = await UserSanctionController.getSanction(parseInt(req.params.sanctionId));
+        if (!sanction || !UserSanctionController.isActive(sanction)) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.SanctionNotFound, 404));
+        }
+
+        const userRequest: User = req["UserRequest"];
+        if (!(await userRequest.hasPermission(getSanctionPermission(sanction.type)))) {
+            return next(new MiddlewareError(Locale.HttpResponseMessage.Forbidden, 403));
+        }
+
+        await UserSanctionController.liftSanction(sanction.id, userRequest.id);
+        await Audit.record(
+            req,
+            AuditActionEnum.USER_SANCTION_LIFT,
+            AuditTargetTypeEnum.USER,
+            sanction.userId,
+            sanction,
+            await UserSanctionController.getSanction(sanction.id)
+        );
         res.status(204).end();
     } catch (err) {
         next(new MiddlewareError(err.message, 500));
@@ -298,6 +1251,10 @@ async function getUserDetail(req, res, next) {
 export const UserFunction = {
     signUp,
     signIn,
+    refreshToken,
+    signOut,
+    getSessions,
+    revokeSession,
     getProfile,
     getUserFromId,
     getAllUsers,
@@ -305,4 +1262,26 @@ export const UserFunction = {
     updateUserPassword,
     setPermissionGroupUser,
     getUserDetail,
+    forgotPassword,
+    resetPassword,
+    verifyEmail,
+    resendEmailVerification,
+    signInTwoFactor,
+    getTwoFactorStatus,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    getApiKeys,
+    createApiKey,
+    revokeApiKey,
+    getPermissionOverrides,
+    setPermissionOverride,
+    deletePermissionOverride,
+    getEffectivePermissions,
+    getUserEffectivePermissions,
+    getActiveSanctions,
+    getSanctions,
+    createSanction,
+    liftSanction,
 };
@@ -0,0 +1,188 @@
+import AdmZip from "adm-zip";
+import path from "path";
+import zlib from "zlib";
+import { ChapterArchiveInterface, ComicInfoInterface } from "../interfaces/ChapterArchiveInterface";
+
+/**
+ * The extensions of the images which are imported from an archive.
+ */
+const ImageExtensions = [".jpg", ".jpeg", ".png", ".gif"];
+
+/**
+ * Retrieves the maximum size of a chapter archive, which applies to the
+ * uploaded archive and to its extracted content.
+ *
+ * @returns a size in bytes
+ */
+export function getMaxArchiveSize(): number {
+    return (parseInt(process.env.CHAPTER_ARCHIVE_MAX_SIZE) || 100) * 1024 * 1024;
+}
+
+/**
+ * Compares two file names in their natural order, e.g. page2.jpg before
+ * page10.jpg.
+ *
+ * @param a a file name
+ * @param b another file name
+ * @returns a negative number whether a comes first, a positive number whether
+ *  b comes first, 0 otherwise
+ */
+export function compareNaturally(a: string, b: string): number {
+    // The names which only differ by their case keep a stable order
+    return (
+        a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" }) ||
+        (a < b ? -1 : a > b ? 1 : 0)
+    );
+}
+
+/**
+ * Check whether an archive entry is a page of the chapter. Hidden files and
+ * the resource forks of macOS are ignored.
+ *
+ * @param entryName a path of the entry in the archive
+ * @returns true whether the entry is an image, false otherwise
+ */
+function isImageEntry(entryName: string): boolean {
+    const segments = entryName.split(/[\\/]/);
+    if (segments.some((segment) => segment.charAt(0) === "." || segment === "__MACOSX")) {
+        return false;
+    }
+    return ImageExtensions.indexOf(path.extname(entryName).toLowerCase()) !== -1;
+}
+
+/**
+ * Decodes the text of an XML element, with its entities and CDATA sections.
+ *
+ * @param text a raw text of the element
+ * @returns the decoded text
+ */
+function decodeXmlText(text: string): string {
+    return text
+        .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+        .map((part) =>
+            part.indexOf("<![CDATA[") === 0
+                ? part.slice(9, -3)
+                : part
+                      .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+                          String.fromCharCode(parseInt(code, 16))
+                      )
+                      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+                      .replace(/&lt;/g, "<")
+                      .replace(/&gt;/g, ">")
+                      .replace(/&quot;/g, '"')
+                      .replace(/&apos;/g, "'")
+                      .replace(/&amp;/g, "&")
+        )
+        .join("");
+}
+
+/**
+ * Parses the chapter metadata of a ComicInfo.xml file.
+ *
+ * @param xml a content of the file
+ * @returns the title, the number and the summary, the missing or empty ones
+ *  are undefined
+ */
+export function parseComicInfo(xml: string): ComicInfoInterface {
+    const getElement = (tagName: string) => {
+        const match = xml.match(new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`));
+        const text = match ? decodeXmlText(match[1]).trim() : "";
+        return text.length > 0 ? text : undefined;
+    };
+    return {
+        title: getElement("Title"),
+        number: getElement("Number"),
+        summary: getElement("Summary"),
+    };
+}
+
+/**
+ * The compression methods of the entries which are extracted.
+ */
+enum CompressionMethod {
+    STORED = 0,
+    DEFLATED = 8,
+}
+
+/**
+ * Extracts the content of an archive entry, without inflating more than a
+ * number of bytes whatever the declared size of the entry.
+ *
+ * @param entry an entry of the archive
+ * @param maxSize a maximum size of the content in bytes
+ * @returns the content, null whether it is larger or its compression method
+ *  is not supported
+ */
+function extractEntry(entry: AdmZip.IZipEntry, maxSize: number): Buffer {
+    const compressedData = entry.getCompressedData();
+    let data: Buffer;
+    switch (entry.header.method) {
+        case CompressionMethod.STORED:
+            data = compressedData;
+            break;
+        case CompressionMethod.DEFLATED:
+            try {
+                // zlib requires a positive limit
+                data = zlib.inflateRawSync(compressedData, {
+                    maxOutputLength: Math.max(maxSize, 1),
+                });
+            } catch (err) {
+                return null;
+            }
+            break;
+        default:
+            return null;
+    }
+    return data.length <= maxSize ? data : null;
+}
+
+/**
+ * Reads the images and the ComicInfo.xml file of a ZIP or CBZ archive.
+ *
+ * @param data a content of the archive
+ * @returns the images in their natural order with the metadata, null whether
+ *  the data is not an archive or its content is too large
+ */
+export function readChapterArchive(data: Buffer): ChapterArchiveInterface {
+    let entries: AdmZip.IZipEntry[];
+    try {
+        entries = new AdmZip(data).getEntries();
+    } catch (err) {
+        return null;
+    }
+
+    const files = entries.filter((entry) => !entry.isDirectory && !entry.header.encrypted);
+    // The declared sizes reject the large archives early, but they may lie
+    // so the extracted bytes are counted as well
+    const size = files.reduce((total, entry) => total + entry.header.size, 0);
+    if (size > getMaxArchiveSize()) {
+        return null;
+    }
+
+    let remainingSize = getMaxArchiveSize();
+    const extract = (entry: AdmZip.IZipEntry) => {
+        const data = extractEntry(entry, remainingSize);
+        if (data === null) {
+            throw new Error(`Unable to extract ${entry.entryName}`);
+        }
+        remainingSize -= data.length;
+        return data;
+    };
+    try {
+        const comicInfoEntry = files.find(
+            (entry) => path.basename(entry.entryName).toLowerCase() === "comicinfo.xml"
+        );
+        return {
+            images: files
+                .filter((entry) => isImageEntry(entry.entryName))
+                .sort((a, b) => compareNaturally(a.entryName, b.entryName))
+                .map((entry) => ({ name: entry.entryName, data: extract(entry) })),
+            comicInfo: comicInfoEntry
+                ? parseComicInfo(extract(comicInfoEntry).toString("utf8"))
+                : {},
+        };
+    } catch (err) {
+        // A corrupted entry, or a content larger than declared
+        return null;
+    }
+}
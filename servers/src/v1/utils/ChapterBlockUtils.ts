@@ -0,0 +1,90 @@
+import {
+    ComicChapterBlockOperationInterface,
+    ComicChapterBlockOperationTypeEnum,
+} from "../interfaces/ComicChapterBlockInterface";
+
+/**
+ * The maximum number of operations applied at once.
+ */
+export const MaxBlockOperations = 500;
+
+/**
+ * A block in the order of its chapter, the inserted blocks have no
+ * identifier until they are stored.
+ */
+export interface OrderedBlock {
+    id?: number;
+    content: string;
+}
+
+/**
+ * Check whether a value is a block operation type.
+ *
+ * @param type a value to check
+ * @returns true whether the value is a type, false otherwise
+ */
+export function isBlockOperationType(type: any): type is ComicChapterBlockOperationTypeEnum {
+    return Object.keys(ComicChapterBlockOperationTypeEnum).some(
+        (key) => ComicChapterBlockOperationTypeEnum[key] === type
+    );
+}
+
+/**
+ * Applies the operations one after another to the blocks of a chapter, a
+ * later operation sees the changes of the earlier ones.
+ *
+ * @param blocks the blocks of the chapter, in their order
+ * @param operations the operations to apply
+ * @returns the blocks in their new order, undefined whether an operation
+ *  refers to a missing block or an out of range position
+ */
+export function applyBlockOperations(
+    blocks: OrderedBlock[],
+    operations: ComicChapterBlockOperationInterface[]
+): OrderedBlock[] {
+    const result = [...blocks];
+    const findBlock = (blockId: number) =>
+        result.findIndex(({ id }) => id !== undefined && Number(id) === Number(blockId));
+
+    for (const { type, blockId, index, content } of operations) {
+        switch (type) {
+            case ComicChapterBlockOperationTypeEnum.INSERT: {
+                const position = index === undefined ? result.length : index;
+                if (position < 0 || position > result.length) {
+                    return undefined;
+                }
+                result.splice(position, 0, { content });
+                break;
+            }
+            case ComicChapterBlockOperationTypeEnum.MOVE: {
+                const current = findBlock(blockId);
+                if (current === -1 || index < 0 || index >= result.length) {
+                    return undefined;
+                }
+                const [block] = result.splice(current, 1);
+                result.splice(index, 0, block);
+                break;
+            }
+            case ComicChapterBlockOperationTypeEnum.REPLACE: {
+                const current = findBlock(blockId);
+                if (current === -1) {
+                    return undefined;
+                }
+                result[current] = { ...result[current], content };
+                break;
+            }
+            case ComicChapterBlockOperationTypeEnum.DELETE: {
+                const current = findBlock(blockId);
+                if (current === -1) {
+                    return undefined;
+                }
+                result.splice(current, 1);
+                break;
+            }
+            default: {
+                return undefined;
+            }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,56 @@
+/**
+ * The largest chapter index or volume number, stored as decimal(10, 3).
+ */
+export const MaxChapterIndex = 9999999;
+
+/**
+ * Rounds a number to the 3 decimals which are stored.
+ *
+ * @param value a number to round
+ * @returns the rounded number
+ */
+function roundIndex(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Parses a sortable index from a free-form chapter number, e.g. 10.5 from
+ * "10.5", 3 from "Vol.2 Ch.3" or 7 from "Episode 7".
+ *
+ * @param chapterNumber a chapter number
+ * @returns the index, null whether the chapter number contains no number
+ */
+export function parseChapterIndex(chapterNumber: string): number {
+    if (typeof chapterNumber !== "string") {
+        return null;
+    }
+    const match =
+        chapterNumber.match(/ch(?:apter|ap)?\.?\s*(\d+(?:\.\d+)?)/i) ||
+        chapterNumber.match(/(\d+(?:\.\d+)?)/);
+    if (!match) {
+        return null;
+    }
+    const index = roundIndex(parseFloat(match[1]));
+    return index <= MaxChapterIndex ? index : null;
+}
+
+/**
+ * Parses a chapter index or a volume number from a request body.
+ *
+ * @param value a number or a numeric string
+ * @returns the number, undefined whether the value is not a non-negative
+ *  number with at most 3 decimals
+ */
+export function parseIndex(value: any): number {
+    if (typeof value !== "number" && typeof value !== "string") {
+        return undefined;
+    }
+    if (typeof value === "string" && !/^\s*\d+(\.\d+)?\s*$/.test(value)) {
+        return undefined;
+    }
+    const index = Number(value);
+    if (!isFinite(index) || index < 0 || index > MaxChapterIndex || roundIndex(index) !== index) {
+        return undefined;
+    }
+    return index;
+}
@@ -1,6 +1,7 @@
 import knex, { Knex } from "knex";
 import { getCurrentConfiguration } from "../Configuration";
 import { Logger } from "./Logger";
+import { ForeignKeyInterface } from "../interfaces/ForeignKeyInterface";
 
 /**
  * Database builder structure to retrieve database queries.
@@ -11,26 +12,127 @@ console.log(
     JSON.stringify(getCurrentConfiguration().Database, null, 2)
 );
 
-const DatabaseBuilder = knex({
-  client: "mysql2",
-  connection: {
-    host: getCurrentConfiguration().Database.Host || "localhost",
-    port: parseInt(getCurrentConfiguration().Database.Port || "3306"),
-    user: getCurrentConfiguration().Database.Username || "root",
-    password: getCurrentConfiguration().Database.Password || "",
-    database: getCurrentConfiguration().Database.Database || "",
-  },
-  debug: getCurrentConfiguration().Database.EnableLogging || false,
-});
+/**
+ * Build the knex configuration of the current database client.
+ *
+ * @returns a knex configuration object
+ */
+function getKnexConfiguration(): Knex.Config {
+  const database = getCurrentConfiguration().Database;
+
+  // A file (or in-memory) database, no server required
+  if (database.Client === "sqlite") {
+    return {
+      client: "sqlite3",
+      connection: {
+        filename: database.Filename || ":memory:",
+      },
+      pool: {
+        // Sqlite only enforces foreign keys when enabled per connection
+        afterCreate: (connection, done) =>
+          connection.run("PRAGMA foreign_keys = ON", done),
+      },
+      useNullAsDefault: true,
+      debug: database.EnableLogging || false,
+    };
+  }
+
+  if (database.Client !== undefined && database.Client !== "mysql") {
+    throw new Error(`Unsupported database client: ${database.Client}`);
+  }
+
+  return {
+    client: "mysql2",
+    connection: {
+      host: database.Host || "localhost",
+      port: parseInt(database.Port || "3306"),
+      user: database.Username || "root",
+      password: database.Password || "",
+      database: database.Database || "",
+    },
+    debug: database.EnableLogging || false,
+  };
+}
+
+const DatabaseBuilder = knex(getKnexConfiguration());
 export default DatabaseBuilder;
 
+/**
+ * Check whether the builder is running on sqlite.
+ *
+ * @param builder a knex instance (or transaction) to check
+ * @returns true whether the client is sqlite, false otherwise
+ */
+export function isSqliteClient(builder: Knex = DatabaseBuilder): boolean {
+  return builder.client.config.client === "sqlite3";
+}
+
+/**
+ * Create a table whether it does not exist.
+ *
+ * @param tableName a name of the table to create
+ * @param callback a table builder callback
+ * @param builder a knex instance (or transaction) to run on
+ */
 export async function createTable(
   tableName: string,
-  callback: (table: Knex.CreateTableBuilder) => void
+  callback: (table: Knex.CreateTableBuilder) => void,
+  builder: Knex = DatabaseBuilder
 ) {
-  if (await DatabaseBuilder.schema.hasTable(tableName)) {
+  if (await builder.schema.hasTable(tableName)) {
     Logger.warn(`Table ${tableName} already exists.`);
     return;
   }
-  return DatabaseBuilder.schema.createTable(tableName, callback);
+  return builder.schema.createTable(tableName, callback);
+}
+
+/**
+ * Drop a column of a table. Knex rebuilds the whole table to drop a column on
+ * sqlite, which would cascade into (or be restricted by) the rows referencing
+ * the table, so the native statement is used instead.
+ *
+ * @param tableName a name of the table to alter
+ * @param column a name of the column to drop
+ * @param builder a knex instance (or transaction) to run on
+ */
+export async function dropColumn(
+  tableName: string,
+  column: string,
+  builder: Knex = DatabaseBuilder
+) {
+  if (isSqliteClient(builder)) {
+    return builder.raw(`ALTER TABLE ?? DROP COLUMN ??`, [tableName, column]);
+  }
+  return builder.schema.alterTable(tableName, (table) => {
+    table.dropColumn(column);
+  });
+}
+
+/**
+ * Add a nullable column which references another table. Knex rebuilds the
+ * whole table to add a foreign key on sqlite, for the same reason as
+ * dropColumn the native statement is used instead.
+ *
+ * @param key a foreign key of the new column
+ * @param builder a knex instance (or transaction) to run on
+ */
+export async function addForeignKeyColumn(
+  key: ForeignKeyInterface,
+  builder: Knex = DatabaseBuilder
+) {
+  if (isSqliteClient(builder)) {
+    return builder.raw(
+      `ALTER TABLE ?? ADD COLUMN ?? integer NULL REFERENCES ?? (??) ON DELETE ${key.onDelete}`,
+      [key.table, key.column, key.references, "id"]
+    );
+  }
+  return builder.schema.alterTable(key.table, (table) => {
+    table
+      .integer(key.column)
+      .unsigned()
+      .nullable()
+      .references("id")
+      .inTable(key.references)
+      .onDelete(key.onDelete);
+  });
 }
@@ -0,0 +1,260 @@
+import { ComicInterface } from "../interfaces/ComicInterface";
+import { ComicChapterInterface } from "../interfaces/ComicChapterInterface";
+import { ExportFormatEnum, ExportImageInterface } from "../interfaces/ExportInterface";
+import { sanitizeRichText } from "./RichTextUtils";
+
+/**
+ * The media types of the archives, by format.
+ */
+export const ExportMediaTypes = {
+    [ExportFormatEnum.CBZ]: "application/vnd.comicbook+zip",
+    [ExportFormatEnum.EPUB]: "application/epub+zip",
+};
+
+/**
+ * Check whether a value is an export format.
+ *
+ * @param format a value to check
+ * @returns true whether the value is a format, false otherwise
+ */
+export function isExportFormat(format: any): format is ExportFormatEnum {
+    return Object.keys(ExportFormatEnum).some((key) => ExportFormatEnum[key] === format);
+}
+
+/**
+ * Escapes a text to be written into an XML document.
+ *
+ * @param text a text to escape
+ * @returns the escaped text
+ */
+export function escapeXml(text: any): string {
+    return String(text === null || text === undefined ? "" : text)
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Retrieves the type of an image from its content, the processed images are
+ * stored as JPEG whatever their extensions are.
+ *
+ * @param data a content of the image
+ * @returns the media type and the file extension, null whether the content
+ *  is not a JPEG, PNG or GIF image
+ */
+export function getImageType(data: Buffer): { mediaType: string; extension: string } {
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return { mediaType: "image/jpeg", extension: ".jpg" };
+    }
+    if (data.length >= 4 && data.readUInt32BE(0) === 0x89504e47) {
+        return { mediaType: "image/png", extension: ".png" };
+    }
+    if (data.length >= 3 && data.toString("ascii", 0, 3) === "GIF") {
+        return { mediaType: "image/gif", extension: ".gif" };
+    }
+    return null;
+}
+
+/**
+ * Pads a position of a page or a chapter, so that the archive entries are
+ * sorted in the reading order.
+ *
+ * @param position a position from 1
+ * @param count the number of positions
+ * @returns the padded position, e.g. 007 for 7 of 120
+ */
+export function padPosition(position: number, count: number): string {
+    const length = Math.max(3, String(count).length);
+    let padded = String(position);
+    while (padded.length < length) {
+        padded = `0${padded}`;
+    }
+    return padded;
+}
+
+/**
+ * Builds the ComicInfo.xml file of a CBZ archive.
+ *
+ * @param comic a comic to export
+ * @param tags the keywords of the comic tags
+ * @param chapter an exported chapter, undefined whether the whole comic is
+ *  exported
+ * @param pageCount the number of images in the archive
+ * @returns the content of the file
+ */
+export function buildComicInfo(
+    comic: ComicInterface,
+    tags: string[],
+    chapter: ComicChapterInterface,
+    pageCount: number
+): string {
+    const elements: Array<[string, any]> = [
+        ["Series", comic.name],
+        ["Title", chapter?.name],
+        ["Number", chapter?.chapterNumber],
+        ["Summary", chapter?.summary || comic.description],
+        ["Writer", comic.author],
+        ["Genre", comic.category],
+        ["Tags", tags.join(",")],
+        ["PageCount", pageCount],
+    ];
+    return [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">`,
+        ...elements
+            .filter(([, value]) => value !== undefined && value !== null && value !== "")
+            .map(([name, value]) => `  <${name}>${escapeXml(value)}</${name}>`),
+        `</ComicInfo>`,
+    ].join("\n");
+}
+
+/**
+ * Builds a XHTML page of an EPUB book.
+ *
+ * @param title a title of the page
+ * @param body a content of the body, already escaped
+ * @returns the content of the page
+ */
+function buildXhtml(title: string, body: string): string {
+    return [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<!DOCTYPE html>`,
+        `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">`,
+        `<head><title>${escapeXml(title)}</title></head>`,
+        `<body>`,
+        body,
+        `</body>`,
+        `</html>`,
+    ].join("\n");
+}
+
+/**
+ * Builds the XHTML page of a text chapter. The blocks are sanitized again,
+ * which also makes the HTML of older blocks well-formed.
+ *
+ * @param chapter a chapter with its blocks
+ * @returns the content of the page
+ */
+export function buildTextChapterXhtml(chapter: ComicChapterInterface & { blocks?: any[] }): string {
+    const contents = (chapter.blocks || []).map(({ content }) => sanitizeRichText(content));
+    return buildXhtml(
+        chapter.name,
+        [`<h1>${escapeXml(chapter.name)}</h1>`, ...contents].join("\n")
+    );
+}
+
+/**
+ * Builds the XHTML page of an image chapter.
+ *
+ * @param chapter a chapter
+ * @param imagePaths the paths of the images, relative to the page
+ * @returns the content of the page
+ */
+export function buildImageChapterXhtml(
+    chapter: ComicChapterInterface,
+    imagePaths: string[]
+): string {
+    const images = imagePaths.map(
+        (imagePath, index) =>
+            `<div><img src="${escapeXml(imagePath)}" alt="${escapeXml(
+                `${chapter.name} ${index + 1}`
+            )}"/></div>`
+    );
+    return buildXhtml(chapter.name, [`<h1>${escapeXml(chapter.name)}</h1>`, ...images].join("\n"));
+}
+
+/**
+ * The container.xml file of an EPUB book, which refers to its package.
+ */
+export const EpubContainer = [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">`,
+    `  <rootfiles>`,
+    `    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>`,
+    `  </rootfiles>`,
+    `</container>`,
+].join("\n");
+
+/**
+ * Builds the navigation page of an EPUB book.
+ *
+ * @param title a title of the book
+ * @param pages the pages of the chapters, with their titles
+ * @returns the content of the page
+ */
+export function buildEpubNav(title: string, pages: Array<{ href: string; title: string }>): string {
+    return buildXhtml(
+        title,
+        [
+            `<nav epub:type="toc" id="toc">`,
+            `<h1>${escapeXml(title)}</h1>`,
+            `<ol>`,
+            ...pages.map(
+                ({ href, title }) => `<li><a href="${escapeXml(href)}">${escapeXml(title)}</a></li>`
+            ),
+            `</ol>`,
+            `</nav>`,
+        ].join("\n")
+    );
+}
+
+/**
+ * Builds the package document of an EPUB book, with the metadata of the
+ * comic and the manifest of the pages and the images.
+ *
+ * @param comic a comic to export
+ * @param tags the keywords of the comic tags
+ * @param chapter an exported chapter, undefined whether the whole comic is
+ *  exported
+ * @param pages the pages of the chapters, in the reading order
+ * @param images the images of the chapters
+ * @returns the content of the package document
+ */
+export function buildEpubPackage(
+    comic: ComicInterface,
+    tags: string[],
+    chapter: ComicChapterInterface,
+    pages: Array<{ href: string; title: string }>,
+    images: ExportImageInterface[]
+): string {
+    const title = chapter ? `${comic.name} - ${chapter.name}` : comic.name;
+    const identifier = chapter
+        ? `urn:comics-paper:comic:${comic.id}:chapter:${chapter.id}`
+        : `urn:comics-paper:comic:${comic.id}`;
+    // EPUB requires the modification time without milliseconds
+    const modified = new Date(comic.updatedAt).toISOString().replace(/\.\d{3}Z$/, "Z");
+    return [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">`,
+        `  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+        `    <dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+        `    <dc:title>${escapeXml(title)}</dc:title>`,
+        `    <dc:language>und</dc:language>`,
+        `    <dc:creator>${escapeXml(comic.author)}</dc:creator>`,
+        `    <dc:description>${escapeXml(chapter?.summary || comic.description)}</dc:description>`,
+        ...tags.map((tag) => `    <dc:subject>${escapeXml(tag)}</dc:subject>`),
+        `    <meta property="dcterms:modified">${modified}</meta>`,
+        `  </metadata>`,
+        `  <manifest>`,
+        `    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+        ...pages.map(
+            ({ href }, index) =>
+                `    <item id="page-${index + 1}" href="${escapeXml(
+                    href
+                )}" media-type="application/xhtml+xml"/>`
+        ),
+        ...images.map(
+            ({ name, mediaType }, index) =>
+                `    <item id="image-${index + 1}" href="${escapeXml(
+                    name
+                )}" media-type="${mediaType}"/>`
+        ),
+        `  </manifest>`,
+        `  <spine>`,
+        ...pages.map((_page, index) => `    <itemref idref="page-${index + 1}"/>`),
+        `  </spine>`,
+        `</package>`,
+    ].join("\n");
+}
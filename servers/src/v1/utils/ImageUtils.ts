@@ -1,4 +1,6 @@
 import jimp from "jimp";
+import sharp from "sharp";
+import { ImageFormatEnum } from "../interfaces/ResourceDerivativeInterface";
 
 /**
  * Process and then retrieve output buffer.
@@ -25,11 +27,59 @@ async function isImageType(file: Express.Multer.File) {
   );
 }
 
+/**
+ * Resize an image down to a maximum width, keeping its aspect ratio, and
+ * encode it into the given format. Smaller images are never enlarged.
+ *
+ * @param data an input data object.
+ * @param format a format to encode into.
+ * @param maxWidth a maximum width, or null to keep the dimensions.
+ * @returns the encoded image and its dimensions.
+ */
+async function resizeImage(
+  data: Buffer,
+  format: ImageFormatEnum,
+  maxWidth: number | null
+): Promise<{ data: Buffer; width: number; height: number }> {
+  let image = sharp(data);
+  if (maxWidth) {
+    image = image.resize({ width: maxWidth, withoutEnlargement: true });
+  }
+  image =
+    format === ImageFormatEnum.WEBP
+      ? image.webp({ quality: parseInt(process.env.IMAGE_WEBP_QUALITY) || 75 })
+      : image.jpeg({
+          quality: parseInt(process.env.IMAGE_DOWNSCALE_QUALITY) || 60,
+        });
+  const output = await image.toBuffer({ resolveWithObject: true });
+  return {
+    data: output.data,
+    width: output.info.width,
+    height: output.info.height,
+  };
+}
+
+/**
+ * Retrieves the limits of an image upload request.
+ *
+ * @returns the maximum size of each image in bytes and the maximum number
+ *  of images.
+ */
+function getUploadLimits(): { fileSize: number; files: number } {
+  return {
+    fileSize:
+      (parseInt(process.env.RESOURCE_UPLOAD_MAX_SIZE) || 10) * 1024 * 1024,
+    files: parseInt(process.env.RESOURCE_UPLOAD_MAX_FILES) || 10,
+  };
+}
+
 /**
  * Export this class
  */
 const ImageUtils = {
   processImage,
   isImageType,
+  resizeImage,
+  getUploadLimits,
 };
 export default ImageUtils;
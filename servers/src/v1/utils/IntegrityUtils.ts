@@ -0,0 +1,31 @@
+import { Knex } from "knex";
+import { ForeignKeyInterface } from "../interfaces/ForeignKeyInterface";
+import DatabaseBuilder from "./DatabaseBuilder";
+
+/**
+ * Build a query which selects rows referencing a missing row (orphans).
+ *
+ * @param key a foreign key to check
+ * @param builder a knex instance (or transaction) to run on
+ * @returns a query of the orphan rows
+ */
+export function getOrphansQuery(key: ForeignKeyInterface, builder: Knex = DatabaseBuilder) {
+    return builder(key.table)
+        .whereNotNull(key.column)
+        .whereNotIn(key.column, builder(key.references).select("id"));
+}
+
+/**
+ * Count the rows referencing a missing row.
+ *
+ * @param key a foreign key to check
+ * @param builder a knex instance (or transaction) to run on
+ * @returns a number of orphan rows
+ */
+export async function countOrphans(
+    key: ForeignKeyInterface,
+    builder: Knex = DatabaseBuilder
+): Promise<number> {
+    const response = await getOrphansQuery(key, builder).count({ count: "*" }).first();
+    return Number(response.count);
+}
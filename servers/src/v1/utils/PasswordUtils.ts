@@ -23,8 +23,26 @@ function compare(password: string, hash: string): boolean {
   return bcryptjs.compareSync(password, hash);
 }
 
+let dummyHash: string = null;
+
+/**
+ * Spend as much time as comparing a password, so that a missing
+ * user can not be told apart from a wrong password by timing.
+ *
+ * @param password a string to compare
+ * @returns always false
+ */
+function compareDummy(password: string): boolean {
+  if (dummyHash === null) {
+    dummyHash = hash("dummy password");
+  }
+  bcryptjs.compareSync(password, dummyHash);
+  return false;
+}
+
 const PasswordUtils = {
   hash,
   compare,
+  compareDummy,
 };
 export default PasswordUtils;
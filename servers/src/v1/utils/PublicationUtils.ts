@@ -0,0 +1,83 @@
+import { Knex } from "knex";
+import { PublicationInterface, PublicationStatusEnum } from "../interfaces/PublicationInterface";
+
+/**
+ * Check whether the value is a publication status.
+ *
+ * @param status a value to check
+ * @returns true whether the value is a publication status, false otherwise
+ */
+export function isPublicationStatus(status: any): boolean {
+    return Object.keys(PublicationStatusEnum).some((key) => PublicationStatusEnum[key] === status);
+}
+
+/**
+ * Check whether a content is visible to the public, i.e. it is published
+ * or its scheduled release time has come. Contents which have not been
+ * released by the scheduler yet are considered as published.
+ *
+ * @param content a comic or a chapter, sqlite returns the dates as numbers
+ * @returns true whether the content is public, false otherwise
+ */
+export function isPublic(content: Partial<PublicationInterface>): boolean {
+    if (content.status === PublicationStatusEnum.PUBLISHED) {
+        return true;
+    }
+    return (
+        content.status === PublicationStatusEnum.SCHEDULED &&
+        !!content.publishAt &&
+        new Date(content.publishAt).getTime() <= Date.now()
+    );
+}
+
+/**
+ * Restricts the query to the public contents, the same as isPublic.
+ *
+ * @param query a query of comics or chapters
+ * @param alias an alias of the table, e.g. t1
+ * @returns the query
+ */
+export function wherePublic<T extends Knex.QueryBuilder>(query: T, alias?: string): T {
+    const prefix = alias ? `${alias}.` : "";
+    return query.where((builder) =>
+        builder
+            .where(`${prefix}status`, PublicationStatusEnum.PUBLISHED)
+            .orWhere((scheduled) =>
+                scheduled
+                    .where(`${prefix}status`, PublicationStatusEnum.SCHEDULED)
+                    .where(`${prefix}publishAt`, "<=", new Date())
+            )
+    ) as T;
+}
+
+/**
+ * Retrieves the publication fields to store for a new status. Published
+ * contents keep their release time, drafts have none.
+ *
+ * @param status a new status
+ * @param publishAt a release time of a scheduled content
+ * @param current current publication fields of the content, if any
+ * @returns the publication fields
+ */
+export function getPublication(
+    status: PublicationStatusEnum,
+    publishAt?: Date,
+    current?: Partial<PublicationInterface>
+): PublicationInterface {
+    switch (status) {
+        case PublicationStatusEnum.SCHEDULED:
+            return { status, publishAt };
+        case PublicationStatusEnum.DRAFT:
+            return { status, publishAt: null };
+        case PublicationStatusEnum.HIDDEN:
+            return { status, publishAt: current ? current.publishAt : null };
+        default:
+            return {
+                status: PublicationStatusEnum.PUBLISHED,
+                publishAt:
+                    current && current.publishAt && isPublic(current)
+                        ? current.publishAt
+                        : new Date(),
+            };
+    }
+}
@@ -0,0 +1,96 @@
+import {
+    ComicChapterBlockChangeEnum,
+    ComicChapterBlockDiffInterface,
+    ComicChapterFieldDiffInterface,
+    ComicChapterRevisionBlockInterface,
+    ComicChapterRevisionInterface,
+} from "../interfaces/ComicChapterRevisionInterface";
+
+/**
+ * The metadata fields of a chapter which are recorded in its revisions.
+ */
+export const RevisionFields = ["name", "chapterNumber", "chapterIndex", "volumeId", "viewType"];
+
+/**
+ * Compares the metadata of two revisions.
+ *
+ * @param from an older revision
+ * @param to a newer revision
+ * @returns the changed fields
+ */
+export function diffRevisionFields(
+    from: ComicChapterRevisionInterface,
+    to: ComicChapterRevisionInterface
+): ComicChapterFieldDiffInterface[] {
+    return RevisionFields.filter((field) => String(from[field]) !== String(to[field])).map(
+        (field) => ({ field, from: from[field], to: to[field] })
+    );
+}
+
+/**
+ * Compares the blocks of two revisions by their contents, so that a moved
+ * page is a removed block and an added one. The unchanged blocks are the
+ * longest common subsequence of both revisions.
+ *
+ * @param from the blocks of an older revision
+ * @param to the blocks of a newer revision
+ * @returns the changes, in the order of the newer revision
+ */
+export function diffRevisionBlocks(
+    from: ComicChapterRevisionBlockInterface[],
+    to: ComicChapterRevisionBlockInterface[]
+): ComicChapterBlockDiffInterface[] {
+    const fromContents = [...from].sort((a, b) => a.index - b.index).map(({ content }) => content);
+    const toContents = [...to].sort((a, b) => a.index - b.index).map(({ content }) => content);
+
+    // lengths[i][j] is the common length of fromContents[i..] and toContents[j..]
+    const lengths: number[][] = [];
+    for (let i = fromContents.length; i >= 0; i--) {
+        lengths[i] = [];
+        for (let j = toContents.length; j >= 0; j--) {
+            if (i === fromContents.length || j === toContents.length) {
+                lengths[i][j] = 0;
+            } else if (fromContents[i] === toContents[j]) {
+                lengths[i][j] = lengths[i + 1][j + 1] + 1;
+            } else {
+                lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+    }
+
+    const changes: ComicChapterBlockDiffInterface[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < fromContents.length || j < toContents.length) {
+        if (i < fromContents.length && j < toContents.length && fromContents[i] === toContents[j]) {
+            changes.push({
+                type: ComicChapterBlockChangeEnum.UNCHANGED,
+                fromIndex: i,
+                toIndex: j,
+                content: toContents[j],
+            });
+            i++;
+            j++;
+        } else if (
+            i < fromContents.length &&
+            (j === toContents.length || lengths[i + 1][j] >= lengths[i][j + 1])
+        ) {
+            changes.push({
+                type: ComicChapterBlockChangeEnum.REMOVED,
+                fromIndex: i,
+                toIndex: null,
+                content: fromContents[i],
+            });
+            i++;
+        } else {
+            changes.push({
+                type: ComicChapterBlockChangeEnum.ADDED,
+                fromIndex: null,
+                toIndex: j,
+                content: toContents[j],
+            });
+            j++;
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,116 @@
+import MarkdownIt from "markdown-it";
+import sanitizeHtml from "sanitize-html";
+import { RichTextFormatEnum, RichTextStatisticsInterface } from "../interfaces/RichTextInterface";
+
+/**
+ * The average number of words read in a minute.
+ */
+export const ReadingWordsPerMinute = 200;
+
+/**
+ * The tags and attributes which are kept in the text chapters, anything
+ * else (scripts, styles, event handlers, iframes...) is removed.
+ */
+const RichTextOptions: sanitizeHtml.IOptions = {
+    allowedTags: [
+        "a",
+        "b",
+        "blockquote",
+        "br",
+        "code",
+        "del",
+        "em",
+        "h1",
+        "h2",
+        "h3",
+        "h4",
+        "h5",
+        "h6",
+        "hr",
+        "i",
+        "img",
+        "li",
+        "ol",
+        "p",
+        "pre",
+        "s",
+        "strong",
+        "sub",
+        "sup",
+        "u",
+        "ul",
+    ],
+    allowedAttributes: {
+        a: ["href", "title", "rel"],
+        img: ["src", "alt", "title"],
+    },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowedSchemesByTag: { img: ["http", "https"] },
+    allowProtocolRelative: false,
+    transformTags: {
+        a: sanitizeHtml.simpleTransform("a", { rel: "nofollow noopener noreferrer" }),
+    },
+};
+
+const markdown = new MarkdownIt({ html: false, linkify: true });
+
+/**
+ * Check whether a value is a rich text format.
+ *
+ * @param format a value to check
+ * @returns true whether the value is a format, false otherwise
+ */
+export function isRichTextFormat(format: any): format is RichTextFormatEnum {
+    return Object.keys(RichTextFormatEnum).some((key) => RichTextFormatEnum[key] === format);
+}
+
+/**
+ * Removes the tags and the attributes which are not allowed in a text
+ * chapter. The result is also well-formed XHTML, e.g. `<br />`.
+ *
+ * @param html a content to sanitize
+ * @returns the sanitized content
+ */
+export function sanitizeRichText(html: string): string {
+    return sanitizeHtml(html === null || html === undefined ? "" : String(html), RichTextOptions);
+}
+
+/**
+ * Converts a content of a text chapter into sanitized HTML.
+ *
+ * @param content a content in the given format
+ * @param format a format of the content
+ * @returns the sanitized HTML
+ */
+export function renderRichText(content: string, format: RichTextFormatEnum): string {
+    return sanitizeRichText(
+        format === RichTextFormatEnum.MARKDOWN ? markdown.render(String(content ?? "")) : content
+    );
+}
+
+/**
+ * Counts the words of a sanitized HTML content.
+ *
+ * @param html a sanitized content
+ * @returns the number of words
+ */
+export function countWords(html: string): number {
+    const text = String(html ?? "")
+        .replace(/<[^>]*>/g, " ")
+        .replace(/&[#\w]+;/g, " ");
+    return (text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || []).length;
+}
+
+/**
+ * Retrieves the statistics of the contents of a text chapter.
+ *
+ * @param contents the sanitized contents of the blocks
+ * @returns the word count and the reading time, rounded up to a minute
+ */
+export function getRichTextStatistics(contents: string[]): RichTextStatisticsInterface {
+    const wordCount = contents.reduce((total, content) => total + countWords(content), 0);
+    return {
+        wordCount,
+        readingTime: Math.ceil(wordCount / ReadingWordsPerMinute),
+    };
+}
@@ -1,5 +1,11 @@
 import { TokenResponse } from "./../classes/TokenResponse";
 import * as jwt from "jsonwebtoken";
+import * as crypto from "crypto";
+
+/**
+ * Default lifetime of a refresh token, in days.
+ */
+const DefaultRefreshTokenExpirationDays = 30;
 
 /**
  * Generate a token from any data from parameter.
@@ -12,3 +18,66 @@ export async function generateToken(baredData: any): Promise<TokenResponse> {
   });
   return new TokenResponse(token);
 }
+
+/**
+ * Generate an opaque token, e.g. a refresh token or a password reset token.
+ * @returns a random hex string
+ */
+export function generateRandomToken(): string {
+  return crypto.randomBytes(48).toString("hex");
+}
+
+/**
+ * Hash an opaque token to store it, the token itself is never stored.
+ * @param token a token to hash
+ * @returns a sha256 hex digest
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Retrieves an expiration date of a refresh token which is issued now.
+ * The lifetime is configured by REFRESH_TOKEN_EXPIRATION_DAYS.
+ * @returns an expiration date
+ */
+export function getRefreshTokenExpirationDate(): Date {
+  const days =
+    parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS) ||
+    DefaultRefreshTokenExpirationDays;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * A purpose of the token issued between the password and the
+ * two-factor steps of the sign in.
+ */
+const TwoFactorTokenPurpose = "two_factor";
+
+/**
+ * Generate a short-lived token proving that the user has passed
+ * the password step of the sign in.
+ * @param userId a user identifier
+ * @returns a token
+ */
+export function generateTwoFactorToken(userId: number): string {
+  return jwt.sign(
+    { id: userId, purpose: TwoFactorTokenPurpose },
+    process.env.JWT_SECRET,
+    { expiresIn: "5m" }
+  );
+}
+
+/**
+ * Verify a token issued by generateTwoFactorToken.
+ * @param token a token to verify
+ * @returns a user identifier, null whether the token is invalid or expired
+ */
+export function verifyTwoFactorToken(token: string): number {
+  try {
+    const data: any = jwt.verify(token, process.env.JWT_SECRET);
+    return data.purpose === TwoFactorTokenPurpose ? data.id : null;
+  } catch (err) {
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+import * as crypto from "crypto";
+
+/**
+ * RFC 4648 base32 alphabet, used by authenticator applications.
+ */
+const Base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * A duration of a time step, in seconds.
+ */
+export const TotpStepSeconds = 30;
+
+/**
+ * A number of digits of a code.
+ */
+const TotpDigits = 6;
+
+/**
+ * Encode bytes into base32, without padding.
+ *
+ * @param buffer bytes to encode
+ * @returns a base32 string
+ */
+function encodeBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+    for (let i = 0; i < buffer.length; i++) {
+        value = (value << 8) | buffer[i];
+        bits += 8;
+        while (bits >= 5) {
+            output += Base32Alphabet[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += Base32Alphabet[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+/**
+ * Decode a base32 string, spaces and padding are ignored.
+ *
+ * @param input a base32 string
+ * @returns decoded bytes
+ */
+function decodeBase32(input: string): Buffer {
+    const characters = input.toUpperCase().replace(/[\s=]/g, "");
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+    for (let i = 0; i < characters.length; i++) {
+        const index = Base32Alphabet.indexOf(characters[i]);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${characters[i]}`);
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            output.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(output);
+}
+
+/**
+ * Generate a new secret for an authenticator application.
+ *
+ * @returns a base32 secret
+ */
+export function generateTotpSecret(): string {
+    return encodeBase32(crypto.randomBytes(20));
+}
+
+/**
+ * Retrieves the time step of a time.
+ *
+ * @param time a time in milliseconds, now by default
+ * @returns a time step
+ */
+export function getTotpStep(time: number = Date.now()): number {
+    return Math.floor(time / 1000 / TotpStepSeconds);
+}
+
+/**
+ * Generate the code of a time step (RFC 6238, HMAC-SHA1).
+ *
+ * @param secret a base32 secret
+ * @param step a time step
+ * @returns a code of 6 digits
+ */
+export function generateTotpCode(secret: string, step: number = getTotpStep()): string {
+    // 8 bytes big-endian counter
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+    counter.writeUInt32BE(step % 2 ** 32, 4);
+    const hmac = crypto.createHmac("sha1", decodeBase32(secret)).update(counter).digest();
+
+    // Dynamic truncation
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TotpDigits).toString().padStart(TotpDigits, "0");
+}
+
+/**
+ * Find the time step of a code, accepting the adjacent steps to
+ * tolerate clock drift.
+ *
+ * @param secret a base32 secret
+ * @param code a code to verify
+ * @param window a number of adjacent steps to accept
+ * @returns the matched time step, null whether the code is invalid
+ */
+export function verifyTotpCode(secret: string, code: string, window: number = 1): number {
+    const normalizedCode = `${code}`.replace(/\s/g, "");
+    if (!/^\d{6}$/.test(normalizedCode)) {
+        return null;
+    }
+    const currentStep = getTotpStep();
+    for (let step = currentStep - window; step <= currentStep + window; step++) {
+        const expected = generateTotpCode(secret, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalizedCode))) {
+            return step;
+        }
+    }
+    return null;
+}
+
+/**
+ * Build an otpauth URI, which authenticator applications import from a QR code.
+ *
+ * @param secret a base32 secret
+ * @param accountName a name of the account, e.g. the username
+ * @param issuer a name of the service
+ * @returns an otpauth URI
+ */
+export function getOtpauthUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const parameters = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: `${TotpDigits}`,
+        period: `${TotpStepSeconds}`,
+    });
+    return `otpauth://totp/${label}?${parameters.toString()}`;
+}
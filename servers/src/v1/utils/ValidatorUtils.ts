@@ -69,3 +69,25 @@ export function isValidPassword(str: string): boolean {
 
   return true;
 }
+
+/**
+ * Parses an integer from the query, falls back and clamps it into the range.
+ *
+ * @param value a value of the query string
+ * @param fallback a value whether the value is not an integer
+ * @param min a minimum value
+ * @param max a maximum value
+ * @returns the integer
+ */
+export function parseQueryInteger(
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number = Number.MAX_SAFE_INTEGER
+): number {
+  const parsed = parseInt(value as string);
+  if (isNaN(parsed)) {
+    return fallback;
+  }
+  return Math.min(Math.max(parsed, min), max);
+}